@@ -10,6 +10,7 @@ const LAYER_ORDER = [
     'commands',
     'ui',
     'extension',
+    'cli',
 ];
 
 export function getModuleLayer(modulePath: string): string {
@@ -39,6 +40,9 @@ export function getModuleLayer(modulePath: string): string {
     if (normalized.includes('constants/') || normalized.startsWith('constants\\')) {
         return 'constants';
     }
+    if (normalized.includes('cli/') || normalized.startsWith('cli\\')) {
+        return 'cli';
+    }
     if (normalized.includes('extension.ts') || normalized === 'extension.ts') {
         return 'extension';
     }
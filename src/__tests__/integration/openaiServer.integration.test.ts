@@ -0,0 +1,467 @@
+/**
+ * Workflow integration tests against a local stand-in for the OpenAI API
+ *
+ * The commit and pull request workflows run unchanged, talking to
+ * {@link FakeOpenAIServer} over HTTP through `setOpenAIBaseUrlOverride`, so
+ * the HTTP transport, retry policy and response parsing are exercised. Git,
+ * GitHub and the VS Code UI are replaced by in-memory stand-ins.
+ *
+ * Requires the VS Code test host: run with `npm test`.
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { chooseCommitMessageCandidate } from '../../commands/commit.candidates';
+import { runCommitGenerationWorkflow } from '../../commands/commit.workflow';
+import { runPRGenerationWorkflow } from '../../commands/pr.workflow';
+import type { ConfigManager } from '../../infrastructure/config/ConfigManager';
+import { Logger } from '../../infrastructure/logging/Logger';
+import { BranchSelector } from '../../services/branch';
+import { GitService, GitServiceFactory } from '../../services/git';
+import { GitHubService, GitHubServiceFactory } from '../../services/github';
+import { OpenAIServiceFactory } from '../../services/openaiFactory';
+import { setOpenAIBaseUrlOverride } from '../../services/openaiInitialize';
+import { OpenAIService } from '../../services/openaiService';
+import { ResponseCache } from '../../services/responseCache';
+import { t } from '../../i18n/index.js';
+import { FakeOpenAIServer } from '../../test/mocks/fakeOpenAIServer';
+import type { PullRequestParams } from '../../types';
+import { isUserAbortError } from '../../utils/errorGuards';
+
+const PATCH = `@@ -1,3 +1,4 @@
+ export function parse(input: string) {
++    if (!input) return [];
+     return input.split(',');
+ }`;
+
+const DIFF = `diff --git a/src/parser.ts b/src/parser.ts
+index 1111111..2222222 100644
+--- a/src/parser.ts
++++ b/src/parser.ts
+${PATCH}
+`;
+
+/** Asks for an immediate retry instead of the backoff delay */
+const RETRY_NOW = { 'retry-after-ms': '1' };
+
+const withProgress = <T>(_title: string, task: () => Promise<T>): Promise<T> => task();
+
+suite('Workflows against a fake OpenAI server', () => {
+    const server = new FakeOpenAIServer();
+    const restores: Array<() => void> = [];
+    let baseUrl: string;
+    let errors: string[];
+
+    function stub<T extends object, K extends keyof T>(target: T, key: K, value: unknown): void {
+        const original = target[key];
+        target[key] = value as T[K];
+        restores.push(() => {
+            target[key] = original;
+        });
+    }
+
+    function createConfig(overrides: Record<string, unknown> = {}): Pick<ConfigManager, 'get'> {
+        const values: Record<string, unknown> = {
+            language: 'english',
+            messageStyle: 'normal',
+            streamOutput: false,
+            lintCommitMessages: false,
+            appendCommitTrailer: false,
+            ...overrides,
+        };
+        return { get: ((key: string) => values[key]) as ConfigManager['get'] };
+    }
+
+    const initializeOpenAI = () =>
+        OpenAIServiceFactory.initialize({
+            provider: 'openai',
+            openaiApiKey: 'sk-fake-integration',
+            model: 'gpt-fake',
+        });
+
+    suiteSetup(async () => {
+        baseUrl = await server.start();
+        setOpenAIBaseUrlOverride(baseUrl);
+    });
+
+    suiteTeardown(async () => {
+        setOpenAIBaseUrlOverride(undefined);
+        await server.close();
+    });
+
+    setup(() => {
+        server.reset();
+        errors = [];
+        const record = async (message: string) => {
+            errors.push(message);
+            return undefined;
+        };
+        stub(vscode.window, 'showErrorMessage', record);
+        stub(vscode.window, 'showWarningMessage', async () => undefined);
+        stub(vscode.window, 'showInformationMessage', async () => undefined);
+        stub(
+            vscode.window,
+            'withProgress',
+            (_options: unknown, task: (progress: unknown, token: unknown) => Promise<unknown>) =>
+                task({ report: () => undefined }, new vscode.CancellationTokenSource().token),
+        );
+        stub(
+            GitServiceFactory,
+            'initialize',
+            async () =>
+                ({
+                    getRawDiff: async () => DIFF,
+                    getRootPath: async () => os.tmpdir(),
+                    findTemplates: async () => ({}),
+                    findCommitLintConfig: async () => undefined,
+                    findClassificationRules: async () => [],
+                    findSecretAllowlist: async () => new Set<string>(),
+                }) as unknown as GitService,
+        );
+    });
+
+    teardown(() => {
+        while (restores.length > 0) {
+            restores.pop()!();
+        }
+    });
+
+    suite('runCommitGenerationWorkflow', () => {
+        let inputBox: { value: string };
+
+        setup(() => {
+            inputBox = { value: 'draft' };
+            const repository = { inputBox, state: {}, getConfig: async () => undefined };
+            stub(vscode.extensions, 'getExtension', () => ({
+                isActive: true,
+                exports: { getAPI: () => ({ repositories: [repository] }) },
+                activate: async () => ({ getAPI: () => ({ repositories: [repository] }) }),
+            }));
+        });
+
+        const run = (overrides: Record<string, unknown> = {}, signal?: AbortSignal) =>
+            runCommitGenerationWorkflow({
+                context: {
+                    globalState: {
+                        get: () => undefined,
+                        update: async () => undefined,
+                        keys: () => [],
+                    } as unknown as vscode.ExtensionContext['globalState'],
+                },
+                config: createConfig(overrides),
+                logger: Logger.getInstance(),
+                signal,
+                initializeOpenAI,
+                withProgress,
+            });
+
+        test('should send the staged diff and fill Source Control with the reply', async () => {
+            server.enqueue({
+                kind: 'completion',
+                content: 'fix(parser): return no items for empty input',
+            });
+
+            assert.strictEqual(await run(), true);
+
+            assert.strictEqual(inputBox.value, 'fix(parser): return no items for empty input');
+            const [request] = server.completionRequests;
+            assert.strictEqual(request.body?.model, 'gpt-fake');
+            assert.ok(request.body?.messages?.[1].content.includes('if (!input) return [];'));
+        });
+
+        test('should stream the message into Source Control', async () => {
+            server.enqueue({ kind: 'stream', chunks: ['fix(parser): ', 'handle empty input'] });
+
+            assert.strictEqual(await run({ streamOutput: true }), true);
+
+            assert.strictEqual(inputBox.value, 'fix(parser): handle empty input');
+            assert.strictEqual(server.completionRequests[0].body?.stream, true);
+        });
+
+        test('should stream the sanitized message into Source Control', async () => {
+            const written: string[] = [];
+            let value = 'draft';
+            Object.defineProperty(inputBox, 'value', {
+                get: () => value,
+                set: (text: string) => {
+                    written.push(text);
+                    value = text;
+                },
+            });
+            server.enqueue({
+                kind: 'stream',
+                chunks: ['```\nfix(parser): ', 'handle empty input\n```'],
+            });
+
+            assert.strictEqual(await run({ streamOutput: true }), true);
+
+            assert.ok(written.length > 1);
+            assert.ok(written.every((text) => !text.includes('```')));
+            assert.strictEqual(inputBox.value, 'fix(parser): handle empty input');
+        });
+
+        test('should set the message at the end when streaming into Source Control fails', async () => {
+            let value = 'draft';
+            let writes = 0;
+            Object.defineProperty(inputBox, 'value', {
+                get: () => value,
+                set: (text: string) => {
+                    if (writes++ === 0) {
+                        throw new Error('input box is busy');
+                    }
+                    value = text;
+                },
+            });
+            server.enqueue({ kind: 'stream', chunks: ['fix(parser): ', 'handle empty input'] });
+
+            assert.strictEqual(await run({ streamOutput: true }), true);
+
+            assert.strictEqual(inputBox.value, 'fix(parser): handle empty input');
+            assert.strictEqual(writes, 2);
+        });
+
+        test('should succeed after rate limit and server error retries', async () => {
+            server.enqueue(
+                { kind: 'error', status: 429, headers: RETRY_NOW },
+                { kind: 'error', status: 500, headers: RETRY_NOW },
+                { kind: 'completion', content: 'fix(parser): handle empty input' },
+            );
+
+            assert.strictEqual(await run(), true);
+
+            assert.strictEqual(server.completionRequests.length, 3);
+            assert.strictEqual(inputBox.value, 'fix(parser): handle empty input');
+        });
+
+        test('should report a server error once retries are exhausted', async () => {
+            server.enqueue(
+                { kind: 'error', status: 500, headers: RETRY_NOW },
+                { kind: 'error', status: 500, headers: RETRY_NOW },
+                { kind: 'error', status: 500, headers: RETRY_NOW },
+                { kind: 'error', status: 500, headers: RETRY_NOW },
+            );
+
+            assert.strictEqual(await run(), false);
+
+            assert.strictEqual(server.completionRequests.length, 4);
+            assert.strictEqual(inputBox.value, 'draft');
+            assert.ok(errors.length > 0);
+        });
+
+        test('should ask for a new API key when the server rejects it', async () => {
+            server.enqueue({ kind: 'error', status: 401, message: 'Incorrect API key provided' });
+
+            assert.strictEqual(await run(), false);
+
+            assert.strictEqual(server.completionRequests.length, 1);
+            assert.strictEqual(inputBox.value, 'draft');
+            assert.ok(errors.length > 0);
+        });
+
+        test('should report malformed JSON without touching Source Control', async () => {
+            server.enqueue({ kind: 'malformed' });
+
+            assert.strictEqual(await run(), false);
+
+            assert.strictEqual(inputBox.value, 'draft');
+            assert.ok(errors.length > 0);
+        });
+
+        test('should stop waiting for a slow response when cancelled', async () => {
+            server.enqueue({ kind: 'completion', content: 'too late', delayMs: 5000 });
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(), 50);
+
+            await assert.rejects(run({ streamOutput: true }, controller.signal), (error) =>
+                isUserAbortError(error),
+            );
+
+            assert.strictEqual(inputBox.value, 'draft');
+        });
+    });
+
+    suite('chooseCommitMessageCandidate', () => {
+        let directory: string;
+
+        setup(async () => {
+            directory = await fs.mkdtemp(path.join(os.tmpdir(), 'otak-candidates-cache-'));
+        });
+
+        teardown(() => fs.rm(directory, { recursive: true, force: true }));
+
+        test('should send new requests when regenerating with the response cache on', async () => {
+            const cache = new ResponseCache(directory, () => ({
+                ttlMs: 60 * 60 * 1000,
+                maxBytes: 1024 * 1024,
+            }));
+            const openai = new OpenAIService(
+                {
+                    provider: 'openai',
+                    openaiApiKey: 'sk-fake-integration',
+                    model: 'gpt-fake',
+                    baseUrl,
+                },
+                undefined,
+                cache,
+            );
+            server.enqueue(
+                { kind: 'completion', content: 'fix(parser): handle empty input' },
+                { kind: 'completion', content: 'fix: guard parse' },
+                { kind: 'completion', content: 'fix(parser): return no items for empty input' },
+                { kind: 'completion', content: 'fix: skip empty input' },
+            );
+            const picks: string[][] = [];
+            stub(
+                vscode.window,
+                'showQuickPick',
+                async (items: Array<{ label: string; choice?: { kind: string } }>) => {
+                    picks.push(
+                        items
+                            .filter((item) => item.choice?.kind === 'candidate')
+                            .map((item) => item.label),
+                    );
+                    return picks.length === 1
+                        ? items.find((item) => item.choice?.kind === 'regenerate')
+                        : items[0];
+                },
+            );
+
+            const message = await chooseCommitMessageCandidate({
+                openai,
+                diff: DIFF,
+                language: 'english',
+                messageStyle: 'normal',
+                count: 2,
+                logger: Logger.getInstance(),
+                withProgress,
+            });
+
+            assert.strictEqual(server.completionRequests.length, 4);
+            assert.notDeepStrictEqual(picks[1], picks[0]);
+            assert.strictEqual(message, picks[1][0]);
+        });
+    });
+
+    suite('runPRGenerationWorkflow', () => {
+        let created: PullRequestParams[];
+
+        let patch: string;
+
+        setup(() => {
+            created = [];
+            patch = PATCH;
+            const github = {
+                getIssues: async () => [],
+                getBranchDiffDetails: async () => ({
+                    files: [{ filename: 'src/parser.ts', additions: 1, deletions: 0, patch }],
+                    stats: { additions: 1, deletions: 0 },
+                }),
+                createPullRequest: async (params: PullRequestParams) => {
+                    created.push(params);
+                    return { number: 42, html_url: 'https://github.com/o/r/pull/42', draft: false };
+                },
+            };
+            stub(
+                GitHubServiceFactory,
+                'initialize',
+                async () => github as unknown as GitHubService,
+            );
+            stub(BranchSelector, 'selectBranches', async () => ({
+                base: 'main',
+                compare: 'feature/parser',
+            }));
+            stub(
+                vscode.window,
+                'showQuickPick',
+                async (items: Array<{ value?: boolean }> | Promise<Array<{ value?: boolean }>>) =>
+                    (await items).find((item) => item.value === false),
+            );
+            const executeCommand = vscode.commands.executeCommand;
+            stub(vscode.commands, 'executeCommand', (command: string, ...args: unknown[]) =>
+                command === 'markdown.showPreview'
+                    ? Promise.resolve(undefined)
+                    : executeCommand(command, ...args),
+            );
+        });
+
+        const run = (overrides: Record<string, unknown> = {}) =>
+            runPRGenerationWorkflow({
+                config: createConfig(overrides),
+                logger: Logger.getInstance(),
+                storageUri: vscode.Uri.file(os.tmpdir()),
+                initializeOpenAI,
+                withProgress,
+                setPreviewFile: () => undefined,
+                openExternalUrl: async () => undefined,
+            });
+
+        test('should create the pull request from the structured reply', async () => {
+            server.enqueue({
+                kind: 'completion',
+                content: JSON.stringify({
+                    title: 'Handle empty input',
+                    body: '## Summary\n\nGuard',
+                }),
+            });
+
+            assert.strictEqual(await run(), true);
+
+            assert.strictEqual(created.length, 1);
+            assert.strictEqual(created[0].title, 'Handle empty input');
+            assert.strictEqual(created[0].base, 'main');
+            const [request] = server.completionRequests;
+            assert.strictEqual(request.body?.response_format?.type, 'json_schema');
+        });
+
+        test('should assemble streamed structured output', async () => {
+            server.enqueue({
+                kind: 'stream',
+                chunks: ['{"title":"Handle ', 'empty input","body":', '"## Summary\\n\\nGuard"}'],
+            });
+
+            assert.strictEqual(await run({ streamOutput: true }), true);
+
+            assert.strictEqual(created[0].title, 'Handle empty input');
+        });
+
+        test('should not create a pull request from malformed structured output', async () => {
+            server.enqueue({ kind: 'completion', content: '{"title": "Handle empty' });
+
+            assert.strictEqual(await run(), false);
+
+            assert.strictEqual(created.length, 0);
+            assert.ok(errors.length > 0);
+        });
+
+        test('should send placeholders instead of secrets and keep them out of the PR', async () => {
+            patch = `${PATCH}\n+const awsKey = 'AKIA1234567890ABCDEF';`;
+            stub(vscode.window, 'showWarningMessage', async () => t('buttons.redactAndSend'));
+            server.enqueue({
+                kind: 'completion',
+                content: JSON.stringify({
+                    title: 'Rotate <REDACTED:aws_access_key_id#1> key',
+                    body: 'Replace <REDACTED:aws_access_key_id#1> in the parser',
+                }),
+            });
+
+            assert.strictEqual(await run(), true);
+
+            const prompt = server.completionRequests[0].body?.messages?.[1].content ?? '';
+            assert.ok(prompt.includes('<REDACTED:aws_access_key_id#1>'));
+            assert.ok(!prompt.includes('AKIA1234567890ABCDEF'));
+            assert.strictEqual(created[0].title, 'Rotate key');
+            assert.strictEqual(created[0].body, 'Replace in the parser');
+        });
+
+        test('should not create a pull request when the API key is rejected', async () => {
+            server.enqueue({ kind: 'error', status: 401, message: 'Incorrect API key provided' });
+
+            assert.strictEqual(await run(), false);
+
+            assert.strictEqual(created.length, 0);
+        });
+    });
+});
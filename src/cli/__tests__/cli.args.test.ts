@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { ValidationError } from '../../types/errors';
+import { parseCliArguments } from '../cli.args';
+
+suite('parseCliArguments', () => {
+    test('parses the subcommand and commit flags', () => {
+        const args = parseCliArguments(['commit', '--write', '--allow-secrets', '-v']);
+
+        assert.strictEqual(args.command, 'commit');
+        assert.strictEqual(args.write, true);
+        assert.strictEqual(args.allowSecrets, true);
+        assert.strictEqual(args.verbose, true);
+        assert.strictEqual(args.redactSecrets, false);
+        assert.strictEqual(parseCliArguments(['commit', '--redact-secrets']).redactSecrets, true);
+    });
+
+    test('accepts values as separate arguments and after =', () => {
+        const args = parseCliArguments([
+            'pr',
+            '--base',
+            'origin/develop',
+            '--language=japanese',
+            '-m',
+            'gpt-5.4-mini',
+        ]);
+
+        assert.strictEqual(args.base, 'origin/develop');
+        assert.deepStrictEqual(args.settings, { language: 'japanese', model: 'gpt-5.4-mini' });
+    });
+
+    test('collects issue files and options', () => {
+        const args = parseCliArguments([
+            'issue',
+            '-d',
+            'Login fails',
+            '--type',
+            'bug',
+            'src/a.ts',
+            'src/b.ts',
+        ]);
+
+        assert.strictEqual(args.description, 'Login fails');
+        assert.strictEqual(args.issueType, 'bug');
+        assert.deepStrictEqual(args.positionals, ['src/a.ts', 'src/b.ts']);
+    });
+
+    test('maps emoji switches to the useEmoji setting', () => {
+        assert.strictEqual(parseCliArguments(['commit', '--emoji']).settings.useEmoji, true);
+        assert.strictEqual(parseCliArguments(['commit', '--no-emoji']).settings.useEmoji, false);
+    });
+
+    test('parses hook arguments and trailer switches', () => {
+        const args = parseCliArguments([
+            'hook',
+            'prepare-commit-msg',
+            '.git/COMMIT_EDITMSG',
+            'template',
+            '--no-trailer',
+        ]);
+
+        assert.strictEqual(args.command, 'hook');
+        assert.deepStrictEqual(args.positionals, [
+            'prepare-commit-msg',
+            '.git/COMMIT_EDITMSG',
+            'template',
+        ]);
+        assert.strictEqual(args.settings.appendCommitTrailer, false);
+        assert.strictEqual(
+            parseCliArguments(['commit', '--trailer']).settings.appendCommitTrailer,
+            true,
+        );
+    });
+
+    test('rejects unknown commands, unknown options and missing values', () => {
+        assert.throws(() => parseCliArguments(['push']), ValidationError);
+        assert.throws(() => parseCliArguments(['commit', '--force']), ValidationError);
+        assert.throws(() => parseCliArguments(['commit', '--model']), /requires a value/);
+    });
+
+    test('allows --help and --version without a command', () => {
+        assert.strictEqual(parseCliArguments(['--help']).help, true);
+        assert.strictEqual(parseCliArguments(['--version']).version, true);
+        assert.strictEqual(parseCliArguments([]).command, undefined);
+    });
+});
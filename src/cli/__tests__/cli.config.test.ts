@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ValidationError } from '../../types/errors';
+import { CLI_CONFIG_FILE, readCliConfigFile, resolveCliSettings } from '../cli.config';
+
+suite('CLI configuration', () => {
+    suite('resolveCliSettings', () => {
+        test('uses the extension defaults when nothing is configured', () => {
+            const settings = resolveCliSettings({}, {}, {});
+
+            assert.strictEqual(settings.provider, 'openai');
+            assert.strictEqual(settings.language, 'english');
+            assert.strictEqual(settings.messageStyle, 'normal');
+            assert.strictEqual(settings.useConventionalCommits, true);
+            assert.strictEqual(settings.appendCommitTrailer, true);
+            assert.strictEqual(settings.apiKey, undefined);
+        });
+
+        test('applies file, environment and flags in increasing precedence', () => {
+            const settings = resolveCliSettings(
+                { language: 'german', messageStyle: 'simple', model: 'from-file' },
+                { OTAK_COMMITTER_LANGUAGE: 'french', OTAK_COMMITTER_MODEL: 'from-env' },
+                { model: 'from-flag' },
+            );
+
+            assert.strictEqual(settings.messageStyle, 'simple');
+            assert.strictEqual(settings.language, 'french');
+            assert.strictEqual(settings.model, 'from-flag');
+        });
+
+        test('reads the API key for the selected provider', () => {
+            const env = { OPENAI_API_KEY: 'openai-key', ANTHROPIC_API_KEY: 'anthropic-key' };
+
+            assert.strictEqual(resolveCliSettings({}, env, {}).apiKey, 'openai-key');
+            assert.strictEqual(
+                resolveCliSettings({ provider: 'anthropic' }, env, {}).apiKey,
+                'anthropic-key',
+            );
+            assert.strictEqual(
+                resolveCliSettings({}, { ...env, OTAK_COMMITTER_API_KEY: 'shared' }, {}).apiKey,
+                'shared',
+            );
+        });
+
+        test('ignores keys that belong to other features', () => {
+            const settings = resolveCliSettings({ somethingElse: [1, 2] }, {}, {});
+            assert.strictEqual(settings.provider, 'openai');
+        });
+
+        test('rejects API keys in the file, wrong types and unknown providers', () => {
+            assert.throws(() => resolveCliSettings({ apiKey: 'sk-x' }, {}, {}), ValidationError);
+            assert.throws(() => resolveCliSettings({ useEmoji: 'yes' }, {}, {}), /boolean/);
+            assert.throws(() => resolveCliSettings({ provider: 'nope' }, {}, {}), /provider/);
+        });
+    });
+
+    suite('readCliConfigFile', () => {
+        let root: string;
+
+        setup(async () => {
+            root = await fs.mkdtemp(path.join(os.tmpdir(), 'otak-committer-cli-'));
+        });
+
+        teardown(async () => {
+            await fs.rm(root, { recursive: true, force: true });
+        });
+
+        test('returns an empty object when the default file is absent', async () => {
+            assert.deepStrictEqual(await readCliConfigFile(root), {});
+        });
+
+        test('reads the default file from the repository root', async () => {
+            await fs.writeFile(path.join(root, CLI_CONFIG_FILE), '{"language":"korean"}');
+            assert.deepStrictEqual(await readCliConfigFile(root), { language: 'korean' });
+        });
+
+        test('fails when an explicit file is missing or not a JSON object', async () => {
+            await assert.rejects(
+                readCliConfigFile(root, path.join(root, 'missing.json')),
+                ValidationError,
+            );
+
+            const arrayFile = path.join(root, 'array.json');
+            await fs.writeFile(arrayFile, '[]');
+            await assert.rejects(readCliConfigFile(root, arrayFile), /JSON object/);
+        });
+    });
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { FakeOpenAIServer } from '../../test/mocks/fakeOpenAIServer';
+import { resolveCliSettings } from '../cli.config';
+import { createCliOpsContext } from '../cli.context';
+
+suite('CLI operation context', () => {
+    const server = new FakeOpenAIServer();
+    let baseUrl: string;
+    let originalWrite: typeof process.stderr.write;
+    let stderr: string[];
+
+    suiteSetup(async () => {
+        baseUrl = await server.start();
+    });
+
+    suiteTeardown(async () => {
+        await server.close();
+    });
+
+    setup(() => {
+        server.reset();
+        stderr = [];
+        originalWrite = process.stderr.write;
+        process.stderr.write = ((chunk: string) => {
+            stderr.push(String(chunk));
+            return true;
+        }) as typeof process.stderr.write;
+    });
+
+    teardown(() => {
+        process.stderr.write = originalWrite;
+    });
+
+    test('retries a rate-limited request and reports the retry on stderr', async () => {
+        server.enqueue(
+            { kind: 'error', status: 429, headers: { 'retry-after-ms': '1' } },
+            { kind: 'completion', content: 'fix(parser): handle empty input' },
+        );
+        const context = createCliOpsContext(
+            resolveCliSettings({ provider: 'openaiCompatible', baseUrl }, {}, {}),
+        );
+
+        const text = await context.provider.requestText({
+            model: context.getModel('commit'),
+            systemPrompt: 'system',
+            userPrompt: 'diff',
+            maxCompletionTokens: 100,
+            reasoningEffort: undefined,
+        });
+
+        assert.strictEqual(text, 'fix(parser): handle empty input');
+        assert.strictEqual(server.completionRequests.length, 2);
+        assert.deepStrictEqual(stderr, ['Request failed (429), retry 1/3 in 1s\n']);
+    });
+});
@@ -0,0 +1,182 @@
+import { ValidationError } from '../types/errors';
+import type { CliSettings } from './cli.config';
+
+/**
+ * Subcommands understood by the CLI
+ */
+export type CliCommand = 'commit' | 'pr' | 'issue' | 'hook';
+
+const CLI_COMMANDS: readonly CliCommand[] = ['commit', 'pr', 'issue', 'hook'];
+
+/**
+ * Parsed command line
+ */
+export interface CliArguments {
+    command?: CliCommand;
+    help: boolean;
+    version: boolean;
+    verbose: boolean;
+    /** Refuse to send content with potential secrets unless this is set */
+    allowSecrets: boolean;
+    /** commit: replace potential secrets with placeholders and send the rest of the diff */
+    redactSecrets: boolean;
+    /** Explicit config file; defaults to `.otakcommitter.json` at the repository root */
+    configPath?: string;
+    /** commit: write the message to `.git/COMMIT_EDITMSG` */
+    write: boolean;
+    /** commit: write the message to this file (used by `prepare-commit-msg` hooks) */
+    outputPath?: string;
+    /** pr: base ref to compare HEAD against */
+    base?: string;
+    /** issue: what the issue is about */
+    description?: string;
+    /** issue: issue type (task, bug, feature, docs, refactor) */
+    issueType: string;
+    /** Arguments after the subcommand: context files for `issue`, hook name and git's arguments for `hook` */
+    positionals: string[];
+    /** Settings given as flags; they override the config file and environment */
+    settings: Partial<CliSettings>;
+}
+
+/** Flags that take a value, mapped to where the value goes */
+const VALUE_FLAGS: Record<string, (args: CliArguments, value: string) => void> = {
+    '--config': (args, value) => (args.configPath = value),
+    '--output': (args, value) => (args.outputPath = value),
+    '--base': (args, value) => (args.base = value),
+    '--description': (args, value) => (args.description = value),
+    '--type': (args, value) => (args.issueType = value),
+    '--language': (args, value) => (args.settings.language = value),
+    '--style': (args, value) => (args.settings.messageStyle = value),
+    '--provider': (args, value) => (args.settings.provider = value as CliSettings['provider']),
+    '--model': (args, value) => (args.settings.model = value),
+    '--base-url': (args, value) => (args.settings.baseUrl = value),
+};
+
+const FLAG_ALIASES: Record<string, string> = {
+    '-c': '--config',
+    '-o': '--output',
+    '-d': '--description',
+    '-l': '--language',
+    '-m': '--model',
+    '-w': '--write',
+    '-v': '--verbose',
+    '-h': '--help',
+};
+
+/**
+ * Parse the CLI arguments (without the `node` and script entries)
+ *
+ * Flags accept both `--flag value` and `--flag=value`. Positional arguments
+ * after the subcommand are collected in order.
+ *
+ * @param argv - Arguments as passed to the process
+ * @returns The parsed arguments
+ * @throws {ValidationError} On an unknown subcommand or flag, or a flag missing its value
+ */
+export function parseCliArguments(argv: string[]): CliArguments {
+    const args: CliArguments = {
+        help: false,
+        version: false,
+        verbose: false,
+        allowSecrets: false,
+        redactSecrets: false,
+        write: false,
+        issueType: 'task',
+        positionals: [],
+        settings: {},
+    };
+
+    for (let index = 0; index < argv.length; index++) {
+        const [rawFlag, inlineValue] = splitInlineValue(argv[index]);
+        const flag = FLAG_ALIASES[rawFlag] ?? rawFlag;
+
+        if (VALUE_FLAGS[flag]) {
+            const value = inlineValue ?? argv[++index];
+            if (value === undefined || value === '') {
+                throw new ValidationError(`Option ${flag} requires a value`);
+            }
+            VALUE_FLAGS[flag](args, value);
+        } else if (flag === '--help') {
+            args.help = true;
+        } else if (flag === '--version') {
+            args.version = true;
+        } else if (flag === '--verbose') {
+            args.verbose = true;
+        } else if (flag === '--write') {
+            args.write = true;
+        } else if (flag === '--allow-secrets') {
+            args.allowSecrets = true;
+        } else if (flag === '--redact-secrets') {
+            args.redactSecrets = true;
+        } else if (flag === '--no-emoji' || flag === '--emoji') {
+            args.settings.useEmoji = flag === '--emoji';
+        } else if (flag === '--no-trailer' || flag === '--trailer') {
+            args.settings.appendCommitTrailer = flag === '--trailer';
+        } else if (flag === '--no-lint' || flag === '--lint') {
+            args.settings.lintCommitMessages = flag === '--lint';
+        } else if (flag.startsWith('-')) {
+            throw new ValidationError(`Unknown option: ${rawFlag}`);
+        } else if (!args.command) {
+            if (!CLI_COMMANDS.includes(flag as CliCommand)) {
+                throw new ValidationError(`Unknown command: ${flag}`);
+            }
+            args.command = flag as CliCommand;
+        } else {
+            args.positionals.push(argv[index]);
+        }
+    }
+
+    return args;
+}
+
+function splitInlineValue(arg: string): [string, string | undefined] {
+    const separator = arg.indexOf('=');
+    if (!arg.startsWith('--') || separator === -1) {
+        return [arg, undefined];
+    }
+    return [arg.slice(0, separator), arg.slice(separator + 1)];
+}
+
+/**
+ * Usage text printed by `--help`
+ */
+export const CLI_USAGE = `Usage: otak-committer <command> [options]
+
+Commands:
+  commit                 Generate a commit message for the staged changes
+  pr                     Generate a pull request title and body for HEAD
+  issue [files...]       Generate an issue title and body from a description
+  hook prepare-commit-msg <file> [source] [sha]
+                         Run as git's prepare-commit-msg hook
+
+Options:
+  -c, --config <file>    Config file (default: .otakcommitter.json at the repository root)
+  -l, --language <name>  Output language, e.g. english, japanese
+      --style <style>    Message style: simple, normal, detailed
+      --provider <id>    openai, azureOpenAI, anthropic, ollama, openaiCompatible
+  -m, --model <name>     Model or Azure deployment name
+      --base-url <url>   Endpoint for Azure, Ollama or OpenAI-compatible servers
+      --emoji, --no-emoji
+      --trailer, --no-trailer
+                         Append the Commit-Message-By trailer to commit messages
+      --lint, --no-lint  Check commit messages against commitlint rules and repair them
+      --allow-secrets    Send content even if potential secrets are detected
+  -v, --verbose          Log diagnostics to stderr
+  -h, --help             Show this help
+      --version          Show the version
+
+commit:
+  -w, --write            Write the message to .git/COMMIT_EDITMSG instead of stdout
+  -o, --output <file>    Write the message to <file> instead of stdout
+      --redact-secrets   Replace potential secrets with placeholders instead of stopping
+
+pr:
+      --base <ref>       Base to compare against (default: origin/HEAD, then main)
+
+issue:
+  -d, --description <text>  What the issue is about (required)
+      --type <type>         task, bug, feature, docs, refactor (default: task)
+
+The API key is read from OTAK_COMMITTER_API_KEY, or from OPENAI_API_KEY,
+AZURE_OPENAI_API_KEY or ANTHROPIC_API_KEY depending on the provider.
+`;
@@ -0,0 +1,230 @@
+import * as path from 'path';
+import { Logger } from '../infrastructure/logging/Logger';
+import { DiffProcessor } from '../services/diffProcessor';
+import { findClassificationRules } from '../services/git.classification';
+import { findCommitLintConfig } from '../services/git.commitlint';
+import { findSecretAllowlist } from '../services/git.secretAllowlist';
+import { findTemplates } from '../services/git.templates';
+import { analyzeFiles } from '../services/issueGenerator.analysis';
+import {
+    buildIssueBodyPrompt,
+    formatAnalysisResult,
+    generateTitle,
+    getAvailableIssueTypes,
+} from '../services/issueGenerator.prompts';
+import {
+    createChatCompletionOp,
+    generateCommitMessageOp,
+    generatePRContentOp,
+    type OpenAIOpsContext,
+} from '../services/openai.ops';
+import { TokenManager } from '../services/tokenManager';
+import { ValidationError } from '../types/errors';
+import {
+    detectPotentialSecrets,
+    formatSecretLocation,
+    redactSecrets,
+    sanitizeCommitMessage,
+} from '../utils';
+import { appendCommitTrailer } from '../utils/commitMessage';
+import { resolveCommitLintOptions } from '../utils/commitLint.rules';
+import type { CliArguments } from './cli.args';
+import type { CliSettings } from './cli.config';
+import { createChunkSummarizationClient } from './cli.context';
+import { getBranchDiff, resolveDefaultBase, type CliRepository } from './cli.git';
+
+/**
+ * Everything a subcommand needs to run
+ */
+export interface CliCommandOptions {
+    args: CliArguments;
+    settings: CliSettings;
+    repository: CliRepository;
+    /** Created on first use so that "nothing to do" is reported before a missing API key */
+    getContext: () => OpenAIOpsContext;
+    cwd: string;
+}
+
+function assertNoPotentialSecrets(
+    content: string,
+    allowSecrets: boolean,
+    allowlist: ReadonlySet<string>,
+): void {
+    const detection = detectPotentialSecrets(content, undefined, { allowlist });
+    if (!detection.hasPotentialSecrets || allowSecrets) {
+        return;
+    }
+    throw new ValidationError(
+        `Potential secrets detected (${detection.matchedPatternIds.join(', ')}); ` +
+            'review the changes or pass --allow-secrets to send them anyway',
+        { matchedPatternIds: detection.matchedPatternIds },
+    );
+}
+
+/**
+ * Generate a commit message for the staged changes
+ *
+ * @param options - Parsed arguments, settings and repository
+ * @returns The commit message, or undefined if generation failed
+ * @throws {ValidationError} When nothing is staged or the diff contains potential secrets
+ */
+export async function runCliCommit({
+    args,
+    settings,
+    repository,
+    getContext,
+}: CliCommandOptions): Promise<string | undefined> {
+    const stagedDiff = await repository.git.diff(['--cached']);
+    if (!stagedDiff.trim()) {
+        throw new ValidationError('No staged changes to describe');
+    }
+    const allowlist = await findSecretAllowlist(repository.rootPath, Logger.getInstance());
+    const redaction =
+        args.redactSecrets && !args.allowSecrets
+            ? redactSecrets(stagedDiff, { allowlist })
+            : undefined;
+    const rawDiff = redaction?.content ?? stagedDiff;
+    assertNoPotentialSecrets(rawDiff, args.allowSecrets, allowlist);
+
+    const context = getContext();
+    for (const redacted of redaction?.redactions ?? []) {
+        context.logger.warning(
+            `Redacted potential secret at ${formatSecretLocation(redacted)}, ${redacted.fingerprint}`,
+        );
+    }
+    const processor = new DiffProcessor(
+        createChunkSummarizationClient(context),
+        settings.language,
+        (message) => context.logger.info(`Map-reduce progress: ${message}`),
+        await findClassificationRules(repository.rootPath, context.logger),
+        settings.mapReduceParallelism,
+    );
+    const { processedDiff } = await processor.process(
+        rawDiff,
+        TokenManager.getConfiguredMaxTokens(context.getModel('commit')),
+        context.signal,
+    );
+
+    const templates = await findTemplates(repository.rootPath, context.logger);
+    const lint = resolveCommitLintOptions({
+        enabled: settings.lintCommitMessages,
+        maxRetries: settings.commitLintMaxRetries,
+        repositoryConfig: settings.lintCommitMessages
+            ? await findCommitLintConfig(repository.rootPath, context.logger)
+            : undefined,
+        overrides: settings.commitLintRules,
+        hasTemplate: !!templates.commit,
+    });
+    const generated = await generateCommitMessageOp(
+        context,
+        processedDiff,
+        settings.language,
+        settings.messageStyle,
+        templates.commit,
+        lint,
+    );
+    const message = generated ? sanitizeCommitMessage(generated) : '';
+    if (!message) {
+        return undefined;
+    }
+    return settings.appendCommitTrailer ? appendCommitTrailer(message) : message;
+}
+
+/**
+ * Generate a pull request title and body for the commits on HEAD
+ *
+ * @param options - Parsed arguments, settings and repository
+ * @returns The title, a blank line and the body, or undefined if generation failed
+ * @throws {ValidationError} When HEAD has no changes over the base or they contain potential secrets
+ */
+export async function runCliPullRequest({
+    args,
+    settings,
+    repository,
+    getContext,
+}: CliCommandOptions): Promise<string | undefined> {
+    const base = args.base ?? (await resolveDefaultBase(repository.git));
+    const diff = await getBranchDiff(
+        repository.git,
+        base,
+        await findClassificationRules(repository.rootPath, Logger.getInstance()),
+    );
+    if (diff.files.length === 0) {
+        throw new ValidationError(`No changes between ${base} and HEAD`, { base });
+    }
+    assertNoPotentialSecrets(
+        diff.files
+            .map((file) => `diff --git a/${file.filename} b/${file.filename}\n${file.patch}`)
+            .join('\n'),
+        args.allowSecrets,
+        await findSecretAllowlist(repository.rootPath, Logger.getInstance()),
+    );
+
+    const context = getContext();
+    const templates = await findTemplates(repository.rootPath, context.logger);
+    const content = await generatePRContentOp(context, diff, settings.language, templates.pr);
+    return content ? `${content.title}\n\n${content.body}` : undefined;
+}
+
+/**
+ * Generate an issue title and body from a description and optional context files
+ *
+ * @param options - Parsed arguments, settings and repository
+ * @returns The title, a blank line and the body, or undefined if generation failed
+ * @throws {ValidationError} On a missing description, an unknown type, or files with potential secrets
+ */
+export async function runCliIssue({
+    args,
+    settings,
+    repository,
+    getContext,
+    cwd,
+}: CliCommandOptions): Promise<string | undefined> {
+    const description = args.description?.trim();
+    if (!description) {
+        throw new ValidationError('issue requires --description');
+    }
+    const issueType = getAvailableIssueTypes(settings.useEmoji).find(
+        (type) => type.type === args.issueType,
+    );
+    if (!issueType) {
+        throw new ValidationError(`Unknown issue type: ${args.issueType}`);
+    }
+
+    const context = getContext();
+    const analyses = await analyzeFiles(
+        args.positionals.map((file) => path.resolve(cwd, file)),
+        TokenManager.getConfiguredMaxTokens(context.getModel('issue')),
+        context.logger,
+        repository.rootPath,
+    );
+    assertNoPotentialSecrets(
+        analyses.map((analysis) => analysis.content || '').join('\n'),
+        args.allowSecrets,
+        await findSecretAllowlist(repository.rootPath, context.logger),
+    );
+
+    const client = {
+        createChatCompletion: (params: Parameters<typeof createChatCompletionOp>[1]) =>
+            createChatCompletionOp(context, params, settings.language),
+    };
+    const [body, title] = await Promise.all([
+        client.createChatCompletion({
+            prompt: buildIssueBodyPrompt(
+                formatAnalysisResult(analyses),
+                description,
+                settings.useEmoji,
+                settings.customMessage,
+            ),
+            maxTokens: 1000,
+            operation: 'issue',
+        }),
+        generateTitle(client, issueType.type, description, settings.language, context.logger),
+    ]);
+    if (!body) {
+        return undefined;
+    }
+
+    const prefix = settings.useEmoji ? issueType.label.split(' ')[0] : `[${issueType.type}]`;
+    return `${prefix} ${title}\n\n${body}`;
+}
@@ -0,0 +1,185 @@
+import { readFile } from 'fs/promises';
+import * as path from 'path';
+import type { LLMProviderId, ModelOperation } from '../types';
+import { ValidationError } from '../types/errors';
+import type { ReasoningEffort } from '../types/enums/ReasoningEffort';
+import { REPOSITORY_CONFIG_FILE } from '../services/git.classification';
+import { DEFAULT_PROMPT_GENERATION_OPTIONS } from '../services/promptConfig';
+
+/** Config file looked up at the repository root when `--config` is not given */
+export const CLI_CONFIG_FILE = REPOSITORY_CONFIG_FILE;
+
+/**
+ * Settings used by the CLI
+ *
+ * Names match the `otakCommitter.*` VS Code settings so a config file can be
+ * written by copying values from settings.json.
+ */
+export interface CliSettings {
+    provider: LLMProviderId;
+    model?: string;
+    baseUrl?: string;
+    azureApiVersion?: string;
+    models: Partial<Record<ModelOperation, string>>;
+    /** Unset means the provider's default, see `resolveReasoningEffort` */
+    reasoningEffort?: ReasoningEffort;
+    language: string;
+    messageStyle: string;
+    useEmoji: boolean;
+    customMessage: string;
+    useConventionalCommits: boolean;
+    useBulletList: boolean;
+    appendCommitTrailer: boolean;
+    lintCommitMessages: boolean;
+    commitLintMaxRetries: number;
+    mapReduceParallelism: number;
+    /** Overrides in commitlint's `rules` format */
+    commitLintRules: Record<string, unknown>;
+    /** Read from the environment only; never from the config file */
+    apiKey?: string;
+}
+
+const DEFAULT_SETTINGS: CliSettings = {
+    provider: 'openai',
+    models: {},
+    language: 'english',
+    messageStyle: 'normal',
+    ...DEFAULT_PROMPT_GENERATION_OPTIONS,
+    appendCommitTrailer: true,
+    lintCommitMessages: true,
+    commitLintMaxRetries: 2,
+    mapReduceParallelism: 3,
+    commitLintRules: {},
+};
+
+const PROVIDERS: readonly LLMProviderId[] = [
+    'openai',
+    'azureOpenAI',
+    'anthropic',
+    'ollama',
+    'openaiCompatible',
+];
+
+/** Provider-specific API key variables, checked after OTAK_COMMITTER_API_KEY */
+const PROVIDER_API_KEY_VARIABLES: Record<LLMProviderId, string | undefined> = {
+    openai: 'OPENAI_API_KEY',
+    azureOpenAI: 'AZURE_OPENAI_API_KEY',
+    anthropic: 'ANTHROPIC_API_KEY',
+    ollama: undefined,
+    openaiCompatible: 'OPENAI_API_KEY',
+};
+
+/** Environment variables that override config file values */
+const ENV_SETTINGS: Record<string, keyof CliSettings> = {
+    OTAK_COMMITTER_PROVIDER: 'provider',
+    OTAK_COMMITTER_MODEL: 'model',
+    OTAK_COMMITTER_BASE_URL: 'baseUrl',
+    OTAK_COMMITTER_LANGUAGE: 'language',
+    OTAK_COMMITTER_MESSAGE_STYLE: 'messageStyle',
+};
+
+/**
+ * Read the config file, if any
+ *
+ * @param rootPath - Repository root searched for {@link CLI_CONFIG_FILE}
+ * @param configPath - Explicit path; unlike the default file it must exist
+ * @returns The raw settings object, empty when there is no file
+ * @throws {ValidationError} When the file cannot be read or is not a JSON object
+ */
+export async function readCliConfigFile(
+    rootPath: string,
+    configPath?: string,
+): Promise<Record<string, unknown>> {
+    const filePath = configPath ? path.resolve(configPath) : path.join(rootPath, CLI_CONFIG_FILE);
+    let text: string;
+    try {
+        text = await readFile(filePath, 'utf8');
+    } catch (error) {
+        if (!configPath && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return {};
+        }
+        throw new ValidationError(`Cannot read config file ${filePath}`, { filePath });
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error) {
+        const detail = error instanceof Error ? error.message : String(error);
+        throw new ValidationError(`Invalid JSON in ${filePath}: ${detail}`, { filePath });
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new ValidationError(`${filePath} must contain a JSON object`, { filePath });
+    }
+    return parsed as Record<string, unknown>;
+}
+
+/**
+ * Merge defaults, the config file, the environment and command line flags, in that order
+ *
+ * @param fileSettings - Raw object from {@link readCliConfigFile}
+ * @param env - Process environment
+ * @param flags - Settings given on the command line
+ * @returns The effective settings
+ * @throws {ValidationError} When a value has the wrong type or names an unknown provider
+ */
+export function resolveCliSettings(
+    fileSettings: Record<string, unknown>,
+    env: NodeJS.ProcessEnv,
+    flags: Partial<CliSettings>,
+): CliSettings {
+    const settings: CliSettings = { ...DEFAULT_SETTINGS, models: {}, commitLintRules: {} };
+
+    for (const [key, value] of Object.entries(fileSettings)) {
+        applyFileSetting(settings, key, value);
+    }
+    for (const [variable, key] of Object.entries(ENV_SETTINGS)) {
+        const value = env[variable]?.trim();
+        if (value) {
+            Object.assign(settings, { [key]: value });
+        }
+    }
+    Object.assign(settings, flags);
+
+    if (!PROVIDERS.includes(settings.provider)) {
+        throw new ValidationError(
+            `Unknown provider "${settings.provider}"; expected one of ${PROVIDERS.join(', ')}`,
+        );
+    }
+
+    const keyVariable = PROVIDER_API_KEY_VARIABLES[settings.provider];
+    settings.apiKey =
+        env.OTAK_COMMITTER_API_KEY?.trim() ||
+        (keyVariable && env[keyVariable]?.trim()) ||
+        undefined;
+    return settings;
+}
+
+function applyFileSetting(settings: CliSettings, key: string, value: unknown): void {
+    if (key === 'apiKey' || key === 'openaiApiKey') {
+        throw new ValidationError(
+            'API keys are not read from the config file; set OTAK_COMMITTER_API_KEY instead',
+        );
+    }
+    if (key === 'models' || key === 'commitLintRules') {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            throw new ValidationError(`"${key}" must be an object`);
+        }
+        Object.assign(settings, { [key]: { ...value } });
+        return;
+    }
+    if (
+        !(key in DEFAULT_SETTINGS) &&
+        !['model', 'baseUrl', 'azureApiVersion', 'reasoningEffort'].includes(key)
+    ) {
+        // Keys for other features may share the file
+        return;
+    }
+
+    const expected =
+        key in DEFAULT_SETTINGS ? typeof DEFAULT_SETTINGS[key as keyof CliSettings] : 'string';
+    if (typeof value !== expected) {
+        throw new ValidationError(`"${key}" must be a ${expected}`);
+    }
+    Object.assign(settings, { [key]: value });
+}
@@ -0,0 +1,103 @@
+import { Logger } from '../infrastructure/logging/Logger';
+import type { ModelOperation } from '../types';
+import { ValidationError } from '../types/errors';
+import {
+    createLLMProvider,
+    getProviderLabel,
+    providerRequiresApiKey,
+    resolveReasoningEffort,
+} from '../services/llm.factory';
+import { RetryingLLMProvider, type RetryAttempt } from '../services/llm.retry';
+import { mergeSummariesOp, summarizeChunkOp, type OpenAIOpsContext } from '../services/openai.ops';
+import type { ChunkSummarizationClient } from '../services/mapReduceSummarizer';
+import { PromptService } from '../services/prompt';
+import { sanitizeConfigInput } from '../services/promptConfig';
+import { isAuthenticationError } from '../utils/errorGuards';
+import type { CliSettings } from './cli.config';
+
+function reportRetry(retry: RetryAttempt): void {
+    const seconds = Math.max(1, Math.ceil(retry.delayMs / 1000));
+    process.stderr.write(
+        `Request failed (${retry.status ?? 'no response'}), ` +
+            `retry ${retry.attempt}/${retry.maxRetries} in ${seconds}s\n`,
+    );
+}
+
+/**
+ * Build the context the generation operations run with, outside VS Code
+ *
+ * Errors the extension would show in a notification are written to stderr,
+ * and so is every retry of a failed request.
+ *
+ * @param settings - Effective CLI settings
+ * @param signal - Aborts in-flight requests (Ctrl+C)
+ * @returns The operation context
+ * @throws {ValidationError} When the provider needs an API key and none is set
+ */
+export function createCliOpsContext(settings: CliSettings, signal?: AbortSignal): OpenAIOpsContext {
+    if (!settings.apiKey && providerRequiresApiKey(settings.provider)) {
+        throw new ValidationError(
+            `No API key for ${getProviderLabel(settings.provider)}; set OTAK_COMMITTER_API_KEY`,
+        );
+    }
+
+    const provider = new RetryingLLMProvider(
+        createLLMProvider({
+            provider: settings.provider,
+            apiKey: settings.apiKey,
+            model: settings.model,
+            baseUrl: settings.baseUrl,
+            azureApiVersion: settings.azureApiVersion,
+        }),
+        { onRetry: reportRetry },
+    );
+    const promptService = new PromptService(() => ({
+        useEmoji: settings.useEmoji,
+        customMessage: sanitizeConfigInput(settings.customMessage),
+        useConventionalCommits: settings.useConventionalCommits,
+        useBulletList: settings.useBulletList,
+    }));
+
+    return {
+        provider,
+        promptService,
+        logger: Logger.getInstance(),
+        getModel: (operation?: ModelOperation) =>
+            (operation && settings.models[operation]?.trim()) || provider.defaultModel,
+        getReasoningEffort: () =>
+            resolveReasoningEffort(settings.provider, settings.reasoningEffort),
+        onAuthError: async () => {
+            process.stderr.write(
+                `${getProviderLabel(settings.provider)} rejected the API key; check OTAK_COMMITTER_API_KEY\n`,
+            );
+        },
+        showError: (message: string, error?: unknown) => {
+            const detail = error instanceof Error ? `: ${error.message}` : '';
+            process.stderr.write(`${message}${detail}\n`);
+        },
+        isAuthenticationError,
+        signal,
+    };
+}
+
+/**
+ * Adapt an operation context to the client the map-reduce summarizer expects
+ *
+ * @param context - Operation context from {@link createCliOpsContext}
+ * @returns A client that summarizes chunks and merges summaries with the `summarize` model
+ */
+export function createChunkSummarizationClient(
+    context: OpenAIOpsContext,
+): ChunkSummarizationClient {
+    return {
+        getModel: (operation?: ModelOperation) => context.getModel(operation),
+        summarizeChunk: (chunkContent: string, language: string, signal?: AbortSignal) =>
+            summarizeChunkOp(
+                { ...context, signal: signal ?? context.signal },
+                chunkContent,
+                language,
+            ),
+        mergeSummaries: (summaries: string, language: string, signal?: AbortSignal) =>
+            mergeSummariesOp({ ...context, signal: signal ?? context.signal }, summaries, language),
+    };
+}
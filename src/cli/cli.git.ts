@@ -0,0 +1,92 @@
+import * as path from 'path';
+import simpleGit, { SimpleGit } from 'simple-git';
+import type { FileClassificationRule } from '../constants/diffClassification';
+import type { PullRequestDiff } from '../types';
+import { ValidationError } from '../types/errors';
+import { classifyPullRequestFiles } from '../utils/diff.classification';
+import { parseDiffIntoFiles } from '../utils/diffUtils';
+
+/**
+ * A git client bound to the root of the repository containing `cwd`
+ */
+export interface CliRepository {
+    git: SimpleGit;
+    rootPath: string;
+}
+
+/**
+ * Locate the repository the CLI runs in
+ *
+ * @param cwd - Working directory of the process
+ * @returns The repository root and a client bound to it
+ * @throws {ValidationError} When `cwd` is not inside a git work tree
+ */
+export async function openRepository(cwd: string): Promise<CliRepository> {
+    let rootPath: string;
+    try {
+        rootPath = (await simpleGit(cwd).revparse(['--show-toplevel'])).trim();
+    } catch {
+        throw new ValidationError('Not inside a git repository', { cwd });
+    }
+    return { git: simpleGit(rootPath), rootPath };
+}
+
+/**
+ * Resolve the file `git commit` reads the message from (worktree aware)
+ *
+ * @param repository - Repository from {@link openRepository}
+ * @returns Absolute path of `COMMIT_EDITMSG`
+ */
+export async function getCommitMessagePath({ git, rootPath }: CliRepository): Promise<string> {
+    const gitPath = (await git.revparse(['--git-path', 'COMMIT_EDITMSG'])).trim();
+    return path.resolve(rootPath, gitPath);
+}
+
+/**
+ * Pick the ref a pull request would be opened against when `--base` is not given
+ *
+ * @param git - Client bound to the repository
+ * @returns The remote default branch (`origin/HEAD`), falling back to `main`
+ */
+export async function resolveDefaultBase(git: SimpleGit): Promise<string> {
+    try {
+        const ref = (await git.revparse(['--abbrev-ref', 'origin/HEAD'])).trim();
+        if (ref && ref !== 'origin/HEAD') {
+            return ref;
+        }
+    } catch {
+        // No remote HEAD configured
+    }
+    return 'main';
+}
+
+/**
+ * Collect the changes HEAD introduces since it branched off `base`
+ *
+ * @param git - Client bound to the repository
+ * @param base - Base ref
+ * @param rules - File priorities defined by the repository
+ * @returns The diff in the shape the PR prompt expects
+ */
+export async function getBranchDiff(
+    git: SimpleGit,
+    base: string,
+    rules: readonly FileClassificationRule[] = [],
+): Promise<PullRequestDiff> {
+    const files = classifyPullRequestFiles(
+        parseDiffIntoFiles(await git.diff([`${base}...HEAD`])).map((file) => ({
+            filename: file.filePath,
+            additions: file.additions,
+            deletions: file.deletions,
+            patch: file.content,
+        })),
+        rules,
+    );
+    return {
+        files,
+        stats: {
+            additions: files.reduce((sum, file) => sum + file.additions, 0),
+            deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+        },
+    };
+}
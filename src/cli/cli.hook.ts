@@ -0,0 +1,60 @@
+import { readFile, writeFile } from 'fs/promises';
+import * as path from 'path';
+import { Logger } from '../infrastructure/logging/Logger';
+import { findTemplates } from '../services/git.templates';
+import { ValidationError } from '../types/errors';
+import {
+    composeHookCommitMessage,
+    hasUserContent,
+    resolveCommentChar,
+    shouldGenerateForMessageSource,
+} from '../utils/commitHook';
+import { runCliCommit, type CliCommandOptions } from './cli.commands';
+
+const HOOK_USAGE = 'Usage: otak-committer hook prepare-commit-msg <file> [source] [sha]';
+
+/**
+ * Run as git's `prepare-commit-msg` hook
+ *
+ * Generates a message into git's message file for plain `git commit` and
+ * template-based commits. Messages from -m/-F, merges, squashes, amends and
+ * files that already contain user text are left untouched.
+ *
+ * @param options - Parsed arguments (hook name, message file, source), settings and repository
+ * @returns true if the message file was rewritten
+ * @throws {ValidationError} When called with an unsupported hook name or without a message file
+ */
+export async function runCliHook(options: CliCommandOptions): Promise<boolean> {
+    const { args, repository, cwd } = options;
+    const logger = Logger.getInstance();
+    const [hookName, messageFile, source] = args.positionals;
+    if (hookName !== 'prepare-commit-msg' || !messageFile) {
+        throw new ValidationError(HOOK_USAGE);
+    }
+    if (!shouldGenerateForMessageSource(source)) {
+        logger.debug(`Keeping the commit message (source: ${source})`);
+        return false;
+    }
+
+    const filePath = path.resolve(cwd, messageFile);
+    const content = await readFile(filePath, 'utf8').catch(() => '');
+    const commentChar = resolveCommentChar(
+        await repository.git.raw(['config', '--get', 'core.commentChar']).catch(() => undefined),
+    );
+    const { commit: template } = await findTemplates(repository.rootPath, logger);
+    // With source "template" the file holds git's commit.template, which is not user text
+    if (
+        source !== 'template' &&
+        hasUserContent(content, template ? [template.content] : [], commentChar)
+    ) {
+        logger.debug('Commit message file already has user content');
+        return false;
+    }
+
+    const message = await runCliCommit(options);
+    if (!message) {
+        return false;
+    }
+    await writeFile(filePath, composeHookCommitMessage(message, content, commentChar), 'utf8');
+    return true;
+}
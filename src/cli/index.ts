@@ -0,0 +1,152 @@
+/**
+ * Headless entry point: `otak-committer commit|pr|issue|hook`
+ *
+ * Runs the same prompts, diff processing and secret checks as the extension
+ * without a VS Code host, so terminals, git hooks and CI can use them.
+ * Generated content goes to stdout (or a file for `commit`); diagnostics go
+ * to stderr.
+ */
+
+import { readFileSync } from 'fs';
+import { writeFile } from 'fs/promises';
+import * as path from 'path';
+import { Logger, LogLevel } from '../infrastructure/logging/Logger';
+import type { OpenAIOpsContext } from '../services/openai.ops';
+import { ValidationError } from '../types/errors';
+import { isUserAbortError } from '../utils/errorGuards';
+import { CLI_USAGE, CliArguments, CliCommand, parseCliArguments } from './cli.args';
+import { readCliConfigFile, resolveCliSettings } from './cli.config';
+import { createCliOpsContext } from './cli.context';
+import { runCliCommit, runCliIssue, runCliPullRequest, CliCommandOptions } from './cli.commands';
+import { getCommitMessagePath, openRepository } from './cli.git';
+import { runCliHook } from './cli.hook';
+
+/**
+ * Process exit codes
+ */
+export const CliExitCode = {
+    Success: 0,
+    /** Generation failed or was cancelled */
+    Failure: 1,
+    /** Bad arguments, configuration or repository state */
+    Usage: 2,
+} as const;
+
+const COMMANDS: Record<
+    Exclude<CliCommand, 'hook'>,
+    (options: CliCommandOptions) => Promise<string | undefined>
+> = {
+    commit: runCliCommit,
+    pr: runCliPullRequest,
+    issue: runCliIssue,
+};
+
+function readVersion(): string {
+    try {
+        const manifest = readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8');
+        return (JSON.parse(manifest) as { version?: string }).version ?? 'unknown';
+    } catch {
+        return 'unknown';
+    }
+}
+
+async function writeOutput(args: CliArguments, output: string, options: CliCommandOptions) {
+    const target = args.outputPath
+        ? path.resolve(options.cwd, args.outputPath)
+        : args.write && args.command === 'commit'
+          ? await getCommitMessagePath(options.repository)
+          : undefined;
+    if (target) {
+        await writeFile(target, `${output}\n`, 'utf8');
+        Logger.getInstance().info(`Wrote message to ${target}`);
+    } else {
+        process.stdout.write(`${output}\n`);
+    }
+}
+
+/**
+ * Run the CLI
+ *
+ * @param argv - Arguments without the `node` and script entries
+ * @param env - Environment to read settings and API keys from
+ * @param cwd - Directory the repository is looked up from
+ * @param signal - Cancels in-flight requests
+ * @returns The process exit code
+ */
+export async function main(
+    argv: string[],
+    env: NodeJS.ProcessEnv = process.env,
+    cwd: string = process.cwd(),
+    signal?: AbortSignal,
+): Promise<number> {
+    const logger = Logger.getInstance();
+    let isHook = false;
+    try {
+        const args = parseCliArguments(argv);
+        isHook = args.command === 'hook';
+        if (args.version) {
+            process.stdout.write(`${readVersion()}\n`);
+            return CliExitCode.Success;
+        }
+        if (args.help || !args.command) {
+            (args.help ? process.stdout : process.stderr).write(CLI_USAGE);
+            return args.help ? CliExitCode.Success : CliExitCode.Usage;
+        }
+        logger.setLogLevel(args.verbose ? LogLevel.Debug : LogLevel.Warning);
+
+        const repository = await openRepository(cwd);
+        const settings = resolveCliSettings(
+            await readCliConfigFile(repository.rootPath, args.configPath),
+            env,
+            args.settings,
+        );
+        let context: OpenAIOpsContext | undefined;
+        const options: CliCommandOptions = {
+            args,
+            settings,
+            repository,
+            cwd,
+            getContext: () => (context ??= createCliOpsContext(settings, signal)),
+        };
+
+        if (args.command === 'hook') {
+            await runCliHook(options);
+            return CliExitCode.Success;
+        }
+        const output = await COMMANDS[args.command](options);
+        if (!output) {
+            process.stderr.write('No content was generated\n');
+            return CliExitCode.Failure;
+        }
+        await writeOutput(args, output, options);
+        return CliExitCode.Success;
+    } catch (error) {
+        const code = reportError(error, logger);
+        // A failing prepare-commit-msg hook would abort the commit
+        return isHook ? CliExitCode.Success : code;
+    }
+}
+
+function reportError(error: unknown, logger: Logger): number {
+    if (isUserAbortError(error)) {
+        process.stderr.write('Cancelled\n');
+        return CliExitCode.Failure;
+    }
+    if (error instanceof ValidationError) {
+        process.stderr.write(`otak-committer: ${error.message}\n`);
+        return CliExitCode.Usage;
+    }
+    logger.error('CLI failed', error);
+    process.stderr.write(
+        `otak-committer: ${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    return CliExitCode.Failure;
+}
+
+if (require.main === module) {
+    const controller = new AbortController();
+    process.once('SIGINT', () => controller.abort());
+    main(process.argv.slice(2), process.env, process.cwd(), controller.signal).then(
+        (code) => (process.exitCode = code),
+    );
+}
@@ -0,0 +1,43 @@
+import { BaseCommand } from './BaseCommand';
+import { t } from '../i18n/index.js';
+import { isUserAbortError } from '../utils/errorGuards';
+import { runCommitAmendWorkflow } from './commit.amend';
+
+/**
+ * Command that rewrites the message of the last commit
+ *
+ * The new message describes the last commit plus anything staged, with the
+ * old message as context, and is applied with `git commit --amend`.
+ */
+export class AmendCommitCommand extends BaseCommand {
+    /**
+     * Execute the amend workflow
+     *
+     * @param signal - Optional AbortSignal to cancel the operation
+     * @returns A promise that resolves when the command completes
+     */
+    async execute(signal?: AbortSignal): Promise<void> {
+        try {
+            this.logger.info('Starting amend of the last commit');
+
+            if (
+                await runCommitAmendWorkflow({
+                    context: this.context,
+                    config: this.config,
+                    logger: this.logger,
+                    signal,
+                    initializeOpenAI: () => this.initializeOpenAI(),
+                    withProgress: (title, task) => this.withProgress(title, task),
+                })
+            ) {
+                this.logger.info('Successfully amended the last commit');
+            }
+        } catch (error) {
+            if (isUserAbortError(error)) {
+                this.logger.info('Amend cancelled');
+                return;
+            }
+            this.handleErrorSilently(error, t('operations.amendingCommit'));
+        }
+    }
+}
@@ -6,6 +6,7 @@ import { ErrorHandler, ErrorContext } from '../infrastructure/error/ErrorHandler
 import { OpenAIService } from '../services/openai';
 import { ServiceError } from '../types/errors';
 import { closePreviewTabs, cleanupPreviewFiles } from '../utils/preview';
+import { runWithProgressReporter } from '../utils/progressReporter';
 import { t } from '../i18n';
 
 /**
@@ -72,7 +73,9 @@ export abstract class BaseCommand {
      * Execute a task with a progress notification
      *
      * Displays a progress notification to the user while the task is running.
-     * Useful for long-running operations to provide user feedback.
+     * Useful for long-running operations to provide user feedback. Messages the
+     * task reports through `reportProgress`, such as pending retries, appear
+     * below the title.
      *
      * @param title - The title to display in the progress notification
      * @param task - The async task to execute
@@ -92,7 +95,7 @@ export abstract class BaseCommand {
                 title,
                 cancellable: false,
             },
-            task,
+            (progress) => runWithProgressReporter((message) => progress.report({ message }), task),
         );
     }
 
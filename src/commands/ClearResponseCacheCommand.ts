@@ -0,0 +1,30 @@
+import { BaseCommand } from './BaseCommand';
+import { t } from '../i18n/index.js';
+import { createResponseCache } from '../services/responseCache';
+import { showTimedNotification } from './commandNotifications';
+
+/**
+ * Command that removes every cached commit message, PR content and chunk summary
+ *
+ * The next generation sends its request again even if an identical one was
+ * answered within `otakCommitter.responseCacheTtlHours`.
+ */
+export class ClearResponseCacheCommand extends BaseCommand {
+    /**
+     * Clear the response cache
+     *
+     * @returns A promise that resolves when the command completes
+     */
+    async execute(): Promise<void> {
+        try {
+            const count = await createResponseCache(
+                this.context.globalStorageUri,
+                this.config,
+            ).clear();
+            this.logger.info(`Cleared ${count} cached responses`);
+            await showTimedNotification(t('messages.responseCacheCleared', { count }), 3000);
+        } catch (error) {
+            this.handleErrorSilently(error, t('operations.clearingResponseCache'));
+        }
+    }
+}
@@ -3,6 +3,9 @@ import { t } from '../i18n/index.js';
 import { isUserAbortError } from '../utils/errorGuards';
 import { runCommitGenerationWorkflow } from './commit.workflow';
 
+/** Number of candidates used when `otakCommitter.commitCandidates` is unset */
+const DEFAULT_CANDIDATE_COUNT = 3;
+
 /**
  * Command for generating commit messages using AI
  *
@@ -29,10 +32,14 @@ export class CommitCommand extends BaseCommand {
      * 6. Generate commit message using AI
      * 7. Sanitize and set the message in source control input
      *
+     * With `options.candidates`, step 6 generates `otakCommitter.commitCandidates`
+     * messages and lets the user pick, regenerate, or combine them.
+     *
      * @param signal - Optional AbortSignal to cancel the operation
+     * @param options - Optional flags; `candidates` enables the candidate picker
      * @returns A promise that resolves when the command completes
      */
-    async execute(signal?: AbortSignal): Promise<void> {
+    async execute(signal?: AbortSignal, options?: { candidates?: boolean }): Promise<void> {
         try {
             this.logger.info('Starting commit message generation');
 
@@ -44,6 +51,9 @@ export class CommitCommand extends BaseCommand {
                     signal,
                     initializeOpenAI: () => this.initializeOpenAI(),
                     withProgress: (title, task) => this.withProgress(title, task),
+                    candidateCount: options?.candidates
+                        ? this.config.get('commitCandidates') || DEFAULT_CANDIDATE_COUNT
+                        : undefined,
                 })
             ) {
                 this.logger.info('Successfully generated and set commit message');
@@ -0,0 +1,84 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BaseCommand } from './BaseCommand';
+import { t } from '../i18n/index.js';
+import { GitServiceFactory } from '../services/git';
+import { buildPrepareCommitMsgHookScript } from '../services/git.hooks';
+
+/**
+ * Command for installing and removing the `prepare-commit-msg` git hook
+ *
+ * The hook runs the bundled CLI so commits made from a terminal or another
+ * IDE get a generated message too. Like ConfigCommand, the actions are
+ * separate methods.
+ */
+export class CommitHookCommand extends BaseCommand {
+    /**
+     * Execute the command (not used for CommitHookCommand)
+     * CommitHookCommand uses install() and uninstall() instead
+     */
+    async execute(): Promise<void> {
+        this.logger.debug('CommitHookCommand.execute() called - use install() or uninstall()');
+    }
+
+    /**
+     * Install the hook in the current repository, or refresh an earlier one
+     *
+     * `otakCommitter.appendCommitTrailer` is written into the hook; run the
+     * command again after changing it.
+     */
+    async install(): Promise<void> {
+        try {
+            const git = await GitServiceFactory.initialize();
+            if (!git) {
+                return;
+            }
+
+            const script = buildPrepareCommitMsgHookScript({
+                cliPath: path.join(this.context.extensionPath, 'out', 'cli.js'),
+                appendTrailer: this.config.get('appendCommitTrailer') ?? true,
+            });
+            const result = await git.installCommitMessageHook(script);
+            this.logger.info(`prepare-commit-msg hook install result: ${result}`);
+
+            if (result === 'foreign') {
+                vscode.window.showWarningMessage(t('errors.foreignCommitHookExists'));
+                return;
+            }
+            vscode.window.showInformationMessage(
+                result === 'installed'
+                    ? t('messages.commitHookInstalled')
+                    : t('messages.commitHookUpdated'),
+            );
+        } catch (error) {
+            this.handleErrorSilently(error, t('operations.installingCommitHook'));
+        }
+    }
+
+    /**
+     * Remove the hook from the current repository if otak-committer installed it
+     */
+    async uninstall(): Promise<void> {
+        try {
+            const git = await GitServiceFactory.initialize();
+            if (!git) {
+                return;
+            }
+
+            const result = await git.uninstallCommitMessageHook();
+            this.logger.info(`prepare-commit-msg hook uninstall result: ${result}`);
+
+            if (result === 'foreign') {
+                vscode.window.showWarningMessage(t('errors.foreignCommitHookExists'));
+                return;
+            }
+            vscode.window.showInformationMessage(
+                result === 'removed'
+                    ? t('messages.commitHookRemoved')
+                    : t('messages.commitHookNotInstalled'),
+            );
+        } catch (error) {
+            this.handleErrorSilently(error, t('operations.uninstallingCommitHook'));
+        }
+    }
+}
@@ -0,0 +1,74 @@
+import { BaseCommand } from './BaseCommand';
+import { t } from '../i18n/index.js';
+import { isUserAbortError } from '../utils/errorGuards';
+import { runRewriteRangeWorkflow } from './commit.rebase';
+import { runSquashMessageWorkflow } from './commit.squash';
+import type { CommitDiffPreparationOptions } from './commit.workflow';
+
+/**
+ * Command for working with a range of commits instead of the staged changes
+ *
+ * `squash()` writes one message for squash-merging a branch; `rewrite()`
+ * folds `fixup!` commits and rewords placeholder messages in place. Like
+ * CommitHookCommand, the actions are separate methods.
+ */
+export class CommitRangeCommand extends BaseCommand {
+    /**
+     * Execute the command (not used for CommitRangeCommand)
+     * CommitRangeCommand uses squash() and rewrite() instead
+     */
+    async execute(): Promise<void> {
+        this.logger.debug('CommitRangeCommand.execute() called - use squash() or rewrite()');
+    }
+
+    /**
+     * Generate a single message for the commits between two branches
+     *
+     * @param signal - Optional AbortSignal to cancel the operation
+     */
+    async squash(signal?: AbortSignal): Promise<void> {
+        try {
+            this.logger.info('Starting squash message generation');
+            if (await runSquashMessageWorkflow(this.getWorkflowOptions(signal))) {
+                this.logger.info('Successfully generated squash message');
+            }
+        } catch (error) {
+            if (isUserAbortError(error)) {
+                this.logger.info('Squash message generation cancelled');
+                return;
+            }
+            this.handleErrorSilently(error, t('operations.generatingSquashMessage'));
+        }
+    }
+
+    /**
+     * Fold `fixup!` commits and reword `WIP` commits between a base and HEAD
+     *
+     * @param signal - Optional AbortSignal to cancel the operation
+     */
+    async rewrite(signal?: AbortSignal): Promise<void> {
+        try {
+            this.logger.info('Starting commit range rewrite');
+            if (await runRewriteRangeWorkflow(this.getWorkflowOptions(signal))) {
+                this.logger.info('Successfully rewrote commit range');
+            }
+        } catch (error) {
+            if (isUserAbortError(error)) {
+                this.logger.info('Commit range rewrite cancelled');
+                return;
+            }
+            this.handleErrorSilently(error, t('operations.rewritingCommitRange'));
+        }
+    }
+
+    private getWorkflowOptions(signal?: AbortSignal): CommitDiffPreparationOptions {
+        return {
+            context: this.context,
+            config: this.config,
+            logger: this.logger,
+            signal,
+            initializeOpenAI: () => this.initializeOpenAI(),
+            withProgress: (title, task) => this.withProgress(title, task),
+        };
+    }
+}
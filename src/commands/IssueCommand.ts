@@ -115,6 +115,7 @@ export class IssueCommand extends BaseCommand {
                     progress,
                     logger: this.logger,
                     previewStorageUri: this.context.globalStorageUri,
+                    streamOutput: this.config.get('streamOutput') ?? true,
                     onPreviewRendered: (previewFile) => {
                         this.previewFile = previewFile;
                     },
@@ -0,0 +1,43 @@
+import { BaseCommand } from './BaseCommand';
+import { t } from '../i18n/index.js';
+import { isUserAbortError } from '../utils/errorGuards';
+import { runCommitRefineWorkflow } from './commit.refine';
+
+/**
+ * Command for iteratively rewriting the commit message in the SCM input box
+ *
+ * The user gives follow-up instructions ("shorter", "mention the migration")
+ * and each result becomes a new version that can be stepped back to.
+ */
+export class RefineCommitCommand extends BaseCommand {
+    /**
+     * Execute the refine loop for the current commit message
+     *
+     * @param signal - Optional AbortSignal to cancel the operation
+     * @returns A promise that resolves when the user finishes or cancels
+     */
+    async execute(signal?: AbortSignal): Promise<void> {
+        try {
+            this.logger.info('Starting commit message refinement');
+
+            if (
+                await runCommitRefineWorkflow({
+                    context: this.context,
+                    config: this.config,
+                    logger: this.logger,
+                    signal,
+                    initializeOpenAI: () => this.initializeOpenAI(),
+                    withProgress: (title, task) => this.withProgress(title, task),
+                })
+            ) {
+                this.logger.info('Successfully refined commit message');
+            }
+        } catch (error) {
+            if (isUserAbortError(error)) {
+                this.logger.info('Commit message refinement cancelled');
+                return;
+            }
+            this.handleErrorSilently(error, t('operations.refiningCommitMessage'));
+        }
+    }
+}
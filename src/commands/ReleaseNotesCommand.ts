@@ -0,0 +1,43 @@
+import { BaseCommand } from './BaseCommand';
+import { t } from '../i18n/index.js';
+import { isUserAbortError } from '../utils/errorGuards';
+import { runReleaseNotesWorkflow } from './releaseNotes.workflow';
+
+/**
+ * Command that writes a changelog section from the commits between two refs
+ *
+ * Conventional Commits are grouped into Keep a Changelog sections; the result
+ * is previewed and can be added to the repository's changelog.
+ */
+export class ReleaseNotesCommand extends BaseCommand {
+    /**
+     * Execute the release notes workflow
+     *
+     * @param signal - Optional AbortSignal to cancel the operation
+     * @returns A promise that resolves when the command completes
+     */
+    async execute(signal?: AbortSignal): Promise<void> {
+        try {
+            this.logger.info('Starting release notes generation');
+
+            if (
+                await runReleaseNotesWorkflow({
+                    storageUri: this.context.globalStorageUri,
+                    config: this.config,
+                    logger: this.logger,
+                    signal,
+                    initializeOpenAI: () => this.initializeOpenAI(),
+                    withProgress: (title, task) => this.withProgress(title, task),
+                })
+            ) {
+                this.logger.info('Successfully generated release notes');
+            }
+        } catch (error) {
+            if (isUserAbortError(error)) {
+                this.logger.info('Release notes generation cancelled');
+                return;
+            }
+            this.handleErrorSilently(error, t('operations.generatingReleaseNotes'));
+        }
+    }
+}
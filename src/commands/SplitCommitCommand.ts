@@ -0,0 +1,43 @@
+import { BaseCommand } from './BaseCommand';
+import { t } from '../i18n/index.js';
+import { isUserAbortError } from '../utils/errorGuards';
+import { runCommitSplitWorkflow } from './commit.split';
+
+/**
+ * Command that splits a large staged change into several logical commits
+ *
+ * The model groups files and hunks and writes a message per group; after
+ * confirmation the groups are committed one after another.
+ */
+export class SplitCommitCommand extends BaseCommand {
+    /**
+     * Execute the commit split workflow
+     *
+     * @param signal - Optional AbortSignal to cancel the operation
+     * @returns A promise that resolves when the command completes
+     */
+    async execute(signal?: AbortSignal): Promise<void> {
+        try {
+            this.logger.info('Starting commit split');
+
+            if (
+                await runCommitSplitWorkflow({
+                    context: this.context,
+                    config: this.config,
+                    logger: this.logger,
+                    signal,
+                    initializeOpenAI: () => this.initializeOpenAI(),
+                    withProgress: (title, task) => this.withProgress(title, task),
+                })
+            ) {
+                this.logger.info('Successfully created split commits');
+            }
+        } catch (error) {
+            if (isUserAbortError(error)) {
+                this.logger.info('Commit split cancelled');
+                return;
+            }
+            this.handleErrorSilently(error, t('operations.splittingCommit'));
+        }
+    }
+}
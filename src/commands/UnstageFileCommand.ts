@@ -0,0 +1,46 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BaseCommand } from './BaseCommand';
+import { t } from '../i18n/index.js';
+import { GitServiceFactory } from '../services/git';
+import { clearStagedSecretDiagnostics } from '../services/secretDiagnostics';
+import { showTimedNotification } from './commandNotifications';
+
+/**
+ * Command behind the quick action of a potential secret in the Problems view
+ *
+ * Unstages the file, so the next commit message generation leaves it out,
+ * and removes its Problems entries.
+ */
+export class UnstageFileCommand extends BaseCommand {
+    /**
+     * Unstage one file
+     *
+     * @param uri - The file, as passed by the quick action
+     * @returns A promise that resolves when the command completes
+     */
+    async execute(uri?: unknown): Promise<void> {
+        if (!(uri instanceof vscode.Uri)) {
+            this.logger.debug('UnstageFileCommand.execute() called without a file');
+            return;
+        }
+
+        try {
+            const git = await GitServiceFactory.initialize();
+            if (!git) {
+                return;
+            }
+
+            const filePath = path
+                .relative(await git.getRootPath(), uri.fsPath)
+                .split(path.sep)
+                .join('/');
+            await git.unstageFiles([filePath]);
+            clearStagedSecretDiagnostics(uri);
+            this.logger.info(`Unstaged ${filePath} because of a potential secret`);
+            await showTimedNotification(t('messages.fileUnstaged', { file: filePath }), 3000);
+        } catch (error) {
+            this.handleErrorSilently(error, t('operations.unstagingFile'));
+        }
+    }
+}
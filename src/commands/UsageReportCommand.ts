@@ -0,0 +1,32 @@
+import { BaseCommand } from './BaseCommand';
+import { t } from '../i18n/index.js';
+import { UsageTracker } from '../services/usageTracker';
+import { runUsageReportWorkflow } from './usageReport.workflow';
+
+/**
+ * Command that shows the tokens used by model requests and their estimated cost
+ *
+ * Usage is broken down by operation, model and day; costs come from
+ * `otakCommitter.modelPrices`.
+ */
+export class UsageReportCommand extends BaseCommand {
+    /**
+     * Execute the usage report workflow
+     *
+     * @returns A promise that resolves when the command completes
+     */
+    async execute(): Promise<void> {
+        try {
+            this.logger.info('Showing token usage report');
+
+            await runUsageReportWorkflow({
+                usage: new UsageTracker(this.context.globalState, this.config),
+                storageUri: this.context.globalStorageUri,
+                config: this.config,
+                logger: this.logger,
+            });
+        } catch (error) {
+            this.handleErrorSilently(error, t('operations.showingUsageReport'));
+        }
+    }
+}
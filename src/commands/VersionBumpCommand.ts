@@ -0,0 +1,42 @@
+import { BaseCommand } from './BaseCommand';
+import { t } from '../i18n/index.js';
+import { isUserAbortError } from '../utils/errorGuards';
+import { runVersionBumpWorkflow } from './versionBump.workflow';
+
+/**
+ * Command that proposes the next semantic version from the commits since the last tag
+ *
+ * The suggestion can be copied or turned into an annotated tag with a
+ * generated message.
+ */
+export class VersionBumpCommand extends BaseCommand {
+    /**
+     * Execute the version bump workflow
+     *
+     * @param signal - Optional AbortSignal to cancel the operation
+     * @returns A promise that resolves when the command completes
+     */
+    async execute(signal?: AbortSignal): Promise<void> {
+        try {
+            this.logger.info('Starting version bump suggestion');
+
+            if (
+                await runVersionBumpWorkflow({
+                    config: this.config,
+                    logger: this.logger,
+                    signal,
+                    initializeOpenAI: () => this.initializeOpenAI(),
+                    withProgress: (title, task) => this.withProgress(title, task),
+                })
+            ) {
+                this.logger.info('Successfully applied version suggestion');
+            }
+        } catch (error) {
+            if (isUserAbortError(error)) {
+                this.logger.info('Version bump suggestion cancelled');
+                return;
+            }
+            this.handleErrorSilently(error, t('operations.suggestingVersion'));
+        }
+    }
+}
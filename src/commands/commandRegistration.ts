@@ -20,58 +20,185 @@ export function registerAllCommands(
     // Track active commit generation request for cancellation
     let activeCommitAbortController: AbortController | undefined;
 
+    const runCommitCommand = async (options?: { candidates?: boolean }) => {
+        // Cancel previous request if still running
+        if (activeCommitAbortController) {
+            activeCommitAbortController.abort();
+            activeCommitAbortController = undefined;
+        }
+
+        if (statusBar.isPublicRepo && !statusBar.isPublicRepoWarningSuppressed()) {
+            const { t } = await import('../i18n/index.js');
+            const choice = await vscode.window.showWarningMessage(
+                t('messages.publicRepoWarning'),
+                t('buttons.yes'),
+                t('buttons.no'),
+                t('buttons.dontShowAgain'),
+            );
+            if (choice === t('buttons.dontShowAgain')) {
+                await statusBar.suppressPublicRepoWarning();
+            } else if (choice !== t('buttons.yes')) {
+                return;
+            }
+        }
+
+        const abortController = new AbortController();
+        activeCommitAbortController = abortController;
+
+        try {
+            const { CommitCommand } = await import('./CommitCommand.js');
+            const command = new CommitCommand(context);
+            await command.execute(abortController.signal, options);
+        } finally {
+            // Only clear if this is still the active controller
+            if (activeCommitAbortController === abortController) {
+                activeCommitAbortController = undefined;
+            }
+        }
+    };
+
     // Commit message generation
     registry.register({
         id: 'otak-committer.generateMessage',
         title: 'Generate Commit Message',
         category: 'otak-committer',
+        handler: () => runCommitCommand(),
+    });
+
+    // Alt-click variant that sends the request again instead of reusing a cached response
+    registry.register({
+        id: 'otak-committer.generateMessageWithoutCache',
+        title: 'Generate Commit Message (Bypass Cache)',
+        category: 'otak-committer',
         handler: async () => {
-            // Cancel previous request if still running
-            if (activeCommitAbortController) {
-                activeCommitAbortController.abort();
-                activeCommitAbortController = undefined;
-            }
+            const { runWithoutResponseCache } = await import('../services/llm.cache.js');
+            await runWithoutResponseCache(() => runCommitCommand());
+        },
+    });
 
-            if (statusBar.isPublicRepo && !statusBar.isPublicRepoWarningSuppressed()) {
-                const { t } = await import('../i18n/index.js');
-                const choice = await vscode.window.showWarningMessage(
-                    t('messages.publicRepoWarning'),
-                    t('buttons.yes'),
-                    t('buttons.no'),
-                    t('buttons.dontShowAgain'),
-                );
-                if (choice === t('buttons.dontShowAgain')) {
-                    await statusBar.suppressPublicRepoWarning();
-                } else if (choice !== t('buttons.yes')) {
-                    return;
-                }
-            }
+    registry.register({
+        id: 'otak-committer.generateMessageCandidates',
+        title: 'Generate Commit Message Candidates',
+        category: 'otak-committer',
+        handler: () => runCommitCommand({ candidates: true }),
+    });
 
-            const abortController = new AbortController();
-            activeCommitAbortController = abortController;
-
-            try {
-                const { CommitCommand } = await import('./CommitCommand.js');
-                const command = new CommitCommand(context);
-                await command.execute(abortController.signal);
-            } finally {
-                // Only clear if this is still the active controller
-                if (activeCommitAbortController === abortController) {
-                    activeCommitAbortController = undefined;
-                }
-            }
+    registry.register({
+        id: 'otak-committer.refineMessage',
+        title: 'Refine Commit Message',
+        category: 'otak-committer',
+        handler: async () => {
+            const { RefineCommitCommand } = await import('./RefineCommitCommand.js');
+            const command = new RefineCommitCommand(context);
+            await command.execute();
+        },
+    });
+
+    registry.register({
+        id: 'otak-committer.proposeCommitSplit',
+        title: 'Propose Commit Split',
+        category: 'otak-committer',
+        handler: async () => {
+            const { SplitCommitCommand } = await import('./SplitCommitCommand.js');
+            const command = new SplitCommitCommand(context);
+            await command.execute();
+        },
+    });
+
+    registry.register({
+        id: 'otak-committer.amendLastCommit',
+        title: 'Amend Last Commit Message',
+        category: 'otak-committer',
+        handler: async () => {
+            const { AmendCommitCommand } = await import('./AmendCommitCommand.js');
+            const command = new AmendCommitCommand(context);
+            await command.execute();
+        },
+    });
+
+    registry.register({
+        id: 'otak-committer.generateSquashMessage',
+        title: 'Generate Squash Commit Message',
+        category: 'otak-committer',
+        handler: async () => {
+            const { CommitRangeCommand } = await import('./CommitRangeCommand.js');
+            await new CommitRangeCommand(context).squash();
+        },
+    });
+
+    registry.register({
+        id: 'otak-committer.rewriteCommitRange',
+        title: 'Clean Up Commit Messages in Range',
+        category: 'otak-committer',
+        handler: async () => {
+            const { CommitRangeCommand } = await import('./CommitRangeCommand.js');
+            await new CommitRangeCommand(context).rewrite();
+        },
+    });
+
+    registry.register({
+        id: 'otak-committer.generateReleaseNotes',
+        title: 'Generate Release Notes',
+        category: 'otak-committer',
+        handler: async () => {
+            const { ReleaseNotesCommand } = await import('./ReleaseNotesCommand.js');
+            const command = new ReleaseNotesCommand(context);
+            await command.execute();
+        },
+    });
+
+    registry.register({
+        id: 'otak-committer.suggestNextVersion',
+        title: 'Suggest Next Version',
+        category: 'otak-committer',
+        handler: async () => {
+            const { VersionBumpCommand } = await import('./VersionBumpCommand.js');
+            const command = new VersionBumpCommand(context);
+            await command.execute();
         },
     });
 
     // PR generation
+    const runPRCommand = async () => {
+        const { PRCommand } = await import('./PRCommand.js');
+        const command = new PRCommand(context);
+        await command.execute();
+    };
+
     registry.register({
         id: 'otak-committer.generatePR',
         title: 'Generate Pull Request',
         category: 'otak-committer',
+        handler: runPRCommand,
+    });
+
+    registry.register({
+        id: 'otak-committer.generatePRWithoutCache',
+        title: 'Generate Pull Request (Bypass Cache)',
+        category: 'otak-committer',
         handler: async () => {
-            const { PRCommand } = await import('./PRCommand.js');
-            const command = new PRCommand(context);
-            await command.execute();
+            const { runWithoutResponseCache } = await import('../services/llm.cache.js');
+            await runWithoutResponseCache(runPRCommand);
+        },
+    });
+
+    registry.register({
+        id: 'otak-committer.installCommitHook',
+        title: 'Install Commit Message Hook',
+        category: 'otak-committer',
+        handler: async () => {
+            const { CommitHookCommand } = await import('./CommitHookCommand.js');
+            await new CommitHookCommand(context).install();
+        },
+    });
+
+    registry.register({
+        id: 'otak-committer.uninstallCommitHook',
+        title: 'Uninstall Commit Message Hook',
+        category: 'otak-committer',
+        handler: async () => {
+            const { CommitHookCommand } = await import('./CommitHookCommand.js');
+            await new CommitHookCommand(context).uninstall();
         },
     });
 
@@ -121,15 +248,48 @@ export function registerAllCommands(
         },
     });
 
+    registry.register({
+        id: 'otak-committer.showUsageReport',
+        title: 'Show Token Usage Report',
+        category: 'otak-committer',
+        handler: async () => {
+            const { UsageReportCommand } = await import('./UsageReportCommand.js');
+            await new UsageReportCommand(context).execute();
+        },
+    });
+
+    registry.register({
+        id: 'otak-committer.clearResponseCache',
+        title: 'Clear Response Cache',
+        category: 'otak-committer',
+        handler: async () => {
+            const { ClearResponseCacheCommand } = await import('./ClearResponseCacheCommand.js');
+            await new ClearResponseCacheCommand(context).execute();
+        },
+    });
+
+    // Quick action of potential secrets shown in the Problems view
+    registry.register({
+        id: 'otak-committer.unstageFile',
+        title: 'Unstage File',
+        category: 'otak-committer',
+        handler: async (...args: unknown[]) => {
+            const { UnstageFileCommand } = await import('./UnstageFileCommand.js');
+            await new UnstageFileCommand(context).execute(args[0]);
+        },
+    });
+
     registry.register({
         id: 'otak-committer.setApiKey',
         title: 'Set API Key',
         category: 'otak-committer',
         handler: async () => {
             const { StorageManager } = await import('../infrastructure/storage/StorageManager.js');
+            const { ConfigManager } = await import('../infrastructure/config/ConfigManager.js');
             const { ApiKeyManager } = await import('../services/ApiKeyManager.js');
             const storage = new StorageManager(context);
-            const apiKeyManager = new ApiKeyManager(context, storage);
+            const provider = new ConfigManager().get('provider') || 'openai';
+            const apiKeyManager = new ApiKeyManager(context, storage, provider);
             await apiKeyManager.configureApiKey();
         },
     });
@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import { Logger } from '../infrastructure/logging/Logger';
+import { t } from '../i18n/index.js';
+import { GitService, GitServiceFactory } from '../services/git';
+import type { AmendTarget } from '../services/git.amend';
+import { GitServiceError } from '../types/errors';
+import { MessageStyle } from '../types/enums/MessageStyle';
+import { sanitizeCommitMessage } from '../utils';
+import { stripCommitTrailer } from '../utils/commitMessage';
+import { processCommitDiff, reviewCommitDiff } from './commit.diffProcessing';
+import {
+    appendTrailerIfEnabled,
+    confirmIfPotentialSecrets,
+    createSecretRedactor,
+    getCommitLintOptions,
+    type CommitDiffPreparationOptions,
+} from './commit.workflow';
+import { showTimedNotification } from './commandNotifications';
+
+/**
+ * Regenerate the message of the last commit and amend it after confirmation
+ *
+ * The model sees HEAD's changes together with anything staged, plus HEAD's
+ * current message. A commit that is already on a remote-tracking branch is
+ * only amended when the user explicitly chooses to rewrite it.
+ *
+ * @param options - Workflow dependencies and configuration
+ * @returns true if the commit was amended, false otherwise
+ */
+export async function runCommitAmendWorkflow(
+    options: CommitDiffPreparationOptions,
+): Promise<boolean> {
+    const { config, logger, signal, withProgress } = options;
+    const git = await GitServiceFactory.initialize();
+    if (!git) {
+        logger.error('Failed to initialize GitService');
+        return false;
+    }
+
+    const target = await git.getAmendTarget();
+    if (!target) {
+        logger.info('No commit to amend');
+        await showTimedNotification(t('messages.noCommitToAmend'), 3000);
+        return false;
+    }
+    if (!(await confirmAmendPushedCommit(target, logger))) {
+        return false;
+    }
+    const diff = await confirmIfPotentialSecrets(
+        target.diff,
+        logger,
+        await createSecretRedactor(git),
+    );
+    if (diff === undefined) {
+        return false;
+    }
+
+    const openai = await options.initializeOpenAI();
+    if (!openai) {
+        return false;
+    }
+
+    const language = config.get('language') || 'english';
+    const classificationRules = await git.findClassificationRules();
+    const rawDiff = config.get('reviewDiffBeforeSending')
+        ? await reviewCommitDiff({
+              rawDiff: diff,
+              openai,
+              language,
+              classificationRules,
+              logger,
+          })
+        : diff;
+    if (rawDiff === undefined) {
+        return false;
+    }
+
+    const { processedDiff } = await processCommitDiff({
+        rawDiff,
+        openai,
+        language,
+        signal,
+        classificationRules,
+        logger,
+        withProgress,
+    });
+    const templates = await git.findTemplates();
+    const generated = await withProgress(t('progress.generatingAmendMessage'), async () =>
+        openai.generateAmendCommitMessage(
+            {
+                diff: processedDiff,
+                previousMessage: stripCommitTrailer(target.message).message.trim(),
+                language,
+                messageStyle: config.get('messageStyle') || MessageStyle.Normal,
+                template: templates.commit,
+                lint: await getCommitLintOptions(git, config, !!templates.commit),
+            },
+            signal,
+        ),
+    );
+    const message = generated ? sanitizeCommitMessage(generated) : undefined;
+    if (!message) {
+        return false;
+    }
+
+    const finalMessage = appendTrailerIfEnabled(message, config);
+    const amendLabel = t('amend.amend');
+    const choice = await vscode.window.showInformationMessage(
+        t('amend.confirm'),
+        { modal: true, detail: finalMessage },
+        amendLabel,
+    );
+    if (choice !== amendLabel) {
+        logger.info('Amend cancelled by user');
+        return false;
+    }
+
+    return amendCommit(options, git, target, finalMessage);
+}
+
+async function confirmAmendPushedCommit(target: AmendTarget, logger: Logger): Promise<boolean> {
+    if (target.pushedTo.length === 0) {
+        return true;
+    }
+
+    logger.warning(`HEAD is already on ${target.pushedTo.join(', ')}`);
+    const forceLabel = t('amend.amendAnyway');
+    const choice = await vscode.window.showWarningMessage(
+        t('amend.pushedWarning', { branches: target.pushedTo.join(', ') }),
+        { modal: true },
+        forceLabel,
+    );
+    if (choice !== forceLabel) {
+        logger.info('Refused to amend a pushed commit');
+        return false;
+    }
+    return true;
+}
+
+async function amendCommit(
+    { logger, withProgress }: CommitDiffPreparationOptions,
+    git: GitService,
+    target: AmendTarget,
+    message: string,
+): Promise<boolean> {
+    try {
+        const amended = await withProgress(t('progress.amendingCommit'), () =>
+            git.amendHead(target.head, message),
+        );
+        logger.info(`Amended ${target.head} as ${amended}`);
+    } catch (error) {
+        if (!(error instanceof GitServiceError)) {
+            throw error;
+        }
+        logger.error('Failed to amend the last commit', error);
+        vscode.window.showErrorMessage(t('errors.amendHeadMoved'));
+        return false;
+    }
+
+    await showTimedNotification(t('messages.commitAmended'), 3000);
+    return true;
+}
@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import { Logger } from '../infrastructure/logging/Logger';
+import { t } from '../i18n/index.js';
+import type { OpenAIService } from '../services/openai';
+import { TemplateInfo } from '../types';
+import { MessageStyle } from '../types/enums/MessageStyle';
+import { sanitizeCommitMessage } from '../utils';
+import {
+    getCandidateStyles,
+    splitCommitMessage,
+    uniqueCommitMessages,
+} from '../utils/commitMessage';
+import { showTimedNotification } from './commandNotifications';
+
+type ProgressRunner = <T>(title: string, task: () => Promise<T>) => Promise<T>;
+
+type CandidateChoice =
+    | { kind: 'candidate'; message: string }
+    | { kind: 'regenerate' }
+    | { kind: 'combine' };
+
+interface CandidateQuickPickItem extends vscode.QuickPickItem {
+    choice?: CandidateChoice;
+}
+
+interface ChooseCommitMessageCandidateOptions {
+    openai: OpenAIService;
+    diff: string;
+    template?: TemplateInfo;
+    language: string;
+    messageStyle: MessageStyle | string;
+    count: number;
+    signal?: AbortSignal;
+    logger: Logger;
+    withProgress: ProgressRunner;
+}
+
+/**
+ * Generate several commit message candidates and let the user pick,
+ * regenerate, or combine them
+ *
+ * @param options - Generation inputs and workflow dependencies
+ * @returns The chosen (or combined) message, or undefined if cancelled or generation failed
+ */
+export async function chooseCommitMessageCandidate(
+    options: ChooseCommitMessageCandidateOptions,
+): Promise<string | undefined> {
+    const { logger } = options;
+    let candidates = await generateCandidates(options);
+
+    while (candidates.length > 0) {
+        const choice = await pickCandidate(candidates);
+        if (!choice) {
+            logger.info('Commit message candidate selection cancelled');
+            return undefined;
+        }
+
+        if (choice.kind === 'candidate') {
+            return choice.message;
+        }
+
+        if (choice.kind === 'regenerate') {
+            logger.debug('Regenerating commit message candidates');
+            candidates = await generateCandidates(options);
+            continue;
+        }
+
+        const selected = await pickCandidatesToCombine(candidates);
+        if (selected.length < 2) {
+            continue;
+        }
+        const combined = await combineCandidates(options, selected);
+        if (combined) {
+            return combined;
+        }
+    }
+
+    return undefined;
+}
+
+async function generateCandidates({
+    openai,
+    diff,
+    template,
+    language,
+    messageStyle,
+    count,
+    signal,
+    logger,
+    withProgress,
+}: ChooseCommitMessageCandidateOptions): Promise<string[]> {
+    const styles = getCandidateStyles(messageStyle, count);
+    logger.debug(`Generating ${count} commit message candidates (styles: ${styles.join(', ')})`);
+
+    const generated = await withProgress(t('progress.generatingCandidates', { count }), () =>
+        openai.generateCommitMessageCandidates(diff, language, styles, template, signal),
+    );
+    const candidates = uniqueCommitMessages(
+        generated.map((message) => sanitizeCommitMessage(message)),
+    );
+
+    if (candidates.length === 0) {
+        logger.error('Failed to generate commit message candidates');
+        await showTimedNotification(t('messages.emptyMessageReceived'), 3000);
+    }
+    return candidates;
+}
+
+async function combineCandidates(
+    { openai, language, signal, logger, withProgress }: ChooseCommitMessageCandidateOptions,
+    selected: string[],
+): Promise<string | undefined> {
+    logger.debug(`Combining ${selected.length} commit message candidates`);
+    const combined = await withProgress(t('progress.combiningCandidates'), () =>
+        openai.combineCommitMessages(selected, language, signal),
+    );
+    return combined ? sanitizeCommitMessage(combined) || undefined : undefined;
+}
+
+function toCandidateItem(message: string): vscode.QuickPickItem {
+    const { subject, body } = splitCommitMessage(message);
+    return {
+        label: subject,
+        detail: body ? body.split('\n').join('  ') : undefined,
+    };
+}
+
+async function pickCandidate(candidates: string[]): Promise<CandidateChoice | undefined> {
+    const items: CandidateQuickPickItem[] = [
+        ...candidates.map((message) => ({
+            ...toCandidateItem(message),
+            choice: { kind: 'candidate', message } as const,
+        })),
+        { label: '', kind: vscode.QuickPickItemKind.Separator },
+        {
+            label: `$(refresh) ${t('candidates.regenerate')}`,
+            choice: { kind: 'regenerate' },
+        },
+    ];
+
+    if (candidates.length > 1) {
+        items.push({
+            label: `$(merge) ${t('candidates.combine')}`,
+            description: t('candidates.combineDescription'),
+            choice: { kind: 'combine' },
+        });
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: t('candidates.placeHolder', { count: candidates.length }),
+        matchOnDetail: true,
+        ignoreFocusOut: true,
+    });
+    return picked?.choice;
+}
+
+async function pickCandidatesToCombine(candidates: string[]): Promise<string[]> {
+    const picked = await vscode.window.showQuickPick(
+        candidates.map((message) => ({ ...toCandidateItem(message), message, picked: true })),
+        {
+            placeHolder: t('candidates.combinePlaceHolder'),
+            canPickMany: true,
+            matchOnDetail: true,
+            ignoreFocusOut: true,
+        },
+    );
+    return picked?.map((item) => item.message) ?? [];
+}
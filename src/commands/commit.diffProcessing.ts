@@ -1,8 +1,12 @@
 import { Logger } from '../infrastructure/logging/Logger';
 import { t } from '../i18n';
+import type { FileClassificationRule } from '../constants/diffClassification';
 import type { OpenAIService } from '../services/openai';
 import { DiffProcessor, DiffTier, type DiffProcessResult } from '../services/diffProcessor';
+import type { MapReduceProgress } from '../services/mapReduceSummarizer';
 import { TokenManager } from '../services/tokenManager';
+import { reportProgress } from '../utils/progressReporter';
+import { reviewDiffBeforeSending } from './commit.diffReview';
 
 type ProgressRunner = <T>(title: string, task: () => Promise<T>) => Promise<T>;
 
@@ -11,10 +15,56 @@ interface ProcessCommitDiffOptions {
     openai: OpenAIService;
     language: string;
     signal?: AbortSignal;
+    /** File priorities defined by the repository */
+    classificationRules?: readonly FileClassificationRule[];
     logger: Logger;
     withProgress: ProgressRunner;
 }
 
+type ReviewCommitDiffOptions = Pick<
+    ProcessCommitDiffOptions,
+    'rawDiff' | 'openai' | 'language' | 'classificationRules' | 'logger'
+>;
+
+function createDiffProcessor(
+    openai: OpenAIService,
+    language: string,
+    classificationRules: readonly FileClassificationRule[] | undefined,
+    logger: Logger,
+): DiffProcessor {
+    return new DiffProcessor(
+        openai,
+        language,
+        (msg, progress) => {
+            logger.info(`Map-reduce progress: ${msg}`);
+            if (progress) {
+                reportProgress(formatMapReduceProgress(progress));
+            }
+        },
+        classificationRules,
+    );
+}
+
+/**
+ * Let the user review how the diff will be processed and leave files out
+ *
+ * Nothing is sent to the model during the review, Tier 3 summaries included.
+ *
+ * @param options - The diff and the services that will process it
+ * @returns The diff of the files the user kept, or undefined if the review was cancelled
+ */
+export async function reviewCommitDiff({
+    rawDiff,
+    openai,
+    language,
+    classificationRules,
+    logger,
+}: ReviewCommitDiffOptions): Promise<string | undefined> {
+    const tokenBudget = TokenManager.getConfiguredMaxTokens(openai.getModel('commit'));
+    const processor = createDiffProcessor(openai, language, classificationRules, logger);
+    return reviewDiffBeforeSending(rawDiff, (diff) => processor.plan(diff, tokenBudget), logger);
+}
+
 /**
  * Process diff through the hybrid tier system (Tier 1/2/3).
  */
@@ -23,25 +73,30 @@ export async function processCommitDiff({
     openai,
     language,
     signal,
+    classificationRules,
     logger,
     withProgress,
 }: ProcessCommitDiffOptions): Promise<DiffProcessResult> {
-    const tokenBudget = TokenManager.getConfiguredMaxTokens();
-    const processor = new DiffProcessor(openai, language, (msg) =>
-        logger.info(`Map-reduce progress: ${msg}`),
-    );
+    const tokenBudget = TokenManager.getConfiguredMaxTokens(openai.getModel('commit'));
+    const processor = createDiffProcessor(openai, language, classificationRules, logger);
 
     const result = await withProgress(t('progress.processingLargeDiff'), async () =>
         processor.process(rawDiff, tokenBudget, signal),
     );
 
-    logDiffProcessingResult(result, rawDiff, logger);
+    logDiffProcessingResult(result, logger);
     return result;
 }
 
-function logDiffProcessingResult(result: DiffProcessResult, rawDiff: string, logger: Logger): void {
+function formatMapReduceProgress({ phase, round, completed, total }: MapReduceProgress): string {
+    return phase === 'map'
+        ? t('progress.summarizingChunks', { current: completed, total })
+        : t('progress.mergingSummaries', { round, current: completed, total });
+}
+
+function logDiffProcessingResult(result: DiffProcessResult, logger: Logger): void {
     if (result.tier === DiffTier.SmartPrioritized) {
-        const tokenCount = Math.floor(rawDiff.length / 4 / 1000);
+        const tokenCount = Math.floor(result.originalTokens / 1000);
         logger.info(
             t('git.smartDiffApplied', {
                 tokenCount,
@@ -50,7 +105,7 @@ function logDiffProcessingResult(result: DiffProcessResult, rawDiff: string, log
             }),
         );
     } else if (result.tier === DiffTier.MapReduce) {
-        const tokenCount = Math.floor(rawDiff.length / 4 / 1000);
+        const tokenCount = Math.floor(result.originalTokens / 1000);
         logger.info(
             t('git.mapReduceApplied', {
                 tokenCount,
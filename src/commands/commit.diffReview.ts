@@ -0,0 +1,240 @@
+import * as vscode from 'vscode';
+import { Logger } from '../infrastructure/logging/Logger';
+import { t } from '../i18n/index.js';
+import { FilePriority, isLockFile } from '../constants/diffClassification';
+import type { DiffProcessingPlan } from '../services/diffProcessor';
+import { removeFilesFromDiff, type FileTreatmentReport } from '../utils/diffUtils';
+
+const REVIEW_SCHEME = 'otak-committer-review';
+const REVIEW_PATH = '/Diff Review.md';
+
+interface ReviewedFile extends FileTreatmentReport {
+    /** Left out of the diff by the user */
+    removed: boolean;
+}
+
+interface FilePickItem extends vscode.QuickPickItem {
+    filePath: string;
+}
+
+/** Serves the report for the review document */
+class DiffReviewContentProvider implements vscode.TextDocumentContentProvider {
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    private content = '';
+
+    readonly uri = vscode.Uri.from({ scheme: REVIEW_SCHEME, path: REVIEW_PATH });
+    readonly onDidChange = this.changeEmitter.event;
+
+    provideTextDocumentContent(): string {
+        return this.content;
+    }
+
+    update(content: string): void {
+        this.content = content;
+        this.changeEmitter.fire(this.uri);
+    }
+}
+
+let contentProvider: DiffReviewContentProvider | undefined;
+
+/**
+ * Register the provider of the diff review document
+ *
+ * The registration is disposed with the extension. Until this runs, for
+ * example outside the extension host, reviews show the file picker only.
+ *
+ * @param context - Extension context that owns the registration
+ */
+export function registerDiffReview(context: Pick<vscode.ExtensionContext, 'subscriptions'>): void {
+    const provider = new DiffReviewContentProvider();
+    contentProvider = provider;
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(REVIEW_SCHEME, provider),
+        new vscode.Disposable(() => {
+            if (contentProvider === provider) {
+                contentProvider = undefined;
+            }
+        }),
+    );
+}
+
+async function showReviewDocument(
+    provider: DiffReviewContentProvider,
+    report: string,
+): Promise<void> {
+    provider.update(report);
+    const document = await vscode.workspace.openTextDocument(provider.uri);
+    await vscode.languages.setTextDocumentLanguage(document, 'markdown');
+    await vscode.window.showTextDocument(document, {
+        viewColumn: vscode.ViewColumn.Beside,
+        preview: true,
+        preserveFocus: true,
+    });
+}
+
+function formatTreatment(file: ReviewedFile): string {
+    if (file.removed) {
+        return t('diffReview.treatments.removed');
+    }
+    if (file.treatment === 'excluded') {
+        return file.priority === FilePriority.EXCLUDE && isLockFile(file.filePath)
+            ? t('diffReview.treatments.lockFile')
+            : t('diffReview.treatments.excluded');
+    }
+    const treatment = t(`diffReview.treatments.${file.treatment}`);
+    return file.redactedSecrets > 0
+        ? `${treatment}, ${t('diffReview.treatments.redacted', { count: file.redactedSecrets })}`
+        : treatment;
+}
+
+function formatTokens(count: number): string {
+    return count.toLocaleString('en-US');
+}
+
+/**
+ * Render what a diff review would send as Markdown
+ *
+ * @param plan - Processing planned for the files the user kept
+ * @param removedFiles - Files the user left out, with their original treatment
+ * @returns The report
+ */
+export function formatDiffReviewReport(
+    plan: DiffProcessingPlan,
+    removedFiles: FileTreatmentReport[] = [],
+): string {
+    const kept = new Set(plan.files.map((file) => file.filePath));
+    const files: ReviewedFile[] = [
+        ...plan.files.map((file) => ({ ...file, removed: false })),
+        ...removedFiles
+            .filter((file) => !kept.has(file.filePath))
+            .map((file) => ({ ...file, removed: true })),
+    ];
+    const sentTokens = plan.files.reduce((sum, file) => sum + file.sentTokens, 0);
+    const lines = [
+        `# ${t('diffReview.reportTitle')}`,
+        '',
+        t('diffReview.summary', {
+            tier: plan.tier,
+            files: plan.files.length,
+            tokens: formatTokens(plan.originalTokens),
+            budget: formatTokens(plan.tokenBudget),
+        }),
+        '',
+        `| ${t('diffReview.columns.file')} | ${t('diffReview.columns.treatment')} | ${t('diffReview.columns.tokens')} | ${t('diffReview.columns.sentTokens')} |`,
+        '| --- | --- | ---: | ---: |',
+        ...files.map(
+            (file) =>
+                `| \`${file.filePath}\` (+${file.additions}/-${file.deletions}) | ${formatTreatment(file)} | ${formatTokens(file.tokenCount)} | ${formatTokens(file.removed ? 0 : file.sentTokens)} |`,
+        ),
+        `| **${t('diffReview.total')}** | | ${formatTokens(plan.originalTokens)} | ${formatTokens(sentTokens)} |`,
+        '',
+    ];
+    if (plan.files.some((file) => file.treatment === 'mapReduced')) {
+        lines.push(`> ${t('diffReview.mapReduceNote')}`, '');
+    }
+    lines.push(t('diffReview.hint'), '');
+    return lines.join('\n');
+}
+
+function createPickItems(allFiles: FileTreatmentReport[], plan: DiffProcessingPlan) {
+    const planned = new Map(plan.files.map((file) => [file.filePath, file]));
+    return allFiles.map((original): FilePickItem => {
+        const file = planned.get(original.filePath);
+        const reviewed = { ...(file ?? original), removed: !file };
+        return {
+            label: original.filePath,
+            description: `${formatTreatment(reviewed)} · ${t('diffReview.tokens', {
+                count: formatTokens(original.tokenCount),
+            })}`,
+            picked: !!file,
+            filePath: original.filePath,
+        };
+    });
+}
+
+async function closeReviewDocument(uri: vscode.Uri): Promise<void> {
+    const tabs = vscode.window.tabGroups.all
+        .flatMap((group) => group.tabs)
+        .filter(
+            (tab) =>
+                tab.input instanceof vscode.TabInputText &&
+                tab.input.uri.toString() === uri.toString(),
+        );
+    await Promise.all(tabs.map((tab) => vscode.window.tabGroups.close(tab)));
+}
+
+/**
+ * Show what a diff would send to the model and let the user leave files out
+ *
+ * A virtual document lists each file with its treatment and token counts,
+ * and a picker beside it toggles files in or out. Changing the selection
+ * plans the diff again, so the treatments shown always match what is sent.
+ *
+ * @param rawDiff - The diff about to be processed
+ * @param planDiff - Plans the processing of a diff without sending it
+ * @param logger - Logger used for diagnostics
+ * @returns The diff of the files the user kept, or undefined if the review was cancelled
+ */
+export async function reviewDiffBeforeSending(
+    rawDiff: string,
+    planDiff: (diff: string) => DiffProcessingPlan,
+    logger: Logger,
+): Promise<string | undefined> {
+    let plan = planDiff(rawDiff);
+    const allFiles = plan.files;
+    if (allFiles.length === 0) {
+        return rawDiff;
+    }
+
+    const provider = contentProvider;
+    let removed = new Set<string>();
+    let diff = rawDiff;
+    try {
+        for (;;) {
+            if (provider) {
+                await showReviewDocument(
+                    provider,
+                    formatDiffReviewReport(
+                        plan,
+                        allFiles.filter((file) => removed.has(file.filePath)),
+                    ),
+                );
+            }
+
+            const picked = await vscode.window.showQuickPick(createPickItems(allFiles, plan), {
+                canPickMany: true,
+                ignoreFocusOut: true,
+                title: t('diffReview.pickTitle'),
+                placeHolder: t('diffReview.pickPlaceholder'),
+            });
+            if (!picked) {
+                logger.info('Diff review cancelled');
+                return undefined;
+            }
+            if (picked.length === 0) {
+                await vscode.window.showInformationMessage(t('diffReview.noFilesSelected'));
+                return undefined;
+            }
+
+            const keep = new Set(picked.map((item) => item.filePath));
+            const nextRemoved = new Set(
+                allFiles.map((file) => file.filePath).filter((filePath) => !keep.has(filePath)),
+            );
+            if (
+                nextRemoved.size === removed.size &&
+                [...nextRemoved].every((filePath) => removed.has(filePath))
+            ) {
+                logger.info(`Diff review accepted (${removed.size} files left out)`);
+                return diff;
+            }
+
+            removed = nextRemoved;
+            diff = removeFilesFromDiff(rawDiff, removed);
+            plan = planDiff(diff);
+        }
+    } finally {
+        if (provider) {
+            await closeReviewDocument(provider.uri);
+        }
+    }
+}
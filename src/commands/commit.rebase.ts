@@ -0,0 +1,268 @@
+import * as vscode from 'vscode';
+import { Logger } from '../infrastructure/logging/Logger';
+import { t } from '../i18n/index.js';
+import { BranchSelector } from '../services/branch';
+import { GitService, GitServiceFactory } from '../services/git';
+import { GitServiceError } from '../types/errors';
+import { MessageStyle } from '../types/enums/MessageStyle';
+import { sanitizeCommitMessage } from '../utils';
+import { splitCommitMessage } from '../utils/commitMessage';
+import {
+    planRebaseTodo,
+    rebasePlanHasChanges,
+    type RangeCommit,
+    type RebaseTodoGroup,
+} from '../utils/rebaseTodo';
+import { processCommitDiff } from './commit.diffProcessing';
+import {
+    appendTrailerIfEnabled,
+    confirmIfPotentialSecretsInDiffs,
+    createSecretRedactor,
+    getCommitLintOptions,
+    type CommitDiffPreparationOptions,
+} from './commit.workflow';
+import { showTimedNotification } from './commandNotifications';
+
+const RECENT_COMMIT_LIMIT = 30;
+
+/**
+ * Fold `fixup!` commits and reword placeholder commits in `base..HEAD`
+ *
+ * The user picks the commit or branch the range starts after. Autosquash
+ * commits are folded into their targets, placeholder messages such as `WIP`
+ * are regenerated from each commit's changes, and after confirming the plan
+ * the range is rebased without opening an editor.
+ *
+ * @param options - Workflow dependencies and configuration
+ * @returns true if the range was rewritten, false otherwise
+ */
+export async function runRewriteRangeWorkflow(
+    options: CommitDiffPreparationOptions,
+): Promise<boolean> {
+    const { logger } = options;
+    const git = await GitServiceFactory.initialize();
+    if (!git) {
+        logger.error('Failed to initialize GitService');
+        return false;
+    }
+
+    const base = await pickRangeBase(git);
+    if (!base) {
+        logger.info('Range selection cancelled');
+        return false;
+    }
+    const { commits } = await git.getCommitRange(base, 'HEAD');
+    if (commits.length === 0) {
+        await showTimedNotification(
+            t('messages.noCommitsInRange', { base, compare: 'HEAD' }),
+            3000,
+        );
+        return false;
+    }
+    if (await git.rangeHasMerges(base)) {
+        vscode.window.showErrorMessage(t('errors.rangeHasMerges'));
+        return false;
+    }
+
+    const groups = planRebaseTodo(commits);
+    if (!rebasePlanHasChanges(groups)) {
+        await showTimedNotification(t('messages.nothingToRewrite'), 3000);
+        return false;
+    }
+    if (!(await confirmRewritePushedCommits(git, commits[0], logger))) {
+        return false;
+    }
+
+    const messages = await generateRewordMessages(options, git, groups);
+    if (!messages) {
+        return false;
+    }
+
+    const rewriteLabel = t('rebase.rewrite');
+    const choice = await vscode.window.showInformationMessage(
+        t('rebase.confirm', { count: commits.length }),
+        { modal: true, detail: describePlan(groups, messages) },
+        rewriteLabel,
+    );
+    if (choice !== rewriteLabel) {
+        logger.info('Range rewrite cancelled by user');
+        return false;
+    }
+
+    return rewriteRange(options, git, base, groups, messages);
+}
+
+async function pickRangeBase(git: GitService): Promise<string | undefined> {
+    const [branches, currentBranch, recent] = await Promise.all([
+        git.getBranches(),
+        git.getCurrentBranch(),
+        git.getRecentCommits(RECENT_COMMIT_LIMIT),
+    ]);
+
+    type BaseItem = vscode.QuickPickItem & { ref?: string };
+    const items: BaseItem[] = [
+        { label: t('rebase.branches'), kind: vscode.QuickPickItemKind.Separator },
+        ...BranchSelector.sortBranches(branches.filter((branch) => branch !== currentBranch)).map(
+            (item) => ({ ...item, ref: item.label }),
+        ),
+        { label: t('rebase.commits'), kind: vscode.QuickPickItemKind.Separator },
+        // HEAD itself would be an empty range
+        ...recent.slice(1).map((commit) => ({
+            label: commit.hash.slice(0, 7),
+            description: splitCommitMessage(commit.message).subject,
+            ref: commit.hash,
+        })),
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: t('rebase.placeHolder'),
+        matchOnDescription: true,
+    });
+    return picked?.ref;
+}
+
+async function confirmRewritePushedCommits(
+    git: GitService,
+    oldest: RangeCommit,
+    logger: Logger,
+): Promise<boolean> {
+    const pushedTo = await git.getRemoteBranchesContaining(oldest.hash);
+    if (pushedTo.length === 0) {
+        return true;
+    }
+
+    logger.warning(`${oldest.hash} is already on ${pushedTo.join(', ')}`);
+    const forceLabel = t('rebase.rewriteAnyway');
+    const choice = await vscode.window.showWarningMessage(
+        t('rebase.pushedWarning', { branches: pushedTo.join(', ') }),
+        { modal: true },
+        forceLabel,
+    );
+    if (choice !== forceLabel) {
+        logger.info('Refused to rewrite pushed commits');
+        return false;
+    }
+    return true;
+}
+
+async function generateRewordMessages(
+    options: CommitDiffPreparationOptions,
+    git: GitService,
+    groups: RebaseTodoGroup[],
+): Promise<Map<string, string> | undefined> {
+    const { config, logger, signal, withProgress } = options;
+    const reworded = groups.filter((group) => group.reword);
+    const messages = new Map<string, string>();
+    if (reworded.length === 0) {
+        return messages;
+    }
+
+    // A reworded commit ends up with its fixups folded in, so describe both
+    const diffs = new Map<string, string>();
+    for (const group of reworded) {
+        const parts = await Promise.all(
+            [group.commit, ...group.fixups].map((commit) => git.getCommitDiff(commit.hash)),
+        );
+        diffs.set(group.commit.hash, parts.join('\n'));
+    }
+    const confirmed = await confirmIfPotentialSecretsInDiffs(
+        [...diffs.values()],
+        logger,
+        await createSecretRedactor(git),
+    );
+    if (!confirmed) {
+        return undefined;
+    }
+    [...diffs.keys()].forEach((hash, index) => diffs.set(hash, confirmed[index]));
+
+    const openai = await options.initializeOpenAI();
+    if (!openai) {
+        return undefined;
+    }
+
+    const language = config.get('language') || 'english';
+    const messageStyle = config.get('messageStyle') || MessageStyle.Normal;
+    const templates = await git.findTemplates();
+    const lint = await getCommitLintOptions(git, config, !!templates.commit);
+    const classificationRules = await git.findClassificationRules();
+
+    for (const group of reworded) {
+        const { processedDiff } = await processCommitDiff({
+            rawDiff: diffs.get(group.commit.hash) ?? '',
+            openai,
+            language,
+            signal,
+            classificationRules,
+            logger,
+            withProgress,
+        });
+        const generated = await withProgress(
+            t('progress.generatingRangeMessages', {
+                current: messages.size + 1,
+                count: reworded.length,
+            }),
+            () =>
+                openai.generateCommitMessage(
+                    processedDiff,
+                    language,
+                    messageStyle,
+                    templates.commit,
+                    signal,
+                    lint,
+                ),
+        );
+        const message = generated ? sanitizeCommitMessage(generated) : undefined;
+        if (!message) {
+            logger.warning(`No message generated for ${group.commit.hash}`);
+            return undefined;
+        }
+        messages.set(group.commit.hash, appendTrailerIfEnabled(message, config));
+    }
+    return messages;
+}
+
+function describePlan(groups: RebaseTodoGroup[], messages: Map<string, string>): string {
+    const subject = (commit: RangeCommit) => splitCommitMessage(commit.message).subject;
+    return groups
+        .map((group) => {
+            const short = group.commit.hash.slice(0, 7);
+            const replacement = messages.get(group.commit.hash);
+            const lines = [
+                replacement
+                    ? `${short} ${subject(group.commit)} → ${splitCommitMessage(replacement).subject}`
+                    : `${short} ${subject(group.commit)}`,
+            ];
+            lines.push(...group.fixups.map((fixup) => `  + ${subject(fixup)}`));
+            return lines.join('\n');
+        })
+        .join('\n');
+}
+
+async function rewriteRange(
+    { logger, withProgress }: CommitDiffPreparationOptions,
+    git: GitService,
+    base: string,
+    groups: RebaseTodoGroup[],
+    messages: Map<string, string>,
+): Promise<boolean> {
+    try {
+        await withProgress(t('progress.rewritingRange'), () =>
+            git.rewriteCommitRange(base, groups, messages),
+        );
+    } catch (error) {
+        if (!(error instanceof GitServiceError)) {
+            throw error;
+        }
+        const detail = error.message.split('\n')[0];
+        vscode.window.showErrorMessage(
+            error.context?.aborted === false
+                ? t('errors.rewriteRangeAbortFailed', { detail })
+                : t('errors.rewriteRangeFailed', { detail }),
+        );
+        return false;
+    }
+
+    logger.info(`Rewrote ${base}..HEAD into ${groups.length} commit(s)`);
+    await showTimedNotification(t('messages.rangeRewritten', { count: groups.length }), 3000);
+    return true;
+}
@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import { t } from '../i18n/index.js';
+import { sanitizeCommitMessage } from '../utils';
+import {
+    appendCommitTrailer,
+    splitCommitMessage,
+    stripCommitTrailer,
+} from '../utils/commitMessage';
+import {
+    prepareCommitDiff,
+    type CommitDiffPreparationOptions,
+    type PreparedCommitDiff,
+} from './commit.workflow';
+import {
+    getCommitMessageFromSourceControl,
+    setCommitMessageInSourceControl,
+} from './commitMessageInput';
+import { showTimedNotification } from './commandNotifications';
+
+type CommitRefineWorkflowOptions = CommitDiffPreparationOptions;
+
+type RefineAction = { kind: 'refine' } | { kind: 'restore'; index: number } | { kind: 'done' };
+
+interface RefineQuickPickItem extends vscode.QuickPickItem {
+    action?: RefineAction;
+}
+
+/**
+ * Rewrite the message in the SCM input box with follow-up instructions
+ *
+ * Each rewrite is written to the input box immediately and appended to a
+ * version history, so the user can step back to any earlier version before
+ * finishing.
+ *
+ * @param options - Workflow dependencies and configuration
+ * @returns true if the input box ends up with a different message, false otherwise
+ */
+export async function runCommitRefineWorkflow(
+    options: CommitRefineWorkflowOptions,
+): Promise<boolean> {
+    const { logger } = options;
+    const { message: original, hadTrailer } = stripCommitTrailer(
+        await getCommitMessageFromSourceControl(logger),
+    );
+    if (!original.trim()) {
+        logger.info('No commit message to refine');
+        await showTimedNotification(t('messages.noCommitMessageToRefine'), 3000);
+        return false;
+    }
+
+    const prepared = await prepareCommitDiff(options);
+    if (!prepared) {
+        return false;
+    }
+
+    const history = [original.trim()];
+    let currentIndex = 0;
+    const apply = async (index: number) => {
+        currentIndex = index;
+        const message = history[index];
+        await setCommitMessageInSourceControl(
+            hadTrailer ? appendCommitTrailer(message) : message,
+            logger,
+        );
+    };
+
+    while (true) {
+        const action = await promptRefineAction(history, currentIndex);
+        if (!action || action.kind === 'done') {
+            break;
+        }
+
+        if (action.kind === 'restore') {
+            logger.debug(`Restoring commit message version ${action.index + 1}`);
+            await apply(action.index);
+            continue;
+        }
+
+        const refined = await refineCurrentMessage(options, prepared, history[currentIndex]);
+        if (refined) {
+            history.push(refined);
+            await apply(history.length - 1);
+        }
+    }
+
+    logger.info(`Commit message refinement finished at version ${currentIndex + 1}`);
+    return currentIndex !== 0;
+}
+
+async function refineCurrentMessage(
+    { logger, signal, withProgress }: CommitRefineWorkflowOptions,
+    { openai, diff, language }: PreparedCommitDiff,
+    message: string,
+): Promise<string | undefined> {
+    const instruction = await vscode.window.showInputBox({
+        placeHolder: t('refine.instructionPlaceHolder'),
+        prompt: t('refine.instructionPrompt'),
+        ignoreFocusOut: true,
+    });
+    if (!instruction?.trim()) {
+        return undefined;
+    }
+
+    logger.debug(`Refining commit message with instruction: ${instruction}`);
+    const refined = await withProgress(t('progress.refiningCommitMessage'), () =>
+        openai.refineCommitMessage(
+            { message, diff, instruction: instruction.trim(), language },
+            signal,
+        ),
+    );
+    const sanitized = refined ? sanitizeCommitMessage(refined) : '';
+    if (!sanitized) {
+        return undefined;
+    }
+    if (sanitized === message) {
+        logger.info('Refined commit message is identical to the current version');
+    }
+    return sanitized;
+}
+
+async function promptRefineAction(
+    history: string[],
+    currentIndex: number,
+): Promise<RefineAction | undefined> {
+    const items: RefineQuickPickItem[] = [
+        {
+            label: `$(edit) ${t('refine.refine')}`,
+            description: t('refine.refineDescription'),
+            action: { kind: 'refine' },
+        },
+    ];
+
+    if (currentIndex > 0) {
+        items.push({
+            label: `$(discard) ${t('refine.stepBack')}`,
+            description: splitCommitMessage(history[currentIndex - 1]).subject,
+            action: { kind: 'restore', index: currentIndex - 1 },
+        });
+    }
+
+    items.push({
+        label: `$(check) ${t('refine.done')}`,
+        description: t('refine.doneDescription'),
+        action: { kind: 'done' },
+    });
+
+    if (history.length > 1) {
+        items.push({ label: t('refine.history'), kind: vscode.QuickPickItemKind.Separator });
+        history.forEach((message, index) => {
+            const { subject, body } = splitCommitMessage(message);
+            items.push({
+                label: `$(history) ${t('refine.version', { number: index + 1 })}: ${subject}`,
+                description: index === currentIndex ? t('refine.current') : undefined,
+                detail: body ? body.split('\n').join('  ') : undefined,
+                action: { kind: 'restore', index },
+            });
+        });
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: t('refine.placeHolder', {
+            current: currentIndex + 1,
+            total: history.length,
+        }),
+        ignoreFocusOut: true,
+    });
+    return picked?.action;
+}
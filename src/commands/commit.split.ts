@@ -0,0 +1,220 @@
+import * as vscode from 'vscode';
+import { t } from '../i18n/index.js';
+import { GitService } from '../services/git';
+import { OpenAIService } from '../services/openai';
+import { TokenManager } from '../services/tokenManager';
+import { GitServiceError } from '../types/errors';
+import { sanitizeCommitMessage, type SecretRedactor } from '../utils';
+import { splitCommitMessage } from '../utils/commitMessage';
+import {
+    buildPatchForUnits,
+    ChangeUnit,
+    CommitSplitGroup,
+    formatChangeUnitsForPrompt,
+    resolveCommitSplitPlan,
+    splitDiffIntoChangeUnits,
+} from '../utils/commitSplit';
+import {
+    appendTrailerIfEnabled,
+    collectStagedChanges,
+    type CommitDiffPreparationOptions,
+} from './commit.workflow';
+import { reviewCommitDiff } from './commit.diffProcessing';
+import { showTimedNotification } from './commandNotifications';
+
+/** Diff lines shown to the model per change unit before falling back to names only */
+const MAX_PROMPT_LINES_PER_UNIT = 80;
+
+interface SplitQuickPickItem extends vscode.QuickPickItem {
+    group: CommitSplitGroup;
+}
+
+/**
+ * Propose a split of the staged changes into several commits and create them
+ *
+ * Files (and hunks of modified files) are grouped by the model, the user
+ * picks which proposed commits to create, and the commits are created in
+ * order. Anything not committed stays staged. A failure midway rolls HEAD
+ * and the index back; after success the user can undo the whole split.
+ *
+ * @param options - Workflow dependencies and configuration
+ * @returns true if at least one commit was created, false otherwise
+ */
+export async function runCommitSplitWorkflow(
+    options: CommitDiffPreparationOptions,
+): Promise<boolean> {
+    const { config, logger } = options;
+    const staged = await collectStagedChanges(options);
+    if (!staged) {
+        return false;
+    }
+
+    const { git, openai, language, redactor } = staged;
+    const stagedUnits = splitDiffIntoChangeUnits(await git.getStagedPatch());
+    let units = stagedUnits;
+    if (config.get('reviewDiffBeforeSending')) {
+        const classificationRules = await git.findClassificationRules();
+        const reviewed = await reviewCommitDiff({ ...staged, classificationRules, logger });
+        if (!reviewed) {
+            return false;
+        }
+        // Files left out are neither described to the model nor committed; they stay staged
+        const keptFiles = new Set(splitDiffIntoChangeUnits(reviewed).map((unit) => unit.filePath));
+        units = stagedUnits.filter((unit) => keptFiles.has(unit.filePath));
+    }
+    if (units.length < 2) {
+        logger.info('Staged changes consist of a single change unit; nothing to split');
+        await showTimedNotification(t('messages.nothingToSplit'), 3000);
+        return false;
+    }
+
+    const groups = await proposeGroups(options, openai, language, units, redactor);
+    if (!groups) {
+        return false;
+    }
+
+    const selected = await pickGroups(groups);
+    if (!selected || selected.length === 0) {
+        logger.info('Commit split cancelled');
+        return false;
+    }
+
+    const committedUnits = new Set(selected.flatMap((group) => group.units));
+    const commits = selected.map((group) => ({
+        message: appendTrailerIfEnabled(group.message, config),
+        patch: buildPatchForUnits(group.units),
+    }));
+    const remainingPatch = buildPatchForUnits(
+        stagedUnits.filter((unit) => !committedUnits.has(unit)),
+    );
+
+    return createCommits(options, git, commits, remainingPatch);
+}
+
+async function proposeGroups(
+    { logger, signal, withProgress }: CommitDiffPreparationOptions,
+    openai: OpenAIService,
+    language: string,
+    units: ChangeUnit[],
+    redactor?: SecretRedactor,
+): Promise<CommitSplitGroup[] | undefined> {
+    const budget = TokenManager.getConfiguredMaxTokens(openai.getModel('commit'));
+    let description = formatChangeUnitsForPrompt(units, MAX_PROMPT_LINES_PER_UNIT);
+    if (TokenManager.estimateTokens(description) > budget) {
+        logger.warning('Change units exceed the token budget; sending file names and counts only');
+        description = formatChangeUnitsForPrompt(units, 0);
+    }
+    if (redactor) {
+        description = redactor.redact(description).content;
+    }
+
+    logger.debug(`Proposing commit split for ${units.length} change units`);
+    const plan = await withProgress(t('progress.proposingCommitSplit'), () =>
+        openai.proposeCommitSplit(description, language, signal),
+    );
+    if (!plan) {
+        return undefined;
+    }
+
+    const resolved = resolveCommitSplitPlan(plan, units);
+    const unassigned = [...resolved.unassigned];
+    const groups: CommitSplitGroup[] = [];
+    for (const group of resolved.groups) {
+        // Never fall back to the raw text: it may hold redaction placeholders
+        const message = sanitizeCommitMessage(group.message);
+        if (message) {
+            groups.push({ ...group, message });
+        } else {
+            logger.warning('Dropping a proposed commit whose message is empty once sanitized');
+            unassigned.push(...group.units);
+        }
+    }
+    if (unassigned.length > 0) {
+        logger.warning(
+            `Units not assigned to any commit stay staged: ${unassigned.map((unit) => unit.id).join(', ')}`,
+        );
+    }
+    if (groups.length === 0) {
+        logger.error('Commit split plan contained no usable commits');
+        await showTimedNotification(t('messages.emptyMessageReceived'), 3000);
+        return undefined;
+    }
+    return groups;
+}
+
+function describeUnits(units: ChangeUnit[]): string {
+    const hunksByFile = new Map<string, number>();
+    for (const unit of units) {
+        hunksByFile.set(unit.filePath, (hunksByFile.get(unit.filePath) ?? 0) + 1);
+    }
+    return [...hunksByFile.entries()]
+        .map(([filePath, count]) => {
+            const split = units.some((unit) => unit.filePath === filePath && unit.id.includes('.'));
+            return split ? `${filePath} (${t('commitSplit.hunks', { count })})` : filePath;
+        })
+        .join(', ');
+}
+
+async function pickGroups(groups: CommitSplitGroup[]): Promise<CommitSplitGroup[] | undefined> {
+    const items: SplitQuickPickItem[] = groups.map((group, index) => ({
+        label: `$(git-commit) ${splitCommitMessage(group.message).subject}`,
+        description: t('commitSplit.commitNumber', { number: index + 1 }),
+        detail: describeUnits(group.units),
+        picked: true,
+        group,
+    }));
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: t('commitSplit.placeHolder', { count: groups.length }),
+        canPickMany: true,
+        matchOnDetail: true,
+        ignoreFocusOut: true,
+    });
+    return picked?.map((item) => item.group);
+}
+
+async function createCommits(
+    { logger, withProgress }: CommitDiffPreparationOptions,
+    git: GitService,
+    commits: Array<{ message: string; patch: string }>,
+    remainingPatch: string,
+): Promise<boolean> {
+    let sequence;
+    try {
+        sequence = await withProgress(
+            t('progress.creatingSplitCommits', { count: commits.length }),
+            () => git.commitPatches(commits, remainingPatch),
+        );
+    } catch (error) {
+        if (!(error instanceof GitServiceError)) {
+            throw error;
+        }
+        const { rolledBack, head, tree } = error.context ?? {};
+        vscode.window.showErrorMessage(
+            rolledBack
+                ? t('errors.commitSplitFailed', { detail: error.message })
+                : t('errors.commitSplitRollbackFailed', {
+                      detail: error.message,
+                      head: String(head ?? 'HEAD'),
+                      tree: String(tree),
+                  }),
+        );
+        return false;
+    }
+
+    logger.info(`Created ${sequence.commits.length} commit(s) from split`);
+    const undoLabel = t('commitSplit.undo');
+    const choice = await vscode.window.showInformationMessage(
+        t('messages.commitSplitCompleted', { count: sequence.commits.length }),
+        undoLabel,
+    );
+    if (choice === undoLabel) {
+        const undone = await git.undoCommitPatches(sequence);
+        logger.info(undone ? 'Commit split undone' : 'Commit split not undone: HEAD has moved');
+        await showTimedNotification(
+            undone ? t('messages.commitSplitUndone') : t('messages.commitSplitUndoUnavailable'),
+            3000,
+        );
+    }
+    return true;
+}
@@ -0,0 +1,127 @@
+import { t } from '../i18n/index.js';
+import { BranchSelector } from '../services/branch';
+import { GitServiceFactory } from '../services/git';
+import { MessageStyle } from '../types/enums/MessageStyle';
+import { sanitizeCommitMessage } from '../utils';
+import { stripCommitTrailer } from '../utils/commitMessage';
+import { processCommitDiff, reviewCommitDiff } from './commit.diffProcessing';
+import {
+    appendTrailerIfEnabled,
+    confirmIfPotentialSecrets,
+    createSecretRedactor,
+    getCommitLintOptions,
+    type CommitDiffPreparationOptions,
+} from './commit.workflow';
+import { createCommitMessageStream, setCommitMessageInSourceControl } from './commitMessageInput';
+import { showTimedNotification } from './commandNotifications';
+
+/**
+ * Generate one consolidated message for the commits of a branch range
+ *
+ * The user picks a base and a compare branch; the messages of the commits in
+ * `base..compare` and the combined diff go to the model, and the result is
+ * put in the Source Control input box for the squash commit.
+ *
+ * @param options - Workflow dependencies and configuration
+ * @returns true if a message was generated and applied, false otherwise
+ */
+export async function runSquashMessageWorkflow(
+    options: CommitDiffPreparationOptions,
+): Promise<boolean> {
+    const { config, logger, signal, withProgress } = options;
+    const git = await GitServiceFactory.initialize();
+    if (!git) {
+        logger.error('Failed to initialize GitService');
+        return false;
+    }
+
+    const selection = await BranchSelector.selectBranches(git);
+    if (!selection) {
+        logger.info('Squash range selection cancelled');
+        return false;
+    }
+    const range = await git.getCommitRange(selection.base, selection.compare);
+    if (range.commits.length === 0) {
+        await showTimedNotification(t('messages.noCommitsInRange', { ...selection }), 3000);
+        return false;
+    }
+    const diff = await confirmIfPotentialSecrets(
+        range.diff,
+        logger,
+        await createSecretRedactor(git),
+    );
+    if (diff === undefined) {
+        return false;
+    }
+
+    const openai = await options.initializeOpenAI();
+    if (!openai) {
+        return false;
+    }
+
+    const language = config.get('language') || 'english';
+    const classificationRules = await git.findClassificationRules();
+    const rawDiff = config.get('reviewDiffBeforeSending')
+        ? await reviewCommitDiff({
+              rawDiff: diff,
+              openai,
+              language,
+              classificationRules,
+              logger,
+          })
+        : diff;
+    if (rawDiff === undefined) {
+        return false;
+    }
+
+    const { processedDiff } = await processCommitDiff({
+        rawDiff,
+        openai,
+        language,
+        signal,
+        classificationRules,
+        logger,
+        withProgress,
+    });
+    const templates = await git.findTemplates();
+    const lint = await getCommitLintOptions(git, config, !!templates.commit);
+    const stream =
+        (config.get('streamOutput') ?? true) ? createCommitMessageStream(logger) : undefined;
+
+    let message: string | undefined;
+    try {
+        const generated = await withProgress(
+            t('progress.generatingSquashMessage', { count: range.commits.length }),
+            () =>
+                openai.generateSquashCommitMessage(
+                    {
+                        diff: processedDiff,
+                        messages: range.commits.map((commit) =>
+                            stripCommitTrailer(commit.message).message.trim(),
+                        ),
+                        language,
+                        messageStyle: config.get('messageStyle') || MessageStyle.Normal,
+                        template: templates.commit,
+                        lint,
+                    },
+                    signal,
+                    stream ? (text) => stream.update(text) : undefined,
+                ),
+        );
+        message = generated ? sanitizeCommitMessage(generated) : undefined;
+    } finally {
+        if (!message) {
+            stream?.restore();
+        }
+    }
+    if (!message) {
+        return false;
+    }
+
+    await setCommitMessageInSourceControl(appendTrailerIfEnabled(message, config), logger);
+    await showTimedNotification(
+        t('messages.squashMessageGenerated', { count: range.commits.length }),
+        3000,
+    );
+    return true;
+}
@@ -4,17 +4,25 @@ import { ConfigManager } from '../infrastructure/config/ConfigManager';
 import { t } from '../i18n/index.js';
 import { GitService, GitServiceFactory } from '../services/git';
 import { OpenAIService } from '../services/openai';
-import { confirmProceedWithPotentialSecrets } from '../services/secretConfirmation';
+import { chooseHowToSendPotentialSecrets } from '../services/secretConfirmation';
+import { showStagedSecretDiagnostics } from '../services/secretDiagnostics';
 import { TemplateInfo } from '../types';
 import { MessageStyle } from '../types/enums/MessageStyle';
-import { detectPotentialSecrets, sanitizeCommitMessage } from '../utils';
-import { processCommitDiff } from './commit.diffProcessing';
-import { setCommitMessageInSourceControl } from './commitMessageInput';
+import { SecretRedactor, sanitizeCommitMessage } from '../utils';
+import { appendCommitTrailer } from '../utils/commitMessage';
+import type { CommitLintOptions } from '../utils/commitLint';
+import { resolveCommitLintOptions } from '../utils/commitLint.rules';
+import { chooseCommitMessageCandidate } from './commit.candidates';
+import { processCommitDiff, reviewCommitDiff } from './commit.diffProcessing';
+import { createCommitMessageStream, setCommitMessageInSourceControl } from './commitMessageInput';
 import { showTimedNotification } from './commandNotifications';
 
 type ProgressRunner = <T>(title: string, task: () => Promise<T>) => Promise<T>;
 
-interface CommitGenerationWorkflowOptions {
+/**
+ * Dependencies needed to collect and process the staged diff
+ */
+export interface CommitDiffPreparationOptions {
     context: Pick<vscode.ExtensionContext, 'globalState'>;
     config: Pick<ConfigManager, 'get'>;
     logger: Logger;
@@ -23,56 +31,150 @@ interface CommitGenerationWorkflowOptions {
     withProgress: ProgressRunner;
 }
 
+interface CommitGenerationWorkflowOptions extends CommitDiffPreparationOptions {
+    /** When greater than 1, generate this many candidates and let the user choose */
+    candidateCount?: number;
+}
+
 /**
- * Run the end-to-end commit message generation workflow
+ * Services and processed diff needed to generate or rewrite a commit message
+ */
+export interface PreparedCommitDiff {
+    git: GitService;
+    openai: OpenAIService;
+    language: string;
+    /** Staged diff after Tier 1/2/3 processing */
+    diff: string;
+}
+
+/**
+ * Staged changes after the secret check, before any diff processing
+ */
+export interface StagedCommitChanges {
+    git: GitService;
+    openai: OpenAIService;
+    language: string;
+    /** The staged diff, with potential secrets replaced if the user chose so */
+    rawDiff: string;
+    /** Set when secrets were redacted; other views of the changes must be redacted with it */
+    redactor?: SecretRedactor;
+}
+
+/**
+ * Collect the staged diff, confirm potential secrets, and initialize the LLM service
  *
  * @param options - Workflow dependencies and configuration
- * @returns true if a commit message was generated and applied, false otherwise
+ * @returns The raw diff and services, or undefined if there is nothing to send
  */
-export async function runCommitGenerationWorkflow({
+export async function collectStagedChanges({
     context,
     config,
     logger,
-    signal,
     initializeOpenAI,
-    withProgress,
-}: CommitGenerationWorkflowOptions): Promise<boolean> {
+}: CommitDiffPreparationOptions): Promise<StagedCommitChanges | undefined> {
     const git = await initializeGit(logger);
     if (!git) {
-        return false;
+        return undefined;
     }
 
-    const rawDiff = await getRawDiff(git, context.globalState, logger);
-    if (!rawDiff || !(await confirmIfPotentialSecrets(rawDiff, logger))) {
-        return false;
+    const stagedDiff = await getRawDiff(git, context.globalState, logger);
+    if (!stagedDiff) {
+        return undefined;
+    }
+    const redactor = await createSecretRedactor(git);
+    showStagedSecretDiagnostics(await git.getRootPath(), redactor.redact(stagedDiff).redactions);
+    const rawDiff = await confirmIfPotentialSecrets(stagedDiff, logger, redactor);
+    if (!rawDiff) {
+        return undefined;
     }
 
     const openai = await initializeOpenAI();
     if (!openai) {
-        return false;
+        return undefined;
+    }
+
+    return {
+        git,
+        openai,
+        language: config.get('language') || 'english',
+        rawDiff,
+        redactor: rawDiff !== stagedDiff ? redactor : undefined,
+    };
+}
+
+/**
+ * Collect the staged diff, confirm potential secrets, and process it for the model
+ *
+ * Shared by every workflow that sends the staged changes to the model.
+ *
+ * @param options - Workflow dependencies and configuration
+ * @returns The prepared diff and services, or undefined if there is nothing to send
+ */
+export async function prepareCommitDiff(
+    options: CommitDiffPreparationOptions,
+): Promise<PreparedCommitDiff | undefined> {
+    const staged = await collectStagedChanges(options);
+    if (!staged) {
+        return undefined;
+    }
+
+    const { git, openai, language } = staged;
+    const classificationRules = await git.findClassificationRules();
+    const rawDiff = options.config.get('reviewDiffBeforeSending')
+        ? await reviewCommitDiff({ ...staged, classificationRules, logger: options.logger })
+        : staged.rawDiff;
+    if (!rawDiff) {
+        return undefined;
     }
 
-    const language = config.get('language') || 'english';
     const diffResult = await processCommitDiff({
         rawDiff,
         openai,
         language,
-        signal,
-        logger,
-        withProgress,
+        signal: options.signal,
+        classificationRules,
+        logger: options.logger,
+        withProgress: options.withProgress,
     });
 
+    return { git, openai, language, diff: diffResult.processedDiff };
+}
+
+/**
+ * Run the end-to-end commit message generation workflow
+ *
+ * @param options - Workflow dependencies and configuration
+ * @returns true if a commit message was generated and applied, false otherwise
+ */
+export async function runCommitGenerationWorkflow(
+    options: CommitGenerationWorkflowOptions,
+): Promise<boolean> {
+    const { config, logger, signal, withProgress, candidateCount } = options;
+    const prepared = await prepareCommitDiff(options);
+    if (!prepared) {
+        return false;
+    }
+
+    const { git, openai, language, diff } = prepared;
     const templates = await findTemplates(git, logger);
-    const message = await generateMessage({
+    const generationOptions = {
         openai,
-        diff: diffResult.processedDiff,
+        diff,
         template: templates.commit,
         language,
         messageStyle: config.get('messageStyle') || MessageStyle.Normal,
         signal,
         logger,
         withProgress,
-    });
+    };
+    const message =
+        candidateCount && candidateCount > 1
+            ? await chooseCommitMessageCandidate({ ...generationOptions, count: candidateCount })
+            : await generateMessage({
+                  ...generationOptions,
+                  lint: await getCommitLintOptions(git, config, !!templates.commit),
+                  streamOutput: config.get('streamOutput') ?? true,
+              });
 
     if (!message) {
         return false;
@@ -118,6 +220,29 @@ async function findTemplates(
     return git.findTemplates();
 }
 
+/**
+ * Resolve the lint rules for generated commit messages from settings and the repository
+ *
+ * @param git - Git service used to find the repository's commitlint config
+ * @param config - Configuration accessor
+ * @param hasTemplate - Whether a commit template defines the message format
+ * @returns The lint options, or undefined when linting is off
+ */
+export async function getCommitLintOptions(
+    git: GitService,
+    config: Pick<ConfigManager, 'get'>,
+    hasTemplate: boolean,
+): Promise<CommitLintOptions | undefined> {
+    const enabled = config.get('lintCommitMessages') ?? true;
+    return resolveCommitLintOptions({
+        enabled,
+        maxRetries: config.get('commitLintMaxRetries') ?? 2,
+        repositoryConfig: enabled ? await git.findCommitLintConfig() : undefined,
+        overrides: config.get('commitLintRules'),
+        hasTemplate,
+    });
+}
+
 async function generateMessage({
     openai,
     diff,
@@ -127,6 +252,8 @@ async function generateMessage({
     signal,
     logger,
     withProgress,
+    lint,
+    streamOutput,
 }: {
     openai: OpenAIService;
     diff: string;
@@ -136,30 +263,44 @@ async function generateMessage({
     signal?: AbortSignal;
     logger: Logger;
     withProgress: ProgressRunner;
+    lint?: CommitLintOptions;
+    /** Fill the input box while the message streams in */
+    streamOutput?: boolean;
 }): Promise<string | undefined> {
     logger.debug('Starting commit message generation');
 
-    const message = await withProgress<string | undefined>(
-        t('progress.generatingCommitMessage'),
-        async () => {
-            logger.debug(`Using language: ${language}, style: ${messageStyle}`);
-            const generatedMessage = await openai.generateCommitMessage(
-                diff,
-                language,
-                messageStyle,
-                template,
-                signal,
-            );
-
-            return generatedMessage ? sanitizeCommitMessage(generatedMessage) || '' : undefined;
-        },
-    );
+    const stream = streamOutput ? createCommitMessageStream(logger) : undefined;
+    let message: string | undefined;
+    try {
+        message = await withProgress<string | undefined>(
+            t('progress.generatingCommitMessage'),
+            async () => {
+                logger.debug(`Using language: ${language}, style: ${messageStyle}`);
+                const generatedMessage = await openai.generateCommitMessage(
+                    diff,
+                    language,
+                    messageStyle,
+                    template,
+                    signal,
+                    lint,
+                    stream ? (text) => stream.update(text) : undefined,
+                );
+
+                return generatedMessage ? sanitizeCommitMessage(generatedMessage) || '' : undefined;
+            },
+        );
+    } catch (error) {
+        stream?.restore();
+        throw error;
+    }
 
     if (message === undefined) {
+        stream?.restore();
         return undefined;
     }
 
     if (!message) {
+        stream?.restore();
         logger.error('Failed to generate commit message: message is empty');
         await showTimedNotification(t('messages.emptyMessageReceived'), 3000);
         return undefined;
@@ -168,17 +309,78 @@ async function generateMessage({
     return message;
 }
 
-function appendTrailerIfEnabled(message: string, config: Pick<ConfigManager, 'get'>): string {
+/**
+ * Append the otak-committer trailer unless `otakCommitter.appendCommitTrailer` is off
+ *
+ * @param message - The commit message
+ * @param config - Configuration accessor
+ * @returns The message, with the trailer when enabled
+ */
+export function appendTrailerIfEnabled(
+    message: string,
+    config: Pick<ConfigManager, 'get'>,
+): string {
     const appendTrailer = config.get('appendCommitTrailer') ?? true;
-    return appendTrailer ? `${message}\n\nCommit-Message-By: otak-committer` : message;
+    return appendTrailer ? appendCommitTrailer(message) : message;
+}
+
+/**
+ * Create a redactor that leaves the repository's allowed values in place
+ *
+ * @param git - Git service of the repository whose allowlist applies
+ * @returns A redactor with the `.otakcommitter-secrets-allow` fingerprints
+ */
+export async function createSecretRedactor(git: GitService): Promise<SecretRedactor> {
+    return new SecretRedactor({ allowlist: await git.findSecretAllowlist() });
 }
 
-async function confirmIfPotentialSecrets(diff: string, logger: Logger): Promise<boolean> {
-    const detection = detectPotentialSecrets(diff);
-    return confirmProceedWithPotentialSecrets(
-        detection,
+/**
+ * Ask before sending a diff that looks like it contains secrets
+ *
+ * @param diff - The diff about to be sent to the model
+ * @param logger - Logger for command diagnostics
+ * @param redactor - Redactor whose placeholders are used if the user chooses redaction
+ * @returns The diff to send, with secrets replaced if the user chose so, or undefined to cancel
+ */
+export async function confirmIfPotentialSecrets(
+    diff: string,
+    logger: Logger,
+    redactor: SecretRedactor,
+): Promise<string | undefined> {
+    const confirmed = await confirmIfPotentialSecretsInDiffs([diff], logger, redactor);
+    return confirmed?.[0];
+}
+
+/**
+ * Ask once before sending several diffs that look like they contain secrets
+ *
+ * Redacted diffs share their placeholders, so a secret that occurs in
+ * several of them is replaced the same way everywhere.
+ *
+ * @param diffs - The diffs about to be sent to the model
+ * @param logger - Logger for command diagnostics
+ * @param redactor - Redactor whose placeholders are used if the user chooses redaction
+ * @returns The diffs to send, in the same order, or undefined to cancel
+ */
+export async function confirmIfPotentialSecretsInDiffs(
+    diffs: string[],
+    logger: Logger,
+    redactor: SecretRedactor,
+): Promise<string[] | undefined> {
+    const redacted = diffs.map((diff) => redactor.redact(diff));
+    const redactions = redacted.flatMap((result) => result.redactions);
+    if (redactions.length === 0) {
+        return diffs;
+    }
+
+    const choice = await chooseHowToSendPotentialSecrets(
+        redactions,
         logger,
         'Potential secrets detected in commit generation target',
         'messages.commitGenerationSecretWarning',
     );
+    if (choice === 'redact') {
+        return redacted.map((result) => result.content);
+    }
+    return choice === 'send' ? diffs : undefined;
 }
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import { Logger } from '../infrastructure/logging/Logger';
 import { t } from '../i18n';
 import { getRepositoryForCurrentWorkspace } from '../services/git.repository';
+import { sanitizeCommitMessage } from '../utils';
 
 /**
  * Set the generated commit message in the source control input box.
@@ -15,6 +16,78 @@ export async function setCommitMessageInSourceControl(
 ): Promise<void> {
     logger.debug('Setting generated message to source control input');
 
+    const inputBox = getSourceControlInputBox(logger);
+
+    // Set the message in the input box
+    inputBox.value = message;
+    logger.debug('Successfully set commit message');
+}
+
+/**
+ * Read the current text of the source control input box.
+ *
+ * @param logger - Logger for command diagnostics
+ * @returns The commit message currently typed in Source Control
+ */
+export async function getCommitMessageFromSourceControl(logger: Logger): Promise<string> {
+    logger.debug('Reading commit message from source control input');
+    return getSourceControlInputBox(logger).value;
+}
+
+/**
+ * Writes a commit message into the source control input box while it streams in
+ */
+export interface CommitMessageStream {
+    /** Replace the input box text with the sanitized message received so far */
+    update(text: string): void;
+    /** Put back the text the input box had before the first update */
+    restore(): void;
+}
+
+/**
+ * Create a writer that fills the source control input box as a message streams in.
+ *
+ * The input box is looked up on the first update, so a stream that never
+ * produces text leaves Source Control untouched. Updates never throw: if the
+ * input box cannot be written, streaming stops and the caller sets the
+ * complete message as it would without streaming.
+ *
+ * @param logger - Logger for command diagnostics
+ * @returns The stream writer
+ */
+export function createCommitMessageStream(logger: Logger): CommitMessageStream {
+    let inputBox: { value: string } | undefined;
+    let originalValue = '';
+    let failed = false;
+
+    return {
+        update(text: string): void {
+            if (failed) {
+                return;
+            }
+            try {
+                if (!inputBox) {
+                    inputBox = getSourceControlInputBox(logger);
+                    originalValue = inputBox.value;
+                }
+                inputBox.value = sanitizeCommitMessage(text);
+            } catch (error) {
+                logger.warning(
+                    'Streaming into Source Control failed, waiting for the message',
+                    error,
+                );
+                failed = true;
+            }
+        },
+        restore(): void {
+            if (inputBox) {
+                inputBox.value = originalValue;
+            }
+        },
+    };
+}
+
+function getSourceControlInputBox(logger: Logger): { value: string } {
     // Get Git extension
     const gitExtension = vscode.extensions.getExtension('vscode.git');
     if (!gitExtension) {
@@ -35,7 +108,5 @@ export async function setCommitMessageInSourceControl(
         throw new Error(t('errors.gitInputBoxUnavailable'));
     }
 
-    // Set the message in the input box
-    repository.inputBox.value = message;
-    logger.debug('Successfully set commit message');
+    return repository.inputBox;
 }
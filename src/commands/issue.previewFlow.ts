@@ -3,7 +3,11 @@ import { Logger } from '../infrastructure/logging/Logger';
 import { t } from '../i18n/index.js';
 import { IssueType, GeneratedIssueContent } from '../types/interfaces/Issue';
 import { IssueGeneratorService } from '../services/issueGenerator';
-import { showMarkdownPreview } from '../utils/preview';
+import {
+    createMarkdownPreviewStream,
+    MarkdownPreviewStream,
+    showMarkdownPreview,
+} from '../utils/preview';
 
 type PreviewFile = { uri: vscode.Uri; document: vscode.TextDocument };
 type IssueAction = 'modify' | 'create' | 'cancel';
@@ -16,19 +20,28 @@ interface RunIssuePreviewLoopInput {
     progress: vscode.Progress<{ message?: string }>;
     logger: Logger;
     previewStorageUri?: vscode.Uri;
+    /** Show the issue body in the preview while it streams in */
+    streamOutput?: boolean;
     onPreviewRendered: (previewFile: PreviewFile | undefined) => void;
 }
 
+function formatIssuePreview(issueType: IssueType, preview: GeneratedIssueContent): string {
+    return `# Preview of ${issueType.label}\n\nTitle: ${preview.title}\n\n${preview.body}`;
+}
+
 async function renderIssuePreview(
     issueType: IssueType,
     preview: GeneratedIssueContent,
     logger: Logger,
     storageUri?: vscode.Uri,
+    stream?: MarkdownPreviewStream,
 ): Promise<PreviewFile | undefined> {
     logger.debug('Showing issue preview');
 
-    const previewContent = `# Preview of ${issueType.label}\n\nTitle: ${preview.title}\n\n${preview.body}`;
-    const previewFile = await showMarkdownPreview(previewContent, 'issue', storageUri);
+    const previewContent = formatIssuePreview(issueType, preview);
+    const previewFile = stream
+        ? await stream.finish(previewContent)
+        : await showMarkdownPreview(previewContent, 'issue', storageUri);
 
     if (!previewFile) {
         throw new Error(t('messages.failedToShowPreview'));
@@ -37,6 +50,28 @@ async function renderIssuePreview(
     return previewFile;
 }
 
+async function generateIssuePreview(
+    input: RunIssuePreviewLoopInput,
+    description: string,
+): Promise<{ preview: GeneratedIssueContent; stream?: MarkdownPreviewStream }> {
+    const { service, issueType, selectedFiles, previewStorageUri, streamOutput } = input;
+    const stream = streamOutput
+        ? createMarkdownPreviewStream('issue', previewStorageUri)
+        : undefined;
+    try {
+        const preview = await service.generatePreview(
+            { type: issueType, description, files: selectedFiles },
+            stream
+                ? (body) => stream.update(formatIssuePreview(issueType, { title: '…', body }))
+                : undefined,
+        );
+        return { preview, stream };
+    } catch (error) {
+        await stream?.cancel();
+        throw error;
+    }
+}
+
 async function promptIssueAction(): Promise<IssueAction | undefined> {
     const action = await vscode.window.showQuickPick(
         [
@@ -86,26 +121,20 @@ async function promptModificationInstructions(
 export async function runIssuePreviewLoop(
     input: RunIssuePreviewLoopInput,
 ): Promise<GeneratedIssueContent | undefined> {
-    const {
-        service,
-        issueType,
-        description,
-        selectedFiles,
-        progress,
-        logger,
-        previewStorageUri,
-        onPreviewRendered,
-    } = input;
+    const { issueType, description, progress, logger, previewStorageUri, onPreviewRendered } =
+        input;
 
     progress.report({ message: t('messages.analyzingRepository') });
-    let preview = await service.generatePreview({
-        type: issueType,
-        description,
-        files: selectedFiles,
-    });
+    let { preview, stream } = await generateIssuePreview(input, description);
 
     while (true) {
-        const previewFile = await renderIssuePreview(issueType, preview, logger, previewStorageUri);
+        const previewFile = await renderIssuePreview(
+            issueType,
+            preview,
+            logger,
+            previewStorageUri,
+            stream,
+        );
         onPreviewRendered(previewFile);
 
         const action = await promptIssueAction();
@@ -127,10 +156,9 @@ export async function runIssuePreviewLoop(
         }
 
         progress.report({ message: t('messages.updatingContent') });
-        preview = await service.generatePreview({
-            type: issueType,
-            description: `${description}\n\nModification instructions: ${modifications}`,
-            files: selectedFiles,
-        });
+        ({ preview, stream } = await generateIssuePreview(
+            input,
+            `${description}\n\nModification instructions: ${modifications}`,
+        ));
     }
 }
@@ -1,5 +1,23 @@
 import * as vscode from 'vscode';
-import { showMarkdownPreview } from '../utils/preview';
+import { MarkdownPreviewStream, showMarkdownPreview } from '../utils/preview';
+
+/**
+ * Format the PR title and body as shown in the Markdown preview
+ *
+ * @param prContent - PR title and body, possibly still streaming in
+ * @param issueNumber - Optional issue number to include via "Resolves #N"
+ * @returns The preview Markdown
+ */
+export function formatPRPreview(
+    prContent: { title: string; body: string },
+    issueNumber?: number,
+): string {
+    let previewContent = `${prContent.title}\n\n---\n\n${prContent.body}`;
+    if (issueNumber) {
+        previewContent += `\n\nResolves #${issueNumber}`;
+    }
+    return previewContent;
+}
 
 /**
  * Render the generated PR title and body as a Markdown preview document
@@ -7,16 +25,17 @@ import { showMarkdownPreview } from '../utils/preview';
  * @param prContent - Generated PR title and body
  * @param issueNumber - Optional issue number to include via "Resolves #N"
  * @param storageUri - Optional storage location for the preview file
+ * @param stream - Preview already showing the streamed content, finished in place
  * @returns The opened preview file descriptor, or undefined if it could not be shown
  */
 export async function showPRPreview(
     prContent: { title: string; body: string },
     issueNumber?: number,
     storageUri?: vscode.Uri,
+    stream?: MarkdownPreviewStream,
 ): Promise<{ uri: vscode.Uri; document: vscode.TextDocument } | undefined> {
-    let previewContent = `${prContent.title}\n\n---\n\n${prContent.body}`;
-    if (issueNumber) {
-        previewContent += `\n\nResolves #${issueNumber}`;
-    }
-    return showMarkdownPreview(previewContent, 'pr', storageUri);
+    const previewContent = formatPRPreview(prContent, issueNumber);
+    return stream
+        ? stream.finish(previewContent)
+        : showMarkdownPreview(previewContent, 'pr', storageUri);
 }
@@ -6,14 +6,16 @@ import { BranchSelection, BranchSelector } from '../services/branch';
 import { GitServiceFactory } from '../services/git';
 import { GitHubService, GitHubServiceFactory } from '../services/github';
 import { OpenAIService } from '../services/openai';
-import { confirmProceedWithPotentialSecrets } from '../services/secretConfirmation';
+import { chooseHowToSendPotentialSecrets } from '../services/secretConfirmation';
 import { PullRequestDiff, TemplateInfo } from '../types';
 import { ServiceError } from '../types/errors';
-import { detectPotentialSecrets } from '../utils';
+import { SecretRedactor, removeRedactionPlaceholders } from '../utils';
+import { parsePartialJsonStrings } from '../utils/partialJson';
+import { createMarkdownPreviewStream, MarkdownPreviewStream } from '../utils/preview';
 import { createPRWithDraftFallback } from './pr.creation';
 import { handleCreatePRError } from './pr.error';
 import { selectIssue, selectPRType } from './pr.input';
-import { showPRPreview } from './pr.preview';
+import { formatPRPreview, showPRPreview } from './pr.preview';
 
 type ProgressRunner = <T>(title: string, task: () => Promise<T>) => Promise<T>;
 type PreviewFile = { uri: vscode.Uri; document: vscode.TextDocument };
@@ -56,8 +58,9 @@ export async function runPRGenerationWorkflow({
 
     const issueNumber = await selectIssue(github, logger);
     const templates = await findTemplates(logger);
-    const diff = await getBranchDiff(github, branches, logger);
-    if (!diff || !(await confirmIfPotentialSecrets(diff, logger))) {
+    const branchDiff = await getBranchDiff(github, branches, logger);
+    const diff = branchDiff && (await confirmIfPotentialSecrets(branchDiff, logger));
+    if (!diff) {
         return false;
     }
 
@@ -66,19 +69,33 @@ export async function runPRGenerationWorkflow({
         return false;
     }
 
-    const prContent = await generatePRContent(
-        openai,
-        diff,
-        templates.pr,
-        config,
-        logger,
-        withProgress,
-    );
+    const stream =
+        (config.get('streamOutput') ?? true)
+            ? createMarkdownPreviewStream('pr', storageUri)
+            : undefined;
+    let prContent: PRContent | undefined;
+    try {
+        prContent = await generatePRContent(openai, diff, templates.pr, config, logger, {
+            withProgress,
+            onText: stream
+                ? (json) => {
+                      const { title = '', body = '' } = parsePartialJsonStrings(json);
+                      stream.update(
+                          formatPRPreview(removePlaceholders({ title, body }), issueNumber),
+                      );
+                  }
+                : undefined,
+        });
+    } finally {
+        if (!prContent) {
+            await stream?.cancel();
+        }
+    }
     if (!prContent) {
         return false;
     }
 
-    if (!(await showPreview(prContent, issueNumber, storageUri, setPreviewFile, logger))) {
+    if (!(await showPreview(prContent, issueNumber, storageUri, setPreviewFile, logger, stream))) {
         return false;
     }
 
@@ -140,7 +157,9 @@ async function getBranchDiff(
     logger.debug(`Getting diff between ${branches.base} and ${branches.compare}`);
 
     try {
-        const diff = await github.getBranchDiffDetails(branches.base, branches.compare);
+        const git = await GitServiceFactory.initialize();
+        const rules = git ? await git.findClassificationRules() : [];
+        const diff = await github.getBranchDiffDetails(branches.base, branches.compare, rules);
         if (!diff.files.length) {
             logger.info('No changes found between branches');
             vscode.window.showErrorMessage(t('messages.noChangesBetweenBranches'));
@@ -161,14 +180,14 @@ async function generatePRContent(
     template: TemplateInfo | undefined,
     config: Pick<ConfigManager, 'get'>,
     logger: Logger,
-    withProgress: ProgressRunner,
+    { withProgress, onText }: { withProgress: ProgressRunner; onText?: (json: string) => void },
 ): Promise<PRContent | undefined> {
     logger.debug('Generating PR content with AI');
 
     const prContent = await withProgress(t('progress.analyzingChanges'), async () => {
         const language = config.get('language') || 'english';
         logger.debug(`Using language: ${language}`);
-        return openai.generatePRContent(diff, language, template);
+        return openai.generatePRContent(diff, language, template, onText);
     });
 
     if (!prContent) {
@@ -176,7 +195,18 @@ async function generatePRContent(
         vscode.window.showErrorMessage(t('messages.failedToGeneratePR'));
         return undefined;
     }
-    return prContent;
+    return removePlaceholders(prContent);
+}
+
+/**
+ * Drop redaction placeholders the model copied from a redacted diff, so they
+ * never reach the preview or the pull request
+ */
+function removePlaceholders({ title, body }: PRContent): PRContent {
+    return {
+        title: removeRedactionPlaceholders(title).trim(),
+        body: removeRedactionPlaceholders(body),
+    };
 }
 
 async function showPreview(
@@ -185,10 +215,11 @@ async function showPreview(
     storageUri: vscode.Uri,
     setPreviewFile: (previewFile: PreviewFile) => void,
     logger: Logger,
+    stream?: MarkdownPreviewStream,
 ): Promise<boolean> {
     logger.debug('Showing PR preview');
 
-    const previewFile = await showPRPreview(prContent, issueNumber, storageUri);
+    const previewFile = await showPRPreview(prContent, issueNumber, storageUri, stream);
     if (!previewFile) {
         logger.error('Failed to show preview');
         vscode.window.showErrorMessage(t('messages.failedToShowPreview'));
@@ -238,14 +269,44 @@ async function createPR(
     }
 }
 
-async function confirmIfPotentialSecrets(diff: PullRequestDiff, logger: Logger): Promise<boolean> {
-    const combined = diff.files.map((file) => file.patch).join('\n');
-    const detection = detectPotentialSecrets(combined);
-    return confirmProceedWithPotentialSecrets(
-        detection,
+/**
+ * Ask before sending a branch diff that looks like it contains secrets
+ *
+ * @returns The diff to send, with secrets replaced if the user chose so, or undefined to cancel
+ */
+async function confirmIfPotentialSecrets(
+    diff: PullRequestDiff,
+    logger: Logger,
+): Promise<PullRequestDiff | undefined> {
+    const git = await GitServiceFactory.initialize();
+    const redactor = new SecretRedactor({
+        allowlist: git ? await git.findSecretAllowlist() : undefined,
+    });
+    // File headers let the detection tell dotenv and key files apart and locate each secret
+    const redacted = diff.files.map((file) =>
+        redactor.redact(`diff --git a/${file.filename} b/${file.filename}\n${file.patch}`),
+    );
+    const redactions = redacted.flatMap((result) => result.redactions);
+    if (redactions.length === 0) {
+        return diff;
+    }
+
+    const choice = await chooseHowToSendPotentialSecrets(
+        redactions,
         logger,
         'Potential secrets detected in PR diff',
+        'messages.prGenerationSecretWarning',
     );
+    if (choice !== 'redact') {
+        return choice === 'send' ? diff : undefined;
+    }
+    return {
+        ...diff,
+        files: diff.files.map((file, index) => {
+            const { content } = redacted[index];
+            return { ...file, patch: content.slice(content.indexOf('\n') + 1) };
+        }),
+    };
 }
 
 async function showSuccessNotification(
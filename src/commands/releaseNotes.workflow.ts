@@ -0,0 +1,207 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from '../infrastructure/config/ConfigManager';
+import { Logger } from '../infrastructure/logging/Logger';
+import { t } from '../i18n/index.js';
+import { GitService, GitServiceFactory } from '../services/git';
+import { GitHubServiceFactory } from '../services/github';
+import type { OpenAIService } from '../services/openaiService';
+import { createMarkdownPreviewStream, showMarkdownPreview } from '../utils/preview';
+import {
+    formatReleaseHeading,
+    formatReleaseNoteGroups,
+    groupReleaseCommits,
+    normalizeReleaseNotesBody,
+    readMergedPullRequestTitles,
+} from '../utils/releaseNotes';
+import { ConventionalCommit, parseConventionalCommit } from '../utils/conventionalCommits';
+import { isUserAbortError } from '../utils/errorGuards';
+import { showTimedNotification } from './commandNotifications';
+
+type ProgressRunner = <T>(title: string, task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Dependencies of {@link runReleaseNotesWorkflow}
+ */
+export interface ReleaseNotesWorkflowOptions {
+    storageUri?: vscode.Uri;
+    config: Pick<ConfigManager, 'get'>;
+    logger: Logger;
+    signal?: AbortSignal;
+    initializeOpenAI: () => Promise<OpenAIService | undefined>;
+    withProgress: ProgressRunner;
+}
+
+interface ReleaseRefs {
+    /** Ref the previous release ended at; undefined to start at the first commit */
+    from?: string;
+    /** Tag the release ends at, or `HEAD` for unreleased changes */
+    to: string;
+}
+
+/**
+ * Write a Keep a Changelog section for the commits between two refs
+ *
+ * The commits are parsed as Conventional Commits and grouped by section,
+ * type and scope before the model writes the entries in the configured
+ * language. The section is previewed and can then be added to the
+ * repository's changelog or copied.
+ *
+ * @param options - Workflow dependencies and configuration
+ * @returns true if release notes were generated, false otherwise
+ */
+export async function runReleaseNotesWorkflow(
+    options: ReleaseNotesWorkflowOptions,
+): Promise<boolean> {
+    const { config, logger, signal, withProgress } = options;
+    const git = await GitServiceFactory.initialize();
+    if (!git) {
+        logger.error('Failed to initialize GitService');
+        return false;
+    }
+
+    const refs = await selectReleaseRefs(git);
+    if (!refs) {
+        logger.info('Release range selection cancelled');
+        return false;
+    }
+    const rangeLabel = refs.from ? `${refs.from}..${refs.to}` : refs.to;
+    const range = await git.getReleaseRange(refs.from, refs.to);
+    if (range.commits.length === 0) {
+        await showTimedNotification(
+            t('messages.noCommitsForReleaseNotes', { range: rangeLabel }),
+            3000,
+        );
+        return false;
+    }
+
+    const commits = range.commits.map(parseConventionalCommit);
+    const pullRequestTitles = readMergedPullRequestTitles(range.merges);
+    if (config.get('releaseNotesIncludePullRequests')) {
+        await addPullRequestTitles(commits, pullRequestTitles, logger);
+    }
+
+    const openai = await options.initializeOpenAI();
+    if (!openai) {
+        return false;
+    }
+
+    const heading = formatReleaseHeading(refs.to === 'HEAD' ? undefined : refs.to, range.date);
+    const stream =
+        (config.get('streamOutput') ?? true)
+            ? createMarkdownPreviewStream('release-notes', options.storageUri)
+            : undefined;
+    let body: string | undefined;
+    try {
+        body = await withProgress(t('progress.generatingReleaseNotes', { range: rangeLabel }), () =>
+            openai.generateReleaseNotes(
+                {
+                    groupedCommits: formatReleaseNoteGroups(
+                        groupReleaseCommits(commits),
+                        pullRequestTitles,
+                    ),
+                    range: rangeLabel,
+                    language: config.get('language') || 'english',
+                },
+                signal,
+                stream
+                    ? (text) => stream.update(`${heading}\n\n${normalizeReleaseNotesBody(text)}\n`)
+                    : undefined,
+            ),
+        );
+    } finally {
+        if (!body) {
+            await stream?.cancel();
+        }
+    }
+    if (!body) {
+        return false;
+    }
+
+    const section = `${heading}\n\n${body}\n`;
+    await (stream
+        ? stream.finish(section)
+        : showMarkdownPreview(section, 'release-notes', options.storageUri));
+    await offerReleaseNotesActions(git, section, logger);
+    return true;
+}
+
+async function selectReleaseRefs(git: GitService): Promise<ReleaseRefs | undefined> {
+    const tags = await git.getTags();
+    if (tags.length === 0) {
+        return { to: 'HEAD' };
+    }
+
+    const toItem = await vscode.window.showQuickPick(
+        [
+            { label: 'HEAD', description: t('releaseNotes.unreleased'), ref: 'HEAD' },
+            ...tags.map((tag) => ({ label: tag, ref: tag })),
+        ],
+        { placeHolder: t('releaseNotes.selectTo') },
+    );
+    if (!toItem) {
+        return undefined;
+    }
+
+    // Tags are listed newest first, so the candidates for the previous release follow `to`
+    const olderTags = toItem.ref === 'HEAD' ? tags : tags.slice(tags.indexOf(toItem.ref) + 1);
+    const fromItem = await vscode.window.showQuickPick(
+        [
+            ...olderTags.map((tag) => ({ label: tag, ref: tag as string | undefined })),
+            { label: t('releaseNotes.firstCommit'), ref: undefined },
+        ],
+        { placeHolder: t('releaseNotes.selectFrom', { to: toItem.label }) },
+    );
+    if (!fromItem) {
+        return undefined;
+    }
+    return { from: fromItem.ref, to: toItem.ref };
+}
+
+async function addPullRequestTitles(
+    commits: ConventionalCommit[],
+    titles: Map<number, string>,
+    logger: Logger,
+): Promise<void> {
+    const missing = [...new Set(commits.flatMap((commit) => commit.pullRequests))].filter(
+        (number) => !titles.has(number),
+    );
+    if (missing.length === 0) {
+        return;
+    }
+
+    try {
+        const github = await GitHubServiceFactory.initialize();
+        const fetched = github ? await github.getPullRequestTitles(missing) : new Map();
+        for (const [number, title] of fetched) {
+            titles.set(number, title);
+        }
+    } catch (error) {
+        if (isUserAbortError(error)) {
+            throw error;
+        }
+        // The notes are still useful from the commit subjects alone
+        logger.warning('Could not read pull request titles from GitHub', error);
+    }
+}
+
+async function offerReleaseNotesActions(
+    git: GitService,
+    section: string,
+    logger: Logger,
+): Promise<void> {
+    const addLabel = t('releaseNotes.addToChangelog');
+    const copyLabel = t('releaseNotes.copy');
+    const choice = await vscode.window.showInformationMessage(
+        t('messages.releaseNotesGenerated'),
+        addLabel,
+        copyLabel,
+    );
+
+    if (choice === addLabel) {
+        const file = await git.addChangelogSection(section);
+        logger.info(`Added release notes to ${file}`);
+        await vscode.window.showTextDocument(vscode.Uri.file(file));
+    } else if (choice === copyLabel) {
+        await vscode.env.clipboard.writeText(section);
+    }
+}
@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from '../infrastructure/config/ConfigManager';
+import { Logger } from '../infrastructure/logging/Logger';
+import { t } from '../i18n/index.js';
+import type { UsageOperation } from '../types';
+import type { UsageTracker } from '../services/usageTracker';
+import { showMarkdownPreview } from '../utils/preview';
+import {
+    estimateUsageCost,
+    formatUsageCost,
+    formatUsageDay,
+    listUsage,
+    sumUsage,
+    type ModelPriceTable,
+    type UsageEntry,
+    type UsageLog,
+} from '../utils/usageStats';
+import { showTimedNotification } from './commandNotifications';
+
+/** Days listed in the daily table of the report */
+const REPORT_DAYS = 30;
+
+const OPERATIONS: UsageOperation[] = ['commit', 'pr', 'releaseNotes', 'issue', 'summarize'];
+
+/**
+ * Dependencies of {@link runUsageReportWorkflow}
+ */
+export interface UsageReportWorkflowOptions {
+    usage: UsageTracker;
+    storageUri?: vscode.Uri;
+    config: Pick<ConfigManager, 'get'>;
+    logger: Logger;
+}
+
+/**
+ * What the usage report covers
+ */
+export interface UsageReportInput {
+    log: UsageLog;
+    prices: ModelPriceTable;
+    /** Monthly budget in US dollars; 0 when none is set */
+    monthlyBudget: number;
+    now: Date;
+}
+
+function formatRow(label: string, entries: UsageEntry[], prices: ModelPriceTable): string {
+    const totals = sumUsage(entries);
+    const { cost, unpricedModels } = estimateUsageCost(entries, prices);
+    const hasCost = unpricedModels.length === 0 || cost > 0;
+    return [
+        label,
+        totals.requests.toLocaleString('en-US'),
+        totals.inputTokens.toLocaleString('en-US'),
+        totals.outputTokens.toLocaleString('en-US'),
+        totals.reasoningTokens.toLocaleString('en-US'),
+        hasCost ? formatUsageCost(cost) : '-',
+    ].join(' | ');
+}
+
+function formatTable(firstColumn: string, rows: string[]): string[] {
+    const header = [
+        firstColumn,
+        t('usage.columns.requests'),
+        t('usage.columns.inputTokens'),
+        t('usage.columns.outputTokens'),
+        t('usage.columns.reasoningTokens'),
+        t('usage.columns.cost'),
+    ];
+    return [
+        `| ${header.join(' | ')} |`,
+        `|${header.map((_, index) => (index === 0 ? ' --- ' : ' ---: ')).join('|')}|`,
+        ...rows.map((row) => `| ${row} |`),
+    ];
+}
+
+function groupBy(entries: UsageEntry[], key: (entry: UsageEntry) => string) {
+    const groups = new Map<string, UsageEntry[]>();
+    for (const entry of entries) {
+        groups.set(key(entry), [...(groups.get(key(entry)) ?? []), entry]);
+    }
+    return groups;
+}
+
+/**
+ * Render the usage report as Markdown
+ *
+ * The current month is broken down by operation and model, followed by the
+ * totals of the last days. Costs are estimated from the configured prices.
+ *
+ * @param input - The usage, prices and budget
+ * @returns The report
+ */
+export function formatUsageReport(input: UsageReportInput): string {
+    const { log, prices, monthlyBudget, now } = input;
+    const month = formatUsageDay(now).slice(0, 7);
+    const monthEntries = listUsage(log, month);
+    const lines = [`# ${t('usage.reportTitle')}`, '', `## ${t('usage.thisMonth', { month })}`, ''];
+    if (monthEntries.length === 0) {
+        lines.push(t('usage.noUsage'), '');
+    } else {
+        const byOperation = groupBy(monthEntries, (entry) => entry.operation);
+        const byModel = groupBy(monthEntries, (entry) => entry.model);
+        lines.push(
+            ...formatTable(t('usage.columns.operation'), [
+                ...OPERATIONS.filter((operation) => byOperation.has(operation)).map((operation) =>
+                    formatRow(
+                        t(`usage.operations.${operation}`),
+                        byOperation.get(operation)!,
+                        prices,
+                    ),
+                ),
+                formatRow(`**${t('usage.total')}**`, monthEntries, prices),
+            ]),
+            '',
+            ...formatTable(
+                t('usage.columns.model'),
+                [...byModel.keys()]
+                    .sort()
+                    .map((model) => formatRow(`\`${model}\``, byModel.get(model)!, prices)),
+            ),
+            '',
+        );
+    }
+    if (monthlyBudget > 0) {
+        const { cost } = estimateUsageCost(monthEntries, prices);
+        const percent = Math.round((cost / monthlyBudget) * 100);
+        lines.push(t('usage.budget', { budget: formatUsageCost(monthlyBudget), percent }), '');
+    }
+
+    const firstDay = new Date(now);
+    firstDay.setDate(firstDay.getDate() - (REPORT_DAYS - 1));
+    const recent = listUsage(log).filter((entry) => entry.day >= formatUsageDay(firstDay));
+    if (recent.length > 0) {
+        const byDay = groupBy(recent, (entry) => entry.day);
+        lines.push(
+            `## ${t('usage.lastDays', { days: REPORT_DAYS })}`,
+            '',
+            ...formatTable(
+                t('usage.columns.day'),
+                [...byDay.keys()]
+                    .sort()
+                    .reverse()
+                    .map((day) => formatRow(day, byDay.get(day)!, prices)),
+            ),
+            '',
+        );
+    }
+
+    const { unpricedModels } = estimateUsageCost(recent.concat(monthEntries), prices);
+    if (unpricedModels.length > 0) {
+        const models = unpricedModels.map((model) => `\`${model}\``).join(', ');
+        lines.push(`> ${t('usage.unpriced', { models })}`, '');
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Show the tokens used by the extension's model requests, with estimated costs
+ *
+ * @param options - Workflow dependencies and configuration
+ * @returns true if the report was shown, false otherwise
+ */
+export async function runUsageReportWorkflow(
+    options: UsageReportWorkflowOptions,
+): Promise<boolean> {
+    const { usage, config, logger } = options;
+    const log = usage.getLog();
+    if (Object.keys(log).length === 0) {
+        await showTimedNotification(t('usage.noUsage'), 3000);
+        return false;
+    }
+
+    const report = formatUsageReport({
+        log,
+        prices: usage.getPrices(),
+        monthlyBudget: config.get('monthlyBudget') ?? 0,
+        now: new Date(),
+    });
+    if (!(await showMarkdownPreview(report, 'usage', options.storageUri))) {
+        logger.error('Failed to show the usage report');
+        return false;
+    }
+    return true;
+}
@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import { t } from '../i18n/index.js';
+import { GitService, GitServiceFactory } from '../services/git';
+import { ConventionalCommit, parseConventionalCommit } from '../utils/conventionalCommits';
+import { formatReleaseNoteGroups, groupReleaseCommits } from '../utils/releaseNotes';
+import {
+    findLatestReleaseTag,
+    suggestVersionBump,
+    type VersionBumpSuggestion,
+} from '../utils/semverBump';
+import { showTimedNotification } from './commandNotifications';
+import type { ReleaseNotesWorkflowOptions } from './releaseNotes.workflow';
+
+/** Commits listed under each reason before the rest are only counted */
+const MAX_LISTED_COMMITS = 5;
+
+/**
+ * Suggest the next semantic version from the commits since the last release tag
+ *
+ * Breaking changes, features and fixes since the latest release tag reachable
+ * from HEAD decide the bump. The suggestion is shown with the commits behind
+ * it, and the user can copy the version or create an annotated tag whose
+ * message the model writes.
+ *
+ * @param options - Workflow dependencies and configuration
+ * @returns true if a version was copied or tagged, false otherwise
+ */
+export async function runVersionBumpWorkflow(
+    options: Omit<ReleaseNotesWorkflowOptions, 'storageUri'>,
+): Promise<boolean> {
+    const { logger } = options;
+    const git = await GitServiceFactory.initialize();
+    if (!git) {
+        logger.error('Failed to initialize GitService');
+        return false;
+    }
+
+    const latest = findLatestReleaseTag(await git.getReachableTags());
+    const current = latest?.tag ?? '0.0.0';
+    const range = await git.getReleaseRange(latest?.tag, 'HEAD');
+    if (range.commits.length === 0) {
+        await showTimedNotification(t('messages.noCommitsSinceTag', { tag: current }), 3000);
+        return false;
+    }
+
+    const commits = range.commits.map(parseConventionalCommit);
+    const suggestion = suggestVersionBump(commits, latest?.version);
+    const justification = describeSuggestion(suggestion, commits.length);
+    logger.info(`Suggested ${suggestion.bump} bump from ${current} to ${suggestion.next}`);
+    if (!suggestion.next) {
+        await vscode.window.showInformationMessage(t('version.noRelease', { tag: current }), {
+            modal: true,
+            detail: justification,
+        });
+        return false;
+    }
+
+    const tagLabel = t('version.createTag', { tag: suggestion.next });
+    const copyLabel = t('version.copy');
+    const choice = await vscode.window.showInformationMessage(
+        t('version.suggestion', { current, next: suggestion.next, bump: suggestion.bump }),
+        { modal: true, detail: justification },
+        tagLabel,
+        copyLabel,
+    );
+    if (choice === copyLabel) {
+        await vscode.env.clipboard.writeText(suggestion.next);
+        return true;
+    }
+    if (choice !== tagLabel) {
+        logger.info('Version suggestion dismissed');
+        return false;
+    }
+    return createReleaseTag(options, git, suggestion.next, commits, justification);
+}
+
+function describeSuggestion(suggestion: VersionBumpSuggestion, commitCount: number): string {
+    const list = (commits: ConventionalCommit[]) => {
+        const lines = commits
+            .slice(0, MAX_LISTED_COMMITS)
+            .map((commit) => `  - ${commit.type ? `${commit.type}: ` : ''}${commit.subject}`);
+        if (commits.length > MAX_LISTED_COMMITS) {
+            lines.push(`  - ${t('version.more', { count: commits.length - MAX_LISTED_COMMITS })}`);
+        }
+        return lines;
+    };
+
+    const lines: string[] = [];
+    if (suggestion.breaking.length > 0) {
+        lines.push(t('version.breakingReason', { count: suggestion.breaking.length }));
+        lines.push(...list(suggestion.breaking));
+        if (suggestion.preMajor) {
+            lines.push(t('version.preMajorNote'));
+        }
+    }
+    if (suggestion.features.length > 0) {
+        lines.push(t('version.featureReason', { count: suggestion.features.length }));
+        lines.push(...list(suggestion.features));
+    }
+    if (suggestion.fixes.length > 0) {
+        lines.push(t('version.fixReason', { count: suggestion.fixes.length }));
+        lines.push(...list(suggestion.fixes));
+    }
+    if (lines.length === 0) {
+        lines.push(t('version.noReleaseReason', { count: commitCount }));
+    }
+    return lines.join('\n');
+}
+
+async function createReleaseTag(
+    options: Omit<ReleaseNotesWorkflowOptions, 'storageUri'>,
+    git: GitService,
+    tag: string,
+    commits: ConventionalCommit[],
+    justification: string,
+): Promise<boolean> {
+    const { config, logger, signal, withProgress } = options;
+    if ((await git.getTags()).includes(tag)) {
+        vscode.window.showErrorMessage(t('errors.tagExists', { tag }));
+        return false;
+    }
+
+    const openai = await options.initializeOpenAI();
+    if (!openai) {
+        return false;
+    }
+    const message = await withProgress(t('progress.generatingTagMessage', { tag }), () =>
+        openai.generateTagMessage(
+            {
+                tag,
+                groupedCommits: formatReleaseNoteGroups(groupReleaseCommits(commits), new Map()),
+                justification,
+                language: config.get('language') || 'english',
+            },
+            signal,
+        ),
+    );
+    if (!message) {
+        return false;
+    }
+
+    const createLabel = t('version.createTagButton');
+    const choice = await vscode.window.showInformationMessage(
+        t('version.confirmTag', { tag }),
+        { modal: true, detail: message },
+        createLabel,
+    );
+    if (choice !== createLabel) {
+        logger.info('Tag creation cancelled by user');
+        return false;
+    }
+
+    await git.createAnnotatedTag(tag, message);
+    logger.info(`Created annotated tag ${tag}`);
+    await showTimedNotification(t('messages.tagCreated', { tag }), 5000);
+    return true;
+}
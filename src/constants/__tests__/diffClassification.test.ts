@@ -43,7 +43,11 @@ suite('diffClassification', () => {
 
         test('should cover all defined lock file names', () => {
             for (const lockFile of LOCK_FILE_NAMES) {
-                assert.strictEqual(isLockFile(lockFile), true, `Expected ${lockFile} to be detected`);
+                assert.strictEqual(
+                    isLockFile(lockFile),
+                    true,
+                    `Expected ${lockFile} to be detected`,
+                );
             }
         });
     });
@@ -120,5 +124,18 @@ suite('diffClassification', () => {
                 FilePriority.EXCLUDE,
             );
         });
+
+        test('should let the last matching repository rule win over built-in patterns', () => {
+            const rules = [
+                { pattern: /^gen\//, priority: FilePriority.EXCLUDE, source: 'a' },
+                { pattern: /^gen\/api\.ts$/, priority: FilePriority.HIGH, source: 'b' },
+                { pattern: /^dist\//, priority: FilePriority.HIGH, source: 'c' },
+            ];
+
+            assert.strictEqual(classifyFilePriority('gen/types.ts', rules), FilePriority.EXCLUDE);
+            assert.strictEqual(classifyFilePriority('gen/api.ts', rules), FilePriority.HIGH);
+            assert.strictEqual(classifyFilePriority('dist\\index.js', rules), FilePriority.HIGH);
+            assert.strictEqual(classifyFilePriority('yarn.lock', rules), FilePriority.EXCLUDE);
+        });
     });
 });
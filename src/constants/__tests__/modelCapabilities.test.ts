@@ -0,0 +1,37 @@
+import { suite, test } from 'mocha';
+import * as assert from 'assert';
+import {
+    DEFAULT_MODEL,
+    FALLBACK_MODEL_CAPABILITIES,
+    getModelCapabilities,
+} from '../modelCapabilities';
+
+suite('modelCapabilities', () => {
+    test('should resolve the default model to a 400K context window', () => {
+        assert.strictEqual(getModelCapabilities(DEFAULT_MODEL).contextWindow, 400_000);
+    });
+
+    test('should match model families by prefix', () => {
+        assert.strictEqual(getModelCapabilities('gpt-4o-mini').contextWindow, 128_000);
+        assert.strictEqual(getModelCapabilities('claude-sonnet-4-5').maxOutputTokens, 64_000);
+        assert.strictEqual(getModelCapabilities('llama3.1:8b').contextWindow, 128_000);
+    });
+
+    test('should prefer the more specific family', () => {
+        assert.strictEqual(getModelCapabilities('gpt-4.1-mini').contextWindow, 1_047_576);
+        assert.strictEqual(getModelCapabilities('gpt-4o').maxOutputTokens, 16_384);
+    });
+
+    test('should ignore case and gateway prefixes', () => {
+        assert.strictEqual(getModelCapabilities('OpenAI/GPT-5.4-mini').contextWindow, 400_000);
+        assert.strictEqual(
+            getModelCapabilities('anthropic.claude-3-5-haiku').maxOutputTokens,
+            8_192,
+        );
+    });
+
+    test('should fall back for unknown models', () => {
+        assert.deepStrictEqual(getModelCapabilities('my-deployment'), FALLBACK_MODEL_CAPABILITIES);
+        assert.deepStrictEqual(getModelCapabilities(''), FALLBACK_MODEL_CAPABILITIES);
+    });
+});
@@ -19,6 +19,20 @@ export enum FilePriority {
     HIGH = 2,
 }
 
+/**
+ * Repository-defined priority for files matching a path pattern
+ *
+ * Rules come from `.gitattributes` and `.otakcommitter.json`. When several
+ * match a file, the last one wins, as with git attributes.
+ */
+export interface FileClassificationRule {
+    /** Matches repository-relative paths with forward slashes */
+    pattern: RegExp;
+    priority: FilePriority;
+    /** Where the rule was defined, e.g. `.gitattributes:3` */
+    source: string;
+}
+
 /**
  * Lock file names that should be excluded from diff content.
  * These files generate large diffs with minimal semantic value for commit messages.
@@ -56,6 +70,29 @@ export const LOW_PRIORITY_PATTERNS: readonly RegExp[] = [
     /(^|[\\/])__snapshots__[\\/]/,
 ];
 
+/**
+ * Patterns matching test files, whose hunks are kept after source changes
+ */
+export const TEST_FILE_PATTERNS: readonly RegExp[] = [
+    /\.(test|spec)\.[^/]+$/,
+    /_test\.(go|py)$/,
+    /(^|\/)test_[^/]+\.py$/,
+    /(^|\/)(__tests__|tests?|spec)\//,
+];
+
+/**
+ * Patterns matching configuration files, whose hunks usually change behavior in few lines
+ */
+export const CONFIG_FILE_PATTERNS: readonly RegExp[] = [
+    /(^|\/)package\.json$/,
+    /(^|\/)tsconfig[^/]*\.json$/,
+    /(^|\/)\.[\w.-]+rc(\.(json|ya?ml|js|cjs|mjs))?$/,
+    /\.config\.(js|cjs|mjs|ts)$/,
+    /\.(ya?ml|toml|ini|cfg|conf|properties)$/,
+    /(^|\/)Dockerfile[^/]*$/,
+    /(^|\/)\.env[^/]*$/,
+];
+
 /**
  * Check if a file path is a lock file
  *
@@ -78,13 +115,48 @@ export function isLowPriorityFile(filePath: string): boolean {
     return LOW_PRIORITY_PATTERNS.some((pattern) => pattern.test(normalized));
 }
 
+/**
+ * Check if a file path is a test file
+ *
+ * @param filePath - The file path to check
+ * @returns true if the file holds tests
+ */
+export function isTestFile(filePath: string): boolean {
+    const normalized = filePath.replace(/\\/g, '/');
+    return TEST_FILE_PATTERNS.some((pattern) => pattern.test(normalized));
+}
+
+/**
+ * Check if a file path is a configuration file
+ *
+ * @param filePath - The file path to check
+ * @returns true if the file configures a tool, build or deployment
+ */
+export function isConfigFile(filePath: string): boolean {
+    const normalized = filePath.replace(/\\/g, '/');
+    return CONFIG_FILE_PATTERNS.some((pattern) => pattern.test(normalized));
+}
+
 /**
  * Classify a file's priority based on its path
  *
+ * Repository rules take precedence over the built-in lock file and
+ * low-priority patterns.
+ *
  * @param filePath - The file path to classify
+ * @param rules - Rules defined by the repository
  * @returns The file's priority level
  */
-export function classifyFilePriority(filePath: string): FilePriority {
+export function classifyFilePriority(
+    filePath: string,
+    rules: readonly FileClassificationRule[] = [],
+): FilePriority {
+    const normalized = filePath.replace(/\\/g, '/');
+    for (let i = rules.length - 1; i >= 0; i--) {
+        if (rules[i].pattern.test(normalized)) {
+            return rules[i].priority;
+        }
+    }
     if (isLockFile(filePath)) {
         return FilePriority.EXCLUDE;
     }
@@ -0,0 +1,74 @@
+/**
+ * Model capability table used to derive token budgets
+ *
+ * Context windows and output limits differ by several orders of magnitude
+ * between hosted frontier models and small local models, so token budgets
+ * are looked up per model instead of assuming a single model everywhere.
+ */
+
+/**
+ * Token limits of a model
+ */
+export interface ModelCapabilities {
+    /** Total context window (input + output + reasoning) in tokens */
+    readonly contextWindow: number;
+    /** Maximum tokens the model can emit in one response */
+    readonly maxOutputTokens: number;
+}
+
+/** Model used when no model is configured for the OpenAI-style providers */
+export const DEFAULT_MODEL = 'gpt-5.4';
+
+/**
+ * Known model families, matched by name prefix (case-insensitive)
+ *
+ * More specific prefixes must come before shorter ones that would also match.
+ */
+export const MODEL_CAPABILITIES: ReadonlyArray<{
+    readonly prefix: string;
+    readonly capabilities: ModelCapabilities;
+}> = [
+    { prefix: 'gpt-5', capabilities: { contextWindow: 400_000, maxOutputTokens: 128_000 } },
+    { prefix: 'gpt-4.1', capabilities: { contextWindow: 1_047_576, maxOutputTokens: 32_768 } },
+    { prefix: 'gpt-4o', capabilities: { contextWindow: 128_000, maxOutputTokens: 16_384 } },
+    { prefix: 'o4-mini', capabilities: { contextWindow: 200_000, maxOutputTokens: 100_000 } },
+    { prefix: 'o3', capabilities: { contextWindow: 200_000, maxOutputTokens: 100_000 } },
+    { prefix: 'claude-opus-4', capabilities: { contextWindow: 200_000, maxOutputTokens: 32_000 } },
+    {
+        prefix: 'claude-sonnet-4',
+        capabilities: { contextWindow: 200_000, maxOutputTokens: 64_000 },
+    },
+    { prefix: 'claude-haiku-4', capabilities: { contextWindow: 200_000, maxOutputTokens: 64_000 } },
+    { prefix: 'claude-3-7', capabilities: { contextWindow: 200_000, maxOutputTokens: 64_000 } },
+    { prefix: 'claude-3-5', capabilities: { contextWindow: 200_000, maxOutputTokens: 8_192 } },
+    { prefix: 'llama3', capabilities: { contextWindow: 128_000, maxOutputTokens: 8_192 } },
+    { prefix: 'qwen2.5', capabilities: { contextWindow: 32_768, maxOutputTokens: 8_192 } },
+    { prefix: 'mistral', capabilities: { contextWindow: 32_768, maxOutputTokens: 8_192 } },
+];
+
+/**
+ * Conservative limits for models missing from the table
+ * (e.g. custom Azure deployments or unknown local models)
+ */
+export const FALLBACK_MODEL_CAPABILITIES: ModelCapabilities = {
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+};
+
+/**
+ * Look up the token limits for a model
+ *
+ * Provider prefixes such as `openai/` or `anthropic.` (used by some gateways)
+ * are ignored when matching.
+ *
+ * @param model - Model name as sent to the provider
+ * @returns The model's capabilities, or the fallback when the model is unknown
+ */
+export function getModelCapabilities(model: string): ModelCapabilities {
+    const normalized = model
+        .trim()
+        .toLowerCase()
+        .replace(/^[a-z0-9-]+[/.](?=[a-z])/, '');
+    const entry = MODEL_CAPABILITIES.find(({ prefix }) => normalized.startsWith(prefix));
+    return entry?.capabilities ?? FALLBACK_MODEL_CAPABILITIES;
+}
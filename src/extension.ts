@@ -5,6 +5,8 @@ import { StorageManager } from './infrastructure/storage/StorageManager.js';
 import { ErrorHandler } from './infrastructure/error/ErrorHandler.js';
 import { CommandRegistry } from './commands/CommandRegistry.js';
 import { registerAllCommands } from './commands/commandRegistration.js';
+import { registerDiffReview } from './commands/commit.diffReview.js';
+import { registerSecretDiagnostics } from './services/secretDiagnostics.js';
 import { StatusBarManager } from './ui/StatusBarManager.js';
 
 class ExtensionApp {
@@ -32,6 +34,8 @@ class ExtensionApp {
         const registry = new CommandRegistry();
         registerAllCommands(registry, this.context, this.statusBarManager);
         registry.registerAll(this.context);
+        registerSecretDiagnostics(this.context);
+        registerDiffReview(this.context);
 
         // Now initialize status bar (commands are available for tooltip links)
         this.statusBarManager.initialize();
@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { SupportedLanguage } from '../../types/enums/SupportedLanguage.js';
 import { MessageStyle, EmojiStyle } from '../../types/enums/MessageStyle.js';
+import { LLMProviderId } from '../../types/enums/LLMProvider.js';
+import type { ModelPriceTable } from '../../utils/usageStats.js';
 
 /**
  * Configuration interface for the extension
@@ -15,6 +17,29 @@ export interface ExtensionConfig {
     useBulletList: boolean;
     useConventionalCommits: boolean;
     maxInputTokens: number;
+    /** Chunk summary and merge requests sent at once for diffs over the input limit */
+    mapReduceParallelism: number;
+    /** Show how the diff will be processed and let files be left out before it is sent */
+    reviewDiffBeforeSending: boolean;
+    provider: LLMProviderId;
+    model: string;
+    baseUrl: string;
+    azureApiVersion: string;
+    commitCandidates: number;
+    lintCommitMessages: boolean;
+    commitLintMaxRetries: number;
+    /** Overrides in commitlint's `rules` format */
+    commitLintRules: Record<string, unknown>;
+    streamOutput: boolean;
+    releaseNotesIncludePullRequests: boolean;
+    /** US dollars per million tokens, keyed by model name prefix */
+    modelPrices: ModelPriceTable;
+    /** Estimated monthly cost in US dollars that asks before further requests; 0 disables it */
+    monthlyBudget: number;
+    /** Hours a commit, PR or summary response is reused for an identical request; 0 disables the cache */
+    responseCacheTtlHours: number;
+    /** Size of the response cache in megabytes before the oldest responses are removed */
+    responseCacheMaxSizeMB: number;
 }
 
 /**
@@ -95,6 +120,22 @@ export class ConfigManager {
             useBulletList: this.get('useBulletList'),
             useConventionalCommits: this.get('useConventionalCommits'),
             maxInputTokens: this.get('maxInputTokens'),
+            mapReduceParallelism: this.get('mapReduceParallelism'),
+            reviewDiffBeforeSending: this.get('reviewDiffBeforeSending'),
+            provider: this.get('provider'),
+            model: this.get('model'),
+            baseUrl: this.get('baseUrl'),
+            azureApiVersion: this.get('azureApiVersion'),
+            commitCandidates: this.get('commitCandidates'),
+            lintCommitMessages: this.get('lintCommitMessages'),
+            commitLintMaxRetries: this.get('commitLintMaxRetries'),
+            commitLintRules: this.get('commitLintRules'),
+            streamOutput: this.get('streamOutput'),
+            releaseNotesIncludePullRequests: this.get('releaseNotesIncludePullRequests'),
+            modelPrices: this.get('modelPrices'),
+            monthlyBudget: this.get('monthlyBudget'),
+            responseCacheTtlHours: this.get('responseCacheTtlHours'),
+            responseCacheMaxSizeMB: this.get('responseCacheMaxSizeMB'),
         };
     }
 
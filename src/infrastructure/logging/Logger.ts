@@ -1,4 +1,4 @@
-import * as vscode from 'vscode';
+import type * as vscode from 'vscode';
 import { sanitizeForLogging, sanitizeLogMessage } from './logSanitizer';
 
 /**
@@ -14,14 +14,22 @@ export enum LogLevel {
 /**
  * Singleton Logger class that provides unified logging interface
  * for the extension. Logs to both VS Code output channel and console.
+ *
+ * Outside VS Code (the CLI) there is no output channel and messages go to
+ * stderr so that stdout only carries the generated content.
  */
 export class Logger {
     private static instance: Logger;
-    private outputChannel: vscode.OutputChannel;
+    private outputChannel?: vscode.OutputChannel;
     private logLevel: LogLevel = LogLevel.Info;
 
     private constructor() {
-        this.outputChannel = vscode.window.createOutputChannel('otak-committer');
+        try {
+            const vscodeApi: typeof vscode = require('vscode');
+            this.outputChannel = vscodeApi.window.createOutputChannel('otak-committer');
+        } catch {
+            // Not running in VS Code context (e.g., the CLI)
+        }
     }
 
     /**
@@ -88,19 +96,20 @@ export class Logger {
         const levelStr = LogLevel[level].toUpperCase();
         const formattedMessage = `[${timestamp}] [${levelStr}] ${sanitizeLogMessage(message)}`;
 
-        this.outputChannel.appendLine(formattedMessage);
+        this.outputChannel?.appendLine(formattedMessage);
 
         if (args.length > 0) {
             const sanitized = args.map(sanitizeForLogging);
-            this.outputChannel.appendLine(JSON.stringify(sanitized, null, 2));
+            this.outputChannel?.appendLine(JSON.stringify(sanitized, null, 2));
         }
 
         // Also log to console for development (with same sanitization)
+        const write = this.outputChannel ? console.log : console.error;
         if (args.length > 0) {
             const sanitized = args.map(sanitizeForLogging);
-            console.log(formattedMessage, ...sanitized);
+            write(formattedMessage, ...sanitized);
         } else {
-            console.log(formattedMessage);
+            write(formattedMessage);
         }
     }
 
@@ -108,13 +117,13 @@ export class Logger {
      * Show the output channel in VS Code
      */
     show(): void {
-        this.outputChannel.show();
+        this.outputChannel?.show();
     }
 
     /**
      * Dispose of the output channel and clean up resources
      */
     dispose(): void {
-        this.outputChannel.dispose();
+        this.outputChannel?.dispose();
     }
 }
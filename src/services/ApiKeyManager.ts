@@ -4,6 +4,9 @@ import { Logger } from '../infrastructure/logging/Logger';
 import { ApiKeyValidator } from './ApiKeyValidator';
 import { ApiKeyAction, handleExistingKey, promptForApiKey } from './apiKey.prompts';
 import { promptAndSaveApiKey, validateCurrentApiKey } from './apiKey.flow';
+import { createLLMProvider, getProviderLabel } from './llm.factory';
+import { getServiceConfig } from '../utils';
+import type { LLMProviderId } from '../types';
 import { t } from '../i18n/index';
 
 export type { ApiKeyAction };
@@ -19,7 +22,8 @@ export interface ValidationResult {
 }
 
 /**
- * Coordinates user interaction, validation, and secure storage of the OpenAI API key.
+ * Coordinates user interaction, validation, and secure storage of the API key
+ * for the selected LLM provider.
  */
 export class ApiKeyManager {
     private static readonly MAX_VALIDATION_RETRIES = 3;
@@ -28,6 +32,7 @@ export class ApiKeyManager {
     constructor(
         _context: vscode.ExtensionContext,
         private readonly storage: StorageManager,
+        private readonly provider: LLMProviderId = 'openai',
     ) {
         this.logger = Logger.getInstance();
     }
@@ -37,7 +42,19 @@ export class ApiKeyManager {
     }
 
     async promptForApiKey(): Promise<string | undefined> {
-        return promptForApiKey(this.logger, ApiKeyManager.validateKeyFormat);
+        if (this.provider === 'openai') {
+            return promptForApiKey(this.logger, ApiKeyManager.validateKeyFormat);
+        }
+        return promptForApiKey(
+            this.logger,
+            (key) => ApiKeyValidator.validateKeyFormat(key, this.provider),
+            {
+                prompt: t('apiKey.enterProviderKey', {
+                    provider: getProviderLabel(this.provider),
+                }),
+                placeHolder: '',
+            },
+        );
     }
 
     async handleExistingKey(): Promise<ApiKeyAction> {
@@ -46,7 +63,7 @@ export class ApiKeyManager {
 
     async removeApiKey(): Promise<void> {
         this.logger.info('Removing API key from storage');
-        await this.storage.deleteApiKey('openai');
+        await this.storage.deleteApiKey(this.provider);
         vscode.window.showInformationMessage(t('apiKey.removed'));
         this.logger.info('API key removed successfully');
     }
@@ -55,6 +72,44 @@ export class ApiKeyManager {
         return ApiKeyValidator.validateWithOpenAI(apiKey);
     }
 
+    /**
+     * Validate a key against the selected provider's API
+     *
+     * OpenAI keys keep using the dedicated fetch-based validator; other
+     * providers are checked through their `LLMProvider.validateApiKey()`.
+     *
+     * @param apiKey - The API key to validate
+     * @returns Validation result
+     */
+    async validateWithProvider(apiKey: string): Promise<ValidationResult> {
+        if (this.provider === 'openai') {
+            return this.validateWithOpenAI(apiKey);
+        }
+
+        try {
+            const config = getServiceConfig();
+            const result = await createLLMProvider({
+                provider: this.provider,
+                apiKey,
+                model: config.model,
+                baseUrl: config.baseUrl,
+                azureApiVersion: config.azureApiVersion,
+            }).validateApiKey();
+            if (result.ok) {
+                return { isValid: true };
+            }
+            return {
+                isValid: false,
+                status: result.status,
+                isNetworkError: result.kind === 'network',
+                error: result.reason,
+            };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { isValid: false, error: this.sanitizeErrorMessage(message, apiKey) };
+        }
+    }
+
     private async validateWithProgress(apiKey: string): Promise<ValidationResult> {
         return vscode.window.withProgress(
             {
@@ -62,7 +117,7 @@ export class ApiKeyManager {
                 title: t('apiKey.validating'),
                 cancellable: false,
             },
-            async () => this.validateWithOpenAI(apiKey),
+            async () => this.validateWithProvider(apiKey),
         );
     }
 
@@ -71,8 +126,9 @@ export class ApiKeyManager {
             logger: this.logger,
             storage: this.storage,
             promptForApiKey: () => this.promptForApiKey(),
-            validateKeyFormat: ApiKeyManager.validateKeyFormat,
+            validateKeyFormat: (key) => ApiKeyValidator.validateKeyFormat(key, this.provider),
             validateWithProgress: (apiKey) => this.validateWithProgress(apiKey),
+            provider: this.provider,
         });
     }
 
@@ -82,6 +138,7 @@ export class ApiKeyManager {
             promptAndSaveApiKey: () => this.promptAndSaveApiKey(),
             validateWithProgress: (apiKey) => this.validateWithProgress(apiKey),
             maxValidationRetries: ApiKeyManager.MAX_VALIDATION_RETRIES,
+            provider: this.provider,
         });
     }
 
@@ -93,7 +150,7 @@ export class ApiKeyManager {
         this.logger.info('Starting API key configuration');
 
         try {
-            const hasExistingKey = await this.storage.hasApiKey('openai');
+            const hasExistingKey = await this.storage.hasApiKey(this.provider);
             if (hasExistingKey) {
                 const action = await this.handleExistingKey();
 
@@ -1,4 +1,5 @@
 import { Logger } from '../infrastructure/logging/Logger';
+import type { LLMProviderId } from '../types';
 
 /**
  * API key validation utilities
@@ -13,6 +14,12 @@ export class ApiKeyValidator {
      */
     private static readonly API_KEY_PATTERN = /^sk-(?:proj-|svcacct-|admin-|or-|ant-)?[A-Za-z0-9_-]{20,}$/;
 
+    /** Anthropic keys always start with sk-ant- */
+    private static readonly ANTHROPIC_KEY_PATTERN = /^sk-ant-[A-Za-z0-9_-]{20,}$/;
+
+    /** Keys for Azure and self-hosted servers have no fixed prefix; only reject whitespace */
+    private static readonly GENERIC_KEY_PATTERN = /^\S+$/;
+
     /** Timeout for API validation requests (30 seconds) */
     private static readonly VALIDATION_TIMEOUT_MS = 30000;
 
@@ -20,9 +27,10 @@ export class ApiKeyValidator {
      * Validates API key format
      *
      * @param key - The API key string to validate
+     * @param provider - Provider the key belongs to (defaults to OpenAI)
      * @returns True if the key format is valid, false otherwise
      */
-    static validateKeyFormat(key: string): boolean {
+    static validateKeyFormat(key: string, provider: LLMProviderId = 'openai'): boolean {
         if (!key || typeof key !== 'string') {
             return false;
         }
@@ -32,7 +40,14 @@ export class ApiKeyValidator {
             return false;
         }
 
-        return ApiKeyValidator.API_KEY_PATTERN.test(trimmedKey);
+        switch (provider) {
+            case 'openai':
+                return ApiKeyValidator.API_KEY_PATTERN.test(trimmedKey);
+            case 'anthropic':
+                return ApiKeyValidator.ANTHROPIC_KEY_PATTERN.test(trimmedKey);
+            default:
+                return ApiKeyValidator.GENERIC_KEY_PATTERN.test(trimmedKey);
+        }
     }
 
     /**
@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { Logger } from '../../infrastructure/logging/Logger';
+import { getDefaultCommitLintRules } from '../../utils/commitLint.rules';
+import { repairCommitMessageLintOp } from '../openai.lint';
+import type { OpenAIOpsContext } from '../openai.ops';
+import { PromptService } from '../prompt';
+import { DEFAULT_PROMPT_GENERATION_OPTIONS } from '../promptConfig';
+import type { LLMTextRequest } from '../llm.types';
+
+function createContext(responses: Array<string | Error>) {
+    const requests: LLMTextRequest[] = [];
+    const context = {
+        provider: {
+            defaultModel: 'gpt-5.4',
+            requestText: async (request: LLMTextRequest) => {
+                requests.push(request);
+                const next = responses.shift();
+                if (next instanceof Error) {
+                    throw next;
+                }
+                return next;
+            },
+        },
+        promptService: new PromptService(() => DEFAULT_PROMPT_GENERATION_OPTIONS),
+        logger: Logger.getInstance(),
+        getModel: () => 'gpt-5.4',
+        getReasoningEffort: () => 'low',
+        onAuthError: async () => {},
+        showError: () => {},
+        isAuthenticationError: () => false,
+    } as unknown as OpenAIOpsContext;
+    return { context, requests };
+}
+
+const lint = { rules: getDefaultCommitLintRules(), maxRetries: 2 };
+
+suite('repairCommitMessageLintOp', () => {
+    test('should return a passing message without calling the model', async () => {
+        const { context, requests } = createContext([]);
+
+        const result = await repairCommitMessageLintOp(context, {
+            message: 'fix: align header',
+            diff: 'diff',
+            language: 'english',
+            lint,
+        });
+
+        assert.strictEqual(result, 'fix: align header');
+        assert.strictEqual(requests.length, 0);
+    });
+
+    test('should lint a fenced message as it will be committed', async () => {
+        const { context, requests } = createContext([]);
+        const message = '```\nfeat: add parser\n```';
+
+        const result = await repairCommitMessageLintOp(context, {
+            message,
+            diff: 'diff',
+            language: 'english',
+            lint,
+        });
+
+        assert.strictEqual(result, message);
+        assert.strictEqual(requests.length, 0);
+    });
+
+    test('should send the violations back until the message passes', async () => {
+        const { context, requests } = createContext(['fix: still\n- no blank', 'fix: repaired']);
+
+        const result = await repairCommitMessageLintOp(context, {
+            message: 'Fixed the header',
+            diff: 'diff',
+            language: 'english',
+            lint,
+        });
+
+        assert.strictEqual(result, 'fix: repaired');
+        assert.strictEqual(requests.length, 2);
+        assert.ok(requests[0].userPrompt.includes('- type-empty:'));
+        assert.ok(requests[1].userPrompt.includes('- body-leading-blank:'));
+    });
+
+    test('should keep the last message when retries run out or repair fails', async () => {
+        const exhausted = createContext(['still wrong']);
+        assert.strictEqual(
+            await repairCommitMessageLintOp(exhausted.context, {
+                message: 'wrong',
+                diff: 'diff',
+                language: 'english',
+                lint: { ...lint, maxRetries: 1 },
+            }),
+            'still wrong',
+        );
+
+        const failing = createContext([new Error('503')]);
+        assert.strictEqual(
+            await repairCommitMessageLintOp(failing.context, {
+                message: 'wrong',
+                diff: 'diff',
+                language: 'english',
+                lint,
+            }),
+            'wrong',
+        );
+    });
+});
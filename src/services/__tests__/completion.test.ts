@@ -2,7 +2,7 @@ import * as assert from 'assert';
 import { requestStructuredCompletion, requestTextCompletion } from '../openai.completion';
 
 interface CapturedRequest {
-    params: { model: string };
+    params: { model: string; stream?: boolean };
 }
 
 function createMockOpenAI(responses: Array<unknown>) {
@@ -31,6 +31,12 @@ function completion(content: string) {
     };
 }
 
+async function* streamChunks(pieces: string[]) {
+    for (const content of pieces) {
+        yield { choices: [{ delta: { content } }] };
+    }
+}
+
 function apiError(status: number): Error & { status: number } {
     const error = new Error(`status ${status}`) as Error & { status: number };
     error.status = status;
@@ -104,4 +110,44 @@ suite('OpenAI Completion Requests', () => {
             ['gpt-5.4'],
         );
     });
+
+    test('requestTextCompletion should stream the text received so far when onText is set', async () => {
+        const { openai, calls } = createMockOpenAI([streamChunks(['feat: ', 'add ', 'retries\n'])]);
+        const updates: string[] = [];
+
+        const result = await requestTextCompletion({
+            openai: openai as any,
+            model: 'gpt-5.4',
+            systemPrompt: 'system',
+            userPrompt: 'user',
+            maxCompletionTokens: 100,
+            reasoningEffort: 'low',
+            onText: (text) => updates.push(text),
+        });
+
+        assert.strictEqual(result, 'feat: add retries');
+        assert.deepStrictEqual(updates, ['feat: ', 'feat: add ', 'feat: add retries\n']);
+        assert.strictEqual(calls[0].params.stream, true);
+    });
+
+    test('requestStructuredCompletion should parse the streamed JSON', async () => {
+        const { openai } = createMockOpenAI([
+            streamChunks(['{"title":"Gen', 'erated","body":"D"}']),
+        ]);
+        const updates: string[] = [];
+
+        const result = await requestStructuredCompletion<{ title: string; body: string }>({
+            openai: openai as any,
+            model: 'gpt-5.4',
+            systemPrompt: 'system',
+            userPrompt: 'user',
+            reasoningEffort: 'medium',
+            schemaName: 'pr_content',
+            schema: { type: 'object' },
+            onText: (text) => updates.push(text),
+        });
+
+        assert.deepStrictEqual(result, { title: 'Generated', body: 'D' });
+        assert.deepStrictEqual(updates, ['{"title":"Gen', '{"title":"Generated","body":"D"}']);
+    });
 });
@@ -80,7 +80,7 @@ suite('DiffProcessor', () => {
             const processor = new DiffProcessor();
             const diff = makeMultiFileDiff([
                 { path: 'src/a.ts', lineCount: 10 },
-                { path: 'package-lock.json', lineCount: 500 },
+                { path: 'package-lock.json', lineCount: 2000 },
             ]);
             const result = await processor.process(diff, 5000);
 
@@ -103,6 +103,27 @@ suite('DiffProcessor', () => {
             assert.ok(result.tier <= DiffTier.SmartPrioritized);
         });
 
+        test('should append attributed summaries of overflow files in Tier 3', async () => {
+            const client = {
+                getModel: () => 'gpt-5.4',
+                summarizeChunk: async () => 'Adds numbered lines',
+                mergeSummaries: async () => 'Merged summary',
+            } as any;
+            const processor = new DiffProcessor(client, 'english', undefined, [], 1);
+            const diff = makeMultiFileDiff([
+                { path: 'src/a.ts', lineCount: 300 },
+                { path: 'src/b.ts', lineCount: 300 },
+                { path: 'src/c.ts', lineCount: 300 },
+            ]);
+            const result = await processor.process(diff, 1500);
+
+            assert.strictEqual(result.tier, DiffTier.MapReduce);
+            assert.ok(result.processedDiff.includes('## Summarized Changes'));
+            assert.ok(
+                /### src\/\w\.ts(, src\/\w\.ts)*\nAdds numbered lines/.test(result.processedDiff),
+            );
+        });
+
         test('should handle empty diff gracefully', async () => {
             const processor = new DiffProcessor();
             const result = await processor.process('', 100000);
@@ -120,4 +141,56 @@ suite('DiffProcessor', () => {
             assert.strictEqual(result.tier, DiffTier.Normal);
         });
     });
+
+    suite('Planning', () => {
+        test('should report the treatment of each file without calling the model', () => {
+            let calls = 0;
+            const client = {
+                getModel: () => 'gpt-5.4',
+                summarizeChunk: async () => {
+                    calls++;
+                    return 'Summary';
+                },
+                mergeSummaries: async () => 'Merged summary',
+            } as any;
+            const processor = new DiffProcessor(client);
+            const diff = makeMultiFileDiff([
+                { path: 'src/a.ts', lineCount: 10 },
+                { path: 'yarn.lock', lineCount: 1000 },
+                { path: 'src/b.ts', lineCount: 300 },
+            ]);
+            const plan = processor.plan(diff, 1000);
+
+            assert.strictEqual(plan.tier, DiffTier.MapReduce);
+            assert.deepStrictEqual(
+                plan.files.map((file) => [file.filePath, file.treatment]),
+                [
+                    ['src/a.ts', 'full'],
+                    ['yarn.lock', 'excluded'],
+                    ['src/b.ts', 'mapReduced'],
+                ],
+            );
+            assert.strictEqual(plan.files[0].sentTokens, plan.files[0].tokenCount);
+            assert.strictEqual(plan.files[2].sentTokens, 0);
+            assert.strictEqual(calls, 0);
+        });
+
+        test('should match the treatments of the processed diff', async () => {
+            const processor = new DiffProcessor();
+            const diff = makeMultiFileDiff([
+                { path: 'src/a.ts', lineCount: 10 },
+                { path: 'src/b.ts', lineCount: 300 },
+            ]);
+            const plan = processor.plan(diff, 1000);
+            const result = await processor.process(diff, 1000);
+
+            assert.strictEqual(plan.tier, DiffTier.SmartPrioritized);
+            assert.strictEqual(plan.files[1].treatment, 'summaryOnly');
+            assert.deepStrictEqual(result.files, plan.files);
+            assert.deepStrictEqual(
+                processor.plan(makeDiff('src/a.ts', 10), 100000).files.map((f) => f.treatment),
+                ['full'],
+            );
+        });
+    });
 });
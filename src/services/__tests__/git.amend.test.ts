@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { SimpleGit } from 'simple-git';
+import { GitServiceError } from '../../types/errors';
+import { amendHeadCommit, readAmendTarget } from '../git.amend';
+
+const HEAD = 'a'.repeat(40);
+const PARENT = 'b'.repeat(40);
+
+function createGit(options: { head?: string; parent?: string; remotes?: string }) {
+    const diffs: string[][] = [];
+    const commits: Array<{ message: string; options: unknown }> = [];
+    const git = {
+        raw: async (args: string[]) => {
+            const command = args.join(' ');
+            if (command === 'rev-parse --verify HEAD' || command === 'rev-parse HEAD') {
+                if (!options.head) {
+                    throw new Error('fatal: Needed a single revision');
+                }
+                return `${options.head}\n`;
+            }
+            if (command.startsWith('rev-parse --verify --quiet')) {
+                if (!options.parent) {
+                    throw new Error('exit code 1');
+                }
+                return `${options.parent}\n`;
+            }
+            if (args[0] === 'log') {
+                return 'fix: old message\n\nRefs: #12\n\n';
+            }
+            if (args[0] === 'branch') {
+                return options.remotes ?? '';
+            }
+            throw new Error(`Unexpected git command: ${command}`);
+        },
+        diff: async (args: string[]) => {
+            diffs.push(args);
+            return 'diff --git a/a.ts b/a.ts\n';
+        },
+        commit: async (message: string, _files: string[], commitOptions: unknown) => {
+            commits.push({ message, options: commitOptions });
+        },
+    } as unknown as SimpleGit;
+    return { git, diffs, commits };
+}
+
+suite('Git Amend Helper Tests', () => {
+    test('should diff the index against the parent and list remote branches containing HEAD', async () => {
+        const { git, diffs } = createGit({
+            head: HEAD,
+            parent: PARENT,
+            remotes: 'origin/main\n\norigin/feature\n',
+        });
+
+        const target = await readAmendTarget(git);
+
+        assert.deepStrictEqual(target, {
+            head: HEAD,
+            message: 'fix: old message\n\nRefs: #12',
+            diff: 'diff --git a/a.ts b/a.ts\n',
+            pushedTo: ['origin/main', 'origin/feature'],
+        });
+        assert.deepStrictEqual(diffs, [['--cached', PARENT]]);
+    });
+
+    test('should diff a root commit against the empty tree', async () => {
+        const { git, diffs } = createGit({ head: HEAD });
+
+        const target = await readAmendTarget(git);
+
+        assert.deepStrictEqual(target?.pushedTo, []);
+        assert.deepStrictEqual(diffs, [['--cached', '4b825dc642cb6eb9a060e54bf8d69288fbee4904']]);
+    });
+
+    test('should return undefined on an unborn branch', async () => {
+        assert.strictEqual(await readAmendTarget(createGit({}).git), undefined);
+    });
+
+    test('should amend only while HEAD is unchanged', async () => {
+        const { git, commits } = createGit({ head: HEAD });
+
+        assert.strictEqual(await amendHeadCommit(git, HEAD, 'feat: new'), HEAD);
+        assert.deepStrictEqual(commits, [{ message: 'feat: new', options: { '--amend': null } }]);
+
+        await assert.rejects(() => amendHeadCommit(git, PARENT, 'feat: new'), GitServiceError);
+        assert.strictEqual(commits.length, 1);
+    });
+});
@@ -0,0 +1,179 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    CachingLLMProvider,
+    createResponseCacheKey,
+    runWithoutResponseCache,
+    type ResponseCacheEndpoint,
+} from '../llm.cache';
+import type { LLMProvider, LLMTextRequest } from '../llm.types';
+import { ResponseCache, type ResponseCacheOptions } from '../responseCache';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const endpoint: ResponseCacheEndpoint = { provider: 'openai' };
+
+const request: LLMTextRequest = {
+    model: 'gpt-fake',
+    systemPrompt: 'system',
+    userPrompt: 'diff',
+    maxCompletionTokens: 100,
+    reasoningEffort: 'low',
+};
+
+function createProvider(replies: string[]): LLMProvider & { sent: number } {
+    const provider = {
+        id: 'openai' as const,
+        defaultModel: 'gpt-fake',
+        sent: 0,
+        requestText: async () => replies[provider.sent++],
+        requestStructured: async <T>() => JSON.parse(replies[provider.sent++]) as T,
+        validateApiKey: async () => ({ ok: true as const }),
+    };
+    return provider;
+}
+
+suite('Response Cache', () => {
+    let directory: string;
+    let options: ResponseCacheOptions;
+    let cache: ResponseCache;
+
+    setup(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'otak-response-cache-'));
+        options = { ttlMs: HOUR_MS, maxBytes: 1024 * 1024 };
+        cache = new ResponseCache(directory, () => options);
+    });
+
+    teardown(() => fs.rm(directory, { recursive: true, force: true }));
+
+    test('should key requests by their content, not their listeners', () => {
+        const key = createResponseCacheKey(endpoint, request);
+
+        assert.strictEqual(
+            createResponseCacheKey(endpoint, { ...request, onText: () => undefined }),
+            key,
+        );
+        assert.notStrictEqual(
+            createResponseCacheKey(endpoint, { ...request, model: 'other' }),
+            key,
+        );
+        assert.notStrictEqual(createResponseCacheKey({ provider: 'anthropic' }, request), key);
+    });
+
+    test('should key requests by their endpoint', () => {
+        const azure: ResponseCacheEndpoint = {
+            provider: 'azureOpenAI',
+            baseUrl: 'https://east.openai.azure.com',
+            azureApiVersion: '2024-12-01-preview',
+        };
+        const key = createResponseCacheKey(azure, request);
+
+        assert.strictEqual(
+            createResponseCacheKey(
+                { ...azure, baseUrl: ' https://east.openai.azure.com ' },
+                request,
+            ),
+            key,
+        );
+        assert.notStrictEqual(
+            createResponseCacheKey({ ...azure, baseUrl: 'https://west.openai.azure.com' }, request),
+            key,
+        );
+        assert.notStrictEqual(
+            createResponseCacheKey({ ...azure, azureApiVersion: '2025-04-01-preview' }, request),
+            key,
+        );
+        assert.notStrictEqual(
+            createResponseCacheKey({ ...endpoint, baseUrl: 'http://localhost:4010/v1' }, request),
+            createResponseCacheKey(endpoint, request),
+        );
+    });
+
+    test('should answer a repeated request without sending it', async () => {
+        const inner = createProvider(['feat: add parser', 'feat: add a parser']);
+        const provider = new CachingLLMProvider(inner, cache, endpoint);
+        const streamed: string[] = [];
+
+        assert.strictEqual(await provider.requestText(request), 'feat: add parser');
+        const cached = await provider.requestText({
+            ...request,
+            onText: (text) => streamed.push(text),
+        });
+
+        assert.strictEqual(cached, 'feat: add parser');
+        assert.deepStrictEqual(streamed, ['feat: add parser']);
+        assert.strictEqual(inner.sent, 1);
+    });
+
+    test('should cache structured responses as JSON', async () => {
+        const inner = createProvider(['{"title":"Add parser","body":"Details"}']);
+        const provider = new CachingLLMProvider(inner, cache, endpoint);
+        const structured = { ...request, schemaName: 'pr_content', schema: {} };
+
+        await provider.requestStructured(structured);
+        const cached = await provider.requestStructured<{ title: string }>(structured);
+
+        assert.strictEqual(cached?.title, 'Add parser');
+        assert.strictEqual(inner.sent, 1);
+    });
+
+    test('should send the request again when bypassed and keep the fresh response', async () => {
+        const inner = createProvider(['first', 'second']);
+        const provider = new CachingLLMProvider(inner, cache, endpoint);
+
+        await provider.requestText(request);
+        const fresh = await runWithoutResponseCache(() => provider.requestText(request));
+
+        assert.strictEqual(fresh, 'second');
+        assert.strictEqual(await provider.requestText(request), 'second');
+        assert.strictEqual(inner.sent, 2);
+    });
+
+    test('should expire responses after the time to live', async () => {
+        const now = Date.now();
+        await cache.set('key', 'value', now);
+
+        assert.strictEqual(await cache.get('key', now + HOUR_MS / 2), 'value');
+        assert.strictEqual(await cache.get('key', now + 2 * HOUR_MS), undefined);
+    });
+
+    test('should not store anything when the time to live is 0', async () => {
+        options.ttlMs = 0;
+
+        await cache.set('key', 'value');
+
+        assert.strictEqual(await cache.get('key'), undefined);
+        assert.strictEqual(await cache.clear(), 0);
+    });
+
+    test('should remove the oldest responses beyond the size cap', async () => {
+        options.maxBytes = 25;
+        await cache.set('old', 'x'.repeat(10));
+        await fs.utimes(
+            path.join(directory, 'old.txt'),
+            new Date(Date.now() - 2000),
+            new Date(Date.now() - 2000),
+        );
+        await cache.set('middle', 'y'.repeat(10));
+        await fs.utimes(
+            path.join(directory, 'middle.txt'),
+            new Date(Date.now() - 1000),
+            new Date(Date.now() - 1000),
+        );
+        await cache.set('new', 'z'.repeat(10));
+
+        assert.strictEqual(await cache.get('old'), undefined);
+        assert.strictEqual(await cache.get('middle'), 'y'.repeat(10));
+        assert.strictEqual(await cache.get('new'), 'z'.repeat(10));
+    });
+
+    test('clear should remove every response', async () => {
+        await cache.set('a', 'one');
+        await cache.set('b', 'two');
+
+        assert.strictEqual(await cache.clear(), 2);
+        assert.strictEqual(await cache.get('a'), undefined);
+    });
+});
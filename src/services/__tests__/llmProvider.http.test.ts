@@ -0,0 +1,160 @@
+import * as assert from 'assert';
+import { FakeOpenAIServer } from '../../test/mocks/fakeOpenAIServer';
+import { isUserAbortError } from '../../utils/errorGuards';
+import { createLLMProvider } from '../llm.factory';
+import { RetryingLLMProvider } from '../llm.retry';
+import type { LLMProvider, LLMUsage } from '../llm.types';
+
+/** Asks for an immediate retry instead of the backoff delay */
+const RETRY_NOW = { 'retry-after-ms': '1' };
+
+suite('OpenAI Provider over HTTP', () => {
+    const server = new FakeOpenAIServer();
+    let provider: LLMProvider;
+
+    suiteSetup(async () => {
+        const baseUrl = await server.start();
+        provider = new RetryingLLMProvider(
+            createLLMProvider({
+                provider: 'openai',
+                apiKey: 'sk-fake',
+                model: 'gpt-fake',
+                baseUrl,
+            }),
+        );
+    });
+
+    suiteTeardown(() => server.close());
+
+    setup(() => server.reset());
+
+    const request = {
+        model: 'gpt-fake',
+        systemPrompt: 'system',
+        userPrompt: 'user',
+        maxCompletionTokens: 100,
+        reasoningEffort: 'low' as const,
+    };
+
+    test('requestText should send a chat completion and return the trimmed content', async () => {
+        server.enqueue({ kind: 'completion', content: ' feat: add parser \n' });
+
+        assert.strictEqual(await provider.requestText(request), 'feat: add parser');
+
+        const [sent] = server.completionRequests;
+        assert.strictEqual(sent.headers.authorization, 'Bearer sk-fake');
+        assert.strictEqual(sent.body?.model, 'gpt-fake');
+        assert.deepStrictEqual(sent.body?.messages, [
+            { role: 'developer', content: 'system' },
+            { role: 'user', content: 'user' },
+        ]);
+        assert.deepStrictEqual(sent.body?.response_format, { type: 'text' });
+    });
+
+    test('requestText should stream server-sent events to onText', async () => {
+        server.enqueue({ kind: 'stream', chunks: ['feat: ', 'add ', 'parser'] });
+        const updates: string[] = [];
+
+        const text = await provider.requestText({
+            ...request,
+            onText: (received) => updates.push(received),
+        });
+
+        assert.strictEqual(text, 'feat: add parser');
+        assert.deepStrictEqual(updates, ['feat: ', 'feat: add ', 'feat: add parser']);
+        assert.strictEqual(server.completionRequests[0].body?.stream, true);
+    });
+
+    test('should report the token usage of plain and streamed responses', async () => {
+        const usage = { prompt_tokens: 120, completion_tokens: 40, reasoning_tokens: 16 };
+        server.enqueue(
+            { kind: 'completion', content: 'feat: add parser', usage },
+            { kind: 'stream', chunks: ['feat: ', 'add parser'], usage },
+        );
+        const reported: LLMUsage[] = [];
+        const onUsage = (received: LLMUsage) => reported.push(received);
+
+        await provider.requestText({ ...request, onUsage });
+        await provider.requestText({ ...request, onUsage, onText: () => undefined });
+
+        const expected = { inputTokens: 120, outputTokens: 40, reasoningTokens: 16 };
+        assert.deepStrictEqual(reported, [expected, expected]);
+        assert.deepStrictEqual(server.completionRequests[1].body?.stream_options, {
+            include_usage: true,
+        });
+    });
+
+    test('requestStructured should parse the JSON content', async () => {
+        server.enqueue({ kind: 'completion', content: '{"title":"Add parser","body":"Details"}' });
+
+        const result = await provider.requestStructured<{ title: string; body: string }>({
+            ...request,
+            schemaName: 'pr_content',
+            schema: { type: 'object' },
+        });
+
+        assert.deepStrictEqual(result, { title: 'Add parser', body: 'Details' });
+        assert.strictEqual(server.completionRequests[0].body?.response_format?.type, 'json_schema');
+    });
+
+    test('should retry rate limits and server errors before succeeding', async () => {
+        server.enqueue(
+            { kind: 'error', status: 429, headers: RETRY_NOW },
+            { kind: 'error', status: 500, headers: RETRY_NOW },
+            { kind: 'completion', content: 'fix: retry' },
+        );
+
+        assert.strictEqual(await provider.requestText(request), 'fix: retry');
+        assert.strictEqual(server.completionRequests.length, 3);
+    });
+
+    test('should surface the status once retries are exhausted', async () => {
+        server.enqueue(
+            { kind: 'error', status: 500, headers: RETRY_NOW },
+            { kind: 'error', status: 502, headers: RETRY_NOW },
+            { kind: 'error', status: 503, headers: RETRY_NOW },
+            { kind: 'error', status: 500, headers: RETRY_NOW },
+        );
+
+        await assert.rejects(provider.requestText(request), (error: { status?: number }) => {
+            assert.strictEqual(error.status, 500);
+            return true;
+        });
+        assert.strictEqual(server.completionRequests.length, 4);
+    });
+
+    test('should not retry authentication failures', async () => {
+        server.enqueue({ kind: 'error', status: 401, message: 'Incorrect API key provided' });
+
+        await assert.rejects(provider.requestText(request), /401/);
+        assert.strictEqual(server.completionRequests.length, 1);
+    });
+
+    test('should reject a malformed JSON response', async () => {
+        server.enqueue({ kind: 'malformed' });
+
+        await assert.rejects(provider.requestText(request));
+    });
+
+    test('should stop waiting for a slow response when the signal aborts', async () => {
+        server.enqueue({ kind: 'completion', content: 'too late', delayMs: 5000 });
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 20);
+        const started = Date.now();
+
+        await assert.rejects(
+            provider.requestText({ ...request, signal: controller.signal }),
+            (error) => isUserAbortError(error),
+        );
+        assert.ok(Date.now() - started < 2000);
+    });
+
+    test('validateApiKey should classify a rejected key as an auth failure', async () => {
+        server.modelsStatus = 401;
+
+        const result = await provider.validateApiKey();
+
+        assert.strictEqual(result.ok, false);
+        assert.strictEqual(!result.ok && result.kind, 'auth');
+    });
+});
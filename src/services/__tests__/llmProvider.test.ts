@@ -0,0 +1,197 @@
+import * as assert from 'assert';
+import { LLMProviderError } from '../../types/errors';
+import { AnthropicProvider } from '../llm.anthropic';
+import {
+    createLLMProvider,
+    getDefaultModel,
+    providerRequiresApiKey,
+    resolveReasoningEffort,
+} from '../llm.factory';
+import { OpenAIChatProvider } from '../llm.openai';
+
+interface CapturedFetch {
+    url: string;
+    init: RequestInit;
+}
+
+function stubFetch(responses: Response[]): { calls: CapturedFetch[]; restore(): void } {
+    const originalFetch = globalThis.fetch;
+    const calls: CapturedFetch[] = [];
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+        calls.push({ url, init });
+        const next = responses.shift();
+        if (!next) {
+            throw new Error('unexpected fetch');
+        }
+        return next;
+    }) as typeof fetch;
+
+    return {
+        calls,
+        restore: () => {
+            globalThis.fetch = originalFetch;
+        },
+    };
+}
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'content-type': 'application/json', ...headers },
+    });
+}
+
+suite('LLM Provider Factory', () => {
+    test('should fall back to the provider default model when none is configured', () => {
+        const provider = createLLMProvider({ provider: 'anthropic', apiKey: 'sk-ant-test' });
+
+        assert.ok(provider instanceof AnthropicProvider);
+        assert.strictEqual(provider.defaultModel, getDefaultModel('anthropic'));
+    });
+
+    test('should use the configured model for OpenAI-compatible providers', () => {
+        const provider = createLLMProvider({
+            provider: 'openai',
+            apiKey: 'sk-test',
+            model: ' gpt-custom ',
+        });
+
+        assert.ok(provider instanceof OpenAIChatProvider);
+        assert.strictEqual(provider.id, 'openai');
+        assert.strictEqual(provider.defaultModel, 'gpt-custom');
+    });
+
+    test('should require an API key only for hosted providers', () => {
+        assert.throws(() => createLLMProvider({ provider: 'openai' }), /API key is required/);
+        assert.throws(() => createLLMProvider({ provider: 'anthropic' }), /API key is required/);
+
+        const ollama = createLLMProvider({ provider: 'ollama' });
+        assert.strictEqual(ollama.id, 'ollama');
+        assert.strictEqual(providerRequiresApiKey('ollama'), false);
+        assert.strictEqual(providerRequiresApiKey('openaiCompatible'), false);
+    });
+
+    test('should send a reasoning effort to local servers only when one is set', () => {
+        assert.strictEqual(resolveReasoningEffort('openai'), 'low');
+        assert.strictEqual(resolveReasoningEffort('anthropic', 'high'), 'high');
+        assert.strictEqual(resolveReasoningEffort('openai', 'none'), undefined);
+        assert.strictEqual(resolveReasoningEffort('ollama'), undefined);
+        assert.strictEqual(resolveReasoningEffort('openaiCompatible'), undefined);
+        assert.strictEqual(resolveReasoningEffort('ollama', 'medium'), 'medium');
+    });
+
+    test('should require an endpoint for Azure OpenAI and generic compatible servers', () => {
+        assert.throws(
+            () => createLLMProvider({ provider: 'azureOpenAI', apiKey: 'azure-key' }),
+            /otakCommitter\.baseUrl/,
+        );
+        assert.throws(
+            () => createLLMProvider({ provider: 'openaiCompatible' }),
+            /otakCommitter\.baseUrl/,
+        );
+
+        const azure = createLLMProvider({
+            provider: 'azureOpenAI',
+            apiKey: 'azure-key',
+            baseUrl: 'https://example.openai.azure.com',
+            model: 'my-deployment',
+        });
+        assert.strictEqual(azure.id, 'azureOpenAI');
+        assert.strictEqual(azure.defaultModel, 'my-deployment');
+    });
+});
+
+suite('Anthropic Provider', () => {
+    let fetchStub: ReturnType<typeof stubFetch> | undefined;
+
+    teardown(() => {
+        fetchStub?.restore();
+        fetchStub = undefined;
+    });
+
+    test('requestText should send a messages request and join text blocks', async () => {
+        fetchStub = stubFetch([
+            jsonResponse({
+                content: [
+                    { type: 'thinking', thinking: 'hidden' },
+                    { type: 'text', text: ' feat: add provider ' },
+                ],
+            }),
+        ]);
+        const provider = new AnthropicProvider('sk-ant-test', 'claude-test');
+
+        const result = await provider.requestText({
+            model: 'claude-test',
+            systemPrompt: 'system',
+            userPrompt: 'user',
+            maxCompletionTokens: 100,
+            reasoningEffort: 'low',
+        });
+
+        assert.strictEqual(result, 'feat: add provider');
+        assert.strictEqual(fetchStub.calls[0].url, 'https://api.anthropic.com/v1/messages');
+        const headers = fetchStub.calls[0].init.headers as Record<string, string>;
+        assert.strictEqual(headers['x-api-key'], 'sk-ant-test');
+        const body = JSON.parse(fetchStub.calls[0].init.body as string);
+        assert.strictEqual(body.system, 'system');
+        assert.strictEqual(body.max_tokens, 100 + 1024);
+        assert.deepStrictEqual(body.thinking, { type: 'enabled', budget_tokens: 1024 });
+    });
+
+    test('requestStructured should force the schema tool and return its input', async () => {
+        fetchStub = stubFetch([
+            jsonResponse({
+                content: [{ type: 'tool_use', name: 'pull_request', input: { title: 'T' } }],
+            }),
+        ]);
+        const provider = new AnthropicProvider('sk-ant-test', 'claude-test', 'http://proxy/');
+
+        const result = await provider.requestStructured<{ title: string }>({
+            model: 'claude-test',
+            systemPrompt: 'system',
+            userPrompt: 'user',
+            reasoningEffort: 'high',
+            schemaName: 'pull_request',
+            schema: { type: 'object' },
+        });
+
+        assert.deepStrictEqual(result, { title: 'T' });
+        assert.strictEqual(fetchStub.calls[0].url, 'http://proxy/v1/messages');
+        const body = JSON.parse(fetchStub.calls[0].init.body as string);
+        assert.deepStrictEqual(body.tool_choice, { type: 'tool', name: 'pull_request' });
+        assert.strictEqual(body.thinking, undefined);
+    });
+
+    test('should surface API failures as LLMProviderError with status and headers', async () => {
+        fetchStub = stubFetch([
+            jsonResponse({ error: { message: 'rate limited' } }, 429, { 'retry-after': '3' }),
+        ]);
+        const provider = new AnthropicProvider('sk-ant-test', 'claude-test');
+
+        await assert.rejects(
+            () =>
+                provider.requestText({
+                    model: 'claude-test',
+                    systemPrompt: 'system',
+                    userPrompt: 'user',
+                    maxCompletionTokens: 100,
+                    reasoningEffort: undefined,
+                }),
+            (error: unknown) =>
+                error instanceof LLMProviderError &&
+                error.status === 429 &&
+                error.headers?.['retry-after'] === '3' &&
+                /rate limited/.test(error.message),
+        );
+    });
+
+    test('validateApiKey should classify authentication failures', async () => {
+        fetchStub = stubFetch([jsonResponse({ error: { message: 'invalid x-api-key' } }, 401)]);
+        const provider = new AnthropicProvider('sk-ant-test', 'claude-test');
+
+        const result = await provider.validateApiKey();
+
+        assert.strictEqual(result.ok, false);
+        assert.strictEqual(result.ok === false && result.kind, 'auth');
+    });
+});
@@ -0,0 +1,150 @@
+import * as assert from 'assert';
+import { LLMProviderError } from '../../types/errors';
+import { reportProgress, runWithProgressReporter } from '../../utils/progressReporter';
+import {
+    getRetryAfterMs,
+    getRetryDelayMs,
+    isRetriableError,
+    RetryAttempt,
+    RetryPolicy,
+    withRetry,
+} from '../llm.retry';
+
+function httpError(status: number, headers: Record<string, string> = {}): LLMProviderError {
+    return new LLMProviderError(`status ${status}`, 'OpenAI', status, headers);
+}
+
+const FAST_POLICY: RetryPolicy = { maxRetries: 3, initialDelayMs: 1, maxDelayMs: 1000 };
+
+suite('LLM Retry Policy', () => {
+    test('should retry rate limits, server errors and lost connections only', () => {
+        assert.ok(isRetriableError(httpError(429)));
+        assert.ok(isRetriableError(httpError(503)));
+        assert.ok(isRetriableError(new TypeError('fetch failed')));
+        assert.ok(isRetriableError(new Error('Connection error.')));
+
+        assert.ok(!isRetriableError(httpError(401)));
+        assert.ok(!isRetriableError(httpError(400)));
+        assert.ok(!isRetriableError(new Error('Request was aborted.')));
+        assert.ok(!isRetriableError(new SyntaxError('Unexpected end of JSON input')));
+    });
+
+    test('should read Retry-After as milliseconds, seconds or an HTTP date', () => {
+        const now = Date.parse('2026-01-01T00:00:00Z');
+        assert.strictEqual(getRetryAfterMs(httpError(429, { 'retry-after-ms': '250' })), 250);
+        assert.strictEqual(getRetryAfterMs(httpError(429, { 'retry-after': '3' })), 3000);
+        assert.strictEqual(
+            getRetryAfterMs(
+                httpError(429, { 'retry-after': 'Thu, 01 Jan 2026 00:00:05 GMT' }),
+                now,
+            ),
+            5000,
+        );
+        assert.strictEqual(getRetryAfterMs(httpError(429)), undefined);
+    });
+
+    test('should back off exponentially and give up on waits longer than allowed', () => {
+        const policy: RetryPolicy = { maxRetries: 5, initialDelayMs: 1000, maxDelayMs: 5000 };
+        const first = getRetryDelayMs(httpError(500), 1, policy)!;
+        const third = getRetryDelayMs(httpError(500), 3, policy)!;
+        const capped = getRetryDelayMs(httpError(500), 5, policy)!;
+
+        assert.ok(first >= 500 && first <= 1000);
+        assert.ok(third >= 2000 && third <= 4000);
+        assert.ok(capped >= 2500 && capped <= 5000);
+        assert.strictEqual(
+            getRetryDelayMs(httpError(429, { 'retry-after': '2' }), 1, policy),
+            2000,
+        );
+        assert.strictEqual(
+            getRetryDelayMs(httpError(429, { 'retry-after': '60' }), 1, policy),
+            undefined,
+        );
+    });
+
+    test('withRetry should repeat retriable failures and report each retry', async () => {
+        const failures = [httpError(429, { 'retry-after-ms': '1' }), httpError(502)];
+        const retries: RetryAttempt[] = [];
+        let calls = 0;
+
+        const result = await withRetry(
+            async () => {
+                calls++;
+                const failure = failures.shift();
+                if (failure) {
+                    throw failure;
+                }
+                return 'ok';
+            },
+            { policy: FAST_POLICY, onRetry: (retry) => retries.push(retry) },
+        );
+
+        assert.strictEqual(result, 'ok');
+        assert.strictEqual(calls, 3);
+        assert.deepStrictEqual(
+            retries.map(({ attempt, status, delayMs }) => ({ attempt, status, delayMs })),
+            [
+                { attempt: 1, status: 429, delayMs: 1 },
+                { attempt: 2, status: 502, delayMs: retries[1].delayMs },
+            ],
+        );
+    });
+
+    test('withRetry should rethrow authentication errors and exhausted retries at once', async () => {
+        let calls = 0;
+        await assert.rejects(
+            withRetry(
+                async () => {
+                    calls++;
+                    throw httpError(401);
+                },
+                { policy: FAST_POLICY },
+            ),
+            /status 401/,
+        );
+        assert.strictEqual(calls, 1);
+
+        calls = 0;
+        await assert.rejects(
+            withRetry(
+                async () => {
+                    calls++;
+                    throw httpError(500);
+                },
+                { policy: FAST_POLICY },
+            ),
+            /status 500/,
+        );
+        assert.strictEqual(calls, FAST_POLICY.maxRetries + 1);
+    });
+
+    test('withRetry should stop waiting when the signal aborts', async () => {
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 10);
+
+        await assert.rejects(
+            withRetry(
+                async () => {
+                    throw httpError(429, { 'retry-after': '30' });
+                },
+                { policy: { ...FAST_POLICY, maxDelayMs: 60000 }, signal: controller.signal },
+            ),
+            (error: Error) => error.name === 'AbortError',
+        );
+    });
+
+    test('reportProgress should reach the reporter of the running task only', async () => {
+        const messages: string[] = [];
+        reportProgress('outside');
+
+        await runWithProgressReporter(
+            (message) => messages.push(message),
+            async () => {
+                await Promise.resolve();
+                reportProgress('retrying');
+            },
+        );
+
+        assert.deepStrictEqual(messages, ['retrying']);
+    });
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import type { LLMProvider, LLMTextRequest, LLMUsage } from '../llm.types';
+import { UsageRecordingProvider } from '../llm.usage';
+
+const USAGE: LLMUsage = { inputTokens: 10, outputTokens: 5, reasoningTokens: 0 };
+
+function createProvider(): LLMProvider {
+    return {
+        id: 'openai',
+        defaultModel: 'gpt-fake',
+        requestText: async (request: LLMTextRequest) => {
+            request.onUsage?.(USAGE);
+            return 'text';
+        },
+        requestStructured: async () => undefined,
+        validateApiKey: async () => ({ ok: true }),
+    };
+}
+
+const request: LLMTextRequest = {
+    model: 'gpt-fake',
+    systemPrompt: 'system',
+    userPrompt: 'user',
+    maxCompletionTokens: 100,
+    reasoningEffort: undefined,
+};
+
+suite('UsageRecordingProvider', () => {
+    test('should report the model and usage and keep the caller listener', async () => {
+        const recorded: Array<[string, LLMUsage]> = [];
+        const forwarded: LLMUsage[] = [];
+        const provider = new UsageRecordingProvider(createProvider(), {
+            onUsage: (model, usage) => recorded.push([model, usage]),
+        });
+
+        const text = await provider.requestText({
+            ...request,
+            onUsage: (usage) => forwarded.push(usage),
+        });
+
+        assert.strictEqual(text, 'text');
+        assert.deepStrictEqual(recorded, [['gpt-fake', USAGE]]);
+        assert.deepStrictEqual(forwarded, [USAGE]);
+    });
+
+    test('should not send the request when beforeRequest rejects', async () => {
+        let sent = false;
+        const inner = createProvider();
+        const provider = new UsageRecordingProvider(
+            {
+                ...inner,
+                requestText: (textRequest) => {
+                    sent = true;
+                    return inner.requestText(textRequest);
+                },
+            },
+            {
+                beforeRequest: async () => {
+                    throw new Error('over budget');
+                },
+                onUsage: () => undefined,
+            },
+        );
+
+        await assert.rejects(provider.requestText(request), /over budget/);
+        assert.strictEqual(sent, false);
+    });
+});
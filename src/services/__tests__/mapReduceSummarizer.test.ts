@@ -1,6 +1,6 @@
 import { suite, test } from 'mocha';
 import * as assert from 'assert';
-import { groupIntoChunks, MapReduceSummarizer } from '../mapReduceSummarizer';
+import { groupIntoChunks, MapReduceProgress, MapReduceSummarizer } from '../mapReduceSummarizer';
 import { ParsedFileDiff, FilePriority } from '../../utils/diffUtils';
 
 function makeFile(filePath: string, tokenCount: number): ParsedFileDiff {
@@ -18,11 +18,7 @@ function makeFile(filePath: string, tokenCount: number): ParsedFileDiff {
 suite('mapReduceSummarizer', () => {
     suite('groupIntoChunks', () => {
         test('should group files into chunks within token limit', () => {
-            const files = [
-                makeFile('a.ts', 100),
-                makeFile('b.ts', 100),
-                makeFile('c.ts', 100),
-            ];
+            const files = [makeFile('a.ts', 100), makeFile('b.ts', 100), makeFile('c.ts', 100)];
             const chunks = groupIntoChunks(files, 250);
 
             assert.strictEqual(chunks.length, 2);
@@ -50,11 +46,7 @@ suite('mapReduceSummarizer', () => {
         });
 
         test('should put all files in one chunk when budget allows', () => {
-            const files = [
-                makeFile('a.ts', 100),
-                makeFile('b.ts', 100),
-                makeFile('c.ts', 100),
-            ];
+            const files = [makeFile('a.ts', 100), makeFile('b.ts', 100), makeFile('c.ts', 100)];
             const chunks = groupIntoChunks(files, 10000);
 
             assert.strictEqual(chunks.length, 1);
@@ -74,18 +66,15 @@ suite('mapReduceSummarizer', () => {
         test('should report progress for each chunk', async () => {
             const progressMessages: string[] = [];
             const mockOpenAI = {
+                getModel: () => 'gpt-5.4',
                 summarizeChunk: async () => 'chunk summary',
             } as any;
 
-            const summarizer = new MapReduceSummarizer(
-                mockOpenAI,
-                (msg) => progressMessages.push(msg),
+            const summarizer = new MapReduceSummarizer(mockOpenAI, (msg) =>
+                progressMessages.push(msg),
             );
 
-            const files = [
-                makeFile('a.ts', 100),
-                makeFile('b.ts', 100),
-            ];
+            const files = [makeFile('a.ts', 100), makeFile('b.ts', 100)];
             await summarizer.summarize(files, 'english');
 
             assert.ok(progressMessages.length > 0);
@@ -93,6 +82,7 @@ suite('mapReduceSummarizer', () => {
 
         test('should handle summarization failures gracefully', async () => {
             const mockOpenAI = {
+                getModel: () => 'gpt-5.4',
                 summarizeChunk: async () => undefined,
             } as any;
 
@@ -108,6 +98,7 @@ suite('mapReduceSummarizer', () => {
         test('should combine summaries from multiple chunks', async () => {
             let callCount = 0;
             const mockOpenAI = {
+                getModel: () => 'gpt-5.4',
                 summarizeChunk: async () => {
                     callCount++;
                     return `summary ${callCount}`;
@@ -115,11 +106,7 @@ suite('mapReduceSummarizer', () => {
             } as any;
 
             const summarizer = new MapReduceSummarizer(mockOpenAI);
-            const files = [
-                makeFile('a.ts', 100),
-                makeFile('b.ts', 100),
-                makeFile('c.ts', 100),
-            ];
+            const files = [makeFile('a.ts', 100), makeFile('b.ts', 100), makeFile('c.ts', 100)];
             // Small chunk size to force multiple chunks
             const result = await summarizer.summarize(files, 'english');
 
@@ -128,4 +115,178 @@ suite('mapReduceSummarizer', () => {
             assert.ok(result.summary.includes('summary'));
         });
     });
+
+    suite('reduce phase', () => {
+        /** Files of 60k tokens each, so every file becomes its own chunk */
+        function makeLargeFiles(count: number): ParsedFileDiff[] {
+            return Array.from({ length: count }, (_, i) => ({
+                ...makeFile(`src/file${i}.ts`, 1),
+                tokenCount: 60000,
+            }));
+        }
+
+        function makeClient(overrides: Record<string, unknown> = {}): any {
+            return {
+                getModel: () => 'gpt-5.4',
+                summarizeChunk: async (content: string) =>
+                    `Changed ${content.length} characters. ${'detail '.repeat(200)}`,
+                mergeSummaries: async (summaries: string) =>
+                    `Merged ${summaries.split('### ').length - 1} summaries`,
+                ...overrides,
+            };
+        }
+
+        test('should merge summaries until they fit the budget', async () => {
+            const merged: string[] = [];
+            const summarizer = new MapReduceSummarizer(
+                makeClient({
+                    mergeSummaries: async (summaries: string) => {
+                        merged.push(summaries);
+                        return 'Merged summary';
+                    },
+                }),
+            );
+            const result = await summarizer.summarize(makeLargeFiles(6), 'english', undefined, 500);
+
+            assert.strictEqual(result.chunksProcessed, 6);
+            assert.strictEqual(result.reduceRounds, 1);
+            assert.strictEqual(merged.length, 1);
+            assert.ok(merged[0].includes('### src/file0.ts\n'));
+            assert.ok(merged[0].includes('### src/file5.ts\n'));
+            assert.ok(result.summary.startsWith('### src/file0.ts, src/file1.ts'));
+            assert.ok(result.summary.endsWith('Merged summary'));
+        });
+
+        test('should not reduce when the summaries already fit or no budget is given', async () => {
+            let merges = 0;
+            const client = makeClient({
+                mergeSummaries: async () => {
+                    merges++;
+                    return 'Merged summary';
+                },
+            });
+
+            const unbounded = await new MapReduceSummarizer(client).summarize(
+                makeLargeFiles(3),
+                'english',
+            );
+            const roomy = await new MapReduceSummarizer(client).summarize(
+                makeLargeFiles(3),
+                'english',
+                undefined,
+                100000,
+            );
+
+            assert.strictEqual(unbounded.reduceRounds, 0);
+            assert.strictEqual(roomy.reduceRounds, 0);
+            assert.strictEqual(merges, 0);
+        });
+
+        test('should keep the summaries of a group whose merge fails', async () => {
+            const summarizer = new MapReduceSummarizer(
+                makeClient({ mergeSummaries: async () => undefined }),
+            );
+            const result = await summarizer.summarize(makeLargeFiles(2), 'english', undefined, 10);
+
+            assert.strictEqual(result.reduceRounds, 1);
+            assert.ok(result.summary.includes('### src/file0.ts\nChanged'));
+            assert.ok(result.summary.includes('### src/file1.ts\nChanged'));
+        });
+
+        test('should report map and reduce progress', async () => {
+            const progress: MapReduceProgress[] = [];
+            const summarizer = new MapReduceSummarizer(makeClient(), (_message, update) => {
+                if (update) {
+                    progress.push(update);
+                }
+            });
+            await summarizer.summarize(makeLargeFiles(3), 'english', undefined, 100);
+
+            assert.deepStrictEqual(
+                progress.map(({ phase, round, completed, total }) => [
+                    phase,
+                    round,
+                    completed,
+                    total,
+                ]),
+                [
+                    ['map', 0, 1, 3],
+                    ['map', 0, 2, 3],
+                    ['map', 0, 3, 3],
+                    ['reduce', 1, 1, 1],
+                ],
+            );
+        });
+
+        test('should stop and rethrow when aborted during the map phase', async () => {
+            const controller = new AbortController();
+            let sent = 0;
+            const summarizer = new MapReduceSummarizer(
+                makeClient({
+                    summarizeChunk: async (
+                        _content: string,
+                        _language: string,
+                        signal?: AbortSignal,
+                    ) => {
+                        sent++;
+                        if (sent === 2) {
+                            controller.abort();
+                        }
+                        if (signal?.aborted) {
+                            throw new DOMException('Request was aborted.', 'AbortError');
+                        }
+                        return 'summary';
+                    },
+                }),
+                undefined,
+                1,
+            );
+
+            await assert.rejects(
+                summarizer.summarize(makeLargeFiles(5), 'english', controller.signal),
+                (error: Error) => error.name === 'AbortError',
+            );
+            assert.strictEqual(sent, 2);
+        });
+
+        test('should rethrow an abort during a reduce round instead of keeping the group', async () => {
+            const controller = new AbortController();
+            const summarizer = new MapReduceSummarizer(
+                makeClient({
+                    mergeSummaries: async () => {
+                        controller.abort();
+                        throw new DOMException('Request was aborted.', 'AbortError');
+                    },
+                }),
+            );
+
+            await assert.rejects(
+                summarizer.summarize(makeLargeFiles(4), 'english', controller.signal, 10),
+                (error: Error) => error.name === 'AbortError',
+            );
+        });
+
+        test('should keep at most the configured number of requests in flight', async () => {
+            let inFlight = 0;
+            let maxInFlight = 0;
+            const summarizer = new MapReduceSummarizer(
+                makeClient({
+                    summarizeChunk: async () => {
+                        inFlight++;
+                        maxInFlight = Math.max(maxInFlight, inFlight);
+                        await new Promise((resolve) => setTimeout(resolve, 5));
+                        inFlight--;
+                        return 'summary';
+                    },
+                }),
+                undefined,
+                2,
+            );
+            const result = await summarizer.summarize(makeLargeFiles(7), 'english');
+
+            assert.strictEqual(maxInFlight, 2);
+            assert.strictEqual(result.chunksProcessed, 7);
+            assert.strictEqual(result.summary.split('### ').length - 1, 7);
+        });
+    });
 });
@@ -8,45 +8,44 @@ import { TokenManager } from '../tokenManager';
 
 suite('TokenManager', () => {
     suite('estimateTokens', () => {
-        test('should estimate tokens using 4 chars per token ratio', () => {
-            // 8 characters = 2 tokens
-            assert.strictEqual(TokenManager.estimateTokens('12345678'), 2);
-        });
-
-        test('should round up for partial tokens', () => {
-            // 5 characters = 2 tokens (ceil(5/4))
-            assert.strictEqual(TokenManager.estimateTokens('12345'), 2);
+        test('should count o200k_base tokens', () => {
+            assert.strictEqual(TokenManager.estimateTokens('Hello, world!'), 4);
         });
 
         test('should return 0 for empty string', () => {
             assert.strictEqual(TokenManager.estimateTokens(''), 0);
         });
 
-        test('should handle multi-byte characters correctly', () => {
-            // Japanese characters are multi-byte but counted by string length
-            const jaText = 'abc'; // 12 bytes in UTF-8, but 3 chars
-            assert.strictEqual(TokenManager.estimateTokens(jaText), 1);
+        test('should count CJK text above the 4 chars per token ratio', () => {
+            const jaText = '変更内容を要約します。'.repeat(10);
+            assert.ok(TokenManager.estimateTokens(jaText) > jaText.length / 4);
+        });
+
+        test('should count repetitive text below the 4 chars per token ratio', () => {
+            const padding = '='.repeat(400);
+            assert.ok(TokenManager.estimateTokens(padding) < padding.length / 4);
         });
     });
 
     suite('truncateInput', () => {
         test('should not truncate if within limit', () => {
-            const input = 'a'.repeat(100);
-            const result = TokenManager.truncateInput(input, 30); // 30 tokens = 120 chars
+            const input = 'word '.repeat(20);
+            const result = TokenManager.truncateInput(input, 30);
             assert.strictEqual(result, input);
         });
 
-        test('should truncate if exceeding limit', () => {
-            const input = 'a'.repeat(200);
-            const result = TokenManager.truncateInput(input, 30); // 30 tokens = 120 chars
-            assert.strictEqual(result.length, 120);
+        test('should truncate to a prefix within the limit', () => {
+            const input = 'word '.repeat(200);
+            const result = TokenManager.truncateInput(input, 30);
+            assert.ok(input.startsWith(result));
+            assert.strictEqual(TokenManager.estimateTokens(result), 30);
         });
 
-        test('should truncate to exactly maxTokens * 4 chars', () => {
-            const input = 'a'.repeat(1000);
-            const maxTokens = 100;
-            const result = TokenManager.truncateInput(input, maxTokens);
-            assert.strictEqual(result.length, maxTokens * TokenManager.CHARS_PER_TOKEN);
+        test('should not cut a character in half', () => {
+            const input = '😀'.repeat(100);
+            const result = TokenManager.truncateInput(input, 25);
+            assert.ok(result.length > 0 && result.length % 2 === 0);
+            assert.ok(input.startsWith(result));
         });
     });
 
@@ -113,4 +112,42 @@ suite('TokenManager', () => {
             assert.strictEqual(TokenManager.OUTPUT_TOKENS.ISSUE, 12000);
         });
     });
+
+    suite('Model-specific limits', () => {
+        test('should derive the context limit from the model', () => {
+            assert.strictEqual(TokenManager.getContextLimit('gpt-4o'), 128000);
+            assert.strictEqual(TokenManager.getContextLimit(), TokenManager.CONTEXT_LIMIT);
+        });
+
+        test('should clamp output allocations to the model output limit', () => {
+            const tokens = TokenManager.getOutputTokens('claude-3-5-haiku');
+            assert.strictEqual(tokens.COMMIT_MESSAGE, 5000);
+            assert.strictEqual(tokens.ISSUE, 8192);
+        });
+
+        test('should validate allocation against the given model', () => {
+            assert.strictEqual(TokenManager.validateAllocation(150000, 8000), true);
+            assert.strictEqual(TokenManager.validateAllocation(150000, 8000, 'gpt-4o'), false);
+        });
+
+        test('should shrink map-reduce chunks for small context windows', () => {
+            assert.strictEqual(
+                TokenManager.getMapReduceChunkSize(),
+                TokenManager.MAP_REDUCE_CHUNK_SIZE,
+            );
+            assert.ok(TokenManager.getMapReduceChunkSize('mistral-small') < 32768);
+        });
+
+        test('should cap configured max tokens to the model context window', () => {
+            assert.strictEqual(
+                TokenManager.getConfiguredMaxTokens(),
+                TokenManager.MAX_INPUT_TOKENS,
+            );
+            assert.strictEqual(TokenManager.getConfiguredMaxTokens('gpt-5.4'), 200000);
+            assert.strictEqual(
+                TokenManager.getConfiguredMaxTokens('qwen2.5-coder'),
+                32768 - 5000 - 10000,
+            );
+        });
+    });
 });
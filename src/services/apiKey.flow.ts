@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { Logger } from '../infrastructure/logging/Logger';
 import { StorageManager } from '../infrastructure/storage/StorageManager';
+import type { LLMProviderId } from '../types';
 import { t } from '../i18n/index';
 
 interface ValidationResultLike {
@@ -15,6 +16,8 @@ interface PromptAndSaveApiKeyInput {
     promptForApiKey: () => Promise<string | undefined>;
     validateKeyFormat: (key: string) => boolean;
     validateWithProgress: (apiKey: string) => Promise<ValidationResultLike>;
+    /** Provider whose key is being configured (defaults to OpenAI) */
+    provider?: LLMProviderId;
 }
 
 interface ValidateCurrentApiKeyInput {
@@ -22,6 +25,8 @@ interface ValidateCurrentApiKeyInput {
     promptAndSaveApiKey: () => Promise<void>;
     validateWithProgress: (apiKey: string) => Promise<ValidationResultLike>;
     maxValidationRetries: number;
+    /** Provider whose key is being validated (defaults to OpenAI) */
+    provider?: LLMProviderId;
 }
 
 type ValidationFailureDecision = 'retry' | 'done';
@@ -33,6 +38,7 @@ type ValidationFailureDecision = 'retry' | 'done';
  */
 export async function promptAndSaveApiKey(input: PromptAndSaveApiKeyInput): Promise<void> {
     const { logger, storage, promptForApiKey, validateKeyFormat, validateWithProgress } = input;
+    const provider = input.provider ?? 'openai';
 
     while (true) {
         const apiKey = await promptForApiKey();
@@ -54,14 +60,20 @@ export async function promptAndSaveApiKey(input: PromptAndSaveApiKeyInput): Prom
 
         if (validateChoice === t('buttons.yes')) {
             const result = await validateWithProgress(apiKey);
-            const decision = await handleNewKeyValidationResult(result, apiKey, storage, logger);
+            const decision = await handleNewKeyValidationResult(
+                result,
+                apiKey,
+                provider,
+                storage,
+                logger,
+            );
             if (decision === 'retry') {
                 continue;
             }
             return;
         }
 
-        await saveOpenAIApiKey(storage, logger, apiKey, 'API key saved successfully');
+        await saveApiKey(storage, logger, provider, apiKey, 'API key saved successfully');
         return;
     }
 }
@@ -73,7 +85,7 @@ export async function promptAndSaveApiKey(input: PromptAndSaveApiKeyInput): Prom
  */
 export async function validateCurrentApiKey(input: ValidateCurrentApiKeyInput): Promise<void> {
     const { storage, promptAndSaveApiKey, validateWithProgress, maxValidationRetries } = input;
-    const currentKey = (await storage.getApiKey('openai'))?.trim();
+    const currentKey = (await storage.getApiKey(input.provider ?? 'openai'))?.trim();
 
     if (!currentKey) {
         await promptToSetMissingApiKey(promptAndSaveApiKey);
@@ -102,13 +114,15 @@ export async function validateCurrentApiKey(input: ValidateCurrentApiKeyInput):
 async function handleNewKeyValidationResult(
     result: ValidationResultLike,
     apiKey: string,
+    provider: LLMProviderId,
     storage: StorageManager,
     logger: Logger,
 ): Promise<ValidationFailureDecision> {
     if (result.isValid) {
-        await saveOpenAIApiKey(
+        await saveApiKey(
             storage,
             logger,
+            provider,
             apiKey,
             'API key saved and validated successfully',
             true,
@@ -122,7 +136,7 @@ async function handleNewKeyValidationResult(
     }
 
     if (action === t('apiKey.continueWithoutValidation')) {
-        await saveOpenAIApiKey(storage, logger, apiKey, 'API key saved without validation');
+        await saveApiKey(storage, logger, provider, apiKey, 'API key saved without validation');
     }
 
     return 'done';
@@ -183,14 +197,15 @@ async function handleCurrentKeyValidationFailure(
     return 'done';
 }
 
-async function saveOpenAIApiKey(
+async function saveApiKey(
     storage: StorageManager,
     logger: Logger,
+    provider: LLMProviderId,
     apiKey: string,
     logMessage: string,
     showValidationSuccess = false,
 ): Promise<void> {
-    await storage.setApiKey('openai', apiKey);
+    await storage.setApiKey(provider, apiKey);
     vscode.window.showInformationMessage(t('messages.apiKeySaved'));
 
     if (showValidationSuccess) {
@@ -12,18 +12,20 @@ export type ApiKeyAction = 'update' | 'validate' | 'remove' | 'cancel';
  *
  * @param logger - Logger used to record the prompt event
  * @param validateKeyFormat - Predicate used to validate the format of the entered key
+ * @param labels - Optional prompt/placeholder overrides for non-OpenAI providers
  * @returns The entered API key, or undefined if the user cancelled
  */
 export async function promptForApiKey(
     logger: Logger,
     validateKeyFormat: (key: string) => boolean,
+    labels?: { prompt: string; placeHolder: string },
 ): Promise<string | undefined> {
     logger.info('Prompting user for API key');
 
     return vscode.window.showInputBox({
-        prompt: t('apiKey.enterKey'),
+        prompt: labels?.prompt ?? t('apiKey.enterKey'),
         password: true,
-        placeHolder: t('apiKey.placeholder'),
+        placeHolder: labels?.placeHolder ?? t('apiKey.placeholder'),
         ignoreFocusOut: true,
         validateInput: (value) => {
             if (!value || value.trim() === '') {
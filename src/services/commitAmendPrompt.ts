@@ -0,0 +1,21 @@
+/**
+ * Build the prompt used to rewrite the message of the last commit
+ *
+ * Extends the regular commit prompt with the commit's current message, so
+ * references and rationale that the diff cannot show are kept.
+ *
+ * @param commitPrompt - Commit prompt built for the combined diff
+ * @param previousMessage - The current message of the commit being amended
+ * @returns The composed prompt string to send to the AI model
+ */
+export function createAmendCommitPromptContent(
+    commitPrompt: string,
+    previousMessage: string,
+): string {
+    return `${commitPrompt}
+
+The diff above is the last commit combined with changes being added to it. The commit currently has this message:
+${previousMessage}
+
+Write a new message that describes the whole diff. Keep issue references, rationale and trailers from the current message while they are still accurate, and drop anything the diff no longer supports.`;
+}
@@ -0,0 +1,24 @@
+/**
+ * Build the prompt used to merge several commit message candidates into one
+ *
+ * @param candidates - The candidate commit messages selected by the user
+ * @param language - Natural language to write the combined message in
+ * @returns The composed prompt string to send to the AI model
+ */
+export function createCombineCommitMessagesPromptContent(
+    candidates: string[],
+    language: string,
+): string {
+    const numbered = candidates
+        .map((candidate, index) => `Candidate ${index + 1}:\n${candidate.trim()}`)
+        .join('\n\n');
+
+    return `Combine the following commit message candidates into a single commit message in ${language}.
+- Keep the subject line format (prefix, scope, emoji usage) used by the candidates
+- Merge the body points, removing duplicates and keeping the most precise wording
+- Do not mention that the message was combined from candidates
+
+${numbered}
+
+Output only the combined commit message without code fences or leading newlines.`;
+}
@@ -0,0 +1,31 @@
+/**
+ * Build the prompt used to fix a generated commit message that failed linting
+ *
+ * @param message - The generated commit message
+ * @param diff - The staged diff the message describes
+ * @param violations - Failed rules formatted by `formatCommitLintViolations`
+ * @param language - Natural language to write the commit message in
+ * @returns The composed prompt string to send to the AI model
+ */
+export function createCommitLintRepairPromptContent(
+    message: string,
+    diff: string,
+    violations: string,
+    language: string,
+): string {
+    return `The commit message below breaks the repository's commit message rules. Rewrite it in ${language} so that it passes all of them.
+- Fix every listed violation and keep the meaning of the message
+- Shorten or rewrap lines instead of dropping information when a line is too long
+- Use the Git diff only to keep the message accurate
+
+Violations:
+${violations}
+
+Current commit message:
+${message}
+
+Git diff:
+${diff}
+
+Output only the corrected commit message without code fences or leading newlines.`;
+}
@@ -0,0 +1,31 @@
+/**
+ * Build the prompt used to rewrite an existing commit message per a user instruction
+ *
+ * @param message - The current commit message to rewrite
+ * @param diff - The staged diff the message describes
+ * @param instruction - Free-form instruction from the user (e.g. "shorter")
+ * @param language - Natural language to write the commit message in
+ * @returns The composed prompt string to send to the AI model
+ */
+export function createRefineCommitMessagePromptContent(
+    message: string,
+    diff: string,
+    instruction: string,
+    language: string,
+): string {
+    return `Rewrite the current commit message in ${language} according to the instruction below.
+- Apply the instruction and change nothing else unless the message contradicts the diff
+- Keep the existing subject line format (prefix, scope, emoji usage) unless the instruction asks otherwise
+- Use the Git diff only to keep the message accurate
+
+Instruction:
+${instruction}
+
+Current commit message:
+${message}
+
+Git diff:
+${diff}
+
+Output only the rewritten commit message without code fences or leading newlines.`;
+}
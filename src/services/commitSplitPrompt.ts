@@ -0,0 +1,37 @@
+import type { PromptGenerationOptions } from './promptConfig';
+
+/**
+ * Build the prompt used to group staged changes into logical commits
+ *
+ * @param changeUnits - Change units formatted with their ids (see `formatChangeUnitsForPrompt`)
+ * @param language - Natural language to write the commit messages in
+ * @param options - Message formatting options from the user's settings
+ * @returns The composed prompt string to send to the AI model
+ */
+export function createCommitSplitPromptContent(
+    changeUnits: string,
+    language: string,
+    options: PromptGenerationOptions,
+): string {
+    const format = options.useConventionalCommits
+        ? 'Use Conventional Commits subject lines (<type>(<scope>): <subject>)'
+        : 'Start each subject line with a short prefix such as feat:, fix:, docs: or refactor:';
+    const emoji = options.useEmoji
+        ? '- Add one fitting emoji to each subject line'
+        : '- Do not use emoji';
+    const body = options.useBulletList
+        ? '- Write the body as a short bullet list'
+        : '- Write the body as short prose';
+
+    return `The staged changes below are listed as numbered change units. Each unit is a whole file ("3") or one hunk of a file ("3.2").
+Group the units into logical commits so that each commit is coherent on its own (one feature, fix, refactor or chore), then write a commit message in ${language} for each commit.
+- ${format}
+${emoji}
+${body}
+- Order commits so that earlier commits do not depend on later ones
+- Assign every unit to exactly one commit; keep hunks of the same file together unless they are clearly unrelated
+- Prefer a small number of commits; use a single commit when the changes belong together
+
+Change units:
+${changeUnits}`;
+}
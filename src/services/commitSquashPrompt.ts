@@ -0,0 +1,30 @@
+/** Commit messages listed in the prompt before the rest are only counted */
+const MAX_LISTED_MESSAGES = 100;
+
+/**
+ * Build the prompt used to write one message for several commits being squashed
+ *
+ * Extends the regular commit prompt for the combined diff with the messages
+ * of the individual commits, oldest first.
+ *
+ * @param commitPrompt - Commit prompt built for the combined diff
+ * @param messages - Messages of the commits being squashed, oldest first
+ * @returns The composed prompt string to send to the AI model
+ */
+export function createSquashCommitPromptContent(commitPrompt: string, messages: string[]): string {
+    const listed = messages
+        .slice(0, MAX_LISTED_MESSAGES)
+        .map((message, index) => `--- Commit ${index + 1} ---\n${message}`)
+        .join('\n\n');
+    const omitted =
+        messages.length > MAX_LISTED_MESSAGES
+            ? `\n\n(${messages.length - MAX_LISTED_MESSAGES} more commits not listed)`
+            : '';
+
+    return `${commitPrompt}
+
+The diff above combines ${messages.length} commits that are being squashed into one. Their messages, oldest first:
+${listed}${omitted}
+
+Write a single message for the combined change. Describe the end result rather than the history: leave out work-in-progress steps, fixups and changes that later commits reverted. Keep issue references and trailers that still apply.`;
+}
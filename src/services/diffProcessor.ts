@@ -3,10 +3,13 @@
  *
  * Implements a 3-tier approach:
  * - Tier 1 (Normal): Diff fits within token budget, pass through as-is
- * - Tier 2 (Smart Prioritization): Parse by file, exclude lock files, prioritize by importance
- * - Tier 3 (Map-Reduce): Summarize overflow chunks via parallel API calls
+ * - Tier 2 (Smart Prioritization): Parse by file, exclude lock files, prioritize by importance,
+ *   and keep only the highest-value hunks of files too large for their share of the budget
+ * - Tier 3 (Map-Reduce): Summarize overflow chunks via parallel API calls, then merge the
+ *   summaries in rounds until they fit in what Tier 2 left of the budget
  */
 
+import type { FileClassificationRule } from '../constants/diffClassification';
 import { Logger } from '../infrastructure/logging/Logger';
 import { TokenManager } from './tokenManager';
 import {
@@ -14,11 +17,18 @@ import {
     buildChangeSummaryHeader,
     assemblePrioritizedDiff,
     estimateTokenCount,
+    type AssembledDiffResult,
+    type FileTreatmentReport,
+    type ParsedFileDiff,
 } from '../utils/diffUtils';
-import { MapReduceSummarizer, MapReduceProgressCallback } from './mapReduceSummarizer';
+import { countRedactionPlaceholders } from '../utils/secretRedaction';
+import {
+    ChunkSummarizationClient,
+    MapReduceSummarizer,
+    MapReduceProgressCallback,
+} from './mapReduceSummarizer';
 
-// Use type-only import to avoid circular dependency
-import type { OpenAIService } from './openaiService';
+const SUMMARIES_HEADING = '\n\n## Summarized Changes (files not included in full diff)\n\n';
 
 /**
  * Processing tier used for the diff
@@ -32,6 +42,20 @@ export enum DiffTier {
     MapReduce = 3,
 }
 
+/**
+ * What processing a diff would get, worked out without calling the model
+ */
+export interface DiffProcessingPlan {
+    /** Which processing tier applies */
+    tier: DiffTier;
+    /** Tokens of the original diff */
+    originalTokens: number;
+    /** Tokens the processed diff may use */
+    tokenBudget: number;
+    /** Treatment of each file, in diff order; empty when the diff could not be split into files */
+    files: FileTreatmentReport[];
+}
+
 /**
  * Result of diff processing
  */
@@ -42,10 +66,25 @@ export interface DiffProcessResult {
     tier: DiffTier;
     /** Total number of files in the original diff */
     totalFiles: number;
+    /** Tokens of the original diff */
+    originalTokens: number;
     /** Number of files included with full diff content */
     includedFiles: number;
+    /** Number of files included with only their highest-value hunks */
+    condensedFiles: number;
     /** Number of files excluded or summary-only */
     excludedFiles: number;
+    /** Treatment of each file, in diff order; empty when the diff could not be split into files */
+    files: FileTreatmentReport[];
+}
+
+/** Tier 1 and 2 work shared by planning and processing */
+interface PreparedDiff {
+    safeBudget: number;
+    rawTokens: number;
+    files: ParsedFileDiff[];
+    /** Missing when the diff fits or could not be split into files */
+    assembled?: AssembledDiffResult;
 }
 
 /**
@@ -58,15 +97,45 @@ export class DiffProcessor {
      * @param openaiService - OpenAI service instance (required for Tier 3)
      * @param language - Target language for summaries
      * @param progressCallback - Optional callback for progress reporting
+     * @param classificationRules - File priorities defined by the repository
+     * @param mapReduceParallelism - Tier 3 requests sent at once; read from the settings when omitted
      */
     constructor(
-        private openaiService?: OpenAIService,
+        private openaiService?: ChunkSummarizationClient,
         private language: string = 'english',
         private progressCallback?: MapReduceProgressCallback,
+        private classificationRules: readonly FileClassificationRule[] = [],
+        private mapReduceParallelism?: number,
     ) {
         this.logger = Logger.getInstance();
     }
 
+    /**
+     * Work out how a raw diff would be processed, without sending anything
+     *
+     * @param rawDiff - The untruncated diff string
+     * @param tokenBudget - Maximum token budget for the result
+     * @returns The tier and the treatment of each file
+     */
+    plan(rawDiff: string, tokenBudget: number): DiffProcessingPlan {
+        const { safeBudget, rawTokens, files, assembled } = this.prepare(rawDiff, tokenBudget);
+        if (!assembled) {
+            return {
+                tier: DiffTier.Normal,
+                originalTokens: rawTokens,
+                tokenBudget: safeBudget,
+                files: files.map((file) => fullTreatment(file)),
+            };
+        }
+        const mapReduce = this.usesMapReduce(assembled);
+        return {
+            tier: mapReduce ? DiffTier.MapReduce : DiffTier.SmartPrioritized,
+            originalTokens: rawTokens,
+            tokenBudget: safeBudget,
+            files: mapReduce ? markMapReduced(assembled.treatments) : assembled.treatments,
+        };
+    }
+
     /**
      * Process a raw diff through the appropriate tier
      *
@@ -74,9 +143,12 @@ export class DiffProcessor {
      * @param tokenBudget - Maximum token budget for the result
      * @returns Processed diff result
      */
-    async process(rawDiff: string, tokenBudget: number, signal?: AbortSignal): Promise<DiffProcessResult> {
-        const safeBudget = Math.floor(tokenBudget * TokenManager.SAFETY_MARGIN);
-        const rawTokens = estimateTokenCount(rawDiff);
+    async process(
+        rawDiff: string,
+        tokenBudget: number,
+        signal?: AbortSignal,
+    ): Promise<DiffProcessResult> {
+        const { safeBudget, rawTokens, files, assembled } = this.prepare(rawDiff, tokenBudget);
 
         // Tier 1: fits within budget
         if (rawTokens <= safeBudget) {
@@ -85,37 +157,36 @@ export class DiffProcessor {
                 processedDiff: rawDiff,
                 tier: DiffTier.Normal,
                 totalFiles: 0,
+                originalTokens: rawTokens,
                 includedFiles: 0,
+                condensedFiles: 0,
                 excludedFiles: 0,
+                files: files.map((file) => fullTreatment(file)),
             };
         }
 
-        // Parse diff into files for Tier 2+
-        const files = parseDiffIntoFiles(rawDiff);
-
-        if (files.length === 0) {
+        if (!assembled) {
             // Could not parse file boundaries; fall back to simple truncation
             this.logger.warning('Could not parse diff into files, falling back to truncation');
-            const truncated = rawDiff.substring(0, safeBudget * TokenManager.CHARS_PER_TOKEN);
+            const truncated = TokenManager.truncateInput(rawDiff, safeBudget);
             return {
                 processedDiff: truncated,
                 tier: DiffTier.Normal,
                 totalFiles: 0,
+                originalTokens: rawTokens,
                 includedFiles: 0,
+                condensedFiles: 0,
                 excludedFiles: 0,
+                files: [],
             };
         }
 
-        // Tier 2: Smart prioritization
-        const summaryHeader = buildChangeSummaryHeader(files);
-        const assembled = assemblePrioritizedDiff(files, summaryHeader, safeBudget);
-
         this.logger.info(
-            `Diff processing: Tier 2 applied (${files.length} files, ${assembled.includedCount} included, ${assembled.summaryOnlyCount} summary-only)`,
+            `Diff processing: Tier 2 applied (${files.length} files, ${assembled.includedCount} included, ${assembled.condensedCount} condensed to key hunks, ${assembled.summaryOnlyCount} summary-only)`,
         );
 
         // Check if Tier 3 is needed (overflow files exist and we have an OpenAI service)
-        if (assembled.overflowFiles.length > 0 && this.openaiService) {
+        if (this.openaiService && assembled.overflowFiles.length > 0) {
             this.logger.info(
                 `Diff processing: Tier 3 triggered (${assembled.overflowFiles.length} overflow files)`,
             );
@@ -123,26 +194,36 @@ export class DiffProcessor {
             const summarizer = new MapReduceSummarizer(
                 this.openaiService,
                 this.progressCallback,
+                this.mapReduceParallelism,
             );
 
+            // Tier 2 may have used the whole budget; the summaries still get room for one merged summary
+            const summaryBudget = Math.max(
+                safeBudget - estimateTokenCount(assembled.content + SUMMARIES_HEADING),
+                TokenManager.SUMMARIZATION_OUTPUT_TOKENS,
+            );
             const mapReduceResult = await summarizer.summarize(
                 assembled.overflowFiles,
                 this.language,
                 signal,
+                summaryBudget,
+            );
+            this.logger.info(
+                `Diff processing: Tier 3 summarized ${mapReduceResult.chunksProcessed} chunks (${mapReduceResult.chunksFailed} failed) in ${mapReduceResult.reduceRounds} reduce rounds`,
             );
 
             // Combine Tier 2 content with Tier 3 summaries
-            const combinedContent =
-                assembled.content +
-                '\n\n## Summarized Changes (files not included in full diff)\n\n' +
-                mapReduceResult.summary;
+            const combinedContent = assembled.content + SUMMARIES_HEADING + mapReduceResult.summary;
 
             return {
                 processedDiff: combinedContent,
                 tier: DiffTier.MapReduce,
                 totalFiles: files.length,
+                originalTokens: rawTokens,
                 includedFiles: assembled.includedCount,
+                condensedFiles: assembled.condensedCount,
                 excludedFiles: assembled.summaryOnlyCount,
+                files: markMapReduced(assembled.treatments),
             };
         }
 
@@ -150,8 +231,53 @@ export class DiffProcessor {
             processedDiff: assembled.content,
             tier: DiffTier.SmartPrioritized,
             totalFiles: files.length,
+            originalTokens: rawTokens,
             includedFiles: assembled.includedCount,
+            condensedFiles: assembled.condensedCount,
             excludedFiles: assembled.summaryOnlyCount,
+            files: assembled.treatments,
         };
     }
+
+    private prepare(rawDiff: string, tokenBudget: number): PreparedDiff {
+        const safeBudget = Math.floor(tokenBudget * TokenManager.SAFETY_MARGIN);
+
+        // Parsing first lets the Tier 1 check reuse the per-file token counts
+        const files = parseDiffIntoFiles(rawDiff, this.classificationRules);
+        const rawTokens =
+            files.length > 0
+                ? files.reduce((sum, file) => sum + file.tokenCount, 0)
+                : estimateTokenCount(rawDiff);
+        if (rawTokens <= safeBudget || files.length === 0) {
+            return { safeBudget, rawTokens, files };
+        }
+
+        // Tier 2: Smart prioritization
+        const summaryHeader = buildChangeSummaryHeader(files);
+        const assembled = assemblePrioritizedDiff(files, summaryHeader, safeBudget);
+        return { safeBudget, rawTokens, files, assembled };
+    }
+
+    private usesMapReduce(assembled: AssembledDiffResult): boolean {
+        return assembled.overflowFiles.length > 0 && this.openaiService !== undefined;
+    }
+}
+
+function fullTreatment(file: ParsedFileDiff): FileTreatmentReport {
+    return {
+        filePath: file.filePath,
+        priority: file.priority,
+        treatment: 'full',
+        additions: file.additions,
+        deletions: file.deletions,
+        tokenCount: file.tokenCount,
+        sentTokens: file.tokenCount,
+        redactedSecrets: countRedactionPlaceholders(file.content),
+    };
+}
+
+function markMapReduced(treatments: FileTreatmentReport[]): FileTreatmentReport[] {
+    return treatments.map((file) =>
+        file.treatment === 'summaryOnly' ? { ...file, treatment: 'mapReduced' } : file,
+    );
 }
@@ -0,0 +1,104 @@
+import { SimpleGit } from 'simple-git';
+import { GitServiceError } from '../types/errors';
+
+/** Empty tree object ids, used as the parent of a root commit */
+const EMPTY_TREE = {
+    sha1: '4b825dc642cb6eb9a060e54bf8d69288fbee4904',
+    sha256: '6ef19b41225c5369f1c104d45d8d85efa9b057b53b14b4b9b939dd74decc5321',
+};
+
+/**
+ * The last commit together with what amending it would commit
+ */
+export interface AmendTarget {
+    /** Commit HEAD points to */
+    head: string;
+    /** Full message of HEAD */
+    message: string;
+    /** Changes of HEAD plus the staged changes, relative to HEAD's parent */
+    diff: string;
+    /** Remote-tracking branches that already contain HEAD */
+    pushedTo: string[];
+}
+
+async function resolveParent(git: SimpleGit, head: string): Promise<string> {
+    // `--quiet` makes a root commit fail with no output instead of an error message
+    const parent = await git.raw(['rev-parse', '--verify', '--quiet', `${head}^`]).then(
+        (output) => output.trim(),
+        () => '',
+    );
+    return parent || (head.length === 64 ? EMPTY_TREE.sha256 : EMPTY_TREE.sha1);
+}
+
+/**
+ * Remote-tracking branches that already contain a commit
+ *
+ * @param git - The simple-git client bound to the repository
+ * @param commit - Commit to look for
+ * @returns Short branch names such as `origin/main`
+ */
+export async function listRemoteBranchesContaining(
+    git: SimpleGit,
+    commit: string,
+): Promise<string[]> {
+    const output = await git.raw([
+        'branch',
+        '-r',
+        '--contains',
+        commit,
+        '--format=%(refname:short)',
+    ]);
+    return output
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Read HEAD, its message, and the diff an amended HEAD would have
+ *
+ * @param git - The simple-git client bound to the repository
+ * @returns The amend target, or undefined on an unborn branch
+ */
+export async function readAmendTarget(git: SimpleGit): Promise<AmendTarget | undefined> {
+    let head: string;
+    try {
+        head = (await git.raw(['rev-parse', '--verify', 'HEAD'])).trim();
+    } catch {
+        return undefined;
+    }
+
+    const parent = await resolveParent(git, head);
+    const [message, diff, pushedTo] = await Promise.all([
+        git.raw(['log', '-1', '--format=%B', head]),
+        git.diff(['--cached', parent]),
+        listRemoteBranchesContaining(git, head),
+    ]);
+
+    return { head, message: message.trim(), diff, pushedTo };
+}
+
+/**
+ * Replace the message of HEAD, committing the staged changes along with it
+ *
+ * @param git - The simple-git client bound to the repository
+ * @param expectedHead - HEAD the message was generated for
+ * @param message - The new commit message
+ * @returns The hash of the amended commit
+ * @throws {GitServiceError} When HEAD moved since the message was generated
+ */
+export async function amendHeadCommit(
+    git: SimpleGit,
+    expectedHead: string,
+    message: string,
+): Promise<string> {
+    const head = (await git.raw(['rev-parse', '--verify', 'HEAD'])).trim();
+    if (head !== expectedHead) {
+        throw new GitServiceError('HEAD moved while the commit message was being generated', {
+            expectedHead,
+            head,
+        });
+    }
+    await git.commit(message, [], { '--amend': null });
+    return (await git.raw(['rev-parse', 'HEAD'])).trim();
+}
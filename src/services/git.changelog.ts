@@ -0,0 +1,29 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { insertReleaseSection } from '../utils/releaseNotes';
+
+const CHANGELOG_NAMES = ['CHANGELOG.md', 'Changelog.md', 'changelog.md', 'CHANGES.md'];
+
+/**
+ * Add a release section to the repository's changelog, creating `CHANGELOG.md` if needed
+ *
+ * @param rootPath - Repository root
+ * @param section - The release section, starting with its `## ` heading
+ * @returns Path of the changelog that was written
+ */
+export async function writeChangelogSection(rootPath: string, section: string): Promise<string> {
+    let file = path.join(rootPath, CHANGELOG_NAMES[0]);
+    let content = '';
+    for (const name of CHANGELOG_NAMES) {
+        const candidate = path.join(rootPath, name);
+        const existing = await fs.readFile(candidate, 'utf8').catch(() => undefined);
+        if (existing !== undefined) {
+            file = candidate;
+            content = existing;
+            break;
+        }
+    }
+
+    await fs.writeFile(file, insertReleaseSection(content, section), 'utf8');
+    return file;
+}
@@ -0,0 +1,68 @@
+import * as path from 'path';
+import { readFile } from 'fs/promises';
+import type { FileClassificationRule } from '../constants/diffClassification';
+import { Logger } from '../infrastructure/logging/Logger';
+import { parseClassificationConfig, parseGitAttributes } from '../utils/diff.classification';
+
+/**
+ * Repository config file read for `diffClassification`
+ *
+ * The CLI reads its settings from the same file.
+ */
+export const REPOSITORY_CONFIG_FILE = '.otakcommitter.json';
+
+const GIT_ATTRIBUTES_FILE = '.gitattributes';
+
+async function readOptionalFile(filePath: string): Promise<string | undefined> {
+    try {
+        return await readFile(filePath, 'utf-8');
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Find the repository's file classification rules
+ *
+ * Reads `.gitattributes` and the `diffClassification` key of
+ * `.otakcommitter.json` at the repository root. Rules from the config file
+ * come last, so they win over the attributes. Problems in either file are
+ * logged and the affected entries ignored.
+ *
+ * @param workspaceRoot - Repository root used as the search base
+ * @param logger - Logger used for diagnostics
+ * @returns The rules, empty when the repository defines none
+ */
+export async function findClassificationRules(
+    workspaceRoot: string,
+    logger: Logger,
+): Promise<FileClassificationRule[]> {
+    const rules: FileClassificationRule[] = [];
+
+    const attributes = await readOptionalFile(path.join(workspaceRoot, GIT_ATTRIBUTES_FILE));
+    if (attributes) {
+        rules.push(...parseGitAttributes(attributes, GIT_ATTRIBUTES_FILE));
+    }
+
+    const configText = await readOptionalFile(path.join(workspaceRoot, REPOSITORY_CONFIG_FILE));
+    if (configText) {
+        try {
+            const config = JSON.parse(configText) as { diffClassification?: unknown } | null;
+            const { rules: configRules, warnings } = parseClassificationConfig(
+                config?.diffClassification,
+                REPOSITORY_CONFIG_FILE,
+            );
+            warnings.forEach((warning) => logger.warning(warning));
+            rules.push(...configRules);
+        } catch (error) {
+            logger.warning(`Ignoring ${REPOSITORY_CONFIG_FILE}: not valid JSON`, error);
+        }
+    }
+
+    if (rules.length > 0) {
+        logger.info(`Found ${rules.length} file classification rules`, {
+            sources: [...new Set(rules.map((rule) => rule.source.split(':')[0]))],
+        });
+    }
+    return rules;
+}
@@ -0,0 +1,80 @@
+import * as path from 'path';
+import { readFile } from 'fs/promises';
+import { Logger } from '../infrastructure/logging/Logger';
+import { CommitLintConfigFormat, parseCommitLintConfigText } from '../utils/commitLint.config';
+import type { CommitLintConfigSource } from '../utils/commitLint.rules';
+
+/** Files commitlint looks for, in its own lookup order */
+const CONFIG_FILES: Array<[string, CommitLintConfigFormat]> = [
+    ['.commitlintrc', 'json'],
+    ['.commitlintrc.json', 'json'],
+    ['.commitlintrc.yaml', 'yaml'],
+    ['.commitlintrc.yml', 'yaml'],
+    ['.commitlintrc.js', 'script'],
+    ['.commitlintrc.cjs', 'script'],
+    ['.commitlintrc.mjs', 'script'],
+    ['.commitlintrc.ts', 'script'],
+    ['.commitlintrc.cts', 'script'],
+    ['commitlint.config.js', 'script'],
+    ['commitlint.config.cjs', 'script'],
+    ['commitlint.config.mjs', 'script'],
+    ['commitlint.config.ts', 'script'],
+    ['commitlint.config.cts', 'script'],
+    ['commitlint.config.mts', 'script'],
+];
+
+async function readConfigFile(
+    filePath: string,
+    format: CommitLintConfigFormat,
+): Promise<CommitLintConfigSource | undefined> {
+    let text: string;
+    try {
+        text = await readFile(filePath, 'utf-8');
+    } catch {
+        return undefined;
+    }
+    try {
+        return parseCommitLintConfigText(text, format);
+    } catch {
+        // .commitlintrc may be YAML as well as JSON
+        return parseCommitLintConfigText(text, 'yaml');
+    }
+}
+
+/**
+ * Find the repository's commitlint config and read its rules
+ *
+ * Checks the commitlint config files and the `commitlint` key of
+ * `package.json`. JS and TS configs are read statically, never executed.
+ *
+ * @param workspaceRoot - Repository root used as the search base
+ * @param logger - Logger used for diagnostics
+ * @returns The config's rules, or undefined when the repository has none
+ */
+export async function findCommitLintConfig(
+    workspaceRoot: string,
+    logger: Logger,
+): Promise<CommitLintConfigSource | undefined> {
+    for (const [fileName, format] of CONFIG_FILES) {
+        const config = await readConfigFile(path.join(workspaceRoot, fileName), format);
+        if (config) {
+            logger.info(`Found commitlint config at ${fileName}`, {
+                rules: Object.keys(config.rules),
+            });
+            return config;
+        }
+    }
+
+    try {
+        const manifest = JSON.parse(
+            await readFile(path.join(workspaceRoot, 'package.json'), 'utf-8'),
+        ) as { commitlint?: unknown };
+        if (manifest.commitlint) {
+            logger.info('Found commitlint config in package.json');
+            return parseCommitLintConfigText(JSON.stringify(manifest.commitlint), 'json');
+        }
+    } catch {
+        // No package.json, or not valid JSON
+    }
+    return undefined;
+}
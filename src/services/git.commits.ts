@@ -0,0 +1,148 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SimpleGit } from 'simple-git';
+import { Logger } from '../infrastructure/logging/Logger';
+import { GitServiceError } from '../types/errors';
+
+/**
+ * HEAD and index state captured before rewriting history, used for undo
+ */
+export interface IndexSnapshot {
+    /** Commit HEAD pointed to, or undefined on an unborn branch */
+    head?: string;
+    /** Tree object written from the index (`git write-tree`) */
+    tree: string;
+}
+
+/**
+ * A commit to create from a patch applied to the index
+ */
+export interface PatchCommit {
+    message: string;
+    patch: string;
+}
+
+/**
+ * Outcome of {@link commitPatchesInSequence}
+ */
+export interface PatchCommitSequence {
+    snapshot: IndexSnapshot;
+    /** Hashes of the created commits, oldest first */
+    commits: string[];
+}
+
+async function resolveHead(git: SimpleGit): Promise<string | undefined> {
+    try {
+        return (await git.raw(['rev-parse', '--verify', 'HEAD'])).trim() || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+async function snapshotIndex(git: SimpleGit): Promise<IndexSnapshot> {
+    const head = await resolveHead(git);
+    const tree = (await git.raw(['write-tree'])).trim();
+    return { head, tree };
+}
+
+async function applyPatchToIndex(git: SimpleGit, patch: string): Promise<void> {
+    const patchFile = path.join(
+        os.tmpdir(),
+        `otak-committer-split-${process.pid}-${Date.now()}.patch`,
+    );
+    await fs.writeFile(patchFile, patch, 'utf8');
+    try {
+        await git.raw(['apply', '--cached', '--whitespace=nowarn', patchFile]);
+    } finally {
+        await fs.unlink(patchFile).catch(() => undefined);
+    }
+}
+
+/**
+ * Move HEAD and the index back to a snapshot; the working tree is untouched
+ *
+ * @param git - The simple-git client bound to the repository
+ * @param snapshot - State captured before the commits were created
+ */
+export async function restoreIndexSnapshot(git: SimpleGit, snapshot: IndexSnapshot): Promise<void> {
+    if (snapshot.head) {
+        await git.raw(['reset', '--soft', snapshot.head]);
+    } else {
+        await git.raw(['update-ref', '-d', 'HEAD']);
+    }
+    await git.raw(['read-tree', snapshot.tree]);
+}
+
+/**
+ * Replace the index with HEAD, then apply and commit each patch in order
+ *
+ * `remainingPatch` is applied after the last commit so changes that were
+ * staged but not committed stay staged. If any step fails, HEAD and the
+ * index are restored to the snapshot before the error is rethrown.
+ *
+ * @param git - The simple-git client bound to the repository
+ * @param commits - Messages and patches relative to the current index
+ * @param remainingPatch - Staged changes to restore after the commits
+ * @param logger - Logger used for diagnostics
+ * @returns The snapshot to undo with and the created commit hashes
+ * @throws {GitServiceError} When a step fails; `context.rolledBack` tells whether the rollback succeeded
+ */
+export async function commitPatchesInSequence(
+    git: SimpleGit,
+    commits: PatchCommit[],
+    remainingPatch: string,
+    logger: Logger,
+): Promise<PatchCommitSequence> {
+    const snapshot = await snapshotIndex(git);
+    logger.debug(`Index snapshot: head=${snapshot.head ?? '(unborn)'}, tree=${snapshot.tree}`);
+    const created: string[] = [];
+
+    try {
+        await git.raw(snapshot.head ? ['read-tree', snapshot.head] : ['read-tree', '--empty']);
+        for (const [index, commit] of commits.entries()) {
+            logger.debug(`Creating commit ${index + 1}/${commits.length}`);
+            await applyPatchToIndex(git, commit.patch);
+            await git.commit(commit.message);
+            created.push((await git.raw(['rev-parse', 'HEAD'])).trim());
+        }
+        if (remainingPatch) {
+            await applyPatchToIndex(git, remainingPatch);
+        }
+        return { snapshot, commits: created };
+    } catch (error) {
+        logger.error(`Commit split failed after ${created.length} commit(s), rolling back`, error);
+        let rolledBack = true;
+        try {
+            await restoreIndexSnapshot(git, snapshot);
+        } catch (rollbackError) {
+            rolledBack = false;
+            logger.error('Failed to roll back commit split', rollbackError);
+        }
+        throw new GitServiceError(error instanceof Error ? error.message : String(error), {
+            rolledBack,
+            createdCommits: created.length,
+            head: snapshot.head,
+            tree: snapshot.tree,
+        });
+    }
+}
+
+/**
+ * Undo a completed commit sequence if nothing has been committed since
+ *
+ * @param git - The simple-git client bound to the repository
+ * @param sequence - Result of {@link commitPatchesInSequence}
+ * @returns false when HEAD has moved past the last created commit
+ */
+export async function undoPatchCommitSequence(
+    git: SimpleGit,
+    sequence: PatchCommitSequence,
+): Promise<boolean> {
+    const lastCommit = sequence.commits[sequence.commits.length - 1];
+    if (lastCommit && (await resolveHead(git)) !== lastCommit) {
+        return false;
+    }
+    await restoreIndexSnapshot(git, sequence.snapshot);
+    return true;
+}
@@ -86,7 +86,6 @@ export function truncateDiffByTokenLimit(diff: string, logger: Logger): string {
 
     const estimatedKTokens = Math.floor(tokenCount / 1000);
     const thresholdKTokens = Math.floor(truncateThresholdTokens / 1000);
-    const truncatedLength = truncateThresholdTokens * TokenManager.CHARS_PER_TOKEN;
 
     logger.warning(
         `Diff size (${estimatedKTokens}K tokens) exceeds ${thresholdKTokens}K limit, truncating`,
@@ -95,5 +94,5 @@ export function truncateDiffByTokenLimit(diff: string, logger: Logger): string {
         t('git.diffTruncatedWarning', { estimatedKTokens, thresholdKTokens }),
     );
 
-    return diff.substring(0, truncatedLength);
+    return TokenManager.truncateInput(diff, truncateThresholdTokens);
 }
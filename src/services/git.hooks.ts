@@ -0,0 +1,128 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SimpleGit } from 'simple-git';
+
+/**
+ * First comment line of hooks written by otak-committer; identifies them on uninstall
+ */
+export const HOOK_MARKER = '# otak-committer prepare-commit-msg hook';
+
+const HOOK_NAME = 'prepare-commit-msg';
+
+/**
+ * Outcome of installing the hook
+ *
+ * `foreign` means another `prepare-commit-msg` hook exists and was left alone.
+ */
+export type HookInstallResult = 'installed' | 'updated' | 'foreign';
+
+/**
+ * Outcome of uninstalling the hook
+ */
+export type HookUninstallResult = 'removed' | 'notInstalled' | 'foreign';
+
+/**
+ * Options embedded in the generated hook script
+ */
+export interface HookScriptOptions {
+    /** Bundled CLI used when `otak-committer` is not on PATH */
+    cliPath: string;
+    appendTrailer: boolean;
+}
+
+function quoteForShell(value: string): string {
+    return `'${value.replace(/\\/g, '/').replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Build the `prepare-commit-msg` script
+ *
+ * The script prefers an `otak-committer` binary on PATH and falls back to the
+ * CLI bundled with the extension. It never fails the commit.
+ *
+ * @param options - CLI location and settings to pass on
+ * @returns The hook script
+ */
+export function buildPrepareCommitMsgHookScript({
+    cliPath,
+    appendTrailer,
+}: HookScriptOptions): string {
+    const flags = appendTrailer ? '--trailer' : '--no-trailer';
+    const bundled = quoteForShell(cliPath);
+    return [
+        '#!/bin/sh',
+        HOOK_MARKER,
+        '# Generates a message for `git commit` from the staged changes. Messages given with',
+        '# -m/-F, merges, squashes and amends are left alone. Remove with the',
+        '# "Uninstall Commit Message Hook" command.',
+        'if command -v otak-committer >/dev/null 2>&1; then',
+        `    otak-committer hook ${HOOK_NAME} "$@" ${flags}`,
+        `elif [ -f ${bundled} ] && command -v node >/dev/null 2>&1; then`,
+        `    node ${bundled} hook ${HOOK_NAME} "$@" ${flags}`,
+        'fi',
+        'exit 0',
+        '',
+    ].join('\n');
+}
+
+async function getHookPath(git: SimpleGit, rootPath: string): Promise<string> {
+    // Honors core.hooksPath and linked worktrees
+    const hooksDir = (await git.revparse(['--git-path', 'hooks'])).trim();
+    return path.join(path.resolve(rootPath, hooksDir), HOOK_NAME);
+}
+
+async function readExistingHook(hookPath: string): Promise<string | undefined> {
+    try {
+        return await fs.readFile(hookPath, 'utf8');
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Write the hook, replacing an earlier otak-committer hook but never a foreign one
+ *
+ * @param git - Client bound to the repository
+ * @param rootPath - Repository root
+ * @param script - Script from {@link buildPrepareCommitMsgHookScript}
+ * @returns Whether the hook was installed, updated or blocked by another hook
+ */
+export async function installPrepareCommitMsgHook(
+    git: SimpleGit,
+    rootPath: string,
+    script: string,
+): Promise<HookInstallResult> {
+    const hookPath = await getHookPath(git, rootPath);
+    const existing = await readExistingHook(hookPath);
+    if (existing !== undefined && !existing.includes(HOOK_MARKER)) {
+        return 'foreign';
+    }
+
+    await fs.mkdir(path.dirname(hookPath), { recursive: true });
+    await fs.writeFile(hookPath, script, { encoding: 'utf8', mode: 0o755 });
+    await fs.chmod(hookPath, 0o755);
+    return existing === undefined ? 'installed' : 'updated';
+}
+
+/**
+ * Remove the hook if otak-committer wrote it
+ *
+ * @param git - Client bound to the repository
+ * @param rootPath - Repository root
+ * @returns Whether the hook was removed, absent, or belongs to something else
+ */
+export async function uninstallPrepareCommitMsgHook(
+    git: SimpleGit,
+    rootPath: string,
+): Promise<HookUninstallResult> {
+    const hookPath = await getHookPath(git, rootPath);
+    const existing = await readExistingHook(hookPath);
+    if (existing === undefined) {
+        return 'notInstalled';
+    }
+    if (!existing.includes(HOOK_MARKER)) {
+        return 'foreign';
+    }
+    await fs.unlink(hookPath);
+    return 'removed';
+}
@@ -0,0 +1,234 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import simpleGit, { SimpleGit } from 'simple-git';
+import { Logger } from '../infrastructure/logging/Logger';
+import { GitServiceError } from '../types/errors';
+import { formatRebaseTodo, RangeCommit, RebaseTodoGroup } from '../utils/rebaseTodo';
+
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+/**
+ * Commits between two refs together with their combined diff
+ */
+export interface CommitRange {
+    /** Commits reachable from the tip but not from the base, oldest first */
+    commits: RangeCommit[];
+    /** Changes of the tip since its merge base with the base */
+    diff: string;
+}
+
+function parseCommitLog(output: string): RangeCommit[] {
+    return output
+        .split(RECORD_SEPARATOR)
+        .map((record) => record.replace(/^\n/, ''))
+        .filter((record) => record.includes(FIELD_SEPARATOR))
+        .map((record) => {
+            const [hash, message] = record.split(FIELD_SEPARATOR);
+            return { hash: hash.trim(), message: message.trim() };
+        });
+}
+
+/**
+ * List the most recent commits of HEAD
+ *
+ * @param git - The simple-git client bound to the repository
+ * @param limit - Maximum number of commits
+ * @returns The commits, newest first
+ */
+export async function listRecentCommits(git: SimpleGit, limit: number): Promise<RangeCommit[]> {
+    const output = await git.raw([
+        'log',
+        `-${limit}`,
+        `--format=%H${FIELD_SEPARATOR}%B${RECORD_SEPARATOR}`,
+    ]);
+    return parseCommitLog(output);
+}
+
+/**
+ * Read the commits of `base..tip` and the diff of `base...tip`
+ *
+ * @param git - The simple-git client bound to the repository
+ * @param base - Ref whose commits are excluded
+ * @param tip - Ref whose commits are included
+ * @returns The commits and the combined diff
+ */
+export async function readCommitRange(
+    git: SimpleGit,
+    base: string,
+    tip: string,
+): Promise<CommitRange> {
+    const [log, diff] = await Promise.all([
+        git.raw([
+            'log',
+            '--reverse',
+            `--format=%H${FIELD_SEPARATOR}%B${RECORD_SEPARATOR}`,
+            `${base}..${tip}`,
+        ]),
+        git.diff([`${base}...${tip}`]),
+    ]);
+    return { commits: parseCommitLog(log), diff };
+}
+
+/**
+ * Commits of a release together with the date it was cut
+ */
+export interface ReleaseRange {
+    /** Non-merge commits, newest first */
+    commits: RangeCommit[];
+    /** Merge commits, newest first */
+    merges: RangeCommit[];
+    /** Committer date of the last commit as `YYYY-MM-DD` */
+    date: string;
+}
+
+/**
+ * List the repository's tags, most recently created first
+ *
+ * @param git - The simple-git client bound to the repository
+ * @returns Tag names
+ */
+export async function listTags(git: SimpleGit): Promise<string[]> {
+    const output = await git.raw(['tag', '--list', '--sort=-creatordate']);
+    return output
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean);
+}
+
+/**
+ * List the tags reachable from HEAD, highest version first
+ *
+ * @param git - The simple-git client bound to the repository
+ * @returns Tag names
+ */
+export async function listReachableTagsByVersion(git: SimpleGit): Promise<string[]> {
+    const output = await git.raw(['tag', '--list', '--merged', 'HEAD', '--sort=-v:refname']);
+    return output
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Read the commits of `from..to`, or all of `to`'s history without `from`
+ *
+ * @param git - The simple-git client bound to the repository
+ * @param from - Ref the previous release ended at
+ * @param to - Ref the release ends at
+ * @returns The regular and merge commits and the release date
+ */
+export async function readReleaseRange(
+    git: SimpleGit,
+    from: string | undefined,
+    to: string,
+): Promise<ReleaseRange> {
+    const range = from ? `${from}..${to}` : to;
+    const format = `--format=%H${FIELD_SEPARATOR}%B${RECORD_SEPARATOR}`;
+    const [commits, merges, date] = await Promise.all([
+        git.raw(['log', '--no-merges', format, range]),
+        git.raw(['log', '--merges', format, range]),
+        git.raw(['log', '-1', '--format=%cs', to]),
+    ]);
+    return {
+        commits: parseCommitLog(commits),
+        merges: parseCommitLog(merges),
+        date: date.trim(),
+    };
+}
+
+/**
+ * Read the changes a single commit introduced
+ *
+ * @param git - The simple-git client bound to the repository
+ * @param hash - The commit
+ * @returns The commit's patch against its first parent
+ */
+export async function readCommitDiff(git: SimpleGit, hash: string): Promise<string> {
+    return git.raw(['show', '--format=', '--patch', hash]);
+}
+
+/**
+ * Whether `base..HEAD` contains merge commits, which a rebase would flatten
+ *
+ * @param git - The simple-git client bound to the repository
+ * @param base - Ref whose commits are excluded
+ */
+export async function rangeHasMerges(git: SimpleGit, base: string): Promise<boolean> {
+    const merges = await git.raw(['rev-list', '--merges', `${base}..HEAD`]);
+    return merges.trim() !== '';
+}
+
+async function isRebaseInProgress(git: SimpleGit, rootPath: string): Promise<boolean> {
+    const rebaseDir = (await git.raw(['rev-parse', '--git-path', 'rebase-merge'])).trim();
+    return fs.stat(path.resolve(rootPath, rebaseDir)).then(
+        () => true,
+        () => false,
+    );
+}
+
+/**
+ * Rebase `base..HEAD` in place following a planned todo list
+ *
+ * The todo list replaces the one git writes, so the rebase runs without an
+ * editor. Local changes are stashed around the rebase; if it stops on a
+ * conflict it is aborted, leaving the branch as it was.
+ *
+ * @param rootPath - Repository root
+ * @param base - Commit the range starts after
+ * @param groups - Planned todo list
+ * @param messages - New message per reworded commit hash
+ * @param logger - Logger used for diagnostics
+ * @throws {GitServiceError} When the rebase fails; `context.aborted` tells whether it was rolled back
+ */
+export async function rebaseWithTodo(
+    rootPath: string,
+    base: string,
+    groups: RebaseTodoGroup[],
+    messages: Map<string, string>,
+    logger: Logger,
+): Promise<void> {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'otak-committer-rebase-'));
+    // The sequence editor is our own copy command, never user input
+    const git = simpleGit(rootPath, { unsafe: { allowUnsafeEditor: true } });
+    try {
+        const messageFiles = new Map<string, string>();
+        for (const [hash, message] of messages) {
+            const file = path.join(directory, `${hash}.txt`);
+            await fs.writeFile(file, `${message}\n`, 'utf8');
+            messageFiles.set(hash, file);
+        }
+        const todoFile = path.join(directory, 'git-rebase-todo');
+        await fs.writeFile(todoFile, formatRebaseTodo(groups, messageFiles), 'utf8');
+
+        const editor = `cp '${todoFile.replace(/\\/g, '/')}'`;
+        // Rebasing onto the fork point keeps the range where it is even when `base` has moved on
+        const upstream = (await git.raw(['merge-base', base, 'HEAD'])).trim();
+        logger.debug(`Rebasing onto ${upstream} with ${groups.length} pick(s)`);
+        await git.raw([
+            '-c',
+            `sequence.editor=${editor}`,
+            // `squash` lines keep the messages as git combines them instead of asking
+            '-c',
+            'core.editor=true',
+            'rebase',
+            '--interactive',
+            '--autostash',
+            upstream,
+        ]);
+    } catch (error) {
+        logger.error('Rebase failed, aborting', error);
+        const aborted =
+            !(await isRebaseInProgress(git, rootPath)) ||
+            (await git.raw(['rebase', '--abort']).then(
+                () => true,
+                () => false,
+            ));
+        throw new GitServiceError(error instanceof Error ? error.message : String(error), {
+            aborted,
+        });
+    } finally {
+        await fs.rm(directory, { recursive: true, force: true }).catch(() => undefined);
+    }
+}
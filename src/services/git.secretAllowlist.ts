@@ -0,0 +1,38 @@
+import * as path from 'path';
+import { readFile } from 'fs/promises';
+import { Logger } from '../infrastructure/logging/Logger';
+import { parseSecretAllowlist } from '../utils/secretAllowlist';
+
+/**
+ * Repository file listing fingerprints of values that are not secrets
+ */
+export const SECRET_ALLOWLIST_FILE = '.otakcommitter-secrets-allow';
+
+/**
+ * Read the repository's allowlist of known false positives
+ *
+ * A missing file means an empty allowlist. Lines that are not fingerprints
+ * are logged and ignored.
+ *
+ * @param workspaceRoot - Repository root used as the search base
+ * @param logger - Logger used for diagnostics
+ * @returns The allowed fingerprints, e.g. `sha256:9f86d0...`
+ */
+export async function findSecretAllowlist(
+    workspaceRoot: string,
+    logger: Logger,
+): Promise<Set<string>> {
+    let text: string;
+    try {
+        text = await readFile(path.join(workspaceRoot, SECRET_ALLOWLIST_FILE), 'utf-8');
+    } catch {
+        return new Set();
+    }
+
+    const { fingerprints, warnings } = parseSecretAllowlist(text, SECRET_ALLOWLIST_FILE);
+    warnings.forEach((warning) => logger.warning(warning));
+    if (fingerprints.size > 0) {
+        logger.info(`Found ${fingerprints.size} allowed secret fingerprints`);
+    }
+    return fingerprints;
+}
@@ -8,6 +8,43 @@ import { ErrorHandler } from '../infrastructure/error';
 import { isWindowsReservedName } from '../utils/diffUtils';
 import { collectDiff, truncateDiffByTokenLimit } from './git.diff';
 import { findTemplates } from './git.templates';
+import { findCommitLintConfig } from './git.commitlint';
+import { findClassificationRules } from './git.classification';
+import { findSecretAllowlist } from './git.secretAllowlist';
+import type { CommitLintConfigSource } from '../utils/commitLint.rules';
+import type { FileClassificationRule } from '../constants/diffClassification';
+import {
+    commitPatchesInSequence,
+    PatchCommit,
+    PatchCommitSequence,
+    undoPatchCommitSequence,
+} from './git.commits';
+import {
+    AmendTarget,
+    amendHeadCommit,
+    listRemoteBranchesContaining,
+    readAmendTarget,
+} from './git.amend';
+import {
+    CommitRange,
+    listReachableTagsByVersion,
+    listRecentCommits,
+    listTags,
+    rangeHasMerges,
+    readCommitDiff,
+    readCommitRange,
+    readReleaseRange,
+    rebaseWithTodo,
+    ReleaseRange,
+} from './git.range';
+import { writeChangelogSection } from './git.changelog';
+import type { RangeCommit, RebaseTodoGroup } from '../utils/rebaseTodo';
+import {
+    HookInstallResult,
+    HookUninstallResult,
+    installPrepareCommitMsgHook,
+    uninstallPrepareCommitMsgHook,
+} from './git.hooks';
 import { t } from '../i18n';
 import {
     buildIndexLockErrorMessage,
@@ -99,6 +136,212 @@ export class GitService extends BaseService {
         return this.collectDiff(globalState);
     }
 
+    /**
+     * Get the staged changes as a patch that `git apply` can replay, binary files included
+     */
+    async getStagedPatch(): Promise<string> {
+        try {
+            await this.getRepositoryContext();
+            return await this.git.diff(['--cached', '--binary']);
+        } catch (error) {
+            this.logger.error('Failed to get staged patch', error);
+            this.handleErrorAndRethrow(error);
+        }
+    }
+
+    /**
+     * Remove files from the index, keeping their changes in the working tree
+     *
+     * @param filePaths - Paths relative to the repository root
+     */
+    async unstageFiles(filePaths: string[]): Promise<void> {
+        try {
+            await this.getRepositoryContext();
+            await this.git.raw(['reset', '-q', '--', ...filePaths]);
+        } catch (error) {
+            this.logger.error('Failed to unstage files', error);
+            this.handleErrorAndRethrow(error);
+        }
+    }
+
+    async getRootPath(): Promise<string> {
+        const repositoryContext = await this.getRepositoryContext();
+        return repositoryContext.rootPath;
+    }
+
+    /**
+     * Create one commit per patch, leaving `remainingPatch` staged afterwards
+     *
+     * HEAD and the index are rolled back if any commit fails.
+     */
+    async commitPatches(
+        commits: PatchCommit[],
+        remainingPatch: string,
+    ): Promise<PatchCommitSequence> {
+        await this.getRepositoryContext();
+        return commitPatchesInSequence(this.git, commits, remainingPatch, this.logger);
+    }
+
+    /**
+     * Undo commits created by {@link commitPatches}, restoring the staged changes
+     *
+     * @returns false when new commits were made on top and nothing was undone
+     */
+    async undoCommitPatches(sequence: PatchCommitSequence): Promise<boolean> {
+        await this.getRepositoryContext();
+        return undoPatchCommitSequence(this.git, sequence);
+    }
+
+    /**
+     * Read the last commit and the diff amending it would produce
+     *
+     * @returns The amend target, or undefined when there is no commit yet
+     */
+    async getAmendTarget(): Promise<AmendTarget | undefined> {
+        try {
+            await this.getRepositoryContext();
+            return await readAmendTarget(this.git);
+        } catch (error) {
+            this.logger.error('Failed to read the last commit', error);
+            this.handleErrorAndRethrow(error);
+        }
+    }
+
+    /**
+     * Amend HEAD with a new message and the staged changes
+     *
+     * Fails without changing anything if HEAD is no longer `expectedHead`.
+     */
+    async amendHead(expectedHead: string, message: string): Promise<string> {
+        await this.getRepositoryContext();
+        return amendHeadCommit(this.git, expectedHead, message);
+    }
+
+    /**
+     * Local branch names; with {@link getCurrentBranch} this makes the service a `BranchManager`
+     */
+    async getBranches(): Promise<string[]> {
+        await this.getRepositoryContext();
+        return (await this.git.branchLocal()).all;
+    }
+
+    async getCurrentBranch(): Promise<string | undefined> {
+        await this.getRepositoryContext();
+        return (await this.git.branchLocal()).current || undefined;
+    }
+
+    /**
+     * The most recent commits of HEAD, newest first
+     */
+    async getRecentCommits(limit: number): Promise<RangeCommit[]> {
+        await this.getRepositoryContext();
+        return listRecentCommits(this.git, limit);
+    }
+
+    /**
+     * Commits of `base..tip`, oldest first, and the diff of `base...tip`
+     */
+    async getCommitRange(base: string, tip: string): Promise<CommitRange> {
+        await this.getRepositoryContext();
+        return readCommitRange(this.git, base, tip);
+    }
+
+    async getCommitDiff(hash: string): Promise<string> {
+        await this.getRepositoryContext();
+        return readCommitDiff(this.git, hash);
+    }
+
+    async getRemoteBranchesContaining(commit: string): Promise<string[]> {
+        await this.getRepositoryContext();
+        return listRemoteBranchesContaining(this.git, commit);
+    }
+
+    async rangeHasMerges(base: string): Promise<boolean> {
+        await this.getRepositoryContext();
+        return rangeHasMerges(this.git, base);
+    }
+
+    /**
+     * Rewrite `base..HEAD` by rebasing it with a planned todo list
+     *
+     * The rebase is aborted if it stops on a conflict.
+     */
+    async rewriteCommitRange(
+        base: string,
+        groups: RebaseTodoGroup[],
+        messages: Map<string, string>,
+    ): Promise<void> {
+        const repositoryContext = await this.getRepositoryContext();
+        return rebaseWithTodo(repositoryContext.rootPath, base, groups, messages, this.logger);
+    }
+
+    async getTags(): Promise<string[]> {
+        await this.getRepositoryContext();
+        return listTags(this.git);
+    }
+
+    /**
+     * Tags reachable from HEAD, highest version first
+     */
+    async getReachableTags(): Promise<string[]> {
+        await this.getRepositoryContext();
+        return listReachableTagsByVersion(this.git);
+    }
+
+    /**
+     * Create an annotated tag on HEAD; the tag is not pushed
+     */
+    async createAnnotatedTag(name: string, message: string): Promise<void> {
+        await this.getRepositoryContext();
+        await this.git.addAnnotatedTag(name, message);
+    }
+
+    /**
+     * Commits of `from..to`, newest first; all of `to`'s history when `from` is undefined
+     */
+    async getReleaseRange(from: string | undefined, to: string): Promise<ReleaseRange> {
+        await this.getRepositoryContext();
+        return readReleaseRange(this.git, from, to);
+    }
+
+    /**
+     * Add a release section to the changelog at the repository root
+     *
+     * @returns Path of the changelog file
+     */
+    async addChangelogSection(section: string): Promise<string> {
+        const repositoryContext = await this.getRepositoryContext();
+        return writeChangelogSection(repositoryContext.rootPath, section);
+    }
+
+    /**
+     * Install the `prepare-commit-msg` hook unless another one is already in place
+     *
+     * @param script - Hook script to write
+     */
+    async installCommitMessageHook(script: string): Promise<HookInstallResult> {
+        try {
+            const repositoryContext = await this.getRepositoryContext();
+            return await installPrepareCommitMsgHook(this.git, repositoryContext.rootPath, script);
+        } catch (error) {
+            this.logger.error('Failed to install prepare-commit-msg hook', error);
+            this.handleErrorAndRethrow(error);
+        }
+    }
+
+    /**
+     * Remove the `prepare-commit-msg` hook if otak-committer installed it
+     */
+    async uninstallCommitMessageHook(): Promise<HookUninstallResult> {
+        try {
+            const repositoryContext = await this.getRepositoryContext();
+            return await uninstallPrepareCommitMsgHook(this.git, repositoryContext.rootPath);
+        } catch (error) {
+            this.logger.error('Failed to uninstall prepare-commit-msg hook', error);
+            this.handleErrorAndRethrow(error);
+        }
+    }
+
     async getTrackedFiles(): Promise<string[]> {
         try {
             const repositoryContext = await this.getRepositoryContext();
@@ -143,6 +386,21 @@ export class GitService extends BaseService {
         return findTemplates(repositoryContext.rootPath, this.logger);
     }
 
+    async findCommitLintConfig(): Promise<CommitLintConfigSource | undefined> {
+        const repositoryContext = await this.getRepositoryContext();
+        return findCommitLintConfig(repositoryContext.rootPath, this.logger);
+    }
+
+    async findClassificationRules(): Promise<FileClassificationRule[]> {
+        const repositoryContext = await this.getRepositoryContext();
+        return findClassificationRules(repositoryContext.rootPath, this.logger);
+    }
+
+    async findSecretAllowlist(): Promise<Set<string>> {
+        const repositoryContext = await this.getRepositoryContext();
+        return findSecretAllowlist(repositoryContext.rootPath, this.logger);
+    }
+
     async ensureRepositoryInitialized(): Promise<void> {
         try {
             this.logger.debug('Checking if directory is a git repository');
@@ -1,4 +1,6 @@
 import { GitHubAPI, GitHubServiceError, GitHubDiffFile, PullRequestDiff } from '../types';
+import type { FileClassificationRule } from '../constants/diffClassification';
+import { classifyPullRequestFiles } from '../utils/diff.classification';
 import { Logger } from '../infrastructure/logging/Logger';
 import { TokenManager } from './tokenManager';
 
@@ -51,7 +53,8 @@ export function isNoCommitsBetweenBranchesError(error: unknown): boolean {
  * @param base - The base branch to compare against
  * @param compare - The compare branch whose changes are inspected
  * @param logger - The logger used to record progress
- * @returns The list of changed files and aggregate statistics
+ * @param rules - File priorities defined by the repository
+ * @returns The list of changed files, most important first, and aggregate statistics
  */
 export async function getBranchDiffDetails(
     octokit: GitHubAPI,
@@ -60,6 +63,7 @@ export async function getBranchDiffDetails(
     base: string,
     compare: string,
     logger: Logger,
+    rules: readonly FileClassificationRule[] = [],
 ): Promise<PullRequestDiff> {
     logger.info(`Getting diff between ${base} and ${compare}`);
 
@@ -76,12 +80,15 @@ export async function getBranchDiffDetails(
     }
 
     let totalTokens = 0;
-    const files: GitHubDiffFile[] = response.data.files.map((file) => ({
-        filename: file.filename,
-        additions: file.additions,
-        deletions: file.deletions,
-        patch: file.patch || '',
-    }));
+    const files: GitHubDiffFile[] = classifyPullRequestFiles(
+        response.data.files.map((file) => ({
+            filename: file.filename,
+            additions: file.additions,
+            deletions: file.deletions,
+            patch: file.patch || '',
+        })),
+        rules,
+    );
 
     logger.info(`Retrieved diff for ${files.length} files`);
     const maxTokensLimit = TokenManager.getConfiguredMaxTokens();
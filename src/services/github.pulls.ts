@@ -58,3 +58,38 @@ export async function createPullRequest(
         draft: params.draft || false,
     };
 }
+
+/**
+ * Look up the titles of pull requests
+ *
+ * Pull requests that cannot be read, for example because they belong to a
+ * fork that is gone, are left out rather than failing the whole lookup.
+ *
+ * @param octokit - The GitHub API client
+ * @param owner - The repository owner
+ * @param repo - The repository name
+ * @param numbers - Pull request numbers
+ * @param logger - The logger used to record progress
+ * @returns Title by pull request number
+ */
+export async function getPullRequestTitles(
+    octokit: GitHubAPI,
+    owner: string,
+    repo: string,
+    numbers: number[],
+    logger: Logger,
+): Promise<Map<number, string>> {
+    logger.info(`Fetching titles of ${numbers.length} pull request(s)`);
+    const titles = new Map<number, string>();
+    await Promise.all(
+        numbers.map(async (number) => {
+            try {
+                const response = await octokit.pulls.get({ owner, repo, pull_number: number });
+                titles.set(number, response.data.title);
+            } catch (error) {
+                logger.warning(`Failed to fetch pull request #${number}`, error);
+            }
+        }),
+    );
+    return titles;
+}
@@ -9,9 +9,10 @@ import {
 } from '../types';
 import { BranchManager, BranchSelector, BranchSelection } from './branch';
 import { ErrorHandler } from '../infrastructure/error';
+import type { FileClassificationRule } from '../constants/diffClassification';
 import { getBranchDiffDetails, isNoCommitsBetweenBranchesError } from './github.diff';
 import { createIssue, getIssue, getIssues } from './github.issues';
-import { createPullRequest } from './github.pulls';
+import { createPullRequest, getPullRequestTitles } from './github.pulls';
 import { getBranches } from './github.branches';
 import { initializeGitHubState } from './github.init';
 import { GitApiRepository } from './git.repository';
@@ -64,7 +65,11 @@ export class GitHubService extends BaseService implements BranchManager {
         return service ? BranchSelector.selectBranches(service) : undefined;
     }
 
-    async getBranchDiffDetails(base: string, compare: string): Promise<PullRequestDiff> {
+    async getBranchDiffDetails(
+        base: string,
+        compare: string,
+        rules: readonly FileClassificationRule[] = [],
+    ): Promise<PullRequestDiff> {
         await this.ensureInitialized();
         this.validateState(!!this.octokit, t('errors.githubClientNotInitialized'));
 
@@ -76,6 +81,7 @@ export class GitHubService extends BaseService implements BranchManager {
                 base,
                 compare,
                 this.logger,
+                rules,
             );
         } catch (error) {
             this.logger.error('Failed to get branch diff details', error);
@@ -100,7 +106,13 @@ export class GitHubService extends BaseService implements BranchManager {
         this.validateState(!!this.octokit, t('errors.githubClientNotInitialized'));
 
         try {
-            return await createPullRequest(this.octokit, this.owner, this.repo, params, this.logger);
+            return await createPullRequest(
+                this.octokit,
+                this.owner,
+                this.repo,
+                params,
+                this.logger,
+            );
         } catch (error: unknown) {
             if (isNoCommitsBetweenBranchesError(error)) {
                 throw new Error('No changes to create a pull request');
@@ -111,6 +123,13 @@ export class GitHubService extends BaseService implements BranchManager {
         }
     }
 
+    async getPullRequestTitles(numbers: number[]): Promise<Map<number, string>> {
+        await this.ensureInitialized();
+        this.validateState(!!this.octokit, t('errors.githubClientNotInitialized'));
+
+        return getPullRequestTitles(this.octokit, this.owner, this.repo, numbers, this.logger);
+    }
+
     async createIssue(params: IssueParams): Promise<{ number: number; html_url: string }> {
         await this.ensureInitialized();
         this.validateState(!!this.octokit, t('errors.githubClientNotInitialized'));
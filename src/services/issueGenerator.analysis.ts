@@ -1,5 +1,5 @@
+import { readFile, stat } from 'fs/promises';
 import * as path from 'path';
-import * as vscode from 'vscode';
 import { Logger } from '../infrastructure/logging/Logger';
 import { TokenManager } from './tokenManager';
 import { FileAnalysis } from './issueGenerator.types';
@@ -31,10 +31,10 @@ function getFileType(extension: string | undefined): string {
     return extension ? FILE_TYPE_MAP[extension] || 'Unknown' : 'Unknown';
 }
 
-async function isFileOversized(fileUri: vscode.Uri): Promise<boolean> {
+async function isFileOversized(file: string): Promise<boolean> {
     try {
-        const stat = await vscode.workspace.fs.stat(fileUri);
-        return typeof stat.size === 'number' && stat.size > MAX_FILE_BYTES;
+        const stats = await stat(file);
+        return stats.size > MAX_FILE_BYTES;
     } catch {
         return false;
     }
@@ -49,9 +49,7 @@ async function analyzeOneFile(
     logger: Logger,
 ): Promise<{ analysis: FileAnalysis; totalTokens: number }> {
     try {
-        const fileUri = vscode.Uri.file(file);
-
-        if (await isFileOversized(fileUri)) {
+        if (await isFileOversized(file)) {
             return {
                 analysis: {
                     path: displayPath,
@@ -62,8 +60,7 @@ async function analyzeOneFile(
             };
         }
 
-        const fileContent = await vscode.workspace.fs.readFile(fileUri);
-        let content = new TextDecoder().decode(fileContent);
+        let content = await readFile(file, 'utf8');
         if (content.length > MAX_FILE_PREVIEW_CHARS) {
             content = content.substring(0, MAX_FILE_PREVIEW_CHARS) + '\n... (content truncated)';
         }
@@ -96,25 +93,24 @@ async function analyzeOneFile(
  * @param files - Absolute paths of files to analyze
  * @param maxTokensLimit - Maximum total tokens allowed across all analyzed file contents
  * @param logger - Logger used for diagnostics and warnings
+ * @param rootPath - Directory that reported paths are made relative to
  * @returns Per-file analysis records describing the content and detected type
  */
 export async function analyzeFiles(
     files: string[],
     maxTokensLimit: number,
     logger: Logger,
+    rootPath?: string,
 ): Promise<FileAnalysis[]> {
     logger.info(`Analyzing ${files.length} files`);
 
     const analyses: FileAnalysis[] = [];
     let totalTokens = 0;
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
 
     for (const file of files) {
         const extension = file.split('.').pop()?.toLowerCase();
         const type = getFileType(extension);
-        const displayPath = workspaceRoot
-            ? path.relative(workspaceRoot, file).replace(/\\/g, '/')
-            : file;
+        const displayPath = rootPath ? path.relative(rootPath, file).replace(/\\/g, '/') : file;
 
         if (totalTokens >= maxTokensLimit) {
             analyses.push({
@@ -140,40 +136,3 @@ export async function analyzeFiles(
     logger.info(`File analysis complete: ${analyses.length} files analyzed, ${totalTokens} tokens`);
     return analyses;
 }
-
-/**
- * Format a collection of file analyses into a Markdown report grouped by file type
- *
- * @param analyses - File analysis records to format
- * @returns A Markdown string suitable for inclusion in a generated issue body
- */
-export function formatAnalysisResult(analyses: FileAnalysis[]): string {
-    const parts: string[] = ['# Repository Analysis', ''];
-    const groupedByType = analyses.reduce(
-        (groups: Record<string, FileAnalysis[]>, analysis) => {
-            const type = analysis.type || 'Unknown';
-            if (!groups[type]) {
-                groups[type] = [];
-            }
-            groups[type].push(analysis);
-            return groups;
-        },
-        {},
-    );
-
-    for (const [type, files] of Object.entries(groupedByType)) {
-        parts.push(`## ${type} Files`, '');
-        for (const file of files) {
-            parts.push(`### ${file.path}`, '');
-            if (file.error) {
-                parts.push(`Error: ${file.error}`, '');
-            } else if (file.content) {
-                parts.push('```' + (type.toLowerCase().includes('typescript') ? 'typescript' : ''));
-                parts.push(file.content);
-                parts.push('```', '');
-            }
-        }
-    }
-
-    return parts.join('\n');
-}
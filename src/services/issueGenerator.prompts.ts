@@ -1,6 +1,7 @@
 import { Logger } from '../infrastructure/logging/Logger';
 import { IssueType } from '../types/interfaces/Issue';
-import { OpenAIService } from './openai';
+import type { OpenAIService } from './openai';
+import { FileAnalysis } from './issueGenerator.types';
 
 const MAX_TITLE_TOKENS = 50;
 
@@ -43,7 +44,7 @@ export function getAvailableIssueTypes(useEmoji: boolean): IssueType[] {
 /**
  * Generate a concise issue title using the AI model, falling back to a truncated description on failure
  *
- * @param openai - OpenAI service used to request the title
+ * @param openai - Service used to request the title
  * @param type - Issue type label included in the prompt context
  * @param description - User-provided description summarizing the issue
  * @param language - Natural language to write the title in
@@ -51,7 +52,7 @@ export function getAvailableIssueTypes(useEmoji: boolean): IssueType[] {
  * @returns The generated title or a truncated fallback
  */
 export async function generateTitle(
-    openai: OpenAIService,
+    openai: Pick<OpenAIService, 'createChatCompletion'>,
     type: string,
     description: string,
     language: string,
@@ -63,6 +64,7 @@ export async function generateTitle(
         const title = await openai.createChatCompletion({
             prompt: `Create a concise title (maximum ${MAX_TITLE_TOKENS} characters) in ${language} for this ${type} based on the following description:\n\n${description}\n\nRequirements:\n- Must be in ${language}\n- Maximum ${MAX_TITLE_TOKENS} characters\n- Clear and descriptive\n- No technical jargon unless necessary`,
             maxTokens: MAX_TITLE_TOKENS,
+            operation: 'issue',
         });
 
         logger.info('Title generated successfully');
@@ -95,3 +97,37 @@ export function buildIssueBodyPrompt(
 
     return `Generate a GitHub issue in recommended format for the following analysis and description. Include appropriate sections like Background, Problem Statement, Expected Behavior, Steps to Reproduce (if applicable), and Additional Context. Keep the technical details but organize them well.\n\n${emojiInstruction}${customInstruction}\n\nRepository Analysis:\n${analysisResult}\n\nUser Description: ${description}`;
 }
+
+/**
+ * Format a collection of file analyses into a Markdown report grouped by file type
+ *
+ * @param analyses - File analysis records to format
+ * @returns A Markdown string suitable for inclusion in a generated issue body
+ */
+export function formatAnalysisResult(analyses: FileAnalysis[]): string {
+    const parts: string[] = ['# Repository Analysis', ''];
+    const groupedByType = analyses.reduce((groups: Record<string, FileAnalysis[]>, analysis) => {
+        const type = analysis.type || 'Unknown';
+        if (!groups[type]) {
+            groups[type] = [];
+        }
+        groups[type].push(analysis);
+        return groups;
+    }, {});
+
+    for (const [type, files] of Object.entries(groupedByType)) {
+        parts.push(`## ${type} Files`, '');
+        for (const file of files) {
+            parts.push(`### ${file.path}`, '');
+            if (file.error) {
+                parts.push(`Error: ${file.error}`, '');
+            } else if (file.content) {
+                parts.push('```' + (type.toLowerCase().includes('typescript') ? 'typescript' : ''));
+                parts.push(file.content);
+                parts.push('```', '');
+            }
+        }
+    }
+
+    return parts.join('\n');
+}
@@ -8,10 +8,11 @@ import { GitHubService } from './github';
 import { TokenManager } from './tokenManager';
 import { detectPotentialSecrets } from '../utils';
 import { t } from '../i18n/index.js';
-import { analyzeFiles, formatAnalysisResult } from './issueGenerator.analysis';
+import { analyzeFiles } from './issueGenerator.analysis';
 import { confirmProceedWithPotentialSecrets } from './secretConfirmation';
 import {
     buildIssueBodyPrompt,
+    formatAnalysisResult,
     generateTitle,
     getAvailableIssueTypes,
 } from './issueGenerator.prompts';
@@ -38,23 +39,40 @@ export class IssueGeneratorService extends BaseService {
     }
 
     private getMaxTokensLimit(): number {
-        return TokenManager.getConfiguredMaxTokens();
+        return TokenManager.getConfiguredMaxTokens(this.openai.getModel('issue'));
     }
 
-    async generatePreview(params: IssueGenerationParams): Promise<GeneratedIssueContent> {
+    /**
+     * Generate the issue title and body
+     *
+     * @param params - Issue type, description and files to analyze
+     * @param onBodyText - Receives the body text as it streams in
+     * @returns The generated title and body
+     */
+    async generatePreview(
+        params: IssueGenerationParams,
+        onBodyText?: (body: string) => void,
+    ): Promise<GeneratedIssueContent> {
         try {
             this.logger.info('Generating issue preview');
 
             const fileAnalyses =
                 params.files && params.files.length > 0
-                    ? await analyzeFiles(params.files, this.getMaxTokensLimit(), this.logger)
+                    ? await analyzeFiles(
+                          params.files,
+                          this.getMaxTokensLimit(),
+                          this.logger,
+                          vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+                      )
                     : [];
 
             if (fileAnalyses.length > 0) {
                 const combinedContent = fileAnalyses.map((a) => a.content || '').join('');
 
                 // Confirm before sending file content that may contain secrets to an external model.
-                const detection = detectPotentialSecrets(combinedContent);
+                const detection = detectPotentialSecrets(combinedContent, undefined, {
+                    allowlist: await this.git.findSecretAllowlist(),
+                });
                 if (
                     !(await confirmProceedWithPotentialSecrets(
                         detection,
@@ -83,15 +101,19 @@ export class IssueGeneratorService extends BaseService {
                 '';
 
             const [body, title] = await Promise.all([
-                this.openai.createChatCompletion({
-                    prompt: buildIssueBodyPrompt(
-                        analysisResult,
-                        params.description,
-                        useEmoji,
-                        customMessage,
-                    ),
-                    maxTokens: 1000,
-                }),
+                this.openai.createChatCompletion(
+                    {
+                        prompt: buildIssueBodyPrompt(
+                            analysisResult,
+                            params.description,
+                            useEmoji,
+                            customMessage,
+                        ),
+                        maxTokens: 1000,
+                        operation: 'issue',
+                    },
+                    onBodyText,
+                ),
                 generateTitle(
                     this.openai,
                     params.type.type,
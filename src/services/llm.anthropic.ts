@@ -0,0 +1,256 @@
+import { LLMProviderError } from '../types/errors';
+import { classifyApiKeyError, type ValidateApiKeyResult } from './openaiValidation';
+import { readServerSentEvents } from './llm.sse';
+import type {
+    LLMProvider,
+    LLMStructuredRequest,
+    LLMTextRequest,
+    LLMUsage,
+    ProviderReasoningEffort,
+} from './llm.types';
+
+/** Default Anthropic API endpoint */
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+
+/** Anthropic API version header value */
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/** Request timeout for Anthropic API calls (2 minutes, same as OpenAI) */
+const REQUEST_TIMEOUT_MS = 120000;
+
+/** Output token cap for structured requests, which have no caller-provided limit */
+const STRUCTURED_MAX_TOKENS = 8192;
+
+/** Extended-thinking budget per reasoning effort level */
+const THINKING_BUDGET: Record<Exclude<ProviderReasoningEffort, undefined>, number> = {
+    low: 1024,
+    medium: 4096,
+    high: 8192,
+};
+
+interface AnthropicContentBlock {
+    type: string;
+    text?: string;
+    name?: string;
+    input?: unknown;
+}
+
+interface AnthropicUsage {
+    input_tokens?: number;
+    output_tokens?: number;
+}
+
+interface AnthropicMessageResponse {
+    content?: AnthropicContentBlock[];
+    usage?: AnthropicUsage;
+}
+
+interface AnthropicStreamEvent {
+    delta?: { type?: string; text?: string; partial_json?: string };
+    error?: { message?: string };
+    /** Sent with `message_start`; carries the input tokens */
+    message?: { usage?: AnthropicUsage };
+    /** Sent with `message_delta`; output tokens so far */
+    usage?: AnthropicUsage;
+}
+
+/** Thinking tokens are billed as output tokens but not reported separately */
+function toUsage(usage: AnthropicUsage): LLMUsage {
+    return {
+        inputTokens: usage.input_tokens ?? 0,
+        outputTokens: usage.output_tokens ?? 0,
+        reasoningTokens: 0,
+    };
+}
+
+/** Delta type carrying the streamed text of each request kind */
+type StreamDeltaType = 'text_delta' | 'input_json_delta';
+
+/**
+ * LLM provider backed by the Anthropic Messages API
+ *
+ * Uses `fetch` directly so no additional SDK is bundled. Structured output is
+ * obtained by forcing a single tool call whose input schema is the requested
+ * JSON schema.
+ */
+export class AnthropicProvider implements LLMProvider {
+    readonly id = 'anthropic' as const;
+    readonly defaultModel: string;
+    private readonly baseUrl: string;
+
+    constructor(
+        private readonly apiKey: string,
+        defaultModel: string,
+        baseUrl?: string,
+    ) {
+        this.defaultModel = defaultModel;
+        this.baseUrl = (baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    }
+
+    async requestText(request: LLMTextRequest): Promise<string | undefined> {
+        const budget = request.reasoningEffort ? THINKING_BUDGET[request.reasoningEffort] : 0;
+        const body = {
+            model: request.model,
+            system: request.systemPrompt,
+            messages: [{ role: 'user', content: request.userPrompt }],
+            max_tokens: request.maxCompletionTokens + budget,
+            ...(budget > 0 ? { thinking: { type: 'enabled', budget_tokens: budget } } : {}),
+        };
+        if (request.onText) {
+            const text = await this.stream(body, 'text_delta', request.onText, request);
+            return text.trim() || undefined;
+        }
+        const response = await this.post<AnthropicMessageResponse>(
+            '/v1/messages',
+            body,
+            request.signal,
+        );
+        if (response.usage) {
+            request.onUsage?.(toUsage(response.usage));
+        }
+
+        const text = (response.content ?? [])
+            .filter((block) => block.type === 'text' && typeof block.text === 'string')
+            .map((block) => block.text)
+            .join('')
+            .trim();
+        return text || undefined;
+    }
+
+    async requestStructured<T>(request: LLMStructuredRequest): Promise<T | undefined> {
+        // Forced tool use is incompatible with extended thinking, so reasoning is not requested.
+        const body = {
+            model: request.model,
+            system: request.systemPrompt,
+            messages: [{ role: 'user', content: request.userPrompt }],
+            max_tokens: STRUCTURED_MAX_TOKENS,
+            tools: [
+                {
+                    name: request.schemaName,
+                    description: `Return the ${request.schemaName} result`,
+                    input_schema: request.schema,
+                },
+            ],
+            tool_choice: { type: 'tool', name: request.schemaName },
+        };
+        if (request.onText) {
+            const json = await this.stream(body, 'input_json_delta', request.onText, request);
+            return json ? (JSON.parse(json) as T) : undefined;
+        }
+        const response = await this.post<AnthropicMessageResponse>(
+            '/v1/messages',
+            body,
+            request.signal,
+        );
+        if (response.usage) {
+            request.onUsage?.(toUsage(response.usage));
+        }
+
+        const toolUse = response.content?.find(
+            (block) => block.type === 'tool_use' && block.name === request.schemaName,
+        );
+        return toolUse?.input as T | undefined;
+    }
+
+    async validateApiKey(): Promise<ValidateApiKeyResult> {
+        try {
+            await this.send('/v1/models', { method: 'GET' });
+            return { ok: true };
+        } catch (error) {
+            return classifyApiKeyError(error, this.apiKey);
+        }
+    }
+
+    private async post<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+        const response = await this.send(
+            path,
+            { method: 'POST', body: JSON.stringify(body) },
+            signal,
+        );
+        return (await response.json()) as T;
+    }
+
+    /**
+     * Send a streaming Messages request and collect one kind of delta
+     *
+     * Text deltas make up the answer of a text request, JSON deltas the tool
+     * input of a structured one; thinking deltas are skipped. The usage is
+     * assembled from the `message_start` and `message_delta` events.
+     */
+    private async stream(
+        body: Record<string, unknown>,
+        deltaType: StreamDeltaType,
+        onText: (text: string) => void,
+        request: Pick<LLMTextRequest, 'signal' | 'onUsage'>,
+    ): Promise<string> {
+        const response = await this.send(
+            '/v1/messages',
+            { method: 'POST', body: JSON.stringify({ ...body, stream: true }) },
+            request.signal,
+        );
+        if (!response.body) {
+            return '';
+        }
+
+        let content = '';
+        const usage: AnthropicUsage = {};
+        for await (const { event, data } of readServerSentEvents(response.body)) {
+            if (event === 'message_start' || event === 'message_delta') {
+                const parsed = JSON.parse(data) as AnthropicStreamEvent;
+                Object.assign(usage, parsed.message?.usage, parsed.usage);
+                continue;
+            }
+            if (event !== 'content_block_delta' && event !== 'error') {
+                continue;
+            }
+            const parsed = JSON.parse(data) as AnthropicStreamEvent;
+            if (event === 'error') {
+                throw new LLMProviderError(
+                    parsed.error?.message || 'Anthropic stream failed',
+                    'Anthropic',
+                );
+            }
+            const piece =
+                deltaType === 'text_delta' ? parsed.delta?.text : parsed.delta?.partial_json;
+            if (parsed.delta?.type === deltaType && piece) {
+                content += piece;
+                onText(content);
+            }
+        }
+        if (usage.input_tokens !== undefined || usage.output_tokens !== undefined) {
+            request.onUsage?.(toUsage(usage));
+        }
+        return content;
+    }
+
+    private async send(
+        path: string,
+        init: { method: string; body?: string },
+        signal?: AbortSignal,
+    ): Promise<Response> {
+        const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+        const response = await fetch(`${this.baseUrl}${path}`, {
+            ...init,
+            headers: {
+                'x-api-key': this.apiKey,
+                'anthropic-version': ANTHROPIC_VERSION,
+                'content-type': 'application/json',
+            },
+            signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+        });
+
+        if (!response.ok) {
+            const errorBody = (await response.json().catch(() => ({}))) as {
+                error?: { message?: string };
+            };
+            throw new LLMProviderError(
+                errorBody.error?.message || `Anthropic API request failed (${response.status})`,
+                'Anthropic',
+                response.status,
+                Object.fromEntries(response.headers.entries()),
+            );
+        }
+
+        return response;
+    }
+}
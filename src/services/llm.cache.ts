@@ -0,0 +1,134 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import * as crypto from 'crypto';
+import type { LLMProviderId, LLMProviderSettings } from '../types';
+import { Logger } from '../infrastructure/logging/Logger';
+import type { ValidateApiKeyResult } from './openaiValidation';
+import type { LLMProvider, LLMStructuredRequest, LLMTextRequest } from './llm.types';
+import type { ResponseCache } from './responseCache';
+
+const bypassingCache = new AsyncLocalStorage<boolean>();
+
+/**
+ * Where requests are answered: the backend and the endpoint settings that
+ * select the server and API behind it
+ */
+export type ResponseCacheEndpoint = Pick<
+    LLMProviderSettings,
+    'provider' | 'baseUrl' | 'azureApiVersion'
+>;
+
+/**
+ * Run a task whose model requests skip cached responses
+ *
+ * Fresh responses still replace the cached ones, so the next regular run
+ * reuses them.
+ *
+ * @param task - The task, typically a command started with the "bypass cache" modifier
+ * @returns The task's result
+ */
+export function runWithoutResponseCache<T>(task: () => Promise<T>): Promise<T> {
+    return bypassingCache.run(true, task);
+}
+
+/**
+ * Hash everything in a request that determines the response
+ *
+ * The signal and the streaming and usage listeners are left out. The
+ * endpoint is part of the key, so switching between servers or Azure
+ * deployments with the same model name does not reuse their answers.
+ *
+ * @param endpoint - Backend, base URL (or Azure endpoint) and Azure API version
+ * @param request - The request
+ * @returns A hex SHA-256 digest
+ */
+export function createResponseCacheKey(
+    endpoint: ResponseCacheEndpoint,
+    request: LLMTextRequest | LLMStructuredRequest,
+): string {
+    const { signal: _signal, onText: _onText, onUsage: _onUsage, ...options } = request;
+    return crypto
+        .createHash('sha256')
+        .update(
+            JSON.stringify({
+                providerId: endpoint.provider,
+                baseUrl: endpoint.baseUrl?.trim() || undefined,
+                azureApiVersion: endpoint.azureApiVersion?.trim() || undefined,
+                ...options,
+            }),
+        )
+        .digest('hex');
+}
+
+/**
+ * LLM provider that answers repeated requests from a {@link ResponseCache}
+ *
+ * A cached response is passed to `onText` in one piece, so streaming
+ * callers show it as if it had arrived at once. Nothing is sent for it, so
+ * it costs no tokens and is not recorded as usage.
+ */
+export class CachingLLMProvider implements LLMProvider {
+    readonly id: LLMProviderId;
+    readonly defaultModel: string;
+
+    /**
+     * @param inner - Provider that sends the requests the cache cannot answer
+     * @param cache - Stored responses
+     * @param endpoint - Endpoint settings of `inner`, part of every cache key
+     */
+    constructor(
+        private readonly inner: LLMProvider,
+        private readonly cache: ResponseCache,
+        private readonly endpoint: ResponseCacheEndpoint,
+    ) {
+        this.id = inner.id;
+        this.defaultModel = inner.defaultModel;
+    }
+
+    async requestText(request: LLMTextRequest): Promise<string | undefined> {
+        const key = createResponseCacheKey(this.endpoint, request);
+        const cached = await this.getCached(key);
+        if (cached !== undefined) {
+            request.onText?.(cached);
+            return cached;
+        }
+        const text = await this.inner.requestText(request);
+        if (text) {
+            await this.cache.set(key, text);
+        }
+        return text;
+    }
+
+    async requestStructured<T>(request: LLMStructuredRequest): Promise<T | undefined> {
+        const key = createResponseCacheKey(this.endpoint, request);
+        const cached = await this.getCached(key);
+        if (cached !== undefined) {
+            try {
+                const parsed = JSON.parse(cached) as T;
+                request.onText?.(cached);
+                return parsed;
+            } catch {
+                // A damaged entry is a miss; the fresh response replaces it
+            }
+        }
+        const result = await this.inner.requestStructured<T>(request);
+        if (result !== undefined) {
+            await this.cache.set(key, JSON.stringify(result));
+        }
+        return result;
+    }
+
+    validateApiKey(): Promise<ValidateApiKeyResult> {
+        return this.inner.validateApiKey();
+    }
+
+    private async getCached(key: string): Promise<string | undefined> {
+        if (bypassingCache.getStore()) {
+            return undefined;
+        }
+        const cached = await this.cache.get(key);
+        if (cached !== undefined) {
+            Logger.getInstance().info(`Using cached ${this.id} response ${key.slice(0, 12)}`);
+        }
+        return cached;
+    }
+}
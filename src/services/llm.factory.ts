@@ -0,0 +1,160 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { DEFAULT_MODEL } from '../constants/modelCapabilities';
+import type { LLMProviderId, LLMProviderSettings } from '../types';
+import { AnthropicProvider } from './llm.anthropic';
+import { OpenAIChatProvider } from './llm.openai';
+import type { ReasoningEffort } from '../types/enums/ReasoningEffort';
+import type { LLMProvider, ProviderReasoningEffort } from './llm.types';
+
+/** Default model per provider, used when `otakCommitter.model` is empty */
+const DEFAULT_MODELS: Record<LLMProviderId, string> = {
+    openai: DEFAULT_MODEL,
+    azureOpenAI: DEFAULT_MODEL,
+    anthropic: 'claude-sonnet-4-5',
+    ollama: 'llama3.1',
+    openaiCompatible: DEFAULT_MODEL,
+};
+
+/** Display names for provider-specific UI text */
+const PROVIDER_LABELS: Record<LLMProviderId, string> = {
+    openai: 'OpenAI',
+    azureOpenAI: 'Azure OpenAI',
+    anthropic: 'Anthropic',
+    ollama: 'Ollama',
+    openaiCompatible: 'OpenAI-compatible',
+};
+
+/** Default Ollama endpoint exposing the OpenAI-compatible API */
+const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434/v1';
+
+/** Azure OpenAI API version supporting developer messages and reasoning effort */
+const DEFAULT_AZURE_API_VERSION = '2024-12-01-preview';
+
+/**
+ * The OpenAI SDK's own retries are off; `RetryingLLMProvider` retries every provider alike
+ */
+const SDK_MAX_RETRIES = 0;
+
+/**
+ * Placeholder key for local servers; the OpenAI SDK refuses to start without one
+ */
+const LOCAL_PLACEHOLDER_KEY = 'not-required';
+
+/**
+ * Get the model used for a provider when none is configured
+ *
+ * @param provider - The provider identifier
+ * @returns The default model (or Azure deployment) name
+ */
+export function getDefaultModel(provider: LLMProviderId): string {
+    return DEFAULT_MODELS[provider];
+}
+
+/**
+ * Get a human-readable name for a provider
+ *
+ * @param provider - The provider identifier
+ * @returns The provider's display name
+ */
+export function getProviderLabel(provider: LLMProviderId): string {
+    return PROVIDER_LABELS[provider];
+}
+
+/**
+ * Whether a provider cannot be used without an API key
+ *
+ * Ollama and generic OpenAI-compatible servers usually run locally without
+ * authentication, so a key is optional for them.
+ *
+ * @param provider - The provider identifier
+ * @returns true if an API key must be configured
+ */
+export function providerRequiresApiKey(provider: LLMProviderId): boolean {
+    return provider !== 'ollama' && provider !== 'openaiCompatible';
+}
+
+/**
+ * Decide the reasoning effort sent with a provider's requests
+ *
+ * Without a configured value, OpenAI, Azure OpenAI and Anthropic get `low`.
+ * Ollama and OpenAI-compatible servers get nothing: Ollama reads
+ * `reasoning_effort` as a request to think, and models without thinking
+ * support, such as the default `llama3.1`, reject it.
+ *
+ * @param provider - The provider identifier
+ * @param configured - `otakCommitter.reasoningEffort` if the user set it
+ * @returns The effort to send, or undefined to send none
+ */
+export function resolveReasoningEffort(
+    provider: LLMProviderId,
+    configured?: ReasoningEffort,
+): ProviderReasoningEffort {
+    const effort = configured ?? (providerRequiresApiKey(provider) ? 'low' : 'none');
+    return effort === 'none' ? undefined : effort;
+}
+
+/**
+ * Build the LLM provider described by the given settings
+ *
+ * @param settings - Provider identifier, credentials and endpoint settings
+ * @returns The provider instance
+ * @throws Error if a required endpoint or API key is missing
+ */
+export function createLLMProvider(settings: LLMProviderSettings): LLMProvider {
+    const provider = settings.provider;
+    const apiKey = settings.apiKey?.trim() || undefined;
+    const baseUrl = settings.baseUrl?.trim() || undefined;
+    const defaultModel = settings.model?.trim() || getDefaultModel(provider);
+
+    if (providerRequiresApiKey(provider) && !apiKey) {
+        throw new Error(`${getProviderLabel(provider)} API key is required`);
+    }
+
+    switch (provider) {
+        case 'anthropic':
+            return new AnthropicProvider(apiKey as string, defaultModel, baseUrl);
+        case 'azureOpenAI':
+            if (!baseUrl) {
+                throw new Error('Azure OpenAI endpoint (otakCommitter.baseUrl) is required');
+            }
+            return new OpenAIChatProvider({
+                id: provider,
+                client: new AzureOpenAI({
+                    apiKey,
+                    endpoint: baseUrl,
+                    apiVersion: settings.azureApiVersion?.trim() || DEFAULT_AZURE_API_VERSION,
+                    maxRetries: SDK_MAX_RETRIES,
+                }),
+                defaultModel,
+                apiKey,
+            });
+        case 'ollama':
+        case 'openaiCompatible':
+            if (provider === 'openaiCompatible' && !baseUrl) {
+                throw new Error('OpenAI-compatible endpoint (otakCommitter.baseUrl) is required');
+            }
+            return new OpenAIChatProvider({
+                id: provider,
+                client: new OpenAI({
+                    apiKey: apiKey ?? LOCAL_PLACEHOLDER_KEY,
+                    baseURL: baseUrl ?? DEFAULT_OLLAMA_BASE_URL,
+                    maxRetries: SDK_MAX_RETRIES,
+                }),
+                defaultModel,
+                apiKey,
+                systemRole: 'system',
+            });
+        case 'openai':
+        default:
+            return new OpenAIChatProvider({
+                id: 'openai',
+                client: new OpenAI({
+                    apiKey,
+                    maxRetries: SDK_MAX_RETRIES,
+                    ...(baseUrl ? { baseURL: baseUrl } : {}),
+                }),
+                defaultModel,
+                apiKey,
+            });
+    }
+}
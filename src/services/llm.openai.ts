@@ -0,0 +1,59 @@
+import OpenAI from 'openai';
+import type { LLMProviderId } from '../types';
+import { requestStructuredCompletion, requestTextCompletion } from './openai.completion';
+import { classifyApiKeyError, type ValidateApiKeyResult } from './openaiValidation';
+import type { LLMProvider, LLMStructuredRequest, LLMTextRequest } from './llm.types';
+
+/**
+ * Options for a provider that speaks the OpenAI chat completions protocol
+ */
+export interface OpenAIChatProviderOptions {
+    id: LLMProviderId;
+    client: OpenAI;
+    defaultModel: string;
+    /** API key used to redact validation failures */
+    apiKey?: string;
+    /** Role used for the system prompt (Ollama and most compatible servers expect 'system') */
+    systemRole?: 'developer' | 'system';
+}
+
+/**
+ * LLM provider for OpenAI, Azure OpenAI, Ollama and other OpenAI-compatible servers
+ *
+ * All of these accept the chat completions request shape, so they share the
+ * transport in `openai.completion.ts` and differ only in how the client is built.
+ */
+export class OpenAIChatProvider implements LLMProvider {
+    readonly id: LLMProviderId;
+    readonly defaultModel: string;
+
+    constructor(private readonly options: OpenAIChatProviderOptions) {
+        this.id = options.id;
+        this.defaultModel = options.defaultModel;
+    }
+
+    async requestText(request: LLMTextRequest): Promise<string | undefined> {
+        return requestTextCompletion({
+            ...request,
+            openai: this.options.client,
+            systemRole: this.options.systemRole,
+        });
+    }
+
+    async requestStructured<T>(request: LLMStructuredRequest): Promise<T | undefined> {
+        return requestStructuredCompletion<T>({
+            ...request,
+            openai: this.options.client,
+            systemRole: this.options.systemRole,
+        });
+    }
+
+    async validateApiKey(): Promise<ValidateApiKeyResult> {
+        try {
+            await this.options.client.models.list();
+            return { ok: true };
+        } catch (error) {
+            return classifyApiKeyError(error, this.options.apiKey ?? '');
+        }
+    }
+}
@@ -0,0 +1,243 @@
+import type { LLMProviderId } from '../types';
+import { isAuthenticationError, isUserAbortError } from '../utils/errorGuards';
+import type { ValidateApiKeyResult } from './openaiValidation';
+import type { LLMProvider, LLMStructuredRequest, LLMTextRequest } from './llm.types';
+
+/**
+ * How often and how long to wait before repeating a failed model request
+ */
+export interface RetryPolicy {
+    /** Retries after the first attempt */
+    maxRetries: number;
+    /** Delay before the first retry; doubled for every further retry */
+    initialDelayMs: number;
+    /** Longest single wait; a longer `Retry-After` fails the request instead */
+    maxDelayMs: number;
+}
+
+/**
+ * Retry policy shared by every model request
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 3,
+    initialDelayMs: 1000,
+    maxDelayMs: 60000,
+};
+
+/**
+ * A retry about to be made, passed to {@link RetryOptions.onRetry}
+ */
+export interface RetryAttempt {
+    /** Number of the retry, starting at 1 */
+    attempt: number;
+    maxRetries: number;
+    /** Wait before the retry is sent */
+    delayMs: number;
+    /** HTTP status of the failure, when the server answered */
+    status?: number;
+    error: unknown;
+}
+
+/**
+ * Options of {@link withRetry}
+ */
+export interface RetryOptions {
+    policy?: RetryPolicy;
+    /** Cancels the wait between attempts */
+    signal?: AbortSignal;
+    onRetry?: (retry: RetryAttempt) => void;
+}
+
+/** Request timeout, conflict, rate limit; every 5xx is retried as well */
+const RETRIABLE_STATUSES = new Set([408, 409, 429]);
+
+/** Failures without a response: the SDK's connection errors, fetch and socket errors */
+const CONNECTION_ERRORS = new Set([
+    'APIConnectionError',
+    'APIConnectionTimeoutError',
+    'TimeoutError',
+]);
+const CONNECTION_MESSAGE =
+    /fetch failed|socket hang up|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|Connection error|timed out/i;
+
+function getErrorStatus(error: unknown): number | undefined {
+    const status = (error as { status?: unknown } | null | undefined)?.status;
+    return typeof status === 'number' ? status : undefined;
+}
+
+function getHeader(error: unknown, name: string): string | undefined {
+    const headers = (error as { headers?: unknown } | null | undefined)?.headers;
+    if (!headers || typeof headers !== 'object') {
+        return undefined;
+    }
+    if (typeof (headers as Headers).get === 'function') {
+        return (headers as Headers).get(name) ?? undefined;
+    }
+    const value = (headers as Record<string, unknown>)[name];
+    return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Whether a failed model request may succeed when sent again
+ *
+ * Rate limits, server errors and lost connections are retried. Rejected
+ * credentials, invalid requests and cancellation are not.
+ *
+ * @param error - The error the request failed with
+ * @returns true to retry
+ */
+export function isRetriableError(error: unknown): boolean {
+    if (isUserAbortError(error) || isAuthenticationError(error)) {
+        return false;
+    }
+    const status = getErrorStatus(error);
+    if (status !== undefined) {
+        return RETRIABLE_STATUSES.has(status) || status >= 500;
+    }
+    if (!(error instanceof Error)) {
+        return false;
+    }
+    return (
+        CONNECTION_ERRORS.has(error.name) ||
+        CONNECTION_ERRORS.has(error.constructor.name) ||
+        CONNECTION_MESSAGE.test(error.message)
+    );
+}
+
+/**
+ * Read how long the server asked to wait from `retry-after-ms` or `Retry-After`
+ *
+ * @param error - The error the request failed with
+ * @param now - Current time, for `Retry-After` given as an HTTP date
+ * @returns The wait in milliseconds, or undefined when the server gave none
+ */
+export function getRetryAfterMs(error: unknown, now = Date.now()): number | undefined {
+    const milliseconds = Number.parseFloat(getHeader(error, 'retry-after-ms') ?? '');
+    if (Number.isFinite(milliseconds) && milliseconds >= 0) {
+        return milliseconds;
+    }
+
+    const retryAfter = getHeader(error, 'retry-after')?.trim();
+    if (!retryAfter) {
+        return undefined;
+    }
+    if (/^\d+(\.\d+)?$/.test(retryAfter)) {
+        return Number.parseFloat(retryAfter) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Wait before a retry: what the server asked for, or exponential backoff with jitter
+ *
+ * @param error - The error the request failed with
+ * @param attempt - Number of the retry, starting at 1
+ * @param policy - The retry policy
+ * @returns The wait in milliseconds, or undefined when the server asked for
+ *          more than the policy allows
+ */
+export function getRetryDelayMs(
+    error: unknown,
+    attempt: number,
+    policy: RetryPolicy,
+): number | undefined {
+    const retryAfter = getRetryAfterMs(error);
+    if (retryAfter !== undefined) {
+        return retryAfter <= policy.maxDelayMs ? retryAfter : undefined;
+    }
+    const backoff = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (attempt - 1));
+    // Jitter spreads out the retries of map-reduce chunks that failed together
+    return Math.round(backoff * (0.5 + Math.random() * 0.5));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Send a request, repeating it after retriable failures
+ *
+ * @param request - Sends the request once
+ * @param options - Policy, cancellation and a listener told before every retry
+ * @returns The request's result
+ * @throws The last failure once it is not retriable or the retries are used up
+ */
+export async function withRetry<T>(
+    request: () => Promise<T>,
+    options: RetryOptions = {},
+): Promise<T> {
+    const policy = options.policy ?? DEFAULT_RETRY_POLICY;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await request();
+        } catch (error) {
+            const delayMs =
+                attempt <= policy.maxRetries && isRetriableError(error)
+                    ? getRetryDelayMs(error, attempt, policy)
+                    : undefined;
+            if (delayMs === undefined) {
+                throw error;
+            }
+            options.onRetry?.({
+                attempt,
+                maxRetries: policy.maxRetries,
+                delayMs,
+                status: getErrorStatus(error),
+                error,
+            });
+            await sleep(delayMs, options.signal);
+        }
+    }
+}
+
+/**
+ * LLM provider that applies a retry policy to another provider's completions
+ *
+ * API key validation is passed through unchanged, so a rate-limited key is
+ * reported to the user instead of being retried.
+ */
+export class RetryingLLMProvider implements LLMProvider {
+    readonly id: LLMProviderId;
+    readonly defaultModel: string;
+
+    constructor(
+        private readonly inner: LLMProvider,
+        private readonly options: Omit<RetryOptions, 'signal'> = {},
+    ) {
+        this.id = inner.id;
+        this.defaultModel = inner.defaultModel;
+    }
+
+    requestText(request: LLMTextRequest): Promise<string | undefined> {
+        return withRetry(() => this.inner.requestText(request), {
+            ...this.options,
+            signal: request.signal,
+        });
+    }
+
+    requestStructured<T>(request: LLMStructuredRequest): Promise<T | undefined> {
+        return withRetry(() => this.inner.requestStructured<T>(request), {
+            ...this.options,
+            signal: request.signal,
+        });
+    }
+
+    validateApiKey(): Promise<ValidateApiKeyResult> {
+        return this.inner.validateApiKey();
+    }
+}
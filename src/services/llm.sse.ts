@@ -0,0 +1,62 @@
+/**
+ * A server-sent event
+ */
+export interface ServerSentEvent {
+    /** `event:` field; `message` when the event has none */
+    event: string;
+    /** `data:` lines joined with newlines */
+    data: string;
+}
+
+function parseEvent(block: string): ServerSentEvent | undefined {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+        if (line.startsWith(':')) {
+            continue;
+        }
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+        if (field === 'event') {
+            event = value;
+        } else if (field === 'data') {
+            data.push(value);
+        }
+    }
+    return data.length > 0 ? { event, data: data.join('\n') } : undefined;
+}
+
+/**
+ * Read a `text/event-stream` response body event by event
+ *
+ * @param body - Response body of a streaming request
+ * @returns The events in order; ends when the body ends
+ */
+export async function* readServerSentEvents(
+    body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ServerSentEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+            const blocks = buffer.split(/\r?\n\r?\n/);
+            buffer = done ? '' : (blocks.pop() ?? '');
+            for (const block of blocks) {
+                const event = parseEvent(block);
+                if (event) {
+                    yield event;
+                }
+            }
+            if (done) {
+                return;
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
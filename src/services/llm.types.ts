@@ -0,0 +1,70 @@
+import type { LLMProviderId } from '../types';
+import type { ValidateApiKeyResult } from './openaiValidation';
+
+/**
+ * Reasoning effort forwarded to providers that support it
+ */
+export type ProviderReasoningEffort = 'low' | 'medium' | 'high' | undefined;
+
+/**
+ * Tokens a completion consumed, as reported by the provider
+ */
+export interface LLMUsage {
+    inputTokens: number;
+    /** Generated tokens, reasoning included */
+    outputTokens: number;
+    /** Part of `outputTokens` spent on reasoning; 0 when the provider does not report it */
+    reasoningTokens: number;
+}
+
+/**
+ * Provider-neutral parameters for a plain-text completion
+ */
+export interface LLMTextRequest {
+    model: string;
+    systemPrompt: string;
+    userPrompt: string;
+    maxCompletionTokens: number;
+    reasoningEffort: ProviderReasoningEffort;
+    signal?: AbortSignal;
+    /** Streams the response when set; receives the text received so far */
+    onText?: (text: string) => void;
+    /** Receives the token usage once the response is complete */
+    onUsage?: (usage: LLMUsage) => void;
+}
+
+/**
+ * Provider-neutral parameters for a JSON-schema-constrained completion
+ */
+export interface LLMStructuredRequest {
+    model: string;
+    systemPrompt: string;
+    userPrompt: string;
+    reasoningEffort: ProviderReasoningEffort;
+    signal?: AbortSignal;
+    /** Streams the response when set; receives the raw JSON received so far */
+    onText?: (text: string) => void;
+    /** Receives the token usage once the response is complete */
+    onUsage?: (usage: LLMUsage) => void;
+    schemaName: string;
+    schema: Record<string, unknown>;
+}
+
+/**
+ * A backend capable of generating text for the extension's operations
+ *
+ * Implementations translate the provider-neutral requests into the wire
+ * format of a concrete API (OpenAI chat completions, Anthropic messages, ...).
+ */
+export interface LLMProvider {
+    /** Identifier of the backend */
+    readonly id: LLMProviderId;
+    /** Model used when no model is configured */
+    readonly defaultModel: string;
+    /** Request a plain-text completion; resolves to the trimmed text or undefined */
+    requestText(request: LLMTextRequest): Promise<string | undefined>;
+    /** Request a structured completion; resolves to the parsed object or undefined */
+    requestStructured<T>(request: LLMStructuredRequest): Promise<T | undefined>;
+    /** Issue a lightweight authenticated request to check the configured credentials */
+    validateApiKey(): Promise<ValidateApiKeyResult>;
+}
@@ -0,0 +1,53 @@
+import type { LLMProviderId } from '../types';
+import type { ValidateApiKeyResult } from './openaiValidation';
+import type { LLMProvider, LLMStructuredRequest, LLMTextRequest, LLMUsage } from './llm.types';
+
+/**
+ * Hooks of a {@link UsageRecordingProvider}
+ */
+export interface UsageRecordingHooks {
+    /** Runs before every request; rejecting stops the request */
+    beforeRequest?: () => Promise<void>;
+    /** Receives the model and the tokens of every completed request */
+    onUsage: (model: string, usage: LLMUsage) => void;
+}
+
+/**
+ * LLM provider that reports the token usage of another provider's completions
+ */
+export class UsageRecordingProvider implements LLMProvider {
+    readonly id: LLMProviderId;
+    readonly defaultModel: string;
+
+    constructor(
+        private readonly inner: LLMProvider,
+        private readonly hooks: UsageRecordingHooks,
+    ) {
+        this.id = inner.id;
+        this.defaultModel = inner.defaultModel;
+    }
+
+    async requestText(request: LLMTextRequest): Promise<string | undefined> {
+        await this.hooks.beforeRequest?.();
+        return this.inner.requestText({ ...request, onUsage: this.createUsageListener(request) });
+    }
+
+    async requestStructured<T>(request: LLMStructuredRequest): Promise<T | undefined> {
+        await this.hooks.beforeRequest?.();
+        return this.inner.requestStructured<T>({
+            ...request,
+            onUsage: this.createUsageListener(request),
+        });
+    }
+
+    validateApiKey(): Promise<ValidateApiKeyResult> {
+        return this.inner.validateApiKey();
+    }
+
+    private createUsageListener(request: LLMTextRequest | LLMStructuredRequest) {
+        return (usage: LLMUsage) => {
+            this.hooks.onUsage(request.model, usage);
+            request.onUsage?.(usage);
+        };
+    }
+}
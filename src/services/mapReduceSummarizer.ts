@@ -2,22 +2,46 @@
  * Map-Reduce summarizer for Tier 3 large-diff processing
  *
  * When diffs exceed the token budget even after smart prioritization (Tier 2),
- * this service splits overflow files into chunks, summarizes each chunk via
- * OpenAI API calls (in parallel), and combines the summaries.
+ * this service splits overflow files into chunks and summarizes each chunk via
+ * parallel API calls (map). While the summaries together still exceed their
+ * budget, they are merged in groups over further rounds (reduce).
  */
 
 import { Logger } from '../infrastructure/logging/Logger';
 import { TokenManager } from './tokenManager';
 import { ParsedFileDiff, estimateTokenCount } from '../utils/diffUtils';
+import { isUserAbortError } from '../utils/errorGuards';
 import { detectPotentialSecrets } from '../utils/secretDetection';
 
 // Use a type-only import to avoid circular dependency at runtime
 import type { OpenAIService } from './openaiService';
 
+/**
+ * The part of {@link OpenAIService} the summarizer needs; the CLI supplies its own
+ */
+export type ChunkSummarizationClient = Pick<
+    OpenAIService,
+    'getModel' | 'summarizeChunk' | 'mergeSummaries'
+>;
+
+/**
+ * Position of the map-reduce summarization when progress is reported
+ */
+export interface MapReduceProgress {
+    /** `map` summarizes diff chunks; `reduce` merges summaries */
+    phase: 'map' | 'reduce';
+    /** Reduce round, starting at 1; 0 in the map phase */
+    round: number;
+    /** Requests finished in this phase or round */
+    completed: number;
+    /** Requests in this phase or round */
+    total: number;
+}
+
 /**
  * Progress callback for reporting map-reduce progress
  */
-export type MapReduceProgressCallback = (message: string) => void;
+export type MapReduceProgressCallback = (message: string, progress?: MapReduceProgress) => void;
 
 /**
  * Result of map-reduce summarization
@@ -29,6 +53,8 @@ export interface MapReduceResult {
     chunksProcessed: number;
     /** Number of chunks that failed summarization */
     chunksFailed: number;
+    /** Number of reduce rounds run to fit the summaries in their budget */
+    reduceRounds: number;
 }
 
 /**
@@ -79,18 +105,131 @@ export function groupIntoChunks(
     return chunks;
 }
 
+/** Parallel requests when the `mapReduceParallelism` setting is unavailable */
+const DEFAULT_PARALLELISM = 3;
+
+/** Reduce rounds after which the summaries are used even if they still exceed their budget */
+const MAX_REDUCE_ROUNDS = 4;
+
+/** Most file paths named in the heading of a summary */
+const MAX_ATTRIBUTED_FILES = 20;
+
+/**
+ * A summary and the files it describes
+ */
+interface AttributedSummary {
+    files: string[];
+    text: string;
+}
+
+function formatSummary(summary: AttributedSummary): string {
+    const named = summary.files.slice(0, MAX_ATTRIBUTED_FILES).join(', ');
+    const more =
+        summary.files.length > MAX_ATTRIBUTED_FILES
+            ? ` and ${summary.files.length - MAX_ATTRIBUTED_FILES} more`
+            : '';
+    return `### ${named}${more}\n${summary.text}`;
+}
+
+function formatSummaries(summaries: AttributedSummary[]): string {
+    return summaries.map(formatSummary).join('\n\n');
+}
+
+/**
+ * Group summaries for one reduce round
+ *
+ * Groups are filled up to the chunk size, but always take at least two
+ * summaries so that every round reduces their number.
+ */
+function groupSummaries(
+    summaries: AttributedSummary[],
+    chunkTokenLimit: number,
+): AttributedSummary[][] {
+    const groups: AttributedSummary[][] = [];
+    let current: AttributedSummary[] = [];
+    let currentTokens = 0;
+    for (const summary of summaries) {
+        const tokens = estimateTokenCount(formatSummary(summary));
+        if (current.length >= 2 && currentTokens + tokens > chunkTokenLimit) {
+            groups.push(current);
+            current = [];
+            currentTokens = 0;
+        }
+        current.push(summary);
+        currentTokens += tokens;
+    }
+    if (current.length > 0) {
+        groups.push(current);
+    }
+    return groups;
+}
+
+/**
+ * Run a task for each item with at most `limit` tasks in flight
+ *
+ * Results keep the order of the items. No new task starts once the signal
+ * is aborted; the skipped items get `undefined`.
+ */
+async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T, index: number) => Promise<R>,
+    signal?: AbortSignal,
+): Promise<Array<R | undefined>> {
+    const results = new Array<R | undefined>(items.length).fill(undefined);
+    let next = 0;
+    const worker = async (): Promise<void> => {
+        while (next < items.length && !signal?.aborted) {
+            const index = next++;
+            results[index] = await task(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
 /**
  * Map-Reduce summarizer for processing very large diffs
  */
 export class MapReduceSummarizer {
-    private static readonly MAX_PARALLEL_CALLS = 3;
     private logger: Logger;
+    private parallelism: number;
 
+    /**
+     * @param openaiService - Client that summarizes chunks and merges summaries
+     * @param progressCallback - Optional callback for progress reporting
+     * @param parallelism - Requests sent at once; read from the settings when omitted
+     */
     constructor(
-        private openaiService: OpenAIService,
+        private openaiService: ChunkSummarizationClient,
         private progressCallback?: MapReduceProgressCallback,
+        parallelism?: number,
     ) {
         this.logger = Logger.getInstance();
+        this.parallelism = Math.max(
+            1,
+            Math.floor(parallelism ?? MapReduceSummarizer.getConfiguredParallelism()),
+        );
+    }
+
+    /**
+     * Get the configured number of parallel requests, falling back to the default
+     *
+     * @returns The `mapReduceParallelism` setting, or 3 outside VS Code
+     */
+    static getConfiguredParallelism(): number {
+        try {
+            const vscode = require('vscode');
+            const configured: unknown = vscode.workspace
+                .getConfiguration('otakCommitter')
+                .get('mapReduceParallelism');
+            if (typeof configured === 'number' && configured >= 1) {
+                return configured;
+            }
+        } catch {
+            // Not running in VS Code context (e.g., unit tests, the CLI)
+        }
+        return DEFAULT_PARALLELISM;
     }
 
     /**
@@ -98,55 +237,157 @@ export class MapReduceSummarizer {
      *
      * @param overflowFiles - Files that didn't fit in the Tier 2 budget
      * @param language - Target language for summaries
+     * @param signal - Cancels the remaining requests
+     * @param tokenBudget - Tokens the combined summary should fit in; without it no reduce round runs
      * @returns Combined summary result
+     * @throws The abort error when the signal is aborted; failures of single requests are not thrown
      */
     async summarize(
         overflowFiles: ParsedFileDiff[],
         language: string,
         signal?: AbortSignal,
+        tokenBudget?: number,
     ): Promise<MapReduceResult> {
-        const chunkSize = TokenManager.MAP_REDUCE_CHUNK_SIZE;
+        const chunkSize = TokenManager.getMapReduceChunkSize(
+            this.openaiService.getModel('summarize'),
+        );
         const chunks = groupIntoChunks(overflowFiles, chunkSize);
 
-        this.logger.info(`Map-reduce: processing ${chunks.length} chunks from ${overflowFiles.length} files`);
+        this.logger.info(
+            `Map-reduce: processing ${chunks.length} chunks from ${overflowFiles.length} files with ${this.parallelism} parallel requests`,
+        );
+
+        let completed = 0;
+        const results = await mapWithConcurrency(
+            chunks,
+            this.parallelism,
+            async (chunk, chunkIndex) => {
+                const result = await this.summarizeChunk(chunk, language, chunkIndex, signal);
+                this.reportProgress({
+                    phase: 'map',
+                    round: 0,
+                    completed: ++completed,
+                    total: chunks.length,
+                });
+                return result;
+            },
+            signal,
+        );
+        signal?.throwIfAborted();
 
-        const summaries: string[] = [];
         let chunksFailed = 0;
+        let summaries = chunks.map((chunk, index): AttributedSummary => {
+            const files = chunk.map((f) => f.filePath);
+            const result = results[index];
+            if (result) {
+                return { files, text: result };
+            }
+            chunksFailed++;
+            // Fallback: include file list only
+            return { files, text: `[Summarization failed for: ${files.join(', ')}]` };
+        });
 
-        // Process chunks in batches of MAX_PARALLEL_CALLS
-        for (let i = 0; i < chunks.length; i += MapReduceSummarizer.MAX_PARALLEL_CALLS) {
-            const batch = chunks.slice(i, i + MapReduceSummarizer.MAX_PARALLEL_CALLS);
-            const batchPromises = batch.map((chunk, batchIndex) => {
-                const chunkIndex = i + batchIndex;
-                this.progressCallback?.(
-                    `${chunkIndex + 1}/${chunks.length}`,
+        let reduceRounds = 0;
+        while (
+            tokenBudget !== undefined &&
+            summaries.length > 1 &&
+            estimateTokenCount(formatSummaries(summaries)) > tokenBudget &&
+            !signal?.aborted
+        ) {
+            if (reduceRounds === MAX_REDUCE_ROUNDS) {
+                this.logger.warning(
+                    `Map-reduce: summaries still exceed ${tokenBudget} tokens after ${reduceRounds} reduce rounds`,
                 );
-                return this.summarizeChunk(chunk, language, chunkIndex, signal);
-            });
-
-            const batchResults = await Promise.all(batchPromises);
-
-            for (let j = 0; j < batchResults.length; j++) {
-                const result = batchResults[j];
-                if (result) {
-                    summaries.push(result);
-                } else {
-                    chunksFailed++;
-                    // Fallback: include file list only
-                    const chunk = batch[j];
-                    const fileList = chunk.map((f) => f.filePath).join(', ');
-                    summaries.push(`[Summarization failed for: ${fileList}]`);
-                }
+                break;
             }
+            reduceRounds++;
+            const reduced = await this.reduce(summaries, language, reduceRounds, chunkSize, signal);
+            if (reduced.length === summaries.length) {
+                this.logger.warning(`Map-reduce: reduce round ${reduceRounds} merged no summaries`);
+                break;
+            }
+            summaries = reduced;
         }
+        signal?.throwIfAborted();
 
         return {
-            summary: summaries.join('\n\n'),
+            summary: formatSummaries(summaries),
             chunksProcessed: chunks.length,
             chunksFailed,
+            reduceRounds,
         };
     }
 
+    /**
+     * Merge summaries in groups, keeping a group's summaries as they are if merging fails
+     */
+    private async reduce(
+        summaries: AttributedSummary[],
+        language: string,
+        round: number,
+        chunkSize: number,
+        signal?: AbortSignal,
+    ): Promise<AttributedSummary[]> {
+        const groups = groupSummaries(summaries, chunkSize);
+        this.logger.info(
+            `Map-reduce: reduce round ${round} merging ${summaries.length} summaries into ${groups.length}`,
+        );
+
+        let completed = 0;
+        const merged = await mapWithConcurrency(
+            groups,
+            this.parallelism,
+            async (group) => {
+                const text =
+                    group.length > 1
+                        ? await this.mergeGroup(group, language, round, signal)
+                        : group[0].text;
+                this.reportProgress({
+                    phase: 'reduce',
+                    round,
+                    completed: ++completed,
+                    total: groups.length,
+                });
+                return text;
+            },
+            signal,
+        );
+
+        return groups.flatMap((group, index) => {
+            const text = merged[index];
+            return text ? [{ files: group.flatMap((summary) => summary.files), text }] : group;
+        });
+    }
+
+    private async mergeGroup(
+        group: AttributedSummary[],
+        language: string,
+        round: number,
+        signal?: AbortSignal,
+    ): Promise<string | undefined> {
+        try {
+            return await this.openaiService.mergeSummaries(
+                formatSummaries(group),
+                language,
+                signal,
+            );
+        } catch (error) {
+            if (isUserAbortError(error)) {
+                throw error;
+            }
+            this.logger.error(`Failed to merge ${group.length} summaries in round ${round}`, error);
+            return undefined;
+        }
+    }
+
+    private reportProgress(progress: MapReduceProgress): void {
+        const message =
+            progress.phase === 'map'
+                ? `map ${progress.completed}/${progress.total}`
+                : `reduce round ${progress.round} ${progress.completed}/${progress.total}`;
+        this.progressCallback?.(message, progress);
+    }
+
     /**
      * Summarize a single chunk of files
      */
@@ -157,7 +398,9 @@ export class MapReduceSummarizer {
         signal?: AbortSignal,
     ): Promise<string | undefined> {
         const chunkContent = chunk.map((f) => f.content).join('\n');
-        this.logger.debug(`Summarizing chunk ${chunkIndex} (${estimateTokenCount(chunkContent)} tokens, ${chunk.length} files)`);
+        this.logger.debug(
+            `Summarizing chunk ${chunkIndex} (${estimateTokenCount(chunkContent)} tokens, ${chunk.length} files)`,
+        );
 
         // Warn if potential secrets are detected (non-blocking)
         const detection = detectPotentialSecrets(chunkContent);
@@ -172,6 +415,9 @@ export class MapReduceSummarizer {
         try {
             return await this.openaiService.summarizeChunk(chunkContent, language, signal);
         } catch (error) {
+            if (isUserAbortError(error)) {
+                throw error;
+            }
             this.logger.error(`Failed to summarize chunk ${chunkIndex}`, error);
             return undefined;
         }
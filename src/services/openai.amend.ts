@@ -0,0 +1,82 @@
+import type { SupportedLanguage } from '../languages';
+import { getPrompt } from '../languages/prompts';
+import { TemplateInfo } from '../types';
+import { MessageStyle } from '../types/enums/MessageStyle';
+import { PromptType } from '../types/enums/PromptType';
+import { t } from '../i18n/index.js';
+import type { CommitLintOptions } from '../utils/commitLint';
+import { isUserAbortError } from '../utils/errorGuards';
+import { repairCommitMessageLintOp } from './openai.lint';
+import type { OpenAIOpsContext } from './openai.ops';
+import { TokenManager } from './tokenManager';
+
+/**
+ * Input for {@link generateAmendCommitMessageOp}
+ */
+export interface AmendCommitMessageInput {
+    /** HEAD combined with the staged changes, relative to HEAD's parent */
+    diff: string;
+    /** Current message of HEAD, without the otak-committer trailer */
+    previousMessage: string;
+    language: string;
+    messageStyle: MessageStyle | string;
+    template?: TemplateInfo;
+    lint?: CommitLintOptions;
+}
+
+/**
+ * Generate a new message for the last commit, given its current message as context
+ *
+ * @param context - Shared LLM operation context
+ * @param input - Combined diff, previous message and generation options
+ * @returns The new commit message, or undefined on failure
+ */
+export async function generateAmendCommitMessageOp(
+    context: OpenAIOpsContext,
+    input: AmendCommitMessageInput,
+): Promise<string | undefined> {
+    const { diff, previousMessage, language, messageStyle, template, lint } = input;
+    try {
+        context.logger.info('Generating amended commit message', { language, messageStyle });
+
+        const model = context.getModel('commit');
+        const message = await context.provider.requestText({
+            model,
+            systemPrompt: getPrompt(language as SupportedLanguage, PromptType.System),
+            userPrompt: await context.promptService.createAmendCommitPrompt(
+                diff,
+                previousMessage,
+                language,
+                messageStyle,
+                template,
+            ),
+            reasoningEffort: context.getReasoningEffort(),
+            maxCompletionTokens: TokenManager.getOutputTokens(model).COMMIT_MESSAGE,
+            signal: context.signal,
+        });
+
+        if (!message?.trim()) {
+            context.logger.warning('Empty amended commit message returned from API');
+            return undefined;
+        }
+        return lint
+            ? await repairCommitMessageLintOp(context, {
+                  message: message.trim(),
+                  diff,
+                  language,
+                  lint,
+              })
+            : message.trimStart();
+    } catch (error) {
+        if (isUserAbortError(error)) {
+            throw error;
+        }
+        context.logger.error('Failed to generate amended commit message', error);
+        if (context.isAuthenticationError(error)) {
+            await context.onAuthError();
+            return undefined;
+        }
+        context.showError(t('errors.failedToGenerateCommitMessage'), error);
+        return undefined;
+    }
+}
@@ -0,0 +1,119 @@
+import type { SupportedLanguage } from '../languages';
+import { getPrompt } from '../languages/prompts';
+import { TemplateInfo } from '../types';
+import { PromptType } from '../types/enums/PromptType';
+import { t } from '../i18n/index.js';
+import { isUserAbortError } from '../utils/errorGuards';
+import { uniqueCommitMessages } from '../utils/commitMessage';
+import { requestCommitMessage, type OpenAIOpsContext } from './openai.ops';
+import { TokenManager } from './tokenManager';
+
+/**
+ * Generate several commit message candidates in parallel, one per style
+ *
+ * Individual failures are tolerated; an error is only reported when no
+ * candidate could be generated at all.
+ *
+ * @param context - Shared LLM operation context
+ * @param diff - The git diff to summarize as a commit message
+ * @param language - The natural language identifier for the output
+ * @param styles - Message style for each candidate
+ * @param template - Optional template to guide the generated messages
+ * @returns The unique candidates in style order (empty on failure)
+ */
+export async function generateCommitMessageCandidatesOp(
+    context: OpenAIOpsContext,
+    diff: string,
+    language: string,
+    styles: string[],
+    template?: TemplateInfo,
+): Promise<string[]> {
+    context.logger.info('Generating commit message candidates', {
+        language,
+        count: styles.length,
+    });
+
+    const results = await Promise.allSettled(
+        styles.map((style) => requestCommitMessage(context, diff, language, style, template)),
+    );
+
+    const failures = results.flatMap((result) =>
+        result.status === 'rejected' ? [result.reason as unknown] : [],
+    );
+    const abort = failures.find((error) => isUserAbortError(error));
+    if (abort) {
+        throw abort;
+    }
+
+    const candidates = uniqueCommitMessages(
+        results.flatMap((result) =>
+            result.status === 'fulfilled' && result.value?.trim() ? [result.value.trimStart()] : [],
+        ),
+    );
+
+    if (candidates.length > 0) {
+        context.logger.info(`Generated ${candidates.length} commit message candidates`);
+        return candidates;
+    }
+
+    if (failures.length === 0) {
+        context.logger.warning('No commit message candidates returned from API');
+        return [];
+    }
+
+    context.logger.error('Failed to generate commit message candidates', failures[0]);
+    if (failures.some((error) => context.isAuthenticationError(error))) {
+        await context.onAuthError();
+        return [];
+    }
+    context.showError(t('errors.failedToGenerateCommitMessage'), failures[0]);
+    return [];
+}
+
+/**
+ * Merge several commit message candidates into a single message
+ *
+ * @param context - Shared LLM operation context
+ * @param candidates - The candidates selected by the user
+ * @param language - The natural language identifier for the output
+ * @returns The combined message, or undefined on failure
+ */
+export async function combineCommitMessagesOp(
+    context: OpenAIOpsContext,
+    candidates: string[],
+    language: string,
+): Promise<string | undefined> {
+    try {
+        context.logger.info('Combining commit message candidates', { count: candidates.length });
+
+        const model = context.getModel('commit');
+        const message = await context.provider.requestText({
+            model,
+            systemPrompt: getPrompt(language as SupportedLanguage, PromptType.System),
+            userPrompt: context.promptService.createCombineCommitMessagesPrompt(
+                candidates,
+                language,
+            ),
+            reasoningEffort: context.getReasoningEffort(),
+            maxCompletionTokens: TokenManager.getOutputTokens(model).COMMIT_MESSAGE,
+            signal: context.signal,
+        });
+
+        if (!message?.trim()) {
+            context.logger.warning('Empty combined commit message returned from API');
+            return undefined;
+        }
+        return message.trimStart();
+    } catch (error) {
+        if (isUserAbortError(error)) {
+            throw error;
+        }
+        context.logger.error('Failed to combine commit message candidates', error);
+        if (context.isAuthenticationError(error)) {
+            await context.onAuthError();
+            return undefined;
+        }
+        context.showError(t('errors.failedToCombineCommitMessages'), error);
+        return undefined;
+    }
+}
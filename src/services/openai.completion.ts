@@ -1,4 +1,5 @@
 import OpenAI from 'openai';
+import type { LLMUsage } from './llm.types';
 
 /**
  * Parameters for a plain-text OpenAI chat completion request
@@ -11,6 +12,12 @@ export interface TextCompletionRequest {
     maxCompletionTokens: number;
     reasoningEffort: 'low' | 'medium' | 'high' | undefined;
     signal?: AbortSignal;
+    /** Role used for the system prompt; OpenAI-compatible servers expect 'system' */
+    systemRole?: 'developer' | 'system';
+    /** Streams the response when set; receives the text received so far */
+    onText?: (text: string) => void;
+    /** Receives the token usage once the response is complete */
+    onUsage?: (usage: LLMUsage) => void;
 }
 
 /**
@@ -23,6 +30,12 @@ export interface StructuredCompletionRequest {
     userPrompt: string;
     reasoningEffort: 'low' | 'medium' | 'high' | undefined;
     signal?: AbortSignal;
+    /** Role used for the system prompt; OpenAI-compatible servers expect 'system' */
+    systemRole?: 'developer' | 'system';
+    /** Streams the response when set; receives the raw JSON received so far */
+    onText?: (text: string) => void;
+    /** Receives the token usage once the response is complete */
+    onUsage?: (usage: LLMUsage) => void;
     schemaName: string;
     schema: Record<string, unknown>;
 }
@@ -33,6 +46,9 @@ interface CompletionRequestBase {
     userPrompt: string;
     reasoningEffort: 'low' | 'medium' | 'high' | undefined;
     signal?: AbortSignal;
+    systemRole?: 'developer' | 'system';
+    onText?: (text: string) => void;
+    onUsage?: (usage: LLMUsage) => void;
 }
 
 /** Request timeout for OpenAI API calls (2 minutes) */
@@ -42,7 +58,7 @@ function createCompletionParams(request: CompletionRequestBase) {
     return {
         model: request.model,
         messages: [
-            { role: 'developer' as const, content: request.systemPrompt },
+            { role: request.systemRole ?? ('developer' as const), content: request.systemPrompt },
             { role: 'user' as const, content: request.userPrompt },
         ],
         reasoning_effort: request.reasoningEffort,
@@ -60,6 +76,55 @@ function getCompletionContent(response: {
     return response.choices?.[0]?.message?.content?.trim();
 }
 
+function toUsage(usage: OpenAI.CompletionUsage): LLMUsage {
+    return {
+        inputTokens: usage.prompt_tokens ?? 0,
+        outputTokens: usage.completion_tokens ?? 0,
+        reasoningTokens: usage.completion_tokens_details?.reasoning_tokens ?? 0,
+    };
+}
+
+type CompletionBody = ReturnType<typeof createCompletionParams> &
+    Pick<OpenAI.ChatCompletionCreateParams, 'max_completion_tokens' | 'response_format'>;
+
+/**
+ * Send the request and return the content, streaming it to `onText` when set
+ *
+ * The token usage is passed to `onUsage` when the server reports it.
+ * Cancelling through the signal ends the stream with the SDK's abort error.
+ */
+async function requestCompletionContent(
+    request: CompletionRequestBase & { openai: OpenAI },
+    body: CompletionBody,
+): Promise<string | undefined> {
+    const options = createRequestOptions(request.signal);
+    if (!request.onText) {
+        const response = await request.openai.chat.completions.create(body, options);
+        if (response.usage) {
+            request.onUsage?.(toUsage(response.usage));
+        }
+        return getCompletionContent(response);
+    }
+
+    // The usage arrives in a final chunk without choices
+    const stream = await request.openai.chat.completions.create(
+        { ...body, stream: true, stream_options: { include_usage: true } },
+        options,
+    );
+    let content = '';
+    for await (const chunk of stream) {
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+            content += delta;
+            request.onText(content);
+        }
+        if (chunk.usage) {
+            request.onUsage?.(toUsage(chunk.usage));
+        }
+    }
+    return content.trim() || undefined;
+}
+
 /**
  * Send a text completion request to the OpenAI chat completions API
  *
@@ -69,16 +134,11 @@ function getCompletionContent(response: {
 export async function requestTextCompletion(
     request: TextCompletionRequest,
 ): Promise<string | undefined> {
-    const response = await request.openai.chat.completions.create(
-        {
-            ...createCompletionParams(request),
-            max_completion_tokens: request.maxCompletionTokens,
-            response_format: { type: 'text' },
-        },
-        createRequestOptions(request.signal),
-    );
-
-    return getCompletionContent(response);
+    return requestCompletionContent(request, {
+        ...createCompletionParams(request),
+        max_completion_tokens: request.maxCompletionTokens,
+        response_format: { type: 'text' },
+    });
 }
 
 /**
@@ -90,22 +150,17 @@ export async function requestTextCompletion(
 export async function requestStructuredCompletion<T>(
     request: StructuredCompletionRequest,
 ): Promise<T | undefined> {
-    const response = await request.openai.chat.completions.create(
-        {
-            ...createCompletionParams(request),
-            response_format: {
-                type: 'json_schema',
-                json_schema: {
-                    name: request.schemaName,
-                    strict: true,
-                    schema: request.schema,
-                },
+    const content = await requestCompletionContent(request, {
+        ...createCompletionParams(request),
+        response_format: {
+            type: 'json_schema',
+            json_schema: {
+                name: request.schemaName,
+                strict: true,
+                schema: request.schema,
             },
         },
-        createRequestOptions(request.signal),
-    );
-
-    const content = getCompletionContent(response);
+    });
     if (!content) {
         return undefined;
     }
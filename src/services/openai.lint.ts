@@ -0,0 +1,80 @@
+import type { SupportedLanguage } from '../languages';
+import { getPrompt } from '../languages/prompts';
+import { PromptType } from '../types/enums/PromptType';
+import {
+    CommitLintOptions,
+    formatCommitLintViolations,
+    lintCommitMessage,
+} from '../utils/commitLint';
+import { isUserAbortError } from '../utils/errorGuards';
+import { sanitizeCommitMessage } from '../utils/sanitization';
+import type { OpenAIOpsContext } from './openai.ops';
+import { TokenManager } from './tokenManager';
+
+/**
+ * Lint a generated commit message and ask the model to fix it until it passes
+ *
+ * The message is linted as it will be committed, with code fences and
+ * redaction placeholders sanitized away, so a fenced reply does not trigger a
+ * repair. Gives up after `lint.maxRetries` attempts and returns the last
+ * message, so a strict rule never costs the user the generated message.
+ * Repair failures other than cancellation are logged and end the loop the
+ * same way.
+ *
+ * @param context - Shared LLM operation context
+ * @param input - Generated message, the diff it describes, output language and lint options
+ * @returns The first message that passes, or the last attempt
+ */
+export async function repairCommitMessageLintOp(
+    context: OpenAIOpsContext,
+    input: { message: string; diff: string; language: string; lint: CommitLintOptions },
+): Promise<string> {
+    const { diff, language, lint } = input;
+    let message = input.message;
+
+    for (let attempt = 1; ; attempt++) {
+        const violations = lintCommitMessage(sanitizeCommitMessage(message), lint.rules);
+        if (violations.length === 0) {
+            return message;
+        }
+        const formatted = formatCommitLintViolations(violations);
+        if (attempt > lint.maxRetries) {
+            context.logger.warning(
+                `Commit message still breaks ${violations.length} rule(s) after ${lint.maxRetries} repair attempt(s)\n${formatted}`,
+            );
+            return message;
+        }
+        context.logger.info(`Commit message breaks lint rules, repair attempt ${attempt}`, {
+            rules: violations.map((violation) => violation.rule),
+        });
+
+        try {
+            const model = context.getModel('commit');
+            const repaired = await context.provider.requestText({
+                model,
+                systemPrompt: getPrompt(language as SupportedLanguage, PromptType.System),
+                userPrompt: context.promptService.createCommitLintRepairPrompt(
+                    message,
+                    diff,
+                    formatted,
+                    language,
+                ),
+                reasoningEffort: context.getReasoningEffort(),
+                maxCompletionTokens: TokenManager.getOutputTokens(model).COMMIT_MESSAGE,
+                signal: context.signal,
+                onText: context.onText,
+            });
+            if (!repaired?.trim()) {
+                context.logger.warning('Empty repaired commit message returned from API');
+                return message;
+            }
+            message = repaired.trim();
+        } catch (error) {
+            if (isUserAbortError(error)) {
+                throw error;
+            }
+            context.logger.error('Failed to repair commit message', error);
+            return message;
+        }
+    }
+}
@@ -1,38 +1,46 @@
 import { PromptService } from './prompt';
-import OpenAI from 'openai';
 import { Logger } from '../infrastructure/logging/Logger';
-import { TemplateInfo } from '../types';
+import { ModelOperation, TemplateInfo } from '../types';
 import { MessageStyle } from '../types/enums/MessageStyle';
 import { PullRequestDiff } from '../types/interfaces/GitHub';
 import { formatMarkdown, cleanMarkdown } from '../utils';
 import { getPrompt } from '../languages/prompts';
 import type { SupportedLanguage } from '../languages';
 import { PromptType } from '../types/enums/PromptType';
-import { requestTextCompletion, requestStructuredCompletion } from './openai.completion';
+import type { LLMProvider } from './llm.types';
 import { TokenManager } from './tokenManager';
+import { getModelCapabilities } from '../constants/modelCapabilities';
 import { t } from '../i18n/index.js';
 import { isUserAbortError } from '../utils/errorGuards';
+import type { CommitLintOptions } from '../utils/commitLint';
+import { repairCommitMessageLintOp } from './openai.lint';
 
-interface OpenAIOpsContext {
-    openai: OpenAI;
+/**
+ * Dependencies shared by all LLM operations, supplied by OpenAIService
+ */
+export interface OpenAIOpsContext {
+    provider: LLMProvider;
     promptService: PromptService;
     logger: Logger;
-    model: string;
+    getModel: (operation?: ModelOperation) => string;
     getReasoningEffort: () => 'low' | 'medium' | 'high' | undefined;
     onAuthError: () => Promise<void>;
     showError: (message: string, error?: unknown) => void;
     isAuthenticationError: (error: unknown) => boolean;
     signal?: AbortSignal;
+    /** Receives the text of the final output as it streams in */
+    onText?: (text: string) => void;
 }
 
 /**
- * Generate a commit message from a diff using the configured OpenAI model
+ * Generate a commit message from a diff using the configured model
  *
- * @param context - Shared OpenAI operation context
+ * @param context - Shared LLM operation context
  * @param diff - The git diff to summarize as a commit message
  * @param language - The natural language identifier for the output
  * @param messageStyle - The commit message style (e.g. simple/normal/detailed)
  * @param template - Optional template to guide the generated message
+ * @param lint - Rules the message must pass; failing messages are sent back for repair
  * @returns The generated commit message, or undefined on failure
  */
 export async function generateCommitMessageOp(
@@ -41,26 +49,12 @@ export async function generateCommitMessageOp(
     language: string,
     messageStyle: MessageStyle | string,
     template?: TemplateInfo,
+    lint?: CommitLintOptions,
 ): Promise<string | undefined> {
     try {
         context.logger.info('Generating commit message', { language, messageStyle });
 
-        const userPrompt = await context.promptService.createCommitPrompt(
-            diff,
-            language,
-            messageStyle,
-            template,
-        );
-        const systemPrompt = getPrompt(language as SupportedLanguage, PromptType.System);
-        const message = await requestTextCompletion({
-            openai: context.openai,
-            model: context.model,
-            systemPrompt,
-            userPrompt,
-            reasoningEffort: context.getReasoningEffort(),
-            maxCompletionTokens: TokenManager.OUTPUT_TOKENS.COMMIT_MESSAGE,
-            signal: context.signal,
-        });
+        const message = await requestCommitMessage(context, diff, language, messageStyle, template);
 
         if (typeof message !== 'string' || !message.trim()) {
             context.logger.warning('No commit message content returned from API');
@@ -68,6 +62,14 @@ export async function generateCommitMessageOp(
         }
 
         context.logger.info('Commit message generated successfully');
+        if (lint) {
+            return await repairCommitMessageLintOp(context, {
+                message: message.trim(),
+                diff,
+                language,
+                lint,
+            });
+        }
         return message.trimStart();
     } catch (error) {
         // Re-throw abort errors so they can be handled by the caller.
@@ -85,45 +87,73 @@ export async function generateCommitMessageOp(
 }
 
 /**
- * Summarize a single diff chunk as part of the map-reduce flow
+ * Send a single commit message request without any error handling
  *
- * @param context - Shared OpenAI operation context
- * @param chunkContent - The diff chunk content to summarize
+ * @param context - Shared LLM operation context
+ * @param diff - The git diff to summarize as a commit message
  * @param language - The natural language identifier for the output
- * @returns The summary text, or undefined on failure
+ * @param messageStyle - The commit message style (e.g. simple/normal/detailed)
+ * @param template - Optional template to guide the generated message
+ * @returns The raw model output, or undefined if the model returned nothing
  */
-export async function summarizeChunkOp(
+export async function requestCommitMessage(
     context: OpenAIOpsContext,
-    chunkContent: string,
+    diff: string,
+    language: string,
+    messageStyle: MessageStyle | string,
+    template?: TemplateInfo,
+): Promise<string | undefined> {
+    const userPrompt = await context.promptService.createCommitPrompt(
+        diff,
+        language,
+        messageStyle,
+        template,
+    );
+    const systemPrompt = getPrompt(language as SupportedLanguage, PromptType.System);
+    const model = context.getModel('commit');
+    return context.provider.requestText({
+        model,
+        systemPrompt,
+        userPrompt,
+        reasoningEffort: context.getReasoningEffort(),
+        maxCompletionTokens: TokenManager.getOutputTokens(model).COMMIT_MESSAGE,
+        signal: context.signal,
+        onText: context.onText,
+    });
+}
+
+async function requestSummary(
+    context: OpenAIOpsContext,
+    prompt: string,
     language: string,
+    description: string,
 ): Promise<string | undefined> {
     try {
-        context.logger.info('Summarizing diff chunk for map-reduce');
+        context.logger.info(`${description} for map-reduce`);
 
-        const prompt = context.promptService.createSummarizationPrompt(chunkContent, language);
         const systemPrompt = getPrompt(language as SupportedLanguage, PromptType.System);
-        const summary = await requestTextCompletion({
-            openai: context.openai,
-            model: context.model,
+        const summary = await context.provider.requestText({
+            model: context.getModel('summarize'),
             systemPrompt,
             userPrompt: prompt,
-            reasoningEffort: 'low',
+            // Summaries stay cheap, and send no effort where other requests send none
+            reasoningEffort: context.getReasoningEffort() && 'low',
             maxCompletionTokens: TokenManager.SUMMARIZATION_OUTPUT_TOKENS,
             signal: context.signal,
         });
 
         if (!summary) {
-            context.logger.warning('Empty summary returned from chunk summarization');
+            context.logger.warning(`Empty summary returned (${description})`);
             return undefined;
         }
 
-        context.logger.info('Chunk summarization completed');
+        context.logger.info(`${description} completed`);
         return summary;
     } catch (error) {
         if (isUserAbortError(error)) {
             throw error;
         }
-        context.logger.error('Failed to summarize diff chunk', error);
+        context.logger.error(`${description} failed`, error);
         if (context.isAuthenticationError(error)) {
             await context.onAuthError();
         }
@@ -131,6 +161,40 @@ export async function summarizeChunkOp(
     }
 }
 
+/**
+ * Summarize a single diff chunk as part of the map-reduce flow
+ *
+ * @param context - Shared LLM operation context
+ * @param chunkContent - The diff chunk content to summarize
+ * @param language - The natural language identifier for the output
+ * @returns The summary text, or undefined on failure
+ */
+export async function summarizeChunkOp(
+    context: OpenAIOpsContext,
+    chunkContent: string,
+    language: string,
+): Promise<string | undefined> {
+    const prompt = context.promptService.createSummarizationPrompt(chunkContent, language);
+    return requestSummary(context, prompt, language, 'Summarizing diff chunk');
+}
+
+/**
+ * Merge chunk summaries into one as the reduce step of the map-reduce flow
+ *
+ * @param context - Shared LLM operation context
+ * @param summaries - The summaries to merge, each headed by the files it covers
+ * @param language - The natural language identifier for the output
+ * @returns The merged summary, or undefined on failure
+ */
+export async function mergeSummariesOp(
+    context: OpenAIOpsContext,
+    summaries: string,
+    language: string,
+): Promise<string | undefined> {
+    const prompt = context.promptService.createSummaryMergePrompt(summaries, language);
+    return requestSummary(context, prompt, language, 'Merging chunk summaries');
+}
+
 const PR_CONTENT_SCHEMA = {
     type: 'object',
     properties: {
@@ -142,9 +206,9 @@ const PR_CONTENT_SCHEMA = {
 } as const;
 
 /**
- * Generate a pull request title and body via the OpenAI structured-output API
+ * Generate a pull request title and body via the provider's structured-output API
  *
- * @param context - Shared OpenAI operation context
+ * @param context - Shared LLM operation context
  * @param diff - The pull request diff used as input
  * @param language - The natural language identifier for the output
  * @param template - Optional template to guide the generated PR content
@@ -162,14 +226,15 @@ export async function generatePRContentOp(
         const userPrompt = await context.promptService.createPRPrompt(diff, language, template);
         const systemPrompt = getPrompt(language as SupportedLanguage, PromptType.System);
 
-        const result = await requestStructuredCompletion<{ title: string; body: string }>({
-            openai: context.openai,
-            model: context.model,
+        const result = await context.provider.requestStructured<{ title: string; body: string }>({
+            model: context.getModel('pr'),
             systemPrompt,
             userPrompt,
             reasoningEffort: context.getReasoningEffort(),
             schemaName: 'pr_content',
             schema: PR_CONTENT_SCHEMA,
+            signal: context.signal,
+            onText: context.onText,
         });
 
         if (!result || !result.title || !result.body) {
@@ -197,10 +262,10 @@ export async function generatePRContentOp(
 }
 
 /**
- * Run a generic chat completion against the configured OpenAI model
+ * Run a generic chat completion against the configured model
  *
- * @param context - Shared OpenAI operation context
- * @param params - Prompt text and optional token limit
+ * @param context - Shared LLM operation context
+ * @param params - Prompt text, optional token limit and the operation whose model to use
  * @param language - The natural language identifier for the system prompt
  * @returns The completion text, or undefined on failure
  */
@@ -209,20 +274,26 @@ export async function createChatCompletionOp(
     params: {
         prompt: string;
         maxTokens?: number;
+        operation?: ModelOperation;
     },
     language: string,
 ): Promise<string | undefined> {
     try {
-        context.logger.info('Creating chat completion', { model: context.model, language });
+        const model = context.getModel(params.operation);
+        context.logger.info('Creating chat completion', { model, language });
 
         const systemPrompt = getPrompt(language as SupportedLanguage, PromptType.System);
-        const response = await requestTextCompletion({
-            openai: context.openai,
-            model: context.model,
+        const response = await context.provider.requestText({
+            model,
             systemPrompt,
             userPrompt: params.prompt,
             reasoningEffort: context.getReasoningEffort(),
-            maxCompletionTokens: params.maxTokens ?? 1000,
+            maxCompletionTokens: Math.min(
+                params.maxTokens ?? 1000,
+                getModelCapabilities(model).maxOutputTokens,
+            ),
+            signal: context.signal,
+            onText: context.onText,
         });
 
         context.logger.info('Chat completion created successfully');
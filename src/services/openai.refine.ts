@@ -0,0 +1,55 @@
+import type { SupportedLanguage } from '../languages';
+import { getPrompt } from '../languages/prompts';
+import { PromptType } from '../types/enums/PromptType';
+import { t } from '../i18n/index.js';
+import { isUserAbortError } from '../utils/errorGuards';
+import type { OpenAIOpsContext } from './openai.ops';
+import { TokenManager } from './tokenManager';
+
+/**
+ * Rewrite a commit message according to a free-form user instruction
+ *
+ * @param context - Shared LLM operation context
+ * @param input - Current message, staged diff, instruction and output language
+ * @returns The rewritten message, or undefined on failure
+ */
+export async function refineCommitMessageOp(
+    context: OpenAIOpsContext,
+    input: { message: string; diff: string; instruction: string; language: string },
+): Promise<string | undefined> {
+    try {
+        context.logger.info('Refining commit message', { language: input.language });
+
+        const model = context.getModel('commit');
+        const message = await context.provider.requestText({
+            model,
+            systemPrompt: getPrompt(input.language as SupportedLanguage, PromptType.System),
+            userPrompt: context.promptService.createRefineCommitMessagePrompt(
+                input.message,
+                input.diff,
+                input.instruction,
+                input.language,
+            ),
+            reasoningEffort: context.getReasoningEffort(),
+            maxCompletionTokens: TokenManager.getOutputTokens(model).COMMIT_MESSAGE,
+            signal: context.signal,
+        });
+
+        if (!message?.trim()) {
+            context.logger.warning('Empty refined commit message returned from API');
+            return undefined;
+        }
+        return message.trimStart();
+    } catch (error) {
+        if (isUserAbortError(error)) {
+            throw error;
+        }
+        context.logger.error('Failed to refine commit message', error);
+        if (context.isAuthenticationError(error)) {
+            await context.onAuthError();
+            return undefined;
+        }
+        context.showError(t('errors.failedToRefineCommitMessage'), error);
+        return undefined;
+    }
+}
@@ -0,0 +1,71 @@
+import type { SupportedLanguage } from '../languages';
+import { getPrompt } from '../languages/prompts';
+import { PromptType } from '../types/enums/PromptType';
+import { t } from '../i18n/index.js';
+import { isUserAbortError } from '../utils/errorGuards';
+import { normalizeReleaseNotesBody } from '../utils/releaseNotes';
+import type { OpenAIOpsContext } from './openai.ops';
+import { TokenManager } from './tokenManager';
+
+/**
+ * Input for {@link generateReleaseNotesOp}
+ */
+export interface ReleaseNotesInput {
+    /** Commits grouped by section, type and scope (see `formatReleaseNoteGroups`) */
+    groupedCommits: string;
+    /** Refs the release spans, such as `v1.2.0..v1.3.0` */
+    range: string;
+    language: string;
+}
+
+/**
+ * Write the body of a Keep a Changelog release section from grouped commits
+ *
+ * @param context - Shared LLM operation context
+ * @param input - Grouped commits, release range and output language
+ * @returns The `### Added`/`### Fixed`/... blocks, or undefined on failure
+ */
+export async function generateReleaseNotesOp(
+    context: OpenAIOpsContext,
+    input: ReleaseNotesInput,
+): Promise<string | undefined> {
+    try {
+        context.logger.info('Generating release notes', {
+            range: input.range,
+            language: input.language,
+        });
+
+        const model = context.getModel('pr');
+        const notes = await context.provider.requestText({
+            model,
+            systemPrompt: getPrompt(input.language as SupportedLanguage, PromptType.System),
+            userPrompt: context.promptService.createReleaseNotesPrompt(
+                input.groupedCommits,
+                input.range,
+                input.language,
+            ),
+            reasoningEffort: context.getReasoningEffort(),
+            maxCompletionTokens: TokenManager.getOutputTokens(model).PR_BODY,
+            signal: context.signal,
+            onText: context.onText,
+        });
+
+        const body = notes ? normalizeReleaseNotesBody(notes) : '';
+        if (!body) {
+            context.logger.warning('Empty release notes returned from API');
+            return undefined;
+        }
+        return body;
+    } catch (error) {
+        if (isUserAbortError(error)) {
+            throw error;
+        }
+        context.logger.error('Failed to generate release notes', error);
+        if (context.isAuthenticationError(error)) {
+            await context.onAuthError();
+            return undefined;
+        }
+        context.showError(t('errors.failedToGenerateReleaseNotes'), error);
+        return undefined;
+    }
+}
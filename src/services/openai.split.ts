@@ -0,0 +1,78 @@
+import type { SupportedLanguage } from '../languages';
+import { getPrompt } from '../languages/prompts';
+import { PromptType } from '../types/enums/PromptType';
+import { t } from '../i18n/index.js';
+import { isUserAbortError } from '../utils/errorGuards';
+import type { CommitSplitPlan } from '../utils/commitSplit';
+import type { OpenAIOpsContext } from './openai.ops';
+
+const COMMIT_SPLIT_SCHEMA = {
+    type: 'object',
+    properties: {
+        commits: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    message: { type: 'string', description: 'Commit message (subject and body)' },
+                    units: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Ids of the change units in this commit',
+                    },
+                },
+                required: ['message', 'units'],
+                additionalProperties: false,
+            },
+        },
+    },
+    required: ['commits'],
+    additionalProperties: false,
+} as const;
+
+/**
+ * Ask the model to group staged change units into logical commits
+ *
+ * @param context - Shared LLM operation context
+ * @param changeUnits - Change units formatted with their ids
+ * @param language - The natural language identifier for the messages
+ * @returns The unvalidated plan, or undefined on failure
+ */
+export async function proposeCommitSplitOp(
+    context: OpenAIOpsContext,
+    changeUnits: string,
+    language: string,
+): Promise<CommitSplitPlan | undefined> {
+    try {
+        context.logger.info('Proposing commit split', { language });
+
+        const plan = await context.provider.requestStructured<CommitSplitPlan>({
+            model: context.getModel('commit'),
+            systemPrompt: getPrompt(language as SupportedLanguage, PromptType.System),
+            userPrompt: context.promptService.createCommitSplitPrompt(changeUnits, language),
+            reasoningEffort: context.getReasoningEffort(),
+            schemaName: 'commit_split',
+            schema: COMMIT_SPLIT_SCHEMA,
+            signal: context.signal,
+        });
+
+        if (!plan?.commits?.length) {
+            context.logger.warning('Empty commit split returned from API');
+            return undefined;
+        }
+
+        context.logger.info(`Model proposed ${plan.commits.length} commit(s)`);
+        return plan;
+    } catch (error) {
+        if (isUserAbortError(error)) {
+            throw error;
+        }
+        context.logger.error('Failed to propose commit split', error);
+        if (context.isAuthenticationError(error)) {
+            await context.onAuthError();
+            return undefined;
+        }
+        context.showError(t('errors.failedToProposeCommitSplit'), error);
+        return undefined;
+    }
+}
@@ -0,0 +1,86 @@
+import type { SupportedLanguage } from '../languages';
+import { getPrompt } from '../languages/prompts';
+import { TemplateInfo } from '../types';
+import { MessageStyle } from '../types/enums/MessageStyle';
+import { PromptType } from '../types/enums/PromptType';
+import { t } from '../i18n/index.js';
+import type { CommitLintOptions } from '../utils/commitLint';
+import { isUserAbortError } from '../utils/errorGuards';
+import { repairCommitMessageLintOp } from './openai.lint';
+import type { OpenAIOpsContext } from './openai.ops';
+import { TokenManager } from './tokenManager';
+
+/**
+ * Input for {@link generateSquashCommitMessageOp}
+ */
+export interface SquashCommitMessageInput {
+    /** Combined diff of the commits being squashed */
+    diff: string;
+    /** Messages of the commits being squashed, oldest first */
+    messages: string[];
+    language: string;
+    messageStyle: MessageStyle | string;
+    template?: TemplateInfo;
+    lint?: CommitLintOptions;
+}
+
+/**
+ * Generate one consolidated message for a range of commits being squashed
+ *
+ * @param context - Shared LLM operation context
+ * @param input - Combined diff, individual messages and generation options
+ * @returns The consolidated commit message, or undefined on failure
+ */
+export async function generateSquashCommitMessageOp(
+    context: OpenAIOpsContext,
+    input: SquashCommitMessageInput,
+): Promise<string | undefined> {
+    const { diff, messages, language, messageStyle, template, lint } = input;
+    try {
+        context.logger.info('Generating squash commit message', {
+            commits: messages.length,
+            language,
+        });
+
+        const model = context.getModel('commit');
+        const message = await context.provider.requestText({
+            model,
+            systemPrompt: getPrompt(language as SupportedLanguage, PromptType.System),
+            userPrompt: await context.promptService.createSquashCommitPrompt(
+                diff,
+                messages,
+                language,
+                messageStyle,
+                template,
+            ),
+            reasoningEffort: context.getReasoningEffort(),
+            maxCompletionTokens: TokenManager.getOutputTokens(model).COMMIT_MESSAGE,
+            signal: context.signal,
+            onText: context.onText,
+        });
+
+        if (!message?.trim()) {
+            context.logger.warning('Empty squash commit message returned from API');
+            return undefined;
+        }
+        return lint
+            ? await repairCommitMessageLintOp(context, {
+                  message: message.trim(),
+                  diff,
+                  language,
+                  lint,
+              })
+            : message.trimStart();
+    } catch (error) {
+        if (isUserAbortError(error)) {
+            throw error;
+        }
+        context.logger.error('Failed to generate squash commit message', error);
+        if (context.isAuthenticationError(error)) {
+            await context.onAuthError();
+            return undefined;
+        }
+        context.showError(t('errors.failedToGenerateCommitMessage'), error);
+        return undefined;
+    }
+}
@@ -0,0 +1,71 @@
+import type { SupportedLanguage } from '../languages';
+import { getPrompt } from '../languages/prompts';
+import { PromptType } from '../types/enums/PromptType';
+import { t } from '../i18n/index.js';
+import { isUserAbortError } from '../utils/errorGuards';
+import type { OpenAIOpsContext } from './openai.ops';
+import { TokenManager } from './tokenManager';
+
+/**
+ * Input for {@link generateTagMessageOp}
+ */
+export interface TagMessageInput {
+    /** Name of the tag being created */
+    tag: string;
+    /** Commits since the previous release, grouped (see `formatReleaseNoteGroups`) */
+    groupedCommits: string;
+    /** Why this version was chosen, one reason per line */
+    justification: string;
+    language: string;
+}
+
+/**
+ * Write the message of an annotated release tag
+ *
+ * @param context - Shared LLM operation context
+ * @param input - Tag name, grouped commits, version justification and output language
+ * @returns The tag message, or undefined on failure
+ */
+export async function generateTagMessageOp(
+    context: OpenAIOpsContext,
+    input: TagMessageInput,
+): Promise<string | undefined> {
+    try {
+        context.logger.info('Generating tag message', {
+            tag: input.tag,
+            language: input.language,
+        });
+
+        const model = context.getModel('commit');
+        const message = await context.provider.requestText({
+            model,
+            systemPrompt: getPrompt(input.language as SupportedLanguage, PromptType.System),
+            userPrompt: context.promptService.createTagMessagePrompt(
+                input.tag,
+                input.groupedCommits,
+                input.justification,
+                input.language,
+            ),
+            reasoningEffort: context.getReasoningEffort(),
+            maxCompletionTokens: TokenManager.getOutputTokens(model).COMMIT_MESSAGE,
+            signal: context.signal,
+        });
+
+        if (!message?.trim()) {
+            context.logger.warning('Empty tag message returned from API');
+            return undefined;
+        }
+        return message.trim();
+    } catch (error) {
+        if (isUserAbortError(error)) {
+            throw error;
+        }
+        context.logger.error('Failed to generate tag message', error);
+        if (context.isAuthenticationError(error)) {
+            await context.onAuthError();
+            return undefined;
+        }
+        context.showError(t('errors.failedToGenerateTagMessage'), error);
+        return undefined;
+    }
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
-import { ServiceConfig } from '../types';
+import { LLMProviderId, ServiceConfig } from '../types';
+import { getServiceConfig } from '../utils';
 import { StorageManager } from '../infrastructure/storage';
 import { Logger } from '../infrastructure/logging';
 import { ErrorHandler } from '../infrastructure/error';
@@ -11,7 +12,8 @@ import {
     promptForValidationFailure,
     showApiKeyErrorDialog,
 } from './openaiApiKeyDialogs';
-import { validateApiKey, type ValidateApiKeyResult } from './openaiValidation';
+import { type ValidateApiKeyResult } from './openaiValidation';
+import { createLLMProvider, providerRequiresApiKey } from './llm.factory';
 
 const MAX_INITIALIZATION_ATTEMPTS = 3;
 
@@ -19,11 +21,28 @@ export { showApiKeyErrorDialog } from './openaiApiKeyDialogs';
 
 type ValidationDecision = 'valid' | 'retry' | 'reset-key' | 'stop';
 
+let baseUrlOverride: string | undefined;
+
 /**
- * Initializes an OpenAI-backed service instance with interactive API key handling.
+ * Send the requests of services initialized from now on to another endpoint
+ *
+ * Integration tests use this to run the workflows against a local stand-in
+ * for the OpenAI API. While an override is set it takes precedence over
+ * `otakCommitter.baseUrl`.
+ *
+ * @param baseUrl - Endpoint such as `http://127.0.0.1:4010/v1`; undefined restores the setting
+ */
+export function setOpenAIBaseUrlOverride(baseUrl: string | undefined): void {
+    baseUrlOverride = baseUrl;
+}
+
+/**
+ * Initializes an LLM-backed service instance with interactive API key handling.
  *
  * Behavior:
- * - If an API key is missing, prompts the user to configure it via `otak-committer.setApiKey`.
+ * - Reads the API key of the provider selected by `otakCommitter.provider`.
+ * - If an API key is missing, prompts the user to configure it via `otak-committer.setApiKey`;
+ *   providers that run without authentication (Ollama, OpenAI-compatible) skip the prompt.
  * - Validates the key once per session (cached by SHA-256 hash).
  * - Differentiates auth errors (401) from transient issues (network/rate-limit/server).
  *
@@ -42,6 +61,11 @@ export async function initializeOpenAIService<T>(
     try {
         logger.info('Initializing OpenAI service');
 
+        const serviceConfig: Partial<ServiceConfig> = baseUrlOverride
+            ? { ...config, baseUrl: baseUrlOverride }
+            : { ...config };
+        const settings: Partial<ServiceConfig> = { ...getServiceConfig(), ...serviceConfig };
+        const provider: LLMProviderId = settings.provider ?? 'openai';
         const providedKey = config?.openaiApiKey;
         let apiKey = providedKey?.trim();
         const storage = context ? new StorageManager(context) : undefined;
@@ -60,12 +84,19 @@ export async function initializeOpenAIService<T>(
         for (let attempts = 0; attempts < MAX_INITIALIZATION_ATTEMPTS; attempts++) {
             // Try storage only if an API key wasn't provided explicitly.
             if (!apiKey && storage) {
-                apiKey = (await storage.getApiKey('openai'))?.trim();
+                apiKey = (await storage.getApiKey(provider))?.trim();
+            }
+
+            // Local servers can run without authentication.
+            if (!apiKey && !providerRequiresApiKey(provider)) {
+                const service = await createService({ ...serviceConfig, openaiApiKey: undefined });
+                logger.info(`${provider} service initialized without an API key`);
+                return service;
             }
 
             // If still no API key, offer to configure via the dedicated command.
             if (!apiKey && storage) {
-                apiKey = await promptForConfiguredApiKey(storage, logger);
+                apiKey = await promptForConfiguredApiKey(storage, provider, logger);
                 if (!apiKey) {
                     return undefined;
                 }
@@ -78,7 +109,7 @@ export async function initializeOpenAIService<T>(
             }
 
             const validationDecision = await ensureApiKeyValidated(
-                apiKey,
+                { ...settings, provider, openaiApiKey: apiKey },
                 isExplicitKey,
                 storage,
                 logger,
@@ -94,7 +125,7 @@ export async function initializeOpenAIService<T>(
                 continue;
             }
 
-            const service = await createService({ ...config, openaiApiKey: apiKey });
+            const service = await createService({ ...serviceConfig, openaiApiKey: apiKey });
             logger.info('OpenAI service initialized successfully');
             return service;
         }
@@ -123,6 +154,7 @@ export async function initializeOpenAIService<T>(
 
 async function promptForConfiguredApiKey(
     storage: StorageManager,
+    provider: LLMProviderId,
     logger: Logger,
 ): Promise<string | undefined> {
     const action = await promptForMissingApiKey();
@@ -134,7 +166,7 @@ async function promptForConfiguredApiKey(
 
     if (action === 'set') {
         await vscode.commands.executeCommand('otak-committer.setApiKey');
-        const apiKey = (await storage.getApiKey('openai'))?.trim();
+        const apiKey = (await storage.getApiKey(provider))?.trim();
         if (apiKey) {
             return apiKey;
         }
@@ -145,11 +177,12 @@ async function promptForConfiguredApiKey(
 }
 
 async function ensureApiKeyValidated(
-    apiKey: string,
+    settings: Partial<ServiceConfig> & { provider: LLMProviderId; openaiApiKey: string },
     isExplicitKey: boolean,
     storage: StorageManager | undefined,
     logger: Logger,
 ): Promise<ValidationDecision> {
+    const apiKey = settings.openaiApiKey;
     if (isApiKeyValidated(apiKey)) {
         return 'valid';
     }
@@ -160,7 +193,7 @@ async function ensureApiKeyValidated(
             title: t('apiKey.validating'),
             cancellable: false,
         },
-        async () => validateApiKey(apiKey),
+        async () => validateProviderApiKey(settings),
     );
 
     if (validation.ok) {
@@ -173,16 +206,36 @@ async function ensureApiKeyValidated(
         return 'stop';
     }
 
-    return handleStoredKeyValidationFailure(validation, apiKey, storage);
+    return handleStoredKeyValidationFailure(validation, apiKey, settings.provider, storage);
+}
+
+async function validateProviderApiKey(
+    settings: Partial<ServiceConfig> & { provider: LLMProviderId; openaiApiKey: string },
+): Promise<ValidateApiKeyResult> {
+    try {
+        const provider = createLLMProvider({
+            provider: settings.provider,
+            apiKey: settings.openaiApiKey,
+            model: settings.model,
+            baseUrl: settings.baseUrl,
+            azureApiVersion: settings.azureApiVersion,
+        });
+        return await provider.validateApiKey();
+    } catch (error) {
+        // Misconfiguration (e.g. missing endpoint) is reported like any other failure.
+        const reason = error instanceof Error ? error.message : String(error);
+        return { ok: false, kind: 'unknown', reason };
+    }
 }
 
 async function handleStoredKeyValidationFailure(
     validation: ValidateApiKeyResult & { ok: false },
     apiKey: string,
+    provider: LLMProviderId,
     storage: StorageManager,
 ): Promise<ValidationDecision> {
     if (validation.kind === 'auth') {
-        return handleInvalidStoredKey(storage);
+        return handleInvalidStoredKey(storage, provider);
     }
 
     const action = await promptForValidationFailure(formatValidationReason(validation));
@@ -200,7 +253,10 @@ async function handleStoredKeyValidationFailure(
     return 'stop';
 }
 
-async function handleInvalidStoredKey(storage: StorageManager): Promise<ValidationDecision> {
+async function handleInvalidStoredKey(
+    storage: StorageManager,
+    provider: LLMProviderId,
+): Promise<ValidationDecision> {
     const action = await promptForInvalidStoredApiKey();
 
     if (action === 'diagnose') {
@@ -209,7 +265,7 @@ async function handleInvalidStoredKey(storage: StorageManager): Promise<Validati
     }
 
     if (action === 'remove') {
-        await storage.deleteApiKey('openai');
+        await storage.deleteApiKey(provider);
         vscode.window.showInformationMessage(t('apiKey.removed'));
         return 'stop';
     }
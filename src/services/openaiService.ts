@@ -1,52 +1,89 @@
 import * as vscode from 'vscode';
-import OpenAI from 'openai';
 import { BaseService } from './base';
 import { PromptService } from './prompt';
-import { ServiceConfig, TemplateInfo } from '../types';
+import { ModelOperation, ServiceConfig, TemplateInfo, UsageOperation } from '../types';
 import { MessageStyle } from '../types/enums/MessageStyle';
 import { PullRequestDiff } from '../types/interfaces/GitHub';
+import type { CommitSplitPlan } from '../utils/commitSplit';
+import type { CommitLintOptions } from '../utils/commitLint';
 import { invalidateValidatedApiKey } from './openaiKeyValidationCache';
 import { initializeOpenAIService, showApiKeyErrorDialog } from './openaiInitialize';
+import { createLLMProvider, providerRequiresApiKey, resolveReasoningEffort } from './llm.factory';
+import { RetryAttempt, RetryingLLMProvider } from './llm.retry';
+import { UsageRecordingProvider } from './llm.usage';
+import { CachingLLMProvider } from './llm.cache';
+import { UsageTracker } from './usageTracker';
+import { createResponseCache, ResponseCache } from './responseCache';
+import { ConfigManager } from '../infrastructure/config/ConfigManager';
+import type { LLMProvider } from './llm.types';
 import {
     createChatCompletionOp,
     generateCommitMessageOp,
     generatePRContentOp,
+    mergeSummariesOp,
     summarizeChunkOp,
 } from './openai.ops';
+import { combineCommitMessagesOp, generateCommitMessageCandidatesOp } from './openai.candidates';
+import { refineCommitMessageOp } from './openai.refine';
+import { AmendCommitMessageInput, generateAmendCommitMessageOp } from './openai.amend';
+import { generateSquashCommitMessageOp, SquashCommitMessageInput } from './openai.squash';
+import { proposeCommitSplitOp } from './openai.split';
+import { generateReleaseNotesOp, ReleaseNotesInput } from './openai.releaseNotes';
+import { generateTagMessageOp, TagMessageInput } from './openai.tagMessage';
+import { isAuthenticationError } from '../utils/errorGuards';
+import { reportProgress } from '../utils/progressReporter';
+import { t } from '../i18n/index.js';
 
 /**
- * High-level service that wraps the OpenAI client for commit message,
+ * High-level service that wraps the configured LLM provider for commit message,
  * PR content, summarization, and chat completion operations
+ *
+ * The class keeps its historical name; the backend (OpenAI, Azure OpenAI,
+ * Anthropic, Ollama or an OpenAI-compatible server) is chosen by
+ * `otakCommitter.provider`.
  */
 export class OpenAIService extends BaseService {
-    protected openai: OpenAI;
+    protected provider: LLMProvider;
     private promptService: PromptService;
-    private static readonly MODEL = 'gpt-5.4';
 
-    constructor(config?: Partial<ServiceConfig>) {
+    /**
+     * @param config - Service settings; unset values are read from the configuration
+     * @param usage - Records the tokens of every request; omitted outside VS Code
+     * @param cache - Answers repeated commit, PR and summary requests; omitted outside VS Code
+     */
+    constructor(
+        config?: Partial<ServiceConfig>,
+        private readonly usage?: UsageTracker,
+        private readonly cache?: ResponseCache,
+    ) {
         super(config);
-        this.validateState(!!this.config.openaiApiKey, 'OpenAI API key is required');
-        this.openai = new OpenAI({ apiKey: this.config.openaiApiKey });
+        const providerId = this.config.provider ?? 'openai';
+        this.validateState(
+            !!this.config.openaiApiKey || !providerRequiresApiKey(providerId),
+            'OpenAI API key is required',
+        );
+        this.provider = new RetryingLLMProvider(
+            createLLMProvider({
+                provider: providerId,
+                apiKey: this.config.openaiApiKey,
+                model: this.config.model,
+                baseUrl: this.config.baseUrl,
+                azureApiVersion: this.config.azureApiVersion,
+            }),
+            { onRetry: (retry) => this.reportRetry(retry) },
+        );
         this.promptService = new PromptService();
     }
 
-    private isAuthenticationError(error: unknown): boolean {
-        if (
-            typeof error === 'object' &&
-            error !== null &&
-            'status' in error &&
-            error.status === 401
-        ) {
-            return true;
-        }
-
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        const lower = errorMessage.toLowerCase();
-        return (
-            lower.includes('unauthorized') ||
-            lower.includes('authentication') ||
-            lower.includes('api key')
+    private reportRetry(retry: RetryAttempt): void {
+        const seconds = Math.max(1, Math.ceil(retry.delayMs / 1000));
+        this.logger.warning(
+            `${this.provider.id} request failed (${retry.status ?? 'no response'}), ` +
+                `retry ${retry.attempt}/${retry.maxRetries} in ${seconds}s`,
+            retry.error,
         );
+        const key = retry.status === 429 ? 'progress.rateLimitedRetry' : 'progress.retryingRequest';
+        reportProgress(t(key, { seconds, attempt: retry.attempt, max: retry.maxRetries }));
     }
 
     private async promptToUpdateApiKey(): Promise<void> {
@@ -57,9 +94,19 @@ export class OpenAIService extends BaseService {
         await showApiKeyErrorDialog();
     }
 
+    /**
+     * Get the model used for an operation
+     *
+     * @param operation - Operation type; omitted means the general `otakCommitter.model`
+     * @returns The per-operation override, or the provider's configured/default model
+     */
+    getModel(operation?: ModelOperation): string {
+        const override = operation ? this.config.models?.[operation]?.trim() : undefined;
+        return override || this.provider.defaultModel;
+    }
+
     private getReasoningEffort(): 'low' | 'medium' | 'high' | undefined {
-        const effort = this.config.reasoningEffort || 'low';
-        return effort === 'none' ? undefined : effort;
+        return resolveReasoningEffort(this.provider.id, this.config.reasoningEffort);
     }
 
     async generateCommitMessage(
@@ -68,70 +115,235 @@ export class OpenAIService extends BaseService {
         messageStyle: MessageStyle | string,
         template?: TemplateInfo,
         signal?: AbortSignal,
+        lint?: CommitLintOptions,
+        onText?: (text: string) => void,
     ): Promise<string | undefined> {
         return generateCommitMessageOp(
-            this.getOpsContext(signal),
+            this.getOpsContext('commit', signal, onText, true),
             diff,
             language,
             messageStyle,
             template,
+            lint,
         );
     }
 
+    /**
+     * Generate one commit message candidate per requested style
+     *
+     * @returns The unique candidates; empty if generation failed
+     */
+    async generateCommitMessageCandidates(
+        diff: string,
+        language: string,
+        styles: string[],
+        template?: TemplateInfo,
+        signal?: AbortSignal,
+    ): Promise<string[]> {
+        return generateCommitMessageCandidatesOp(
+            this.getOpsContext('commit', signal),
+            diff,
+            language,
+            styles,
+            template,
+        );
+    }
+
+    /**
+     * Merge the given commit message candidates into one message
+     */
+    async combineCommitMessages(
+        candidates: string[],
+        language: string,
+        signal?: AbortSignal,
+    ): Promise<string | undefined> {
+        return combineCommitMessagesOp(this.getOpsContext('commit', signal), candidates, language);
+    }
+
+    /**
+     * Rewrite a commit message according to a free-form instruction
+     */
+    async refineCommitMessage(
+        input: { message: string; diff: string; instruction: string; language: string },
+        signal?: AbortSignal,
+    ): Promise<string | undefined> {
+        return refineCommitMessageOp(this.getOpsContext('commit', signal), input);
+    }
+
+    /**
+     * Generate a new message for the last commit from its diff and current message
+     */
+    async generateAmendCommitMessage(
+        input: AmendCommitMessageInput,
+        signal?: AbortSignal,
+    ): Promise<string | undefined> {
+        return generateAmendCommitMessageOp(this.getOpsContext('commit', signal), input);
+    }
+
+    /**
+     * Generate one message for several commits from their combined diff and messages
+     *
+     * @param onText - Receives the message as it streams in
+     */
+    async generateSquashCommitMessage(
+        input: SquashCommitMessageInput,
+        signal?: AbortSignal,
+        onText?: (text: string) => void,
+    ): Promise<string | undefined> {
+        return generateSquashCommitMessageOp(this.getOpsContext('commit', signal, onText), input);
+    }
+
+    /**
+     * Write a Keep a Changelog release section body from grouped commits
+     */
+    async generateReleaseNotes(
+        input: ReleaseNotesInput,
+        signal?: AbortSignal,
+        onText?: (text: string) => void,
+    ): Promise<string | undefined> {
+        return generateReleaseNotesOp(this.getOpsContext('releaseNotes', signal, onText), input);
+    }
+
+    /**
+     * Write the message of an annotated release tag
+     */
+    async generateTagMessage(
+        input: TagMessageInput,
+        signal?: AbortSignal,
+    ): Promise<string | undefined> {
+        return generateTagMessageOp(this.getOpsContext('commit', signal), input);
+    }
+
+    /**
+     * Group staged change units into logical commits with a message each
+     */
+    async proposeCommitSplit(
+        changeUnits: string,
+        language: string,
+        signal?: AbortSignal,
+    ): Promise<CommitSplitPlan | undefined> {
+        return proposeCommitSplitOp(this.getOpsContext('commit', signal), changeUnits, language);
+    }
+
     async summarizeChunk(
         chunkContent: string,
         language: string,
         signal?: AbortSignal,
     ): Promise<string | undefined> {
-        return summarizeChunkOp(this.getOpsContext(signal), chunkContent, language);
+        return summarizeChunkOp(
+            this.getOpsContext('summarize', signal, undefined, true),
+            chunkContent,
+            language,
+        );
+    }
+
+    async mergeSummaries(
+        summaries: string,
+        language: string,
+        signal?: AbortSignal,
+    ): Promise<string | undefined> {
+        return mergeSummariesOp(
+            this.getOpsContext('summarize', signal, undefined, true),
+            summaries,
+            language,
+        );
     }
 
     async generatePRContent(
         diff: PullRequestDiff,
         language: string,
         template?: TemplateInfo,
+        onText?: (json: string) => void,
     ): Promise<{ title: string; body: string } | undefined> {
-        return generatePRContentOp(this.getOpsContext(), diff, language, template);
+        return generatePRContentOp(
+            this.getOpsContext('pr', undefined, onText, true),
+            diff,
+            language,
+            template,
+        );
     }
 
-    async createChatCompletion(params: {
-        prompt: string;
-        maxTokens?: number;
-    }): Promise<string | undefined> {
+    async createChatCompletion(
+        params: {
+            prompt: string;
+            maxTokens?: number;
+            operation?: ModelOperation;
+        },
+        onText?: (text: string) => void,
+    ): Promise<string | undefined> {
         const language = this.config.language || 'english';
-        return createChatCompletionOp(this.getOpsContext(), params, language);
+        // The issue generator is the only caller of free-form chat completions
+        const context = this.getOpsContext(params.operation ?? 'issue', undefined, onText);
+        return createChatCompletionOp(context, params, language);
     }
 
     async validateApiKey(): Promise<boolean> {
-        try {
-            this.logger.debug('Validating OpenAI API key');
-            await this.openai.models.list();
-            this.logger.info('OpenAI API key validated successfully');
+        this.logger.debug(`Validating ${this.provider.id} API key`);
+        const result = await this.provider.validateApiKey();
+        if (result.ok) {
+            this.logger.info(`${this.provider.id} API key validated successfully`);
             return true;
-        } catch (error) {
-            this.logger.warning('OpenAI API key validation failed', error);
-            return false;
         }
+        this.logger.warning(`${this.provider.id} API key validation failed`, result);
+        return false;
     }
 
     static async initialize(
         config?: Partial<ServiceConfig>,
         context?: vscode.ExtensionContext,
     ): Promise<OpenAIService | undefined> {
-        return initializeOpenAIService(config, context, async (cfg) => new OpenAIService(cfg));
+        const settings = new ConfigManager();
+        const usage = context && new UsageTracker(context.globalState, settings);
+        const cache = context && createResponseCache(context.globalStorageUri, settings);
+        return initializeOpenAIService(
+            config,
+            context,
+            async (cfg) => new OpenAIService(cfg, usage, cache),
+        );
+    }
+
+    private getProvider(operation: UsageOperation, cached: boolean): LLMProvider {
+        const usage = this.usage;
+        const provider = usage
+            ? new UsageRecordingProvider(this.provider, {
+                  beforeRequest: () => usage.confirmBudget(),
+                  onUsage: (model, tokens) => void usage.record(operation, model, tokens),
+              })
+            : this.provider;
+        // Cached responses cost nothing, so they skip the budget check and usage
+        return this.cache && cached
+            ? new CachingLLMProvider(provider, this.cache, {
+                  provider: this.provider.id,
+                  baseUrl: this.config.baseUrl,
+                  azureApiVersion: this.config.azureApiVersion,
+              })
+            : provider;
     }
 
-    private getOpsContext(signal?: AbortSignal) {
+    /**
+     * Dependencies of an operation; its requests are recorded under `operation`
+     *
+     * Only the main commit message, PR and summary requests pass `cached`:
+     * interactive flows such as regenerating candidates or refining a message
+     * ask for a new answer to the same request.
+     */
+    private getOpsContext(
+        operation: UsageOperation,
+        signal?: AbortSignal,
+        onText?: (text: string) => void,
+        cached = false,
+    ) {
         return {
-            openai: this.openai,
+            provider: this.getProvider(operation, cached),
             promptService: this.promptService,
             logger: this.logger,
-            model: OpenAIService.MODEL,
+            getModel: (operation?: ModelOperation) => this.getModel(operation),
             getReasoningEffort: () => this.getReasoningEffort(),
             onAuthError: () => this.promptToUpdateApiKey(),
             showError: (message: string, error?: unknown) => this.showError(message, error),
-            isAuthenticationError: (error: unknown) => this.isAuthenticationError(error),
+            isAuthenticationError,
             signal,
+            onText,
         };
     }
 }
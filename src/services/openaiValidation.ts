@@ -87,6 +87,40 @@ function getRetryAfterSeconds(error: unknown): number | undefined {
     return undefined;
 }
 
+/**
+ * Categorize an error raised while checking an API key
+ *
+ * Works with OpenAI SDK errors and `LLMProviderError`, both of which expose
+ * `status` and `headers`.
+ *
+ * @param error - The error thrown by the validation request
+ * @param apiKey - The API key, redacted from the failure reason
+ * @returns A categorized failure result
+ */
+export function classifyApiKeyError(
+    error: unknown,
+    apiKey: string,
+): ValidateApiKeyResult & { ok: false } {
+    const status = getErrorStatus(error);
+    const reason = redactApiKey(getErrorMessage(error) || 'Unknown error', apiKey);
+    const retryAfterSeconds = getRetryAfterSeconds(error);
+
+    if (status === 401) {
+        return { ok: false, kind: 'auth', status, reason };
+    }
+    if (status === 429) {
+        return { ok: false, kind: 'rate_limit', status, reason, retryAfterSeconds };
+    }
+    if (typeof status === 'number' && status >= 500) {
+        return { ok: false, kind: 'server', status, reason, retryAfterSeconds };
+    }
+    if (status === undefined || status === 0) {
+        return { ok: false, kind: 'network', status, reason };
+    }
+
+    return { ok: false, kind: 'unknown', status, reason, retryAfterSeconds };
+}
+
 /**
  * Validate an OpenAI API key by issuing a lightweight authenticated request
  *
@@ -99,23 +133,6 @@ export async function validateApiKey(apiKey: string): Promise<ValidateApiKeyResu
         await client.models.list();
         return { ok: true };
     } catch (error) {
-        const status = getErrorStatus(error);
-        const reason = redactApiKey(getErrorMessage(error) || 'Unknown error', apiKey);
-        const retryAfterSeconds = getRetryAfterSeconds(error);
-
-        if (status === 401) {
-            return { ok: false, kind: 'auth', status, reason };
-        }
-        if (status === 429) {
-            return { ok: false, kind: 'rate_limit', status, reason, retryAfterSeconds };
-        }
-        if (typeof status === 'number' && status >= 500) {
-            return { ok: false, kind: 'server', status, reason, retryAfterSeconds };
-        }
-        if (status === undefined || status === 0) {
-            return { ok: false, kind: 'network', status, reason };
-        }
-
-        return { ok: false, kind: 'unknown', status, reason, retryAfterSeconds };
+        return classifyApiKeyError(error, apiKey);
     }
 }
@@ -5,15 +5,18 @@ import { PromptGenerationOptions, sanitizeTemplateContent } from './promptConfig
 /**
  * Format a pull request diff into a human-readable change summary
  *
+ * Files marked `summaryOnly` are listed without a patch.
+ *
  * @param diff - The pull request diff with per-file additions, deletions, and patches
  * @returns A textual summary describing changed files and detailed patches
  */
 export function generateDiffSummaryContent(diff: PullRequestDiff): string {
     return `Changed files:
-${diff.files.map((file) => `- ${file.filename} (additions: ${file.additions}, deletions: ${file.deletions})`).join('\n')}
+${diff.files.map((file) => `- ${file.filename} (additions: ${file.additions}, deletions: ${file.deletions})${file.summaryOnly ? ' [content excluded]' : ''}`).join('\n')}
 
 Detailed changes:
 ${diff.files
+    .filter((file) => !file.summaryOnly)
     .map(
         (file) => `
 [${file.filename}]
@@ -3,12 +3,26 @@ import { PullRequestDiff } from '../types/interfaces/GitHub';
 import { TemplateInfo } from '../types';
 import {
     getPromptGenerationOptions,
+    PromptGenerationOptions,
     sanitizeConfigInput,
     sanitizeTemplateContent,
 } from './promptConfig';
 import { createCommitPromptContent } from './commitPrompt';
 import { createPRPromptContent, generateDiffSummaryContent } from './prPrompt';
-import { createSummarizationPromptContent } from './summarizationPrompt';
+import {
+    createSummarizationPromptContent,
+    createSummaryMergePromptContent,
+} from './summarizationPrompt';
+import { createCombineCommitMessagesPromptContent } from './commitCandidatesPrompt';
+import { createRefineCommitMessagePromptContent } from './commitRefinePrompt';
+import { createCommitSplitPromptContent } from './commitSplitPrompt';
+import { createCommitLintRepairPromptContent } from './commitLintPrompt';
+import { createAmendCommitPromptContent } from './commitAmendPrompt';
+import { createSquashCommitPromptContent } from './commitSquashPrompt';
+import {
+    createReleaseNotesPromptContent,
+    createTagMessagePromptContent,
+} from './releaseNotesPrompt';
 
 /**
  * Service for creating prompts for AI models
@@ -23,6 +37,14 @@ import { createSummarizationPromptContent } from './summarizationPrompt';
  * ```
  */
 export class PromptService {
+    /**
+     * @param getOptions - Source of prompt generation options; defaults to the
+     *                     VS Code settings, the CLI passes its own configuration
+     */
+    constructor(
+        private readonly getOptions: () => PromptGenerationOptions = getPromptGenerationOptions,
+    ) {}
+
     /**
      * Sanitize user-provided configuration input to limit prompt injection risk
      */
@@ -64,13 +86,7 @@ export class PromptService {
         messageStyle: MessageStyle | string,
         template?: TemplateInfo,
     ): Promise<string> {
-        return createCommitPromptContent(
-            diff,
-            language,
-            messageStyle,
-            template,
-            getPromptGenerationOptions(),
-        );
+        return createCommitPromptContent(diff, language, messageStyle, template, this.getOptions());
     }
 
     /**
@@ -115,7 +131,7 @@ export class PromptService {
         template?: TemplateInfo,
     ): Promise<string> {
         const diffSummary = await this.generateDiffSummary(diff);
-        return createPRPromptContent(diffSummary, language, template, getPromptGenerationOptions());
+        return createPRPromptContent(diffSummary, language, template, this.getOptions());
     }
 
     /**
@@ -128,4 +144,145 @@ export class PromptService {
     createSummarizationPrompt(chunkDiff: string, language: string): string {
         return createSummarizationPromptContent(chunkDiff, language);
     }
+
+    /**
+     * Create a prompt for merging chunk summaries (Tier 3 reduce step)
+     *
+     * @param summaries - The summaries to merge, each headed by its files
+     * @param language - The target language for the merged summary
+     * @returns The merge prompt string
+     */
+    createSummaryMergePrompt(summaries: string, language: string): string {
+        return createSummaryMergePromptContent(summaries, language);
+    }
+
+    /**
+     * Create a prompt for merging several commit message candidates into one
+     *
+     * @param candidates - The candidate commit messages to combine
+     * @param language - The target language for the combined message
+     * @returns The combination prompt string
+     */
+    createCombineCommitMessagesPrompt(candidates: string[], language: string): string {
+        return createCombineCommitMessagesPromptContent(candidates, language);
+    }
+
+    /**
+     * Create a prompt for rewriting a commit message according to a user instruction
+     *
+     * @param message - The current commit message
+     * @param diff - The staged diff the message describes
+     * @param instruction - The user's rewrite instruction
+     * @param language - The target language for the message
+     * @returns The refinement prompt string
+     */
+    createRefineCommitMessagePrompt(
+        message: string,
+        diff: string,
+        instruction: string,
+        language: string,
+    ): string {
+        return createRefineCommitMessagePromptContent(message, diff, instruction, language);
+    }
+
+    /**
+     * Create a prompt for rewriting the message of the last commit
+     *
+     * @param diff - HEAD combined with the staged changes, relative to HEAD's parent
+     * @param previousMessage - The current message of HEAD
+     * @param language - The target language for the commit message
+     * @param messageStyle - The style of the message (simple, normal, detailed)
+     * @param template - Optional commit message template
+     * @returns The amend prompt string
+     */
+    async createAmendCommitPrompt(
+        diff: string,
+        previousMessage: string,
+        language: string,
+        messageStyle: MessageStyle | string,
+        template?: TemplateInfo,
+    ): Promise<string> {
+        const commitPrompt = await this.createCommitPrompt(diff, language, messageStyle, template);
+        return createAmendCommitPromptContent(commitPrompt, previousMessage);
+    }
+
+    /**
+     * Create a prompt for one message covering several squashed commits
+     *
+     * @param diff - The combined diff of the commits
+     * @param messages - Messages of the commits, oldest first
+     * @param language - The target language for the commit message
+     * @param messageStyle - The style of the message (simple, normal, detailed)
+     * @param template - Optional commit message template
+     * @returns The squash prompt string
+     */
+    async createSquashCommitPrompt(
+        diff: string,
+        messages: string[],
+        language: string,
+        messageStyle: MessageStyle | string,
+        template?: TemplateInfo,
+    ): Promise<string> {
+        const commitPrompt = await this.createCommitPrompt(diff, language, messageStyle, template);
+        return createSquashCommitPromptContent(commitPrompt, messages);
+    }
+
+    /**
+     * Create a prompt for writing a changelog section from grouped commits
+     *
+     * @param groupedCommits - Commits grouped by section, type and scope
+     * @param range - Refs the release spans, such as `v1.2.0..v1.3.0`
+     * @param language - The target language for the entries
+     * @returns The release notes prompt string
+     */
+    createReleaseNotesPrompt(groupedCommits: string, range: string, language: string): string {
+        return createReleaseNotesPromptContent(groupedCommits, range, language);
+    }
+
+    /**
+     * Create a prompt for writing the message of an annotated release tag
+     *
+     * @param tag - Name of the tag being created
+     * @param groupedCommits - Commits since the previous release, grouped
+     * @param justification - Why this version was chosen, one reason per line
+     * @param language - The target language for the message
+     * @returns The tag message prompt string
+     */
+    createTagMessagePrompt(
+        tag: string,
+        groupedCommits: string,
+        justification: string,
+        language: string,
+    ): string {
+        return createTagMessagePromptContent(tag, groupedCommits, justification, language);
+    }
+
+    /**
+     * Create a prompt for fixing a commit message that failed linting
+     *
+     * @param message - The generated commit message
+     * @param diff - The staged diff the message describes
+     * @param violations - The failed rules, one per line
+     * @param language - The target language for the message
+     * @returns The repair prompt string
+     */
+    createCommitLintRepairPrompt(
+        message: string,
+        diff: string,
+        violations: string,
+        language: string,
+    ): string {
+        return createCommitLintRepairPromptContent(message, diff, violations, language);
+    }
+
+    /**
+     * Create a prompt for grouping staged change units into several commits
+     *
+     * @param changeUnits - The change units formatted with their ids
+     * @param language - The target language for the commit messages
+     * @returns The commit split prompt string
+     */
+    createCommitSplitPrompt(changeUnits: string, language: string): string {
+        return createCommitSplitPromptContent(changeUnits, language, this.getOptions());
+    }
 }
@@ -1,4 +1,3 @@
-import * as vscode from 'vscode';
 import { MessageStyle } from '../types/enums/MessageStyle';
 
 /**
@@ -56,19 +55,37 @@ export function sanitizeTemplateContent(content: string): string {
     return content.slice(0, MAX_TEMPLATE_CONTENT_LENGTH).trim();
 }
 
+/**
+ * Prompt generation options used when no VS Code configuration is available
+ */
+export const DEFAULT_PROMPT_GENERATION_OPTIONS: PromptGenerationOptions = {
+    useEmoji: false,
+    customMessage: '',
+    useConventionalCommits: true,
+    useBulletList: true,
+};
+
 /**
  * Read prompt generation options from the extension's VS Code configuration
  *
- * @returns The sanitized prompt generation options derived from user settings
+ * @returns The sanitized prompt generation options derived from user settings,
+ *          or the defaults when running outside VS Code
  */
 export function getPromptGenerationOptions(): PromptGenerationOptions {
-    const config = vscode.workspace.getConfiguration('otakCommitter');
-    const rawCustomMessage = config.get<string>('customMessage') || '';
+    let config;
+    try {
+        const vscode = require('vscode');
+        config = vscode.workspace.getConfiguration('otakCommitter');
+    } catch {
+        // Not running in VS Code context (e.g., the CLI)
+        return { ...DEFAULT_PROMPT_GENERATION_OPTIONS };
+    }
+    const rawCustomMessage = config.get('customMessage') || '';
 
     return {
-        useEmoji: config.get<boolean>('useEmoji') || false,
+        useEmoji: config.get('useEmoji') || false,
         customMessage: sanitizeConfigInput(rawCustomMessage),
-        useConventionalCommits: config.get<boolean>('useConventionalCommits') ?? true,
-        useBulletList: config.get<boolean>('useBulletList') ?? true,
+        useConventionalCommits: config.get('useConventionalCommits') ?? true,
+        useBulletList: config.get('useBulletList') ?? true,
     };
 }
@@ -0,0 +1,58 @@
+/**
+ * Build the prompt used to write one release section of a Keep a Changelog file
+ *
+ * @param groupedCommits - Commits grouped by section, type and scope (see `formatReleaseNoteGroups`)
+ * @param range - Refs the release spans, for context
+ * @param language - Natural language to write the entries in
+ * @returns The composed prompt string to send to the AI model
+ */
+export function createReleaseNotesPromptContent(
+    groupedCommits: string,
+    range: string,
+    language: string,
+): string {
+    return `Write the release notes for ${range} as one release section of a changelog that follows Keep a Changelog (https://keepachangelog.com).
+
+The commits of the release are listed below, already sorted into Keep a Changelog sections and grouped by Conventional Commits type and scope. Pull request numbers, with titles where known, follow each subject in parentheses.
+
+- Output only the section body: "### Added", "### Changed", "### Deprecated", "### Removed", "### Fixed" and "### Security" headings, in that order, each followed by a bullet list. Do not write the "## [version]" heading
+- Keep the headings in English exactly as shown; write the entries in ${language}
+- Omit sections without entries
+- Write for people using the project: describe what changed for them, not how the code changed. Prefer the pull request title over commit subjects when it says more
+- Merge commits that describe the same change into one entry; leave out tests, CI, formatting and other internal chores unless they matter to users
+- Start an entry with the scope in bold (for example "**parser:**") when the scope helps the reader
+- Start entries marked [BREAKING] with "**BREAKING:**" and list them first in their section
+- Keep pull request references as "(#123)" at the end of an entry
+
+Commits:
+${groupedCommits}`;
+}
+
+/**
+ * Build the prompt used to write the message of an annotated release tag
+ *
+ * @param tag - Name of the tag being created
+ * @param groupedCommits - Commits since the previous release, grouped (see `formatReleaseNoteGroups`)
+ * @param justification - Why this version was chosen, one reason per line
+ * @param language - Natural language to write the message in
+ * @returns The composed prompt string to send to the AI model
+ */
+export function createTagMessagePromptContent(
+    tag: string,
+    groupedCommits: string,
+    justification: string,
+    language: string,
+): string {
+    return `Write the message of the annotated git tag ${tag} in ${language}.
+
+- First line: "${tag}" followed by a short summary of the release, at most 72 characters
+- Then a blank line and a plain-text bullet list ("- ") of the changes that matter to users, breaking changes first, at most 10 bullets
+- No Markdown headings, emphasis or code fences; the message is read in a terminal
+- Do not mention commit hashes
+
+Why this version:
+${justification}
+
+Commits since the previous release:
+${groupedCommits}`;
+}
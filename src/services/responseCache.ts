@@ -0,0 +1,161 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import type { ConfigManager } from '../infrastructure/config/ConfigManager';
+import { Logger } from '../infrastructure/logging/Logger';
+
+/** Folder of the cached responses inside the extension's global storage */
+const CACHE_DIR_NAME = 'response-cache';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MEGABYTE = 1024 * 1024;
+
+/**
+ * Limits of a {@link ResponseCache}, read again for every access so setting changes apply at once
+ */
+export interface ResponseCacheOptions {
+    /** How long a response is reused; 0 turns the cache off */
+    ttlMs: number;
+    /** Total size of the stored responses before the oldest are removed */
+    maxBytes: number;
+}
+
+interface StoredResponse {
+    file: string;
+    size: number;
+    modifiedMs: number;
+}
+
+/**
+ * Content-addressed store of model responses in the extension's storage folder
+ *
+ * Each response is a file named after its key, a hash of everything that
+ * determines the answer. Entries expire after the configured time to live,
+ * and the oldest are removed once the folder grows past the size cap.
+ * Storage errors are logged and treated as a cache miss; they never fail a
+ * request.
+ */
+export class ResponseCache {
+    constructor(
+        private readonly directory: string,
+        private readonly getOptions: () => ResponseCacheOptions,
+    ) {}
+
+    /**
+     * Whether responses are cached at all
+     *
+     * @returns False when the time to live is 0
+     */
+    isEnabled(): boolean {
+        return this.getOptions().ttlMs > 0;
+    }
+
+    /**
+     * Get a stored response that has not expired
+     *
+     * @param key - Hash identifying the request
+     * @param now - Current time in milliseconds
+     * @returns The response, or undefined on a miss
+     */
+    async get(key: string, now = Date.now()): Promise<string | undefined> {
+        const { ttlMs } = this.getOptions();
+        if (ttlMs <= 0) {
+            return undefined;
+        }
+        const file = this.getFile(key);
+        try {
+            const stats = await fs.stat(file);
+            if (now - stats.mtimeMs > ttlMs) {
+                await fs.rm(file, { force: true });
+                return undefined;
+            }
+            return await fs.readFile(file, 'utf8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Store a response, then remove expired entries and enforce the size cap
+     *
+     * @param key - Hash identifying the request
+     * @param value - The response
+     * @param now - Current time in milliseconds
+     */
+    async set(key: string, value: string, now = Date.now()): Promise<void> {
+        if (!this.isEnabled()) {
+            return;
+        }
+        try {
+            await fs.mkdir(this.directory, { recursive: true });
+            await fs.writeFile(this.getFile(key), value, 'utf8');
+            await this.prune(now);
+        } catch (error) {
+            Logger.getInstance().warning('Failed to save a cached response', error);
+        }
+    }
+
+    /**
+     * Remove every stored response
+     *
+     * @returns Number of responses removed
+     */
+    async clear(): Promise<number> {
+        const entries = await this.list();
+        await fs.rm(this.directory, { recursive: true, force: true });
+        return entries.length;
+    }
+
+    private getFile(key: string): string {
+        return path.join(this.directory, `${key}.txt`);
+    }
+
+    private async list(): Promise<StoredResponse[]> {
+        let names: string[];
+        try {
+            names = await fs.readdir(this.directory);
+        } catch {
+            return [];
+        }
+        const entries: StoredResponse[] = [];
+        for (const name of names.filter((entry) => entry.endsWith('.txt'))) {
+            const file = path.join(this.directory, name);
+            try {
+                const stats = await fs.stat(file);
+                entries.push({ file, size: stats.size, modifiedMs: stats.mtimeMs });
+            } catch {
+                // Removed by a concurrent prune
+            }
+        }
+        return entries;
+    }
+
+    private async prune(now: number): Promise<void> {
+        const { ttlMs, maxBytes } = this.getOptions();
+        const entries = (await this.list()).sort((a, b) => b.modifiedMs - a.modifiedMs);
+        let totalBytes = 0;
+        for (const entry of entries) {
+            totalBytes += entry.size;
+            if (now - entry.modifiedMs > ttlMs || totalBytes > maxBytes) {
+                await fs.rm(entry.file, { force: true });
+            }
+        }
+    }
+}
+
+/**
+ * Create the response cache of the extension
+ *
+ * @param storageUri - The extension's global storage folder
+ * @param config - Provides `responseCacheTtlHours` and `responseCacheMaxSizeMB`
+ * @returns The cache; its limits follow later setting changes
+ */
+export function createResponseCache(
+    storageUri: vscode.Uri,
+    config: Pick<ConfigManager, 'get'>,
+): ResponseCache {
+    return new ResponseCache(path.join(storageUri.fsPath, CACHE_DIR_NAME), () => ({
+        ttlMs: Math.max(0, config.get('responseCacheTtlHours') ?? 0) * HOUR_MS,
+        maxBytes: Math.max(0, config.get('responseCacheMaxSizeMB') ?? 0) * MEGABYTE,
+    }));
+}
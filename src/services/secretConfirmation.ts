@@ -1,7 +1,40 @@
 import * as vscode from 'vscode';
 import { Logger } from '../infrastructure/logging/Logger';
 import { t } from '../i18n/index.js';
-import type { SecretDetectionResult } from '../utils/secretDetection';
+import {
+    formatSecretLocation,
+    type SecretDetectionResult,
+    type SecretLocation,
+} from '../utils/secretDetection';
+import type { SecretRedaction } from '../utils/secretRedaction';
+
+/** Most secret locations listed in the confirmation dialog */
+const MAX_LISTED_LOCATIONS = 10;
+
+/**
+ * How to send content that may contain secrets
+ */
+export type PotentialSecretsChoice = 'send' | 'redact';
+
+function logDetectedSecrets(
+    logger: Logger,
+    logMessage: string,
+    locations: readonly SecretLocation[],
+): void {
+    logger.warning(logMessage, {
+        matchedPatternIds: [...new Set(locations.map((location) => location.patternId))],
+        locations: locations.map(formatSecretLocation),
+        fingerprints: locations.map((location) => location.fingerprint),
+    });
+}
+
+function formatLocationList(locations: readonly SecretLocation[]): string {
+    const listed = locations.slice(0, MAX_LISTED_LOCATIONS).map(formatSecretLocation);
+    if (locations.length > listed.length) {
+        listed.push(t('messages.moreSecretLocations', { count: locations.length - listed.length }));
+    }
+    return listed.join('\n');
+}
 
 /**
  * Ask the user to confirm sending content that may contain detected secrets to the AI model
@@ -23,9 +56,7 @@ export async function confirmProceedWithPotentialSecrets(
     }
 
     const patterns = detection.matchedPatternIds.join(', ');
-    logger.warning(logMessage, {
-        matchedPatternIds: detection.matchedPatternIds,
-    });
+    logDetectedSecrets(logger, logMessage, detection.locations);
 
     const yesLabel = t('buttons.yes');
     const noLabel = t('buttons.no');
@@ -34,7 +65,7 @@ export async function confirmProceedWithPotentialSecrets(
             count: detection.matchedPatternIds.length,
             patterns,
         }),
-        { modal: true },
+        { modal: true, detail: formatLocationList(detection.locations) },
         yesLabel,
         noLabel,
     );
@@ -46,3 +77,43 @@ export async function confirmProceedWithPotentialSecrets(
     logger.info('AI generation cancelled because potential secrets were detected');
     return false;
 }
+
+/**
+ * Ask the user whether to redact detected secrets before sending content to the AI model
+ *
+ * The dialog lists where the secrets are, and offers to replace them with
+ * placeholders, to send the content unchanged, or to cancel.
+ *
+ * @param redactions - Secrets found in the outbound content, with their locations
+ * @param logger - Logger used to record the warning and outcome
+ * @param logMessage - Message logged when potential secrets are detected
+ * @param messageKey - i18n key used for the modal warning text
+ * @returns The user's choice, or undefined if they cancelled
+ */
+export async function chooseHowToSendPotentialSecrets(
+    redactions: SecretRedaction[],
+    logger: Logger,
+    logMessage: string,
+    messageKey: string,
+): Promise<PotentialSecretsChoice | undefined> {
+    const patternIds = [...new Set(redactions.map((redaction) => redaction.patternId))];
+    logDetectedSecrets(logger, logMessage, redactions);
+    const redactLabel = t('buttons.redactAndSend');
+    const sendLabel = t('buttons.sendUnchanged');
+    const action = await vscode.window.showWarningMessage(
+        t(messageKey, { count: patternIds.length, patterns: patternIds.join(', ') }),
+        { modal: true, detail: formatLocationList(redactions) },
+        redactLabel,
+        sendLabel,
+    );
+
+    if (action === redactLabel) {
+        logger.info(`Redacting ${redactions.length} potential secrets before generation`);
+        return 'redact';
+    }
+    if (action === sendLabel) {
+        return 'send';
+    }
+    logger.info('AI generation cancelled because potential secrets were detected');
+    return undefined;
+}
@@ -0,0 +1,125 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { t } from '../i18n/index.js';
+import type { SecretLocation } from '../utils/secretDetection';
+
+/** Source shown next to the entries in the Problems view */
+const DIAGNOSTIC_SOURCE = 'otak-committer';
+
+/**
+ * Command run by the quick action that unstages a file with a potential secret
+ */
+export const UNSTAGE_FILE_COMMAND = 'otak-committer.unstageFile';
+
+/** Offers to unstage files whose staged changes contain potential secrets */
+class SecretCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly kinds = [vscode.CodeActionKind.QuickFix];
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range,
+        context: vscode.CodeActionContext,
+    ): vscode.CodeAction[] {
+        const diagnostics = context.diagnostics.filter(
+            (diagnostic) => diagnostic.source === DIAGNOSTIC_SOURCE,
+        );
+        if (diagnostics.length === 0) {
+            return [];
+        }
+        const action = new vscode.CodeAction(
+            t('secretDiagnostics.unstageFile', { file: path.basename(document.uri.fsPath) }),
+            vscode.CodeActionKind.QuickFix,
+        );
+        action.diagnostics = diagnostics;
+        action.isPreferred = true;
+        action.command = {
+            command: UNSTAGE_FILE_COMMAND,
+            title: action.title,
+            arguments: [document.uri],
+        };
+        return [action];
+    }
+}
+
+let collection: vscode.DiagnosticCollection | undefined;
+
+/**
+ * Create the Problems view collection and the quick action provider
+ *
+ * Both are disposed with the extension. Until this runs, for example
+ * outside the extension host, potential secrets are not shown.
+ *
+ * @param context - Extension context that owns the registrations
+ */
+export function registerSecretDiagnostics(
+    context: Pick<vscode.ExtensionContext, 'subscriptions'>,
+): void {
+    const diagnostics = vscode.languages.createDiagnosticCollection('otak-committer-secrets');
+    collection = diagnostics;
+    context.subscriptions.push(
+        diagnostics,
+        vscode.languages.registerCodeActionsProvider(
+            { scheme: 'file' },
+            new SecretCodeActionProvider(),
+            { providedCodeActionKinds: SecretCodeActionProvider.kinds },
+        ),
+        new vscode.Disposable(() => {
+            if (collection === diagnostics) {
+                collection = undefined;
+            }
+        }),
+    );
+}
+
+function createDiagnostic(location: SecretLocation): vscode.Diagnostic {
+    const line = Math.max((location.line ?? 1) - 1, 0);
+    const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+        t('secretDiagnostics.potentialSecret', { pattern: location.patternId }),
+        vscode.DiagnosticSeverity.Warning,
+    );
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    diagnostic.code = location.patternId;
+    return diagnostic;
+}
+
+/**
+ * Show the potential secrets of the staged changes in the Problems view
+ *
+ * Entries from the previous check are replaced, so an empty list clears
+ * them. Each entry offers a quick action to unstage its file.
+ *
+ * @param rootPath - Repository root the locations are relative to
+ * @param locations - Where the potential secrets are; those without a file are skipped
+ */
+export function showStagedSecretDiagnostics(
+    rootPath: string,
+    locations: readonly SecretLocation[],
+): void {
+    if (!collection) {
+        return;
+    }
+
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+    for (const location of locations) {
+        if (location.filePath) {
+            const diagnostics = byFile.get(location.filePath) ?? [];
+            diagnostics.push(createDiagnostic(location));
+            byFile.set(location.filePath, diagnostics);
+        }
+    }
+
+    collection.clear();
+    for (const [filePath, entries] of byFile) {
+        collection.set(vscode.Uri.file(path.join(rootPath, filePath)), entries);
+    }
+}
+
+/**
+ * Remove the Problems entries of a file, e.g. after it was unstaged
+ *
+ * @param uri - The file
+ */
+export function clearStagedSecretDiagnostics(uri: vscode.Uri): void {
+    collection?.delete(uri);
+}
@@ -16,3 +16,22 @@ ${chunkDiff}
 
 Provide a concise technical summary.`;
 }
+
+/**
+ * Build the prompt used to merge chunk summaries in the map-reduce reduce step
+ *
+ * @param summaries - Summaries to merge, each headed by the files it covers
+ * @param language - Natural language to write the merged summary in
+ * @returns The composed prompt string to send to the AI model
+ */
+export function createSummaryMergePromptContent(summaries: string, language: string): string {
+    return `Merge the following summaries of code changes into one concise summary in ${language}.
+- Keep every change attributed to the file paths it belongs to
+- Combine related changes across files instead of repeating them
+- Keep the technical details needed to describe the change in a commit message
+
+Summaries:
+${summaries}
+
+Provide the merged technical summary.`;
+}
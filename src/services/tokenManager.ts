@@ -1,14 +1,17 @@
 /**
- * TokenManager - GPT-5.4 Token Management Utility
+ * TokenManager - Token Management Utility
  *
- * Provides utilities for token estimation, input truncation, and validation
- * for the GPT-5.4 Responses API with unified 200K token limits.
+ * Provides utilities for token estimation, input truncation, and validation.
+ * Context and output limits come from the model capability table so that
+ * budgets follow the model configured for each operation.
  */
 
 import {
     MAX_INPUT_TOKENS as _MAX_INPUT_TOKENS,
     CHARS_PER_TOKEN as _CHARS_PER_TOKEN,
 } from '../constants/tokenLimits';
+import { DEFAULT_MODEL, getModelCapabilities } from '../constants/modelCapabilities';
+import { countTokens, truncateToTokenLimit } from '../utils/tokenizer';
 
 /**
  * Output token allocations for different content types
@@ -21,7 +24,17 @@ export interface OutputTokenAllocations {
 }
 
 /**
- * Token management utility class for GPT-5.4 Responses API
+ * Desired output token allocations before clamping to a model's output limit
+ */
+const REQUESTED_OUTPUT_TOKENS: OutputTokenAllocations = {
+    COMMIT_MESSAGE: 5000, // Increased for Japanese/CJK languages
+    PR_TITLE: 500, // Increased for Japanese/CJK titles
+    PR_BODY: 8000, // Increased for detailed PR bodies
+    ISSUE: 12000, // Increased for comprehensive issues
+};
+
+/**
+ * Token management utility class
  *
  * Provides methods for:
  * - Estimating token counts from text
@@ -32,11 +45,11 @@ export class TokenManager {
     /** Maximum input tokens (200K unified limit) */
     public static readonly MAX_INPUT_TOKENS = _MAX_INPUT_TOKENS;
 
-    /** Characters per token estimation ratio */
+    /** Rough characters per token of source code, for sizing only; counts come from the tokenizer */
     public static readonly CHARS_PER_TOKEN = _CHARS_PER_TOKEN;
 
-    /** GPT-5.4 context window limit (400K) */
-    public static readonly CONTEXT_LIMIT = 400 * 1000;
+    /** Context window of the default model (400K for GPT-5.4) */
+    public static readonly CONTEXT_LIMIT = getModelCapabilities(DEFAULT_MODEL).contextWindow;
 
     /** Buffer reserved for reasoning tokens */
     public static readonly REASONING_BUFFER = 10 * 1000;
@@ -53,31 +66,71 @@ export class TokenManager {
     /** Safety margin for token budget calculations (accounts for estimation imprecision) */
     public static readonly SAFETY_MARGIN = 0.95;
 
-    /** Output token allocations by content type */
-    public static readonly OUTPUT_TOKENS: OutputTokenAllocations = {
-        COMMIT_MESSAGE: 5000, // Increased for Japanese/CJK languages
-        PR_TITLE: 500, // Increased for Japanese/CJK titles
-        PR_BODY: 8000, // Increased for detailed PR bodies
-        ISSUE: 12000, // Increased for comprehensive issues
-    };
+    /** Output token allocations by content type for the default model */
+    public static readonly OUTPUT_TOKENS: OutputTokenAllocations =
+        TokenManager.getOutputTokens(DEFAULT_MODEL);
+
+    /**
+     * Get the context window of a model
+     *
+     * @param model - Model name; the default model is used when omitted
+     * @returns Context window size in tokens
+     */
+    public static getContextLimit(model?: string): number {
+        return getModelCapabilities(model || DEFAULT_MODEL).contextWindow;
+    }
+
+    /**
+     * Get output token allocations clamped to a model's output limit
+     *
+     * @param model - Model name; the default model is used when omitted
+     * @returns Output token allocations by content type
+     */
+    public static getOutputTokens(model?: string): OutputTokenAllocations {
+        const { maxOutputTokens } = getModelCapabilities(model || DEFAULT_MODEL);
+        return {
+            COMMIT_MESSAGE: Math.min(REQUESTED_OUTPUT_TOKENS.COMMIT_MESSAGE, maxOutputTokens),
+            PR_TITLE: Math.min(REQUESTED_OUTPUT_TOKENS.PR_TITLE, maxOutputTokens),
+            PR_BODY: Math.min(REQUESTED_OUTPUT_TOKENS.PR_BODY, maxOutputTokens),
+            ISSUE: Math.min(REQUESTED_OUTPUT_TOKENS.ISSUE, maxOutputTokens),
+        };
+    }
 
     /**
-     * Estimate token count from text using 4 characters per token ratio
+     * Get the map-reduce chunk size that fits a summarization model
+     *
+     * @param model - Model used for chunk summaries; the default model is used when omitted
+     * @returns Maximum tokens per chunk
+     */
+    public static getMapReduceChunkSize(model?: string): number {
+        const available =
+            this.getContextLimit(model) - this.SUMMARIZATION_OUTPUT_TOKENS - this.REASONING_BUFFER;
+        return Math.max(
+            1000,
+            Math.min(this.MAP_REDUCE_CHUNK_SIZE, Math.floor(available * this.SAFETY_MARGIN)),
+        );
+    }
+
+    /**
+     * Count the tokens of a text with the bundled o200k_base tokenizer
+     *
+     * Very large texts and long runs without whitespace are estimated from
+     * a sample, so huge generated or binary-like files count quickly.
      *
      * @param text - The text to estimate tokens for
-     * @returns Estimated token count
+     * @returns Token count
      *
      * @example
      * ```typescript
      * const tokens = TokenManager.estimateTokens('Hello, world!');
-     * // Returns 4 (13 characters / 4 = 3.25, rounded up to 4)
+     * // Returns 4 ('Hello', ',', ' world', '!')
      * ```
      */
     public static estimateTokens(text: string): number {
         if (!text || text.length === 0) {
             return 0;
         }
-        return Math.ceil(text.length / this.CHARS_PER_TOKEN);
+        return countTokens(text);
     }
 
     /**
@@ -93,23 +146,18 @@ export class TokenManager {
      * ```
      */
     public static truncateInput(input: string, maxTokens: number): string {
-        const estimatedTokens = this.estimateTokens(input);
-
-        if (estimatedTokens <= maxTokens) {
-            return input;
-        }
-
-        const maxChars = maxTokens * this.CHARS_PER_TOKEN;
-        return input.substring(0, maxChars);
+        return truncateToTokenLimit(input, maxTokens);
     }
 
     /**
-     * Validate that token allocation is within GPT-5.4 context limits
+     * Validate that token allocation is within a model's context window
      *
-     * Ensures that input + output + reasoning buffer does not exceed 400K tokens
+     * Ensures that input + output + reasoning buffer does not exceed the context
+     * window (400K tokens for the default model)
      *
      * @param inputTokens - Number of input tokens
      * @param outputTokens - Number of output tokens
+     * @param model - Model name; the default model is used when omitted
      * @returns True if allocation is valid, false otherwise
      *
      * @example
@@ -118,41 +166,58 @@ export class TokenManager {
      * // Returns true (180K + 8K + 10K buffer = 198K < 400K)
      * ```
      */
-    public static validateAllocation(inputTokens: number, outputTokens: number): boolean {
+    public static validateAllocation(
+        inputTokens: number,
+        outputTokens: number,
+        model?: string,
+    ): boolean {
         const total = inputTokens + outputTokens + this.REASONING_BUFFER;
-        return total <= this.CONTEXT_LIMIT;
+        return total <= this.getContextLimit(model);
     }
 
     /**
      * Get maximum safe input tokens for a given output allocation
      *
      * @param outputTokens - Desired output tokens
+     * @param model - Model name; the default model is used when omitted
      * @returns Maximum safe input tokens
      */
-    public static getMaxInputTokens(outputTokens: number): number {
+    public static getMaxInputTokens(outputTokens: number, model?: string): number {
         return Math.min(
             this.MAX_INPUT_TOKENS,
-            this.CONTEXT_LIMIT - outputTokens - this.REASONING_BUFFER,
+            this.getContextLimit(model) - outputTokens - this.REASONING_BUFFER,
         );
     }
 
     /**
      * Get the configured max tokens from user settings, falling back to MAX_INPUT_TOKENS
      *
+     * When a model is given, the result is also capped so that the input plus the
+     * commit message output and reasoning buffer fit in the model's context window.
+     *
+     * @param model - Model that will receive the input (optional)
      * @returns The configured max token limit
      */
-    public static getConfiguredMaxTokens(): number {
+    public static getConfiguredMaxTokens(model?: string): number {
+        let maxTokens = this.MAX_INPUT_TOKENS;
         try {
             const vscode = require('vscode');
             const configuredMaxTokens: unknown = vscode.workspace
                 .getConfiguration('otakCommitter')
                 .get('maxInputTokens');
             if (typeof configuredMaxTokens === 'number' && configuredMaxTokens >= 1000) {
-                return configuredMaxTokens;
+                maxTokens = configuredMaxTokens;
             }
         } catch {
             // Not running in VS Code context (e.g., unit tests)
         }
-        return this.MAX_INPUT_TOKENS;
+        if (!model) {
+            return maxTokens;
+        }
+        const modelLimit =
+            this.getContextLimit(model) -
+            this.getOutputTokens(model).COMMIT_MESSAGE -
+            this.REASONING_BUFFER;
+        return Math.max(1000, Math.min(maxTokens, modelLimit));
     }
 }
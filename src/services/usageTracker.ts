@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import type { ConfigManager } from '../infrastructure/config/ConfigManager';
+import { Logger } from '../infrastructure/logging/Logger';
+import { t } from '../i18n/index.js';
+import type { UsageOperation } from '../types';
+import {
+    addUsage,
+    estimateUsageCost,
+    formatUsageCost,
+    formatUsageDay,
+    listUsage,
+    pruneUsageLog,
+    type ModelPriceTable,
+    type UsageCost,
+    type UsageLog,
+} from '../utils/usageStats';
+import type { LLMUsage } from './llm.types';
+
+/** globalState key of the {@link UsageLog} */
+const USAGE_LOG_KEY = 'tokenUsageLog';
+
+/** Days of usage kept: the last twelve months and the current one */
+const RETENTION_DAYS = 400;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Month (`YYYY-MM`) whose budget the user chose to exceed in this session */
+let budgetAcceptedMonth: string | undefined;
+/** Shared by requests sent in parallel, such as map-reduce chunks */
+let pendingBudgetConfirmation: Promise<boolean> | undefined;
+
+async function askToExceedBudget(cost: number, budget: number): Promise<boolean> {
+    const proceed = t('usage.continue');
+    const choice = await vscode.window.showWarningMessage(
+        t('usage.budgetReached', {
+            cost: formatUsageCost(cost),
+            budget: formatUsageCost(budget),
+        }),
+        { modal: true },
+        proceed,
+    );
+    return choice === proceed;
+}
+
+/**
+ * Records the tokens of every model request in `globalState`
+ *
+ * Usage is kept per day, operation and model so the usage report can show
+ * totals and estimated costs for any of them. The cost is estimated from
+ * `otakCommitter.modelPrices` when the report is shown, so changing a price
+ * applies to past usage as well.
+ */
+export class UsageTracker {
+    constructor(
+        private readonly state: vscode.Memento,
+        private readonly config: Pick<ConfigManager, 'get'>,
+    ) {}
+
+    /**
+     * Get the recorded usage
+     *
+     * @returns The usage log; empty before the first request
+     */
+    getLog(): UsageLog {
+        return this.state.get<UsageLog>(USAGE_LOG_KEY, {});
+    }
+
+    /**
+     * Get the configured model prices
+     *
+     * @returns Prices keyed by model name prefix
+     */
+    getPrices(): ModelPriceTable {
+        return this.config.get('modelPrices') ?? {};
+    }
+
+    /**
+     * Add the tokens of a completed request, dropping usage past the retention period
+     *
+     * Failing to save is logged; it never fails the request.
+     *
+     * @param operation - Operation the request was made for
+     * @param model - Model that answered
+     * @param usage - Tokens the request consumed
+     * @param now - Time of the request
+     */
+    async record(
+        operation: UsageOperation,
+        model: string,
+        usage: LLMUsage,
+        now = new Date(),
+    ): Promise<void> {
+        const firstDay = formatUsageDay(new Date(now.getTime() - RETENTION_DAYS * DAY_MS));
+        const log = addUsage(
+            pruneUsageLog(this.getLog(), firstDay),
+            { day: formatUsageDay(now), operation, model },
+            usage,
+        );
+        try {
+            await this.state.update(USAGE_LOG_KEY, log);
+        } catch (error) {
+            Logger.getInstance().warning('Failed to save token usage', error);
+        }
+    }
+
+    /**
+     * Estimate the cost of the current month
+     *
+     * @param now - A time in the month
+     * @returns The cost of the priced models and the names of the others
+     */
+    getMonthCost(now = new Date()): UsageCost {
+        const month = formatUsageDay(now).slice(0, 7);
+        return estimateUsageCost(listUsage(this.getLog(), month), this.getPrices());
+    }
+
+    /**
+     * Ask before a request once this month's cost has reached `otakCommitter.monthlyBudget`
+     *
+     * The user is asked once per month and session; requests waiting for the
+     * same answer share it.
+     *
+     * @param now - Time of the request
+     * @throws An `AbortError` when the user does not want to exceed the budget
+     */
+    async confirmBudget(now = new Date()): Promise<void> {
+        const budget = this.config.get('monthlyBudget') ?? 0;
+        const month = formatUsageDay(now).slice(0, 7);
+        if (budget <= 0 || budgetAcceptedMonth === month) {
+            return;
+        }
+        const { cost } = this.getMonthCost(now);
+        if (cost < budget) {
+            return;
+        }
+
+        pendingBudgetConfirmation ??= askToExceedBudget(cost, budget).finally(() => {
+            pendingBudgetConfirmation = undefined;
+        });
+        if (!(await pendingBudgetConfirmation)) {
+            const error = new Error(t('usage.budgetDeclined'));
+            error.name = 'AbortError';
+            throw error;
+        }
+        budgetAcceptedMonth = month;
+    }
+}
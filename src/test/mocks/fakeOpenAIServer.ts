@@ -0,0 +1,282 @@
+/**
+ * Local stand-in for the OpenAI API
+ *
+ * Serves scripted chat completion replies over real HTTP so tests exercise the
+ * OpenAI SDK's transport, the retry policy, timeouts and response parsing
+ * instead of a mocked client. Point a client at
+ * {@link FakeOpenAIServer.baseUrl}, or the extension at it through
+ * `setOpenAIBaseUrlOverride`.
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * Token counts reported with a completion
+ */
+export interface FakeOpenAIUsage {
+    prompt_tokens: number;
+    completion_tokens: number;
+    reasoning_tokens?: number;
+}
+
+/**
+ * One scripted reply to a chat completion request
+ *
+ * Streams report their usage in a final chunk when the request asks for it
+ * with `stream_options.include_usage`.
+ */
+export type FakeOpenAIReply = (
+    | { kind: 'completion'; content: string; usage?: FakeOpenAIUsage }
+    | { kind: 'stream'; chunks: string[]; usage?: FakeOpenAIUsage }
+    | { kind: 'error'; status: number; message?: string; headers?: Record<string, string> }
+    | { kind: 'malformed'; body?: string }
+) & {
+    /** Wait this long before answering */
+    delayMs?: number;
+};
+
+/**
+ * A request the server received
+ */
+export interface FakeOpenAIRequest {
+    method: string;
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    /** Parsed JSON body; undefined for requests without one */
+    body?: {
+        model?: string;
+        stream?: boolean;
+        messages?: Array<{ role: string; content: string }>;
+        response_format?: { type: string };
+        stream_options?: { include_usage?: boolean };
+        [key: string]: unknown;
+    };
+}
+
+/** Sent for `POST /chat/completions` when no reply is scripted */
+const UNSCRIPTED_STATUS = 599;
+
+/**
+ * HTTP server answering `/models` and `/chat/completions` like the OpenAI API
+ *
+ * Chat completion replies are taken from the queue in order. `GET /models`,
+ * which the extension uses to validate the API key, answers with
+ * {@link modelsStatus}.
+ */
+export class FakeOpenAIServer {
+    /** Every request received, oldest first */
+    readonly requests: FakeOpenAIRequest[] = [];
+    /** Status of `GET /models`; 401 makes API key validation fail */
+    modelsStatus = 200;
+
+    private readonly replies: FakeOpenAIReply[] = [];
+    private server?: http.Server;
+
+    /**
+     * Root of the fake API, such as `http://127.0.0.1:4010/v1`
+     */
+    get baseUrl(): string {
+        if (!this.server) {
+            throw new Error('FakeOpenAIServer is not started');
+        }
+        const { port } = this.server.address() as AddressInfo;
+        return `http://127.0.0.1:${port}/v1`;
+    }
+
+    /**
+     * Chat completion requests received, oldest first
+     */
+    get completionRequests(): FakeOpenAIRequest[] {
+        return this.requests.filter((request) => request.path.endsWith('/chat/completions'));
+    }
+
+    /**
+     * Listen on a free local port
+     *
+     * @returns The base URL of the fake API
+     */
+    async start(): Promise<string> {
+        this.server = http.createServer((request, response) => {
+            this.handle(request, response).catch((error) => {
+                if (!response.headersSent) {
+                    response.writeHead(500);
+                }
+                response.end(String(error));
+            });
+        });
+        await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+        return this.baseUrl;
+    }
+
+    /**
+     * Queue replies for the next chat completion requests
+     *
+     * @param replies - Replies, in the order requests should receive them
+     */
+    enqueue(...replies: FakeOpenAIReply[]): void {
+        this.replies.push(...replies);
+    }
+
+    /**
+     * Forget queued replies and received requests
+     */
+    reset(): void {
+        this.replies.length = 0;
+        this.requests.length = 0;
+        this.modelsStatus = 200;
+    }
+
+    /**
+     * Stop listening, dropping connections that are still waiting for a reply
+     */
+    async close(): Promise<void> {
+        const server = this.server;
+        this.server = undefined;
+        if (!server) {
+            return;
+        }
+        server.closeAllConnections();
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    private async handle(
+        request: http.IncomingMessage,
+        response: http.ServerResponse,
+    ): Promise<void> {
+        let raw = '';
+        for await (const chunk of request) {
+            raw += chunk;
+        }
+        const path = (request.url ?? '').split('?')[0];
+        this.requests.push({
+            method: request.method ?? 'GET',
+            path,
+            headers: request.headers,
+            body: raw ? JSON.parse(raw) : undefined,
+        });
+
+        if (request.method === 'GET' && path.endsWith('/models')) {
+            if (this.modelsStatus !== 200) {
+                sendError(response, this.modelsStatus, 'Incorrect API key provided');
+                return;
+            }
+            sendJson(response, 200, {
+                object: 'list',
+                data: [{ id: 'gpt-fake', object: 'model', created: 0, owned_by: 'fake' }],
+            });
+            return;
+        }
+        if (request.method !== 'POST' || !path.endsWith('/chat/completions')) {
+            sendError(response, 404, `No fake route for ${request.method} ${path}`);
+            return;
+        }
+
+        const reply = this.replies.shift();
+        if (!reply) {
+            sendError(response, UNSCRIPTED_STATUS, 'No scripted reply left');
+            return;
+        }
+        if (reply.delayMs) {
+            await delay(reply.delayMs);
+            if (response.destroyed) {
+                return;
+            }
+        }
+        await sendReply(response, reply, this.requests[this.requests.length - 1].body);
+    }
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function sendJson(
+    response: http.ServerResponse,
+    status: number,
+    body: unknown,
+    headers: Record<string, string> = {},
+): void {
+    response.writeHead(status, { 'content-type': 'application/json', ...headers });
+    response.end(JSON.stringify(body));
+}
+
+function sendError(
+    response: http.ServerResponse,
+    status: number,
+    message: string,
+    headers: Record<string, string> = {},
+): void {
+    sendJson(response, status, { error: { message, type: 'fake_error', code: null } }, headers);
+}
+
+function toWireUsage(usage: FakeOpenAIUsage = { prompt_tokens: 0, completion_tokens: 0 }) {
+    return {
+        prompt_tokens: usage.prompt_tokens,
+        completion_tokens: usage.completion_tokens,
+        total_tokens: usage.prompt_tokens + usage.completion_tokens,
+        completion_tokens_details: { reasoning_tokens: usage.reasoning_tokens ?? 0 },
+    };
+}
+
+async function sendReply(
+    response: http.ServerResponse,
+    reply: FakeOpenAIReply,
+    body: FakeOpenAIRequest['body'],
+): Promise<void> {
+    const base = {
+        id: 'chatcmpl-fake',
+        created: Math.floor(Date.now() / 1000),
+        model: body?.model ?? 'gpt-fake',
+    };
+    switch (reply.kind) {
+        case 'completion':
+            sendJson(response, 200, {
+                ...base,
+                object: 'chat.completion',
+                choices: [
+                    {
+                        index: 0,
+                        message: { role: 'assistant', content: reply.content },
+                        finish_reason: 'stop',
+                    },
+                ],
+                usage: toWireUsage(reply.usage),
+            });
+            return;
+        case 'stream':
+            response.writeHead(200, { 'content-type': 'text/event-stream' });
+            for (const content of reply.chunks) {
+                const chunk = {
+                    ...base,
+                    object: 'chat.completion.chunk',
+                    choices: [{ index: 0, delta: { content }, finish_reason: null }],
+                };
+                response.write(`data: ${JSON.stringify(chunk)}\n\n`);
+                await delay(1);
+            }
+            if (body?.stream_options?.include_usage) {
+                const chunk = {
+                    ...base,
+                    object: 'chat.completion.chunk',
+                    choices: [],
+                    usage: toWireUsage(reply.usage),
+                };
+                response.write(`data: ${JSON.stringify(chunk)}\n\n`);
+            }
+            response.end('data: [DONE]\n\n');
+            return;
+        case 'error':
+            sendError(
+                response,
+                reply.status,
+                reply.message ?? `Fake error ${reply.status}`,
+                reply.headers,
+            );
+            return;
+        case 'malformed':
+            response.writeHead(200, { 'content-type': 'application/json' });
+            response.end(reply.body ?? '{"choices": [{"message": ');
+            return;
+    }
+}
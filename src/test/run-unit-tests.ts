@@ -97,6 +97,7 @@ async function runUnitTests() {
         // Pure Node-side helpers and constants tests (no vscode imports)
         const helperTests = await glob('__tests__/helpers/**/*.test.js', { cwd: testsRoot });
         const constantsTests = await glob('constants/__tests__/**/*.test.js', { cwd: testsRoot });
+        const cliTests = await glob('cli/__tests__/**/*.test.js', { cwd: testsRoot });
 
         // Filter robustness tests to exclude those requiring vscode
         const filteredRobustnessServiceTests = robustnessServiceTests.filter(
@@ -126,6 +127,7 @@ async function runUnitTests() {
             ...filteredRobustnessCommandTests,
             ...helperTests,
             ...constantsTests,
+            ...cliTests,
         ];
 
         console.log(`Found ${allTests.length} test file(s):`);
@@ -145,6 +147,7 @@ async function runUnitTests() {
         );
         console.log(`  - Helper tests: ${helperTests.length}`);
         console.log(`  - Constants tests: ${constantsTests.length}`);
+        console.log(`  - CLI tests: ${cliTests.length}`);
 
         // Add files to the test suite
         allTests.forEach((f: string) => {
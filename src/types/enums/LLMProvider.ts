@@ -0,0 +1,15 @@
+/**
+ * Identifiers of the LLM backends that can generate content
+ */
+export type LLMProviderId = 'openai' | 'azureOpenAI' | 'anthropic' | 'ollama' | 'openaiCompatible';
+
+/**
+ * Namespace-style constants for `LLMProviderId` literals.
+ */
+export const LLMProviderId = {
+    OpenAI: 'openai' as const,
+    AzureOpenAI: 'azureOpenAI' as const,
+    Anthropic: 'anthropic' as const,
+    Ollama: 'ollama' as const,
+    OpenAICompatible: 'openaiCompatible' as const,
+} as const;
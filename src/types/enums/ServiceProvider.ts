@@ -1,12 +1,18 @@
+import type { LLMProviderId } from './LLMProvider';
+
 /**
  * Service provider identifiers used for API key storage and retrieval
  */
-export type ServiceProvider = 'openai' | 'github';
+export type ServiceProvider = LLMProviderId | 'github';
 
 /**
  * Namespace-style constants for `ServiceProvider` literals.
  */
 export const ServiceProvider = {
     OpenAI: 'openai' as const,
+    AzureOpenAI: 'azureOpenAI' as const,
+    Anthropic: 'anthropic' as const,
+    Ollama: 'ollama' as const,
+    OpenAICompatible: 'openaiCompatible' as const,
     GitHub: 'github' as const,
 } as const;
@@ -7,4 +7,5 @@ export * from './PromptType';
 export * from './GitStatus';
 export * from './IssueType';
 export * from './ServiceProvider';
+export * from './LLMProvider';
 export * from './ReasoningEffort';
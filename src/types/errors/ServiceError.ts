@@ -46,3 +46,21 @@ export class GitServiceError extends ServiceError {
         super(message, 'Git', context);
     }
 }
+
+/**
+ * Error thrown when a non-SDK LLM provider request fails
+ *
+ * Carries the HTTP status and response headers so retry and
+ * authentication handling can treat it like an OpenAI SDK error.
+ */
+export class LLMProviderError extends ServiceError {
+    constructor(
+        message: string,
+        provider: string,
+        public readonly status?: number,
+        public readonly headers?: Record<string, string>,
+        context?: Record<string, unknown>,
+    ) {
+        super(message, provider, { ...context, status });
+    }
+}
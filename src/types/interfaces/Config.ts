@@ -1,9 +1,11 @@
 import { ReasoningEffort } from '../enums/ReasoningEffort';
+import { LLMProviderId } from '../enums/LLMProvider';
 
 /**
  * Service configuration with API keys and settings
  */
 export interface ServiceConfig {
+    /** API key for the selected LLM provider (named for the original OpenAI-only setup) */
     openaiApiKey?: string;
     githubToken?: string;
     language: string;
@@ -11,6 +13,41 @@ export interface ServiceConfig {
     useEmoji: boolean;
     /** GPT reasoning effort (none/low/medium/high) */
     reasoningEffort?: ReasoningEffort;
+    /** LLM backend used for generation */
+    provider?: LLMProviderId;
+    /** Model (or Azure deployment) name; empty means the provider default */
+    model?: string;
+    /** Endpoint override for the provider (Azure resource, Ollama or compatible server) */
+    baseUrl?: string;
+    /** API version sent to Azure OpenAI */
+    azureApiVersion?: string;
+    /** Per-operation model overrides; unset operations use `model` */
+    models?: Partial<Record<ModelOperation, string>>;
+}
+
+/**
+ * Operations that can be routed to their own model
+ *
+ * `summarize` covers map-reduce chunk summaries for very large diffs.
+ */
+export type ModelOperation = 'commit' | 'pr' | 'issue' | 'summarize';
+
+/**
+ * Operations whose token usage is recorded separately
+ *
+ * `releaseNotes` uses the `pr` model but is reported on its own.
+ */
+export type UsageOperation = ModelOperation | 'releaseNotes';
+
+/**
+ * Connection settings used to construct an LLM provider client
+ */
+export interface LLMProviderSettings {
+    provider: LLMProviderId;
+    apiKey?: string;
+    model?: string;
+    baseUrl?: string;
+    azureApiVersion?: string;
 }
 
 /**
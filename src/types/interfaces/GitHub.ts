@@ -61,6 +61,8 @@ export interface GitHubDiffFile {
     additions: number;
     deletions: number;
     patch: string;
+    /** The patch was left out because the repository excludes the file's content */
+    summaryOnly?: boolean;
 }
 
 /**
@@ -147,6 +149,11 @@ export interface GitHubAPI {
             body: string;
             draft?: boolean;
         }) => Promise<GitHubCreatePRResponse>;
+        get: (params: {
+            owner: string;
+            repo: string;
+            pull_number: number;
+        }) => Promise<GitHubPullResponse>;
     };
 }
 
@@ -191,6 +198,14 @@ interface GitHubCreatePRResponse {
     };
 }
 
+interface GitHubPullResponse {
+    status: number;
+    data: {
+        number: number;
+        title: string;
+    };
+}
+
 interface GitHubBranchResponse {
     status: number;
     data: {
@@ -1,8 +1,10 @@
+import type { ServiceProvider } from '../enums/ServiceProvider';
+
 /**
  * Storage key identifier
  */
 export interface StorageKey {
-    service: 'openai' | 'github';
+    service: ServiceProvider;
     key: string;
 }
 
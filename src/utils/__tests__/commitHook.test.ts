@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import {
+    composeHookCommitMessage,
+    hasUserContent,
+    resolveCommentChar,
+    shouldGenerateForMessageSource,
+} from '../commitHook';
+
+suite('commitHook utilities', () => {
+    suite('shouldGenerateForMessageSource', () => {
+        test('should generate for plain and template commits', () => {
+            assert.strictEqual(shouldGenerateForMessageSource(undefined), true);
+            assert.strictEqual(shouldGenerateForMessageSource(''), true);
+            assert.strictEqual(shouldGenerateForMessageSource('template'), true);
+        });
+
+        test('should keep messages from -m, merges, squashes and amends', () => {
+            for (const source of ['message', 'merge', 'squash', 'commit']) {
+                assert.strictEqual(shouldGenerateForMessageSource(source), false, source);
+            }
+        });
+    });
+
+    suite('resolveCommentChar', () => {
+        test('should default to # when unset or auto', () => {
+            assert.strictEqual(resolveCommentChar(undefined), '#');
+            assert.strictEqual(resolveCommentChar('auto\n'), '#');
+            assert.strictEqual(resolveCommentChar(';\n'), ';');
+        });
+    });
+
+    const status = '# Please enter the commit message for your changes.\n#\n# On branch main\n';
+    const verbose = [
+        '# ------------------------ >8 ------------------------',
+        '# Do not modify or remove the line above.',
+        '# Everything below it will be ignored.',
+        'diff --git a/src/index.ts b/src/index.ts',
+        '+export const answer = 42;',
+        '',
+    ].join('\n');
+
+    suite('hasUserContent', () => {
+        test('should ignore comment lines and blank lines', () => {
+            assert.strictEqual(hasUserContent(`\n${status}`, [], '#'), false);
+        });
+
+        test('should detect text the user wrote', () => {
+            assert.strictEqual(hasUserContent(`fix: keep my text\n\n${status}`, [], '#'), true);
+        });
+
+        test('should not count an unchanged template as user content', () => {
+            const template = 'type(scope): subject\n\n# Describe why\n';
+            assert.strictEqual(
+                hasUserContent(`type(scope): subject\n${status}`, [template], '#'),
+                false,
+            );
+            assert.strictEqual(
+                hasUserContent(`feat(api): subject\n${status}`, [template], '#'),
+                true,
+            );
+        });
+
+        test('should ignore the diff below the scissors line of a verbose commit', () => {
+            assert.strictEqual(hasUserContent(`\n${status}${verbose}`, [], '#'), false);
+            assert.strictEqual(hasUserContent(`fix: mine\n${status}${verbose}`, [], '#'), true);
+        });
+
+        test('should honor a custom comment character', () => {
+            assert.strictEqual(hasUserContent('; comment\n', [], ';'), false);
+            assert.strictEqual(hasUserContent('# heading\n', [], ';'), true);
+        });
+    });
+
+    suite('composeHookCommitMessage', () => {
+        test('should replace the text and keep git comments', () => {
+            assert.strictEqual(
+                composeHookCommitMessage('  feat: add hook \n', 'old\n# On branch main\n#\n', '#'),
+                'feat: add hook\n\n# On branch main\n#\n',
+            );
+        });
+
+        test('should keep the scissors section of a verbose commit', () => {
+            assert.strictEqual(
+                composeHookCommitMessage('feat: add hook', `\n${status}${verbose}`, '#'),
+                `feat: add hook\n\n${status}${verbose}`,
+            );
+        });
+
+        test('should write only the message when there are no comments', () => {
+            assert.strictEqual(
+                composeHookCommitMessage('feat: add hook', '', '#'),
+                'feat: add hook\n',
+            );
+        });
+    });
+});
@@ -0,0 +1,175 @@
+import * as assert from 'assert';
+import { CommitLintRules, lintCommitMessage } from '../commitLint';
+import { parseCommitLintConfigText } from '../commitLint.config';
+import {
+    applyCommitLintRuleConfig,
+    getDefaultCommitLintRules,
+    resolveCommitLintOptions,
+} from '../commitLint.rules';
+
+const rules = (overrides: Partial<CommitLintRules> = {}): CommitLintRules => ({
+    ...getDefaultCommitLintRules(),
+    ...overrides,
+});
+
+const ruleNames = (message: string, lintRules: CommitLintRules = rules()) =>
+    lintCommitMessage(message, lintRules).map((violation) => violation.rule);
+
+suite('commitLint', () => {
+    suite('lintCommitMessage', () => {
+        test('should accept a well-formed conventional message', () => {
+            assert.deepStrictEqual(
+                ruleNames('feat(api): add retries\n\nRetry failed requests.\n\nRefs: #12'),
+                [],
+            );
+        });
+
+        test('should accept a leading emoji before the type', () => {
+            assert.deepStrictEqual(ruleNames(':sparkles: feat: add retries'), []);
+            assert.deepStrictEqual(ruleNames('✨ feat: add retries'), []);
+        });
+
+        test('should report unknown types and unparsable headers', () => {
+            assert.deepStrictEqual(ruleNames('feature: add retries'), ['type-enum']);
+            assert.deepStrictEqual(ruleNames('Add retries'), ['type-empty']);
+        });
+
+        test('should check scopes against the scope enum', () => {
+            const lintRules = rules({ scopeEnum: ['api', 'ui'] });
+            assert.deepStrictEqual(ruleNames('fix(api,ui): align', lintRules), []);
+            assert.deepStrictEqual(ruleNames('fix(db): align', lintRules), ['scope-enum']);
+            assert.deepStrictEqual(ruleNames('fix: align', lintRules), []);
+        });
+
+        test('should check header and subject length', () => {
+            const lintRules = rules({ headerMaxLength: 20, subjectMaxLength: 10 });
+            assert.deepStrictEqual(ruleNames('fix: a long subject line', lintRules), [
+                'header-max-length',
+                'subject-max-length',
+            ]);
+        });
+
+        test('should require a blank line after the header', () => {
+            assert.deepStrictEqual(ruleNames('fix: align\n- detail'), ['body-leading-blank']);
+        });
+
+        test('should report long body lines but skip lines with URLs', () => {
+            const long = 'x'.repeat(101);
+            assert.deepStrictEqual(ruleNames(`fix: align\n\n${long}`), ['body-max-line-length']);
+            assert.deepStrictEqual(ruleNames(`fix: align\n\nhttps://example.com/${long}`), []);
+        });
+
+        test('should check the footer block', () => {
+            assert.deepStrictEqual(ruleNames('fix: align\n\nBody text\nRefs: #12'), [
+                'footer-leading-blank',
+            ]);
+            assert.deepStrictEqual(ruleNames('fix!: drop v1\n\nbreaking change: v1 is gone'), [
+                'footer-format',
+            ]);
+            assert.deepStrictEqual(
+                ruleNames('fix: align\n\nSigned-off-by: Dev <d@example.com>\n  continued'),
+                [],
+            );
+        });
+    });
+
+    suite('applyCommitLintRuleConfig', () => {
+        test('should map commitlint rules and honor disabled levels', () => {
+            const result = applyCommitLintRuleConfig(rules(), {
+                'type-enum': [2, 'always', ['feat', 'fix']],
+                'header-max-length': ['RuleConfigSeverity.Error', 'always', 72],
+                'body-leading-blank': [0],
+                'body-max-line-length': [2, 'never', 100],
+                'unknown-rule': [2, 'always', true],
+            });
+
+            assert.deepStrictEqual(result.typeEnum, ['feat', 'fix']);
+            assert.strictEqual(result.headerMaxLength, 72);
+            assert.strictEqual(result.bodyLeadingBlank, false);
+            assert.strictEqual(result.bodyMaxLineLength, undefined);
+        });
+    });
+
+    suite('resolveCommitLintOptions', () => {
+        test('should use the defaults without a repository config', () => {
+            const options = resolveCommitLintOptions({
+                enabled: true,
+                maxRetries: 2,
+                hasTemplate: false,
+            });
+            assert.deepStrictEqual(options?.rules, getDefaultCommitLintRules());
+            assert.strictEqual(options?.maxRetries, 2);
+        });
+
+        test('should start from no rules unless the config extends config-conventional', () => {
+            const options = resolveCommitLintOptions({
+                enabled: true,
+                maxRetries: 1,
+                repositoryConfig: {
+                    rules: { 'subject-max-length': [2, 'always', 50] },
+                    extendsConventional: false,
+                },
+                overrides: { 'body-leading-blank': [2, 'always'] },
+                hasTemplate: true,
+            });
+            assert.deepStrictEqual(options?.rules, {
+                subjectMaxLength: 50,
+                bodyLeadingBlank: true,
+                footerLeadingBlank: false,
+            });
+        });
+
+        test('should skip linting when disabled or when only a template defines the format', () => {
+            assert.strictEqual(
+                resolveCommitLintOptions({ enabled: false, maxRetries: 2, hasTemplate: false }),
+                undefined,
+            );
+            assert.strictEqual(
+                resolveCommitLintOptions({ enabled: true, maxRetries: 2, hasTemplate: true }),
+                undefined,
+            );
+        });
+    });
+
+    suite('parseCommitLintConfigText', () => {
+        test('should read JSON configs', () => {
+            const config = parseCommitLintConfigText(
+                '{"extends": ["@commitlint/config-conventional"], "rules": {"scope-enum": [2, "always", ["api"]]}}',
+                'json',
+            );
+            assert.strictEqual(config.extendsConventional, true);
+            assert.deepStrictEqual(config.rules, { 'scope-enum': [2, 'always', ['api']] });
+        });
+
+        test('should read inline rule literals from scripts without running them', () => {
+            const config = parseCommitLintConfigText(
+                `import { RuleConfigSeverity } from '@commitlint/types';
+export default {
+    extends: ['@commitlint/config-conventional'],
+    rules: {
+        'type-enum': [RuleConfigSeverity.Error, 'always', ['feat', 'fix',]],
+        'header-max-length': [2, "always", 72],
+        'scope-enum': [2, 'always', scopes()],
+    },
+};`,
+                'script',
+            );
+            assert.strictEqual(config.extendsConventional, true);
+            assert.deepStrictEqual(config.rules, {
+                'type-enum': ['RuleConfigSeverity.Error', 'always', ['feat', 'fix']],
+                'header-max-length': [2, 'always', 72],
+            });
+        });
+
+        test('should read YAML flow sequences', () => {
+            const config = parseCommitLintConfigText(
+                'rules:\n  type-enum: [2, always, [feat, fix]]\n  body-leading-blank: [1, always]\n',
+                'yaml',
+            );
+            assert.deepStrictEqual(config.rules, {
+                'type-enum': [2, 'always', ['feat', 'fix']],
+                'body-leading-blank': [1, 'always'],
+            });
+        });
+    });
+});
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import {
+    appendCommitTrailer,
+    COMMIT_TRAILER,
+    getCandidateStyles,
+    splitCommitMessage,
+    stripCommitTrailer,
+    uniqueCommitMessages,
+} from '../commitMessage';
+
+suite('commitMessage utilities', () => {
+    suite('splitCommitMessage', () => {
+        test('should return the whole message as subject when there is no body', () => {
+            assert.deepStrictEqual(splitCommitMessage('  feat: add candidates  '), {
+                subject: 'feat: add candidates',
+                body: '',
+            });
+        });
+
+        test('should split subject and body and drop the separating blank line', () => {
+            assert.deepStrictEqual(
+                splitCommitMessage('fix: handle empty diff\r\n\r\n- Return early\r\n- Log reason'),
+                { subject: 'fix: handle empty diff', body: '- Return early\n- Log reason' },
+            );
+        });
+    });
+
+    suite('getCandidateStyles', () => {
+        test('should start with the preferred style and rotate through the others', () => {
+            assert.deepStrictEqual(getCandidateStyles('detailed', 4), [
+                'detailed',
+                'normal',
+                'simple',
+                'detailed',
+            ]);
+        });
+
+        test('should return an empty list for non-positive counts', () => {
+            assert.deepStrictEqual(getCandidateStyles('normal', 0), []);
+        });
+    });
+
+    suite('uniqueCommitMessages', () => {
+        test('should drop empty and duplicate messages while keeping order', () => {
+            assert.deepStrictEqual(uniqueCommitMessages(['b', ' a ', '', 'b\n', 'a']), [
+                'b',
+                ' a ',
+            ]);
+        });
+    });
+
+    suite('commit trailer', () => {
+        test('should round-trip appendCommitTrailer through stripCommitTrailer', () => {
+            const withTrailer = appendCommitTrailer('feat: add refine');
+            assert.ok(withTrailer.endsWith(COMMIT_TRAILER));
+            assert.deepStrictEqual(stripCommitTrailer(`${withTrailer}\n`), {
+                message: 'feat: add refine',
+                hadTrailer: true,
+            });
+        });
+
+        test('should leave messages without the trailer untouched', () => {
+            assert.deepStrictEqual(stripCommitTrailer('fix: typo\n'), {
+                message: 'fix: typo\n',
+                hadTrailer: false,
+            });
+        });
+    });
+});
@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import {
+    buildPatchForUnits,
+    formatChangeUnitsForPrompt,
+    resolveCommitSplitPlan,
+    splitDiffIntoChangeUnits,
+} from '../commitSplit';
+
+const MODIFIED_FILE = [
+    'diff --git a/src/app.ts b/src/app.ts',
+    'index 1111111..2222222 100644',
+    '--- a/src/app.ts',
+    '+++ b/src/app.ts',
+    '@@ -1,3 +1,4 @@',
+    ' import a from "a";',
+    '+import b from "b";',
+    ' ',
+    ' start();',
+    '@@ -20,3 +21,3 @@ function start() {',
+    '-    run(1);',
+    '+    run(2);',
+    ' }',
+    '',
+].join('\n');
+
+const NEW_FILE = [
+    'diff --git a/docs/guide.md b/docs/guide.md',
+    'new file mode 100644',
+    'index 0000000..3333333',
+    '--- /dev/null',
+    '+++ b/docs/guide.md',
+    '@@ -0,0 +1,2 @@',
+    '+# Guide',
+    '+Text',
+    '',
+].join('\n');
+
+const PATCH = MODIFIED_FILE + NEW_FILE;
+
+suite('commitSplit utilities', () => {
+    suite('splitDiffIntoChangeUnits', () => {
+        test('should split modified files by hunk and keep new files whole', () => {
+            const units = splitDiffIntoChangeUnits(PATCH);
+
+            assert.deepStrictEqual(
+                units.map((unit) => [unit.id, unit.filePath, unit.additions, unit.deletions]),
+                [
+                    ['1.1', 'src/app.ts', 1, 0],
+                    ['1.2', 'src/app.ts', 1, 1],
+                    ['2', 'docs/guide.md', 2, 0],
+                ],
+            );
+            assert.ok(units[1].body.startsWith('@@ -20,3 +21,3 @@'));
+            assert.ok(units[2].header.includes('new file mode'));
+        });
+
+        test('should return no units for an empty diff', () => {
+            assert.deepStrictEqual(splitDiffIntoChangeUnits(''), []);
+        });
+    });
+
+    suite('buildPatchForUnits', () => {
+        test('should rebuild the original patch from all units in any order', () => {
+            const units = splitDiffIntoChangeUnits(PATCH);
+            assert.strictEqual(buildPatchForUnits([...units].reverse()), PATCH);
+        });
+
+        test('should emit the file header once for a subset of hunks', () => {
+            const [, second] = splitDiffIntoChangeUnits(PATCH);
+            const patch = buildPatchForUnits([second]);
+
+            assert.strictEqual(patch.match(/^diff --git/gm)?.length, 1);
+            assert.ok(!patch.includes('import b'));
+            assert.ok(patch.includes('+    run(2);'));
+        });
+    });
+
+    suite('formatChangeUnitsForPrompt', () => {
+        test('should truncate long units and list ids with counts', () => {
+            const text = formatChangeUnitsForPrompt(splitDiffIntoChangeUnits(PATCH), 2);
+
+            assert.ok(text.includes('[1.1] src/app.ts (+1/-0)'));
+            assert.ok(text.includes('... (3 more lines)'));
+        });
+
+        test('should list only headings when no lines are allowed', () => {
+            const text = formatChangeUnitsForPrompt(splitDiffIntoChangeUnits(PATCH), 0);
+            assert.strictEqual(
+                text,
+                '[1.1] src/app.ts (+1/-0)\n\n[1.2] src/app.ts (+1/-1)\n\n[2] docs/guide.md (+2/-0)',
+            );
+        });
+    });
+
+    suite('resolveCommitSplitPlan', () => {
+        test('should drop unknown ids, duplicates and empty commits', () => {
+            const units = splitDiffIntoChangeUnits(PATCH);
+            const { groups, unassigned } = resolveCommitSplitPlan(
+                {
+                    commits: [
+                        { message: 'feat: add b import', units: ['1.1', '9'] },
+                        { message: 'docs: add guide', units: ['2', '1.1'] },
+                        { message: '  ', units: ['1.2'] },
+                        { message: 'chore: nothing', units: [] },
+                    ],
+                },
+                units,
+            );
+
+            assert.deepStrictEqual(
+                groups.map((group) => [group.message, group.units.map((unit) => unit.id)]),
+                [
+                    ['feat: add b import', ['1.1']],
+                    ['docs: add guide', ['2']],
+                ],
+            );
+            assert.deepStrictEqual(
+                unassigned.map((unit) => unit.id),
+                ['1.2'],
+            );
+        });
+    });
+});
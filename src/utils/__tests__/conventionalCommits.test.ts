@@ -4,8 +4,11 @@ import {
     generateScopeHint,
     getConventionalCommitsFormat,
     getTraditionalFormat,
+    parseConventionalCommit,
 } from '../conventionalCommits';
 
+const parse = (message: string) => parseConventionalCommit({ hash: 'a1', message });
+
 suite('Conventional Commits Unit Tests', () => {
     suite('extractFilePathsFromDiff', () => {
         test('should handle renamed files', () => {
@@ -84,4 +87,34 @@ rename to new-name.ts`;
             );
         });
     });
+
+    suite('parseConventionalCommit', () => {
+        test('should parse type, scope, breaking marker and pull request references', () => {
+            assert.deepStrictEqual(parse('feat(parser)!: add streaming (#12)'), {
+                hash: 'a1',
+                type: 'feat',
+                scope: 'parser',
+                subject: 'add streaming',
+                breaking: true,
+                pullRequests: [12],
+            });
+            assert.deepStrictEqual(
+                parse('✨ fix: handle empty diff\n\nBREAKING CHANGE: drops v1'),
+                {
+                    hash: 'a1',
+                    type: 'fix',
+                    scope: undefined,
+                    subject: 'handle empty diff',
+                    breaking: true,
+                    pullRequests: [],
+                },
+            );
+            assert.deepStrictEqual(parse('Bump lodash (#3) (#4)'), {
+                hash: 'a1',
+                subject: 'Bump lodash',
+                breaking: false,
+                pullRequests: [3, 4],
+            });
+        });
+    });
 });
@@ -0,0 +1,167 @@
+import { suite, test } from 'mocha';
+import * as assert from 'assert';
+import { FilePriority } from '../../constants/diffClassification';
+import { generateDiffSummaryContent } from '../../services/prPrompt';
+import {
+    classifyPullRequestFiles,
+    globToRegExp,
+    parseClassificationConfig,
+    parseGitAttributes,
+} from '../diff.classification';
+import { parseDiffIntoFiles } from '../diffUtils';
+
+suite('diff.classification', () => {
+    suite('globToRegExp', () => {
+        test('should match a pattern without a slash at any depth', () => {
+            const pattern = globToRegExp('*.pb.go');
+
+            assert.ok(pattern.test('api.pb.go'));
+            assert.ok(pattern.test('proto/v1/api.pb.go'));
+            assert.ok(!pattern.test('api.pb.go.orig'));
+        });
+
+        test('should anchor a pattern with a slash to the repository root', () => {
+            assert.ok(globToRegExp('/gen/*.ts').test('gen/client.ts'));
+            assert.ok(!globToRegExp('/gen/*.ts').test('pkg/gen/client.ts'));
+            assert.ok(!globToRegExp('gen/*.ts').test('gen/v1/client.ts'));
+        });
+
+        test('should cross directories with double stars', () => {
+            assert.ok(globToRegExp('clients/**/*.ts').test('clients/openapi/v2/models.ts'));
+            assert.ok(globToRegExp('clients/**/*.ts').test('clients/index.ts'));
+            assert.ok(globToRegExp('**/vendor/**').test('third_party/vendor/lib/a.c'));
+        });
+
+        test('should match everything below a directory with a trailing slash', () => {
+            const pattern = globToRegExp('vendor/');
+
+            assert.ok(pattern.test('vendor/github.com/pkg/errors/errors.go'));
+            assert.ok(pattern.test('services/api/vendor/lib.js'));
+            assert.ok(!pattern.test('vendored.go'));
+        });
+
+        test('should support single characters and character classes', () => {
+            assert.ok(globToRegExp('v?.json').test('schemas/v1.json'));
+            assert.ok(globToRegExp('[!a]*.txt').test('notes.txt'));
+            assert.ok(!globToRegExp('[!a]*.txt').test('about.txt'));
+            assert.ok(globToRegExp('file(1).txt').test('file(1).txt'));
+        });
+    });
+
+    suite('parseGitAttributes', () => {
+        test('should map diff and linguist attributes to priorities', () => {
+            const rules = parseGitAttributes(
+                [
+                    '# Generated code',
+                    '*.pb.go linguist-generated=true',
+                    'third_party/** linguist-vendored',
+                    '*.svg -diff',
+                    '*.bin binary',
+                    'gen/keep.ts -linguist-generated',
+                    '*.ts text eol=lf',
+                ].join('\n'),
+            );
+
+            assert.deepStrictEqual(
+                rules.map((rule) => [rule.priority, rule.source]),
+                [
+                    [FilePriority.LOW, '.gitattributes:2'],
+                    [FilePriority.LOW, '.gitattributes:3'],
+                    [FilePriority.EXCLUDE, '.gitattributes:4'],
+                    [FilePriority.EXCLUDE, '.gitattributes:5'],
+                    [FilePriority.HIGH, '.gitattributes:6'],
+                ],
+            );
+            assert.ok(rules[0].pattern.test('api/v1/service.pb.go'));
+        });
+
+        test('should use the last relevant attribute on a line', () => {
+            const [rule] = parseGitAttributes(
+                'dist/** linguist-generated linguist-generated=false',
+            );
+
+            assert.strictEqual(rule.priority, FilePriority.HIGH);
+        });
+    });
+
+    suite('parseClassificationConfig', () => {
+        test('should order rules so that high wins over exclude and low', () => {
+            const { rules, warnings } = parseClassificationConfig({
+                high: ['gen/api.ts'],
+                exclude: ['gen/'],
+                low: ['*.generated.ts'],
+            });
+
+            assert.deepStrictEqual(warnings, []);
+            assert.deepStrictEqual(
+                rules.map((rule) => rule.priority),
+                [FilePriority.LOW, FilePriority.EXCLUDE, FilePriority.HIGH],
+            );
+            assert.strictEqual(rules[2].source, '.otakcommitter.json:diffClassification.high');
+        });
+
+        test('should warn about values of the wrong type', () => {
+            assert.deepStrictEqual(parseClassificationConfig(undefined), {
+                rules: [],
+                warnings: [],
+            });
+            assert.strictEqual(parseClassificationConfig(['gen/']).warnings.length, 1);
+
+            const { rules, warnings } = parseClassificationConfig({
+                low: 'gen/',
+                exclude: [1, 'x/'],
+            });
+
+            assert.strictEqual(rules.length, 1);
+            assert.strictEqual(warnings.length, 2);
+        });
+    });
+
+    suite('classification in diffs', () => {
+        const rules = [
+            ...parseGitAttributes('proto/** linguist-generated\n*.snap -diff'),
+            ...parseClassificationConfig({ exclude: ['clients/'] }).rules,
+        ];
+
+        test('should apply repository rules when parsing a diff', () => {
+            const diff = ['proto/a.pb.go', 'clients/api.ts', 'src/index.ts']
+                .map((file) => `diff --git a/${file} b/${file}\n@@ -1 +1 @@\n+x\n`)
+                .join('');
+
+            assert.deepStrictEqual(
+                parseDiffIntoFiles(diff, rules).map((file) => file.priority),
+                [FilePriority.LOW, FilePriority.EXCLUDE, FilePriority.HIGH],
+            );
+        });
+
+        test('should move important PR files first and drop excluded patches', () => {
+            const files = classifyPullRequestFiles(
+                [
+                    { filename: 'proto/a.pb.go', additions: 1, deletions: 0, patch: '+generated' },
+                    { filename: 'clients/api.ts', additions: 9, deletions: 2, patch: '+client' },
+                    { filename: 'src/index.ts', additions: 1, deletions: 1, patch: '+source' },
+                ],
+                rules,
+            );
+
+            assert.deepStrictEqual(
+                files.map((file) => file.filename),
+                ['src/index.ts', 'proto/a.pb.go', 'clients/api.ts'],
+            );
+            assert.strictEqual(files[2].patch, '');
+            assert.strictEqual(files[2].summaryOnly, true);
+
+            const summary = generateDiffSummaryContent({
+                files,
+                stats: { additions: 11, deletions: 3 },
+            });
+            assert.ok(
+                summary.includes(
+                    '- clients/api.ts (additions: 9, deletions: 2) [content excluded]',
+                ),
+            );
+            assert.ok(!summary.includes('[clients/api.ts]'));
+            assert.ok(summary.includes('[src/index.ts]\n+source'));
+        });
+    });
+});
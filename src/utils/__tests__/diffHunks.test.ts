@@ -0,0 +1,200 @@
+import { suite, test } from 'mocha';
+import * as assert from 'assert';
+import {
+    assemblePrioritizedDiff,
+    buildChangeSummaryHeader,
+    condenseFileDiff,
+    estimateTokenCount,
+    parseDiffIntoFiles,
+    removeFilesFromDiff,
+    scoreHunk,
+    splitFileIntoHunks,
+} from '../diffUtils';
+
+/**
+ * Helper to create a file diff from hunks of added lines
+ */
+function makeHunkedDiff(
+    filePath: string,
+    hunks: Array<{ section?: string; lines: string[] }>,
+): string {
+    const body = hunks
+        .map(({ section, lines }, i) => {
+            const start = i * 100 + 1;
+            const header = `@@ -${start},0 +${start},${lines.length} @@${section ? ` ${section}` : ''}`;
+            return [header, ...lines.map((line) => `+${line}`)].join('\n') + '\n';
+        })
+        .join('');
+    return `diff --git a/${filePath} b/${filePath}
+index abc1234..def5678 100644
+--- a/${filePath}
++++ b/${filePath}
+${body}`;
+}
+
+function bodyLines(count: number, label: string): string[] {
+    return Array.from({ length: count }, (_, i) => `    total += ${label}Value${i} * factor;`);
+}
+
+suite('diffUtils - Hunk prioritization', () => {
+    suite('scoreHunk', () => {
+        test('should rank signature changes above body edits', () => {
+            const signature = scoreHunk(
+                ['@@ -1 +1 @@', '-function load(path) {', '+function load(path, options) {'],
+                'src/loader.ts',
+            );
+            const body = scoreHunk(
+                ['@@ -1 +1 @@', '-    retries = 3;', '+    retries = 5;'],
+                'src/loader.ts',
+            );
+
+            assert.ok(signature > body);
+        });
+
+        test('should rank exported symbols above internal ones', () => {
+            const exported = scoreHunk(
+                ['@@ -1 +1 @@', '+export const LIMIT = 10;'],
+                'src/limits.ts',
+            );
+            const internal = scoreHunk(['@@ -1 +1 @@', '+const LIMIT = 10;'], 'src/limits.ts');
+
+            assert.ok(exported > internal);
+        });
+
+        test('should halve the score of test files', () => {
+            const lines = ['@@ -1 +1 @@', '+export function helper() {'];
+
+            assert.strictEqual(
+                scoreHunk(lines, 'src/__tests__/a.test.ts'),
+                scoreHunk(lines, 'src/a.ts') / 2,
+            );
+        });
+
+        test('should give configuration files a bonus', () => {
+            const lines = ['@@ -1 +1 @@', '+  "strict": true'];
+
+            assert.ok(scoreHunk(lines, 'tsconfig.json') > scoreHunk(lines, 'src/data.json'));
+        });
+    });
+
+    suite('splitFileIntoHunks', () => {
+        test('should split a file at its hunk headers', () => {
+            const [file] = parseDiffIntoFiles(
+                makeHunkedDiff('src/a.ts', [
+                    { section: 'class Parser', lines: ['a', 'b'] },
+                    { lines: ['c'] },
+                ]),
+            );
+            const { header, hunks } = splitFileIntoHunks(file);
+
+            assert.ok(header.startsWith('diff --git a/src/a.ts'));
+            assert.ok(header.endsWith('+++ b/src/a.ts\n'));
+            assert.strictEqual(hunks.length, 2);
+            assert.strictEqual(hunks[0].startLine, 1);
+            assert.strictEqual(hunks[0].lineCount, 2);
+            assert.strictEqual(hunks[0].additions, 2);
+            assert.strictEqual(hunks[1].startLine, 101);
+            assert.strictEqual(header + hunks.map((hunk) => hunk.content).join(''), file.content);
+        });
+
+        test('should return no hunks for a file without any', () => {
+            const [file] = parseDiffIntoFiles(
+                'diff --git a/logo.png b/logo.png\nBinary files a/logo.png and b/logo.png differ\n',
+            );
+
+            assert.deepStrictEqual(splitFileIntoHunks(file).hunks, []);
+        });
+    });
+
+    suite('condenseFileDiff', () => {
+        const diff = makeHunkedDiff('src/service.ts', [
+            { section: 'function start()', lines: bodyLines(40, 'first') },
+            { lines: ['export function stop(force: boolean) {', '    return force;', '}'] },
+            { section: 'function restart()', lines: bodyLines(40, 'second') },
+        ]);
+
+        test('should keep the highest-value hunks and note the elided ones', () => {
+            const [file] = parseDiffIntoFiles(diff);
+            const condensed = condenseFileDiff(file, Math.floor(file.tokenCount / 2));
+
+            assert.ok(condensed);
+            assert.ok(condensed.tokenCount <= Math.floor(file.tokenCount / 2));
+            assert.ok(condensed.content.includes('+export function stop(force: boolean) {'));
+            assert.ok(condensed.content.startsWith('diff --git a/src/service.ts'));
+            assert.ok(/\.\.\. [12] of 3 hunks omitted \(\+\d+\/-0\): /.test(condensed.content));
+            assert.strictEqual(condensed.keptHunks + condensed.elidedHunks, 3);
+            assert.strictEqual(condensed.elided.filePath, 'src/service.ts');
+            assert.ok(condensed.elided.additions > 0);
+        });
+
+        test('should name the sections of elided hunks', () => {
+            const [file] = parseDiffIntoFiles(diff);
+            const condensed = condenseFileDiff(file, Math.floor(file.tokenCount / 3));
+
+            assert.ok(condensed);
+            assert.strictEqual(condensed.keptHunks, 1);
+            assert.ok(condensed.content.includes('function start(); function restart()'));
+        });
+
+        test('should give up when no hunk fits or there is only one', () => {
+            const [file] = parseDiffIntoFiles(diff);
+            const [single] = parseDiffIntoFiles(
+                makeHunkedDiff('src/a.ts', [{ lines: bodyLines(40, 'x') }]),
+            );
+
+            assert.strictEqual(condenseFileDiff(file, 10), undefined);
+            assert.strictEqual(condenseFileDiff(single, 10), undefined);
+        });
+    });
+
+    suite('assemblePrioritizedDiff', () => {
+        test('should condense a large file instead of crowding out the others', () => {
+            const diff =
+                makeHunkedDiff('src/big.ts', [
+                    { section: 'function a()', lines: bodyLines(200, 'a') },
+                    { lines: ['export interface Options {', '    verbose: boolean;', '}'] },
+                    { section: 'function b()', lines: bodyLines(200, 'b') },
+                ]) +
+                makeHunkedDiff('src/small.ts', [{ lines: ['export const small = 1;'] }]) +
+                makeHunkedDiff('src/other.ts', [{ lines: ['export const other = 2;'] }]);
+            const files = parseDiffIntoFiles(diff);
+            const header = buildChangeSummaryHeader(files);
+            const budget = Math.floor(files[0].tokenCount / 2);
+            const result = assemblePrioritizedDiff(files, header, budget);
+
+            assert.strictEqual(result.includedCount, 2);
+            assert.strictEqual(result.condensedCount, 1);
+            assert.strictEqual(result.summaryOnlyCount, 0);
+            assert.ok(estimateTokenCount(result.content) <= budget);
+            assert.ok(result.content.includes('+export interface Options {'));
+            assert.ok(result.content.includes('+export const small = 1;'));
+            assert.ok(result.content.includes('+export const other = 2;'));
+            assert.deepStrictEqual(
+                result.overflowFiles.map((file) => file.filePath),
+                ['src/big.ts'],
+            );
+            assert.deepStrictEqual(
+                result.treatments.map((file) => [file.filePath, file.treatment]),
+                [
+                    ['src/big.ts', 'condensed'],
+                    ['src/small.ts', 'full'],
+                    ['src/other.ts', 'full'],
+                ],
+            );
+            assert.ok(result.treatments[0].sentTokens < result.treatments[0].tokenCount);
+        });
+    });
+
+    suite('removeFilesFromDiff', () => {
+        test('should drop the named files and keep the others intact', () => {
+            const small = makeHunkedDiff('src/small.ts', [{ lines: ['export const small = 1;'] }]);
+            const other = makeHunkedDiff('src/other.ts', [{ lines: ['export const other = 2;'] }]);
+
+            assert.strictEqual(
+                removeFilesFromDiff(small + other, new Set(['src/small.ts'])),
+                other,
+            );
+            assert.strictEqual(removeFilesFromDiff('not a diff', new Set(['a.ts'])), 'not a diff');
+        });
+    });
+});
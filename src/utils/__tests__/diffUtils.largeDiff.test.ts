@@ -4,6 +4,7 @@ import {
     parseDiffIntoFiles,
     buildChangeSummaryHeader,
     assemblePrioritizedDiff,
+    estimateTokenCount,
     FilePriority,
 } from '../diffUtils';
 
@@ -176,7 +177,7 @@ suite('diffUtils - Large Diff Processing', () => {
             const header = buildChangeSummaryHeader(files);
 
             // Budget just enough for header + one file
-            const headerTokens = Math.ceil(header.length / 4);
+            const headerTokens = estimateTokenCount(header);
             const importantFileTokens = files.find(
                 (f) => f.filePath === 'src/important.ts',
             )!.tokenCount;
@@ -206,7 +207,7 @@ suite('diffUtils - Large Diff Processing', () => {
             const header = buildChangeSummaryHeader(files);
 
             // Very tight budget: only enough for header + one file
-            const headerTokens = Math.ceil(header.length / 4);
+            const headerTokens = estimateTokenCount(header);
             const firstFileTokens = files[0].tokenCount;
             const tightBudget = headerTokens + firstFileTokens + 1;
 
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { parsePartialJsonStrings } from '../partialJson';
+
+suite('parsePartialJsonStrings', () => {
+    test('should read complete objects', () => {
+        assert.deepStrictEqual(parsePartialJsonStrings('{"title": "feat: add", "body": "Done"}'), {
+            title: 'feat: add',
+            body: 'Done',
+        });
+    });
+
+    test('should return the text received so far for a cut-off string', () => {
+        assert.deepStrictEqual(parsePartialJsonStrings('{"title":"feat: add","body":"Adds re'), {
+            title: 'feat: add',
+            body: 'Adds re',
+        });
+        assert.deepStrictEqual(parsePartialJsonStrings('{"title":"feat'), { title: 'feat' });
+        assert.deepStrictEqual(parsePartialJsonStrings('{"tit'), {});
+        assert.deepStrictEqual(parsePartialJsonStrings(''), {});
+    });
+
+    test('should decode escapes and drop an escape that is cut off', () => {
+        assert.deepStrictEqual(parsePartialJsonStrings('{"body":"a\\nb \\"c\\" \\u00e9'), {
+            body: 'a\nb "c" é',
+        });
+        assert.deepStrictEqual(parsePartialJsonStrings('{"body":"line\\'), { body: 'line' });
+        assert.deepStrictEqual(parsePartialJsonStrings('{"body":"x\\u00'), { body: 'x' });
+    });
+
+    test('should skip values that are not strings', () => {
+        assert.deepStrictEqual(
+            parsePartialJsonStrings('{"draft": true, "count": 2, "title": "fix"}'),
+            { title: 'fix' },
+        );
+    });
+});
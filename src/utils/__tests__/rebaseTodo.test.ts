@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import {
+    formatRebaseTodo,
+    getAutosquashTarget,
+    isWipMessage,
+    planRebaseTodo,
+    rebasePlanHasChanges,
+} from '../rebaseTodo';
+
+const commit = (hash: string, message: string) => ({ hash, message });
+
+suite('Rebase Todo Tests', () => {
+    test('should recognise placeholder messages by their subject', () => {
+        for (const message of ['WIP', 'wip: parser', 'tmp', '.', '...', '---', 'fix', 'Update']) {
+            assert.strictEqual(isWipMessage(message), true, message);
+        }
+        for (const message of ['fix: handle empty diff', 'Update README links', 'wiping cache']) {
+            assert.strictEqual(isWipMessage(message), false, message);
+        }
+        assert.strictEqual(isWipMessage('feat: add parser\n\nWIP on tests'), false);
+    });
+
+    test('should resolve nested autosquash prefixes', () => {
+        assert.strictEqual(getAutosquashTarget('fixup! feat: add parser'), 'feat: add parser');
+        assert.strictEqual(getAutosquashTarget('fixup! squash! feat: add'), 'feat: add');
+        assert.strictEqual(getAutosquashTarget('amend! abc1234\n\nfeat: better'), 'abc1234');
+        assert.strictEqual(getAutosquashTarget('feat: fixup! inside'), undefined);
+    });
+
+    test('should fold autosquash commits into their targets and reword placeholders', () => {
+        const feat = commit('a1', 'feat: add parser');
+        const wip = commit('b2', 'WIP');
+        const fixup = commit('c3', 'fixup! feat: add parser');
+        const byHash = commit('d4', 'fixup! b2');
+        const orphan = commit('e5', 'fixup! feat: not in range');
+
+        const groups = planRebaseTodo([feat, wip, fixup, byHash, orphan]);
+
+        assert.deepStrictEqual(groups, [
+            { commit: feat, fixups: [fixup], reword: false },
+            { commit: wip, fixups: [byHash], reword: true },
+            { commit: orphan, fixups: [], reword: true },
+        ]);
+        assert.strictEqual(rebasePlanHasChanges(groups), true);
+        assert.strictEqual(
+            rebasePlanHasChanges(planRebaseTodo([feat, commit('f6', 'fix: handle x')])),
+            false,
+        );
+    });
+
+    test('should write picks, fixups and an amend exec for reworded commits', () => {
+        const groups = planRebaseTodo([
+            commit('a1', 'feat: add parser'),
+            commit('b2', 'WIP\n\nnotes'),
+            commit('c3', 'fixup! WIP'),
+        ]);
+
+        const todo = formatRebaseTodo(groups, new Map([['b2', "C:\\tmp\\it's.txt"]]));
+
+        assert.strictEqual(
+            todo,
+            [
+                'pick a1 feat: add parser',
+                'pick b2 WIP',
+                'fixup c3 fixup! WIP',
+                `exec git commit --amend --no-verify --allow-empty -F 'C:/tmp/it'\\''s.txt'`,
+                '',
+            ].join('\n'),
+        );
+    });
+
+    test('should keep the message of squash! commits with a squash line', () => {
+        const groups = planRebaseTodo([
+            commit('a1', 'feat: add parser'),
+            commit('b2', 'squash! feat: add parser\n\nAlso handle empty input'),
+            commit('c3', 'fixup! squash! feat: add parser'),
+        ]);
+
+        assert.strictEqual(
+            formatRebaseTodo(groups, new Map()),
+            [
+                'pick a1 feat: add parser',
+                'squash b2 squash! feat: add parser',
+                'fixup c3 fixup! squash! feat: add parser',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    test('should replace the target message with that of an amend! commit', () => {
+        const groups = planRebaseTodo([
+            commit('a1', 'feat: add parser'),
+            commit('b2', 'amend! feat: add parser\n\nfeat: add a CSV parser'),
+        ]);
+
+        assert.strictEqual(
+            formatRebaseTodo(groups, new Map()),
+            ['pick a1 feat: add parser', 'fixup -C b2 amend! feat: add parser', ''].join('\n'),
+        );
+    });
+});
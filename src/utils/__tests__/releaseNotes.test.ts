@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import {
+    formatReleaseHeading,
+    formatReleaseNoteGroups,
+    groupReleaseCommits,
+    insertReleaseSection,
+    normalizeReleaseNotesBody,
+    readMergedPullRequestTitles,
+} from '../releaseNotes';
+import { parseConventionalCommit } from '../conventionalCommits';
+
+const parse = (message: string, hash = 'a1') => parseConventionalCommit({ hash, message });
+
+suite('Release Notes Tests', () => {
+    test('should read pull request titles from merge commits', () => {
+        const titles = readMergedPullRequestTitles([
+            { hash: 'm1', message: 'Merge pull request #7 from me/feature\n\nAdd release notes' },
+            { hash: 'm2', message: "Merge branch 'main' into feature" },
+        ]);
+        assert.deepStrictEqual([...titles], [[7, 'Add release notes']]);
+    });
+
+    test('should group by Keep a Changelog section, type and scope', () => {
+        const groups = groupReleaseCommits([
+            parse('chore: bump deps', 'c1'),
+            parse('fix(ui): align button', 'c2'),
+            parse('feat(ui): dark mode', 'c3'),
+            parse('Tidy things up', 'c4'),
+            parse('feat: export csv', 'c5'),
+            parse('refactor(ui): extract hook', 'c6'),
+        ]);
+
+        assert.deepStrictEqual(
+            groups.map((group) => [group.section, group.type, group.scope, group.commits.length]),
+            [
+                ['Added', 'feat', undefined, 1],
+                ['Added', 'feat', 'ui', 1],
+                ['Changed', 'refactor', 'ui', 1],
+                ['Changed', 'chore', undefined, 1],
+                ['Changed', undefined, undefined, 1],
+                ['Fixed', 'fix', 'ui', 1],
+            ],
+        );
+    });
+
+    test('should list commits with pull request titles and unreferenced merges', () => {
+        const groups = groupReleaseCommits([
+            parse('feat(ui)!: dark mode (#12)'),
+            parse('fix: crash on start', 'b2'),
+        ]);
+        const text = formatReleaseNoteGroups(
+            groups,
+            new Map([
+                [12, 'Dark mode'],
+                [15, 'Docs overhaul'],
+            ]),
+        );
+
+        assert.strictEqual(
+            text,
+            [
+                '### Added',
+                '',
+                'feat(ui):\n- dark mode (#12 "Dark mode") [BREAKING]',
+                '',
+                '### Fixed',
+                '',
+                'fix:\n- crash on start',
+                '',
+                'Pull requests merged in this release:\n- #15 "Docs overhaul"',
+            ].join('\n'),
+        );
+    });
+
+    test('should build headings and clean up model output', () => {
+        assert.strictEqual(formatReleaseHeading('v1.2.0', '2026-10-19'), '## [1.2.0] - 2026-10-19');
+        assert.strictEqual(
+            formatReleaseHeading('release-3', '2026-10-19'),
+            '## [release-3] - 2026-10-19',
+        );
+        assert.strictEqual(formatReleaseHeading(undefined, '2026-10-19'), '## [Unreleased]');
+        assert.strictEqual(
+            normalizeReleaseNotesBody('```markdown\n## [1.0.0]\n\n### Added\n\n- x\n```'),
+            '### Added\n\n- x',
+        );
+    });
+
+    test('should insert a release above earlier ones and replace one with the same heading', () => {
+        const changelog = '# Changelog\n\nIntro.\n\n## [1.0.0] - 2026-01-01\n\n- old\n';
+
+        const added = insertReleaseSection(
+            changelog,
+            '## [1.1.0] - 2026-02-01\n\n### Added\n\n- new',
+        );
+        assert.strictEqual(
+            added,
+            '# Changelog\n\nIntro.\n\n## [1.1.0] - 2026-02-01\n\n### Added\n\n- new\n\n## [1.0.0] - 2026-01-01\n\n- old\n',
+        );
+
+        const replaced = insertReleaseSection(added, '## [1.1.0] - 2026-02-02\n\n- newer');
+        assert.strictEqual(
+            replaced,
+            '# Changelog\n\nIntro.\n\n## [1.1.0] - 2026-02-02\n\n- newer\n\n## [1.0.0] - 2026-01-01\n\n- old\n',
+        );
+
+        assert.strictEqual(
+            insertReleaseSection('', '## [Unreleased]\n\n- x'),
+            '# Changelog\n\n## [Unreleased]\n\n- x\n',
+        );
+    });
+});
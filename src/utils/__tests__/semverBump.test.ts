@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { parseConventionalCommit } from '../conventionalCommits';
+import {
+    findLatestReleaseTag,
+    formatTagVersion,
+    parseTagVersion,
+    suggestVersionBump,
+} from '../semverBump';
+
+const parse = (message: string) => parseConventionalCommit({ hash: 'a1', message });
+
+suite('Semver Bump Tests', () => {
+    test('should read versions with a prefix, pre-release and build metadata', () => {
+        assert.deepStrictEqual(parseTagVersion('v1.2.3'), {
+            prefix: 'v',
+            major: 1,
+            minor: 2,
+            patch: 3,
+            prerelease: undefined,
+        });
+        assert.deepStrictEqual(parseTagVersion('release-2.0.0-rc.1+build.5'), {
+            prefix: 'release-',
+            major: 2,
+            minor: 0,
+            patch: 0,
+            prerelease: 'rc.1',
+        });
+        assert.strictEqual(parseTagVersion('nightly'), undefined);
+        assert.strictEqual(formatTagVersion(parseTagVersion('v2.0.0-rc.1')!), 'v2.0.0-rc.1');
+    });
+
+    test('should skip pre-release and non-version tags when finding the last release', () => {
+        const latest = findLatestReleaseTag(['v2.0.0-rc.1', 'nightly', 'v1.4.0', 'v1.3.9']);
+        assert.strictEqual(latest?.tag, 'v1.4.0');
+        assert.strictEqual(findLatestReleaseTag(['nightly']), undefined);
+    });
+
+    test('should pick the largest bump the commits call for and keep the prefix', () => {
+        const current = parseTagVersion('v1.4.2')!;
+        const fix = parse('fix: handle empty diff');
+        const feat = parse('feat(ui): add preview');
+        const chore = parse('chore: bump deps');
+
+        assert.strictEqual(suggestVersionBump([fix, chore], current).next, 'v1.4.3');
+        assert.strictEqual(suggestVersionBump([fix, feat], current).next, 'v1.5.0');
+
+        const breaking = suggestVersionBump([fix, parse('refactor!: drop node 16')], current);
+        assert.strictEqual(breaking.bump, 'major');
+        assert.strictEqual(breaking.next, 'v2.0.0');
+        assert.deepStrictEqual(
+            breaking.breaking.map((commit) => commit.subject),
+            ['drop node 16'],
+        );
+        assert.strictEqual(breaking.fixes.length, 1);
+    });
+
+    test('should bump the minor version for breaking changes before 1.0.0', () => {
+        const suggestion = suggestVersionBump(
+            [parse('fix: rename option\n\nBREAKING CHANGE: `foo` is now `bar`')],
+            parseTagVersion('0.3.1')!,
+        );
+        assert.strictEqual(suggestion.bump, 'minor');
+        assert.strictEqual(suggestion.next, '0.4.0');
+        assert.ok(suggestion.preMajor);
+        assert.strictEqual(suggestion.fixes.length, 0);
+    });
+
+    test('should suggest no release without features, fixes or breaking changes', () => {
+        const suggestion = suggestVersionBump([parse('docs: fix typo'), parse('Update readme')]);
+        assert.strictEqual(suggestion.bump, 'none');
+        assert.strictEqual(suggestion.next, undefined);
+        assert.strictEqual(suggestVersionBump([parse('feat: init')]).next, '0.1.0');
+    });
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import { countTokens, isWithinTokenLimit, truncateToTokenLimit } from '../tokenizer';
+
+suite('Tokenizer', () => {
+    test('should count o200k_base tokens', () => {
+        assert.strictEqual(countTokens(''), 0);
+        assert.strictEqual(countTokens('Hello, world!'), 4);
+    });
+
+    test('should count special token markers as plain text', () => {
+        assert.ok(countTokens('<|endoftext|>') > 1);
+    });
+
+    test('should count long runs without whitespace in bounded time', () => {
+        const blob = 'A'.repeat(200000);
+        const started = Date.now();
+
+        const tokens = countTokens(blob);
+
+        assert.ok(tokens > 0 && tokens < blob.length / 4);
+        assert.ok(Date.now() - started < 2000);
+    });
+
+    test('should estimate a megabyte-sized base64 blob in bounded time', () => {
+        const blob = crypto.randomBytes(1024 * 1024).toString('base64');
+        const started = Date.now();
+
+        const tokens = countTokens(blob);
+        const fits = isWithinTokenLimit(blob, 100000);
+
+        assert.ok(tokens > blob.length / 2 && tokens < blob.length);
+        assert.strictEqual(fits, false);
+        assert.ok(Date.now() - started < 2000);
+    });
+
+    test('should estimate long runs from their start and count the rest exactly', () => {
+        const run = crypto.createHash('sha512').update('icon').digest('base64').repeat(40);
+        const code = '+const icon = // inline image\n';
+        const text = `+const icon = ${run} // inline image\n`;
+
+        const tokens = countTokens(text);
+
+        assert.ok(Math.abs(tokens - countTokens(run) - countTokens(code)) <= 3);
+    });
+
+    test('should split pieces at lines without changing the count much', () => {
+        const line = '+export const value = compute(input); // 値を計算する\n';
+        const text = line.repeat(500);
+
+        const tokens = countTokens(text);
+
+        assert.ok(Math.abs(tokens - countTokens(line) * 500) <= 500 * 0.01);
+    });
+
+    test('isWithinTokenLimit should agree with countTokens around the limit', () => {
+        const text = 'word '.repeat(3000);
+        const tokens = countTokens(text);
+
+        assert.strictEqual(isWithinTokenLimit(text, tokens), true);
+        assert.strictEqual(isWithinTokenLimit(text, tokens - 1), false);
+        assert.strictEqual(isWithinTokenLimit('short', 5), true);
+    });
+
+    test('truncateToTokenLimit should keep the longest prefix that fits', () => {
+        const text = 'line of text\n'.repeat(1000);
+
+        const result = truncateToTokenLimit(text, 100);
+
+        assert.ok(text.startsWith(result));
+        assert.strictEqual(countTokens(result), 100);
+        assert.strictEqual(truncateToTokenLimit(text, countTokens(text)), text);
+        assert.strictEqual(truncateToTokenLimit(text, 0), '');
+    });
+});
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import {
+    addUsage,
+    estimateUsageCost,
+    findModelPrice,
+    formatUsageCost,
+    formatUsageDay,
+    listUsage,
+    pruneUsageLog,
+    sumUsage,
+    type ModelPriceTable,
+    type UsageLog,
+} from '../usageStats';
+
+const TOKENS = { inputTokens: 1000, outputTokens: 200, reasoningTokens: 50 };
+
+const PRICES: ModelPriceTable = {
+    'gpt-5': { input: 1.25, output: 10 },
+    'gpt-5-mini': { input: 0.25, output: 2 },
+};
+
+suite('Usage Stats', () => {
+    test('should key days by local date', () => {
+        assert.strictEqual(formatUsageDay(new Date(2026, 0, 5, 23, 30)), '2026-01-05');
+    });
+
+    test('addUsage should accumulate per day, operation and model without changing the log', () => {
+        const empty: UsageLog = {};
+        let log = addUsage(
+            empty,
+            { day: '2026-10-01', operation: 'commit', model: 'gpt-5' },
+            TOKENS,
+        );
+        log = addUsage(log, { day: '2026-10-01', operation: 'commit', model: 'gpt-5' }, TOKENS);
+        log = addUsage(
+            log,
+            { day: '2026-10-02', operation: 'summarize', model: 'gpt-5-mini' },
+            TOKENS,
+        );
+
+        assert.deepStrictEqual(empty, {});
+        assert.deepStrictEqual(log['2026-10-01'].commit?.['gpt-5'], {
+            requests: 2,
+            inputTokens: 2000,
+            outputTokens: 400,
+            reasoningTokens: 100,
+        });
+        assert.strictEqual(log['2026-10-02'].summarize?.['gpt-5-mini'].requests, 1);
+    });
+
+    test('listUsage should filter by day prefix and sumUsage should add the entries', () => {
+        let log: UsageLog = {};
+        log = addUsage(log, { day: '2026-09-30', operation: 'pr', model: 'gpt-5' }, TOKENS);
+        log = addUsage(log, { day: '2026-10-01', operation: 'issue', model: 'gpt-5' }, TOKENS);
+        log = addUsage(log, { day: '2026-10-03', operation: 'pr', model: 'gpt-5' }, TOKENS);
+
+        const october = listUsage(log, '2026-10');
+        assert.deepStrictEqual(
+            october.map((entry) => `${entry.day} ${entry.operation}`),
+            ['2026-10-01 issue', '2026-10-03 pr'],
+        );
+        assert.strictEqual(sumUsage(october).inputTokens, 2000);
+        assert.strictEqual(listUsage(pruneUsageLog(log, '2026-10-01')).length, 2);
+    });
+
+    test('should price models by their longest matching prefix', () => {
+        assert.strictEqual(findModelPrice('GPT-5-mini-2025-08-07', PRICES)?.input, 0.25);
+        assert.strictEqual(findModelPrice('gpt-5.4', PRICES)?.input, 1.25);
+        assert.strictEqual(findModelPrice('llama3', PRICES), undefined);
+    });
+
+    test('should estimate the cost of priced models and list the others', () => {
+        let log: UsageLog = {};
+        const usage = { inputTokens: 1_000_000, outputTokens: 100_000, reasoningTokens: 0 };
+        log = addUsage(log, { day: '2026-10-01', operation: 'commit', model: 'gpt-5' }, usage);
+        log = addUsage(log, { day: '2026-10-01', operation: 'commit', model: 'llama3' }, usage);
+
+        const { cost, unpricedModels } = estimateUsageCost(listUsage(log), PRICES);
+
+        assert.ok(Math.abs(cost - 2.25) < 1e-9);
+        assert.deepStrictEqual(unpricedModels, ['llama3']);
+        assert.strictEqual(formatUsageCost(cost), '$2.25');
+        assert.strictEqual(formatUsageCost(0.0042), '$0.0042');
+    });
+});
@@ -0,0 +1,90 @@
+/**
+ * Helpers for the `prepare-commit-msg` hook
+ *
+ * Git calls the hook with the message file and, depending on how the commit
+ * was started, a source: `message` (-m/-F), `template` (-t or
+ * commit.template), `merge`, `squash` or `commit` (-c/-C/--amend).
+ */
+
+/** Sources for which the message was already decided by the user or by git */
+const PRESERVED_MESSAGE_SOURCES = new Set(['message', 'merge', 'squash', 'commit']);
+
+/**
+ * Whether the hook should generate a message for a commit started this way
+ *
+ * @param source - Second hook argument; absent for a plain `git commit`
+ * @returns false for messages given on the command line, merges, squashes and amends
+ */
+export function shouldGenerateForMessageSource(source?: string): boolean {
+    return !source || !PRESERVED_MESSAGE_SOURCES.has(source);
+}
+
+/**
+ * Resolve the comment character git uses in the message file
+ *
+ * @param configured - Value of `core.commentChar`, if set
+ * @returns The configured character, or `#` when unset or `auto`
+ */
+export function resolveCommentChar(configured?: string): string {
+    const value = configured?.trim();
+    return value && value !== 'auto' ? value : '#';
+}
+
+/** Dash run on both sides of git's scissors line */
+const SCISSORS_DASHES = '-'.repeat(24);
+
+/**
+ * Split the message file into its text, its comment lines and the scissors section
+ *
+ * With `git commit -v` git appends the diff below a scissors line, which is
+ * not part of the message and must be kept as is.
+ */
+function splitMessageFile(content: string, commentChar: string) {
+    const lines = content.replace(/\r\n/g, '\n').split('\n');
+    const scissorsLine = `${commentChar} ${SCISSORS_DASHES} >8 ${SCISSORS_DASHES}`;
+    const scissorsIndex = lines.indexOf(scissorsLine);
+    const message = scissorsIndex === -1 ? lines : lines.slice(0, scissorsIndex);
+    return {
+        text: message.filter((line) => !line.startsWith(commentChar)).join('\n'),
+        comments: message.filter((line) => line.startsWith(commentChar)),
+        scissors: scissorsIndex === -1 ? '' : lines.slice(scissorsIndex).join('\n'),
+    };
+}
+
+/**
+ * Whether the message file contains anything besides comments and templates
+ *
+ * @param content - Current content of the message file
+ * @param templates - Template texts that do not count as user content
+ * @param commentChar - Comment character from {@link resolveCommentChar}
+ * @returns true when generating would overwrite text the user wrote
+ */
+export function hasUserContent(content: string, templates: string[], commentChar: string): boolean {
+    const text = splitMessageFile(content, commentChar).text.trim();
+    if (!text) {
+        return false;
+    }
+    return !templates.some(
+        (template) => splitMessageFile(template, commentChar).text.trim() === text,
+    );
+}
+
+/**
+ * Put a generated message in place of the file's text, keeping git's comment lines
+ * and the diff below the scissors line
+ *
+ * @param generated - Generated commit message
+ * @param content - Current content of the message file
+ * @param commentChar - Comment character from {@link resolveCommentChar}
+ * @returns The new content of the message file
+ */
+export function composeHookCommitMessage(
+    generated: string,
+    content: string,
+    commentChar: string,
+): string {
+    const { comments, scissors } = splitMessageFile(content, commentChar);
+    const message = generated.trim();
+    const kept = comments.length > 0 ? `${message}\n\n${comments.join('\n')}\n` : `${message}\n`;
+    return scissors ? `${kept}${scissors}` : kept;
+}
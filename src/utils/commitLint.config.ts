@@ -0,0 +1,142 @@
+import {
+    CommitLintConfigSource,
+    CommitLintRuleConfig,
+    SUPPORTED_COMMIT_LINT_RULES,
+} from './commitLint.rules';
+
+/**
+ * How a commitlint config file is read
+ *
+ * `script` and `yaml` files are scanned for rule literals; their code is never run.
+ */
+export type CommitLintConfigFormat = 'json' | 'script' | 'yaml';
+
+const CONVENTIONAL_PRESET_NAME = 'config-conventional';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function fromJson(config: unknown): CommitLintConfigSource {
+    if (!isRecord(config)) {
+        return { rules: {}, extendsConventional: false };
+    }
+    const extendsList = ([] as unknown[]).concat(config.extends ?? []);
+    return {
+        rules: isRecord(config.rules) ? config.rules : {},
+        extendsConventional: extendsList.some(
+            (name) => typeof name === 'string' && name.includes(CONVENTIONAL_PRESET_NAME),
+        ),
+    };
+}
+
+/**
+ * Minimal reader for array literals such as `[2, 'always', ['feat', 'fix']]`
+ *
+ * Accepts JS and YAML flow syntax: quoted or bare strings, numbers, booleans
+ * and trailing commas. Returns undefined for anything else (spreads, calls).
+ */
+class LiteralReader {
+    constructor(
+        private readonly text: string,
+        private position: number,
+    ) {}
+
+    private skipWhitespace(): void {
+        while (/\s/.test(this.text[this.position] ?? '')) {
+            this.position++;
+        }
+    }
+
+    readArray(): unknown[] | undefined {
+        if (this.text[this.position] !== '[') {
+            return undefined;
+        }
+        this.position++;
+        const items: unknown[] = [];
+        for (;;) {
+            this.skipWhitespace();
+            if (this.text[this.position] === ']') {
+                this.position++;
+                return items;
+            }
+            const value = this.readValue();
+            if (value === undefined) {
+                return undefined;
+            }
+            items.push(value);
+            this.skipWhitespace();
+            if (this.text[this.position] === ',') {
+                this.position++;
+            } else if (this.text[this.position] !== ']') {
+                return undefined;
+            }
+        }
+    }
+
+    private readValue(): unknown {
+        const char = this.text[this.position];
+        if (char === '[') {
+            return this.readArray();
+        }
+        if (char === "'" || char === '"' || char === '`') {
+            const end = this.text.indexOf(char, this.position + 1);
+            if (end < 0) {
+                return undefined;
+            }
+            const value = this.text.slice(this.position + 1, end);
+            this.position = end + 1;
+            return value;
+        }
+        const word = /^[\w.$@/-]+/.exec(this.text.slice(this.position))?.[0];
+        if (!word) {
+            return undefined;
+        }
+        this.position += word.length;
+        if (/^-?\d+(\.\d+)?$/.test(word)) {
+            return Number(word);
+        }
+        if (word === 'true' || word === 'false') {
+            return word === 'true';
+        }
+        // `RuleConfigSeverity.Error` and bare YAML strings stay strings
+        return word;
+    }
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function fromSource(text: string): CommitLintConfigSource {
+    const rules: CommitLintRuleConfig = {};
+    for (const name of SUPPORTED_COMMIT_LINT_RULES) {
+        const match = new RegExp(`['"]?${escapeRegExp(name)}['"]?\\s*:\\s*(?=\\[)`).exec(text);
+        if (!match) {
+            continue;
+        }
+        const value = new LiteralReader(text, match.index + match[0].length).readArray();
+        if (value) {
+            rules[name] = value;
+        }
+    }
+    return { rules, extendsConventional: text.includes(CONVENTIONAL_PRESET_NAME) };
+}
+
+/**
+ * Read the rules from the text of a commitlint config file
+ *
+ * Only rules written as inline array literals are picked up from JS, TS and
+ * YAML files; rules built by code are skipped.
+ *
+ * @param text - File content
+ * @param format - How to read the file
+ * @returns The rules and whether the config extends config-conventional
+ * @throws {SyntaxError} When a `json` file is not valid JSON
+ */
+export function parseCommitLintConfigText(
+    text: string,
+    format: CommitLintConfigFormat,
+): CommitLintConfigSource {
+    return format === 'json' ? fromJson(JSON.parse(text)) : fromSource(text);
+}
@@ -0,0 +1,168 @@
+import { COMMIT_PREFIXES } from '../constants/commitGuide';
+import type { CommitLintOptions, CommitLintRules } from './commitLint';
+
+/**
+ * commitlint `rules` object: rule name to `[level, 'always' | 'never', value]`
+ */
+export type CommitLintRuleConfig = Record<string, unknown>;
+
+/**
+ * Rules and extends read from a commitlint config file
+ */
+export interface CommitLintConfigSource {
+    rules: CommitLintRuleConfig;
+    /** Whether the config extends `@commitlint/config-conventional` */
+    extendsConventional: boolean;
+}
+
+/** Subset of `@commitlint/config-conventional` that {@link lintCommitMessage} can check */
+const CONVENTIONAL_PRESET: CommitLintRules = {
+    typeEnum: [
+        'build',
+        'chore',
+        'ci',
+        'docs',
+        'feat',
+        'fix',
+        'perf',
+        'refactor',
+        'revert',
+        'style',
+        'test',
+    ],
+    headerMaxLength: 100,
+    bodyLeadingBlank: true,
+    bodyMaxLineLength: 100,
+    footerLeadingBlank: true,
+    footerMaxLineLength: 100,
+};
+
+const NO_RULES: CommitLintRules = { bodyLeadingBlank: false, footerLeadingBlank: false };
+
+const SEVERITY_NAMES: Record<string, number> = { Disabled: 0, Warning: 1, Error: 2 };
+
+const LIST_RULES = { 'type-enum': 'typeEnum', 'scope-enum': 'scopeEnum' } as const;
+
+const LENGTH_RULES = {
+    'header-max-length': 'headerMaxLength',
+    'subject-max-length': 'subjectMaxLength',
+    'body-max-line-length': 'bodyMaxLineLength',
+    'footer-max-line-length': 'footerMaxLineLength',
+} as const;
+
+const BLANK_RULES = {
+    'body-leading-blank': 'bodyLeadingBlank',
+    'footer-leading-blank': 'footerLeadingBlank',
+} as const;
+
+/**
+ * Rule names {@link applyCommitLintRuleConfig} understands; others are ignored
+ */
+export const SUPPORTED_COMMIT_LINT_RULES = [
+    ...Object.keys(LIST_RULES),
+    ...Object.keys(LENGTH_RULES),
+    ...Object.keys(BLANK_RULES),
+];
+
+/**
+ * Rules used when the repository has no commitlint config
+ *
+ * config-conventional's limits, with the types the commit prompt offers.
+ *
+ * @returns A fresh rules object
+ */
+export function getDefaultCommitLintRules(): CommitLintRules {
+    return {
+        ...CONVENTIONAL_PRESET,
+        typeEnum: COMMIT_PREFIXES.map((prefix) => prefix.prefix),
+    };
+}
+
+function toSeverity(level: unknown): number | undefined {
+    if (typeof level === 'number') {
+        return level;
+    }
+    return typeof level === 'string' ? SEVERITY_NAMES[level.split('.').pop() ?? ''] : undefined;
+}
+
+/**
+ * Apply a commitlint `rules` object on top of existing rules
+ *
+ * Level 0 or `never` turns a rule off; warnings (level 1) are enforced like
+ * errors. Malformed entries and unsupported rules are skipped.
+ *
+ * @param base - Rules to start from
+ * @param config - commitlint rules, e.g. `{ "header-max-length": [2, "always", 72] }`
+ * @returns The merged rules
+ */
+export function applyCommitLintRuleConfig(
+    base: CommitLintRules,
+    config: CommitLintRuleConfig,
+): CommitLintRules {
+    const rules: CommitLintRules = { ...base };
+    for (const [name, entry] of Object.entries(config)) {
+        if (!Array.isArray(entry) || entry.length === 0) {
+            continue;
+        }
+        const [level, when = 'always', value] = entry as unknown[];
+        const severity = toSeverity(level);
+        if (severity === undefined) {
+            continue;
+        }
+        const enabled = severity > 0 && when === 'always';
+
+        if (name in LIST_RULES) {
+            const key = LIST_RULES[name as keyof typeof LIST_RULES];
+            if (!enabled) {
+                rules[key] = undefined;
+            } else if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+                rules[key] = [...value];
+            }
+        } else if (name in LENGTH_RULES) {
+            const key = LENGTH_RULES[name as keyof typeof LENGTH_RULES];
+            if (!enabled) {
+                rules[key] = undefined;
+            } else if (typeof value === 'number' && value > 0) {
+                rules[key] = value;
+            }
+        } else if (name in BLANK_RULES) {
+            rules[BLANK_RULES[name as keyof typeof BLANK_RULES]] = enabled;
+        }
+    }
+    return rules;
+}
+
+/**
+ * Work out which rules apply to a generated commit message
+ *
+ * Order: the repository's commitlint config (on top of config-conventional
+ * when it extends it) or the built-in defaults, then the user's overrides.
+ * A message written from a commit template is only linted when the
+ * repository has a commitlint config, since the template defines the format.
+ *
+ * @param input - Settings, repository config and whether a template is in use
+ * @returns The lint options, or undefined when linting is off
+ */
+export function resolveCommitLintOptions(input: {
+    enabled: boolean;
+    maxRetries: number;
+    repositoryConfig?: CommitLintConfigSource;
+    overrides?: CommitLintRuleConfig;
+    hasTemplate: boolean;
+}): CommitLintOptions | undefined {
+    const { enabled, repositoryConfig, overrides, hasTemplate } = input;
+    if (!enabled || (hasTemplate && !repositoryConfig)) {
+        return undefined;
+    }
+
+    let rules = repositoryConfig
+        ? applyCommitLintRuleConfig(
+              repositoryConfig.extendsConventional ? CONVENTIONAL_PRESET : NO_RULES,
+              repositoryConfig.rules,
+          )
+        : getDefaultCommitLintRules();
+    if (overrides && typeof overrides === 'object' && !Array.isArray(overrides)) {
+        rules = applyCommitLintRuleConfig(rules, overrides);
+    }
+    return { rules, maxRetries: Math.max(0, Math.floor(input.maxRetries)) };
+}
@@ -0,0 +1,199 @@
+/**
+ * Commit message linting against commitlint-style rules
+ *
+ * Pure functions: rules come from {@link resolveCommitLintOptions} in
+ * `commitLint.rules.ts`, violations are reported with commitlint's rule names
+ * so they can be quoted back to the model verbatim.
+ */
+
+/**
+ * Rules checked by {@link lintCommitMessage}; an undefined limit disables the check
+ */
+export interface CommitLintRules {
+    typeEnum?: string[];
+    scopeEnum?: string[];
+    headerMaxLength?: number;
+    subjectMaxLength?: number;
+    /** Require a blank line between the header and the body */
+    bodyLeadingBlank: boolean;
+    bodyMaxLineLength?: number;
+    /** Require a blank line before trailers such as `Refs: #12` */
+    footerLeadingBlank: boolean;
+    footerMaxLineLength?: number;
+}
+
+/**
+ * Rules plus how often the model may be asked to fix a failing message
+ */
+export interface CommitLintOptions {
+    rules: CommitLintRules;
+    maxRetries: number;
+}
+
+/**
+ * A failed rule
+ */
+export interface CommitLintViolation {
+    /** commitlint rule name, e.g. `type-enum` */
+    rule: string;
+    message: string;
+}
+
+/**
+ * Conventional header with an optional leading emoji (`:sparkles:` or a pictograph)
+ */
+const HEADER_PATTERN =
+    /^(?:(?::[\w+-]+:|\p{Extended_Pictographic}\uFE0F?)\s*)?(\w+)(?:\(([^()]*)\))?!?: (.+)$/u;
+
+const TRAILER_PATTERN =
+    /^(?:BREAKING[ -]CHANGE|[A-Za-z]+(?:-[A-Za-z]+)+|Closes|Fixes|Resolves|Refs|See)(?:: | #)\S/i;
+
+const BREAKING_CHANGE_PATTERN = /^breaking[ -]change:/i;
+
+function isTrailerLine(line: string): boolean {
+    return TRAILER_PATTERN.test(line);
+}
+
+/**
+ * Index of the first line of the trailing footer block, or `lines.length` when there is none
+ *
+ * The footer is the last run of trailer lines (and indented continuation lines).
+ */
+function findFooterStart(lines: string[]): number {
+    let start = lines.length;
+    for (let i = lines.length - 1; i >= 1; i--) {
+        const line = lines[i];
+        if (isTrailerLine(line)) {
+            start = i;
+        } else if (!/^\s+\S/.test(line)) {
+            break;
+        }
+    }
+    return start;
+}
+
+function checkLineLengths(
+    lines: string[],
+    maxLength: number | undefined,
+    rule: string,
+    section: string,
+): CommitLintViolation[] {
+    if (maxLength === undefined) {
+        return [];
+    }
+    // URLs cannot be wrapped
+    const tooLong = lines.filter((line) => line.length > maxLength && !line.includes('://'));
+    return tooLong.length > 0
+        ? [
+              {
+                  rule,
+                  message: `${section} lines must not be longer than ${maxLength} characters (${tooLong.length} line(s) are longer)`,
+              },
+          ]
+        : [];
+}
+
+function lintHeader(header: string, rules: CommitLintRules): CommitLintViolation[] {
+    const violations: CommitLintViolation[] = [];
+    if (rules.headerMaxLength !== undefined && header.length > rules.headerMaxLength) {
+        violations.push({
+            rule: 'header-max-length',
+            message: `header must not be longer than ${rules.headerMaxLength} characters, current length is ${header.length}`,
+        });
+    }
+
+    const parsed = HEADER_PATTERN.exec(header);
+    if (!parsed) {
+        if (rules.typeEnum?.length) {
+            violations.push({
+                rule: 'type-empty',
+                message: 'header must have the form "type(scope): subject"',
+            });
+        }
+        return violations;
+    }
+
+    const [, type, scope, subject] = parsed;
+    if (rules.typeEnum?.length && !rules.typeEnum.includes(type)) {
+        violations.push({
+            rule: 'type-enum',
+            message: `type "${type}" must be one of [${rules.typeEnum.join(', ')}]`,
+        });
+    }
+    if (rules.scopeEnum?.length && scope !== undefined) {
+        const unknown = scope.split(/[,/\\]/).filter((part) => !rules.scopeEnum?.includes(part));
+        if (unknown.length > 0) {
+            violations.push({
+                rule: 'scope-enum',
+                message: `scope "${scope}" must be one of [${rules.scopeEnum.join(', ')}]`,
+            });
+        }
+    }
+    if (rules.subjectMaxLength !== undefined && subject.length > rules.subjectMaxLength) {
+        violations.push({
+            rule: 'subject-max-length',
+            message: `subject must not be longer than ${rules.subjectMaxLength} characters, current length is ${subject.length}`,
+        });
+    }
+    return violations;
+}
+
+/**
+ * Check a commit message against the rules
+ *
+ * @param message - Commit message without the otak-committer trailer
+ * @param rules - Rules to enforce
+ * @returns The violations; empty when the message passes
+ */
+export function lintCommitMessage(message: string, rules: CommitLintRules): CommitLintViolation[] {
+    const lines = message.replace(/\r\n/g, '\n').trim().split('\n');
+    const violations = lintHeader(lines[0], rules);
+
+    if (rules.bodyLeadingBlank && lines.length > 1 && lines[1].trim() !== '') {
+        violations.push({
+            rule: 'body-leading-blank',
+            message: 'body must be separated from the header by a blank line',
+        });
+    }
+
+    const footerStart = findFooterStart(lines);
+    const body = lines.slice(1, footerStart);
+    const footer = lines.slice(footerStart);
+    if (
+        rules.footerLeadingBlank &&
+        footer.length > 0 &&
+        body.length > 0 &&
+        body[body.length - 1] !== ''
+    ) {
+        violations.push({
+            rule: 'footer-leading-blank',
+            message: 'footer (trailers such as "Refs: #12") must be preceded by a blank line',
+        });
+    }
+    if (
+        footer.some(
+            (line) => BREAKING_CHANGE_PATTERN.test(line) && !/^BREAKING[ -]CHANGE:/.test(line),
+        )
+    ) {
+        violations.push({
+            rule: 'footer-format',
+            message: 'the "BREAKING CHANGE:" footer token must be upper case',
+        });
+    }
+
+    violations.push(
+        ...checkLineLengths(body, rules.bodyMaxLineLength, 'body-max-line-length', 'body'),
+        ...checkLineLengths(footer, rules.footerMaxLineLength, 'footer-max-line-length', 'footer'),
+    );
+    return violations;
+}
+
+/**
+ * Render violations as a bullet list for logs and repair prompts
+ *
+ * @param violations - Violations from {@link lintCommitMessage}
+ * @returns One `- rule: message` line per violation
+ */
+export function formatCommitLintViolations(violations: CommitLintViolation[]): string {
+    return violations.map((violation) => `- ${violation.rule}: ${violation.message}`).join('\n');
+}
@@ -0,0 +1,98 @@
+import { MessageStyle } from '../types/enums/MessageStyle';
+
+/** Trailer appended to generated messages when `otakCommitter.appendCommitTrailer` is on */
+export const COMMIT_TRAILER = 'Commit-Message-By: otak-committer';
+
+/**
+ * Commit message split into its subject line and body
+ */
+export interface CommitMessageParts {
+    subject: string;
+    body: string;
+}
+
+/**
+ * Split a commit message into subject (first line) and body (the rest)
+ *
+ * Blank lines between the subject and the body are dropped.
+ *
+ * @param message - The full commit message
+ * @returns The subject and body, both trimmed
+ */
+export function splitCommitMessage(message: string): CommitMessageParts {
+    const normalized = message.replace(/\r\n/g, '\n').trim();
+    const newlineIndex = normalized.indexOf('\n');
+    if (newlineIndex === -1) {
+        return { subject: normalized, body: '' };
+    }
+    return {
+        subject: normalized.slice(0, newlineIndex).trim(),
+        body: normalized.slice(newlineIndex + 1).trim(),
+    };
+}
+
+/**
+ * Choose the message style for each of N commit message candidates
+ *
+ * The preferred style comes first, followed by the remaining styles so that
+ * candidates differ in level of detail; the rotation repeats when more
+ * candidates than styles are requested.
+ *
+ * @param preferred - The configured message style
+ * @param count - Number of candidates to generate
+ * @returns One style per candidate
+ */
+export function getCandidateStyles(preferred: MessageStyle | string, count: number): string[] {
+    const allStyles: string[] = [MessageStyle.Normal, MessageStyle.Simple, MessageStyle.Detailed];
+    const rotation = [preferred, ...allStyles.filter((style) => style !== preferred)];
+    return Array.from(
+        { length: Math.max(0, count) },
+        (_, index) => rotation[index % rotation.length],
+    );
+}
+
+/**
+ * Remove duplicate commit messages, ignoring surrounding whitespace
+ *
+ * @param messages - Messages in preference order
+ * @returns The unique, non-empty messages in their original order
+ */
+export function uniqueCommitMessages(messages: string[]): string[] {
+    const seen = new Set<string>();
+    const result: string[] = [];
+    for (const message of messages) {
+        const key = message.trim();
+        if (key && !seen.has(key)) {
+            seen.add(key);
+            result.push(message);
+        }
+    }
+    return result;
+}
+
+/**
+ * Append the otak-committer trailer to a commit message
+ *
+ * @param message - The commit message without trailer
+ * @returns The message followed by a blank line and the trailer
+ */
+export function appendCommitTrailer(message: string): string {
+    return `${message}\n\n${COMMIT_TRAILER}`;
+}
+
+/**
+ * Remove a trailing otak-committer trailer from a commit message
+ *
+ * @param message - The commit message, possibly ending with the trailer
+ * @returns The message without the trailer and whether one was removed
+ */
+export function stripCommitTrailer(message: string): { message: string; hadTrailer: boolean } {
+    const trimmed = message.trimEnd();
+    if (!trimmed.endsWith(COMMIT_TRAILER)) {
+        return { message, hadTrailer: false };
+    }
+    return {
+        message: trimmed.slice(0, trimmed.length - COMMIT_TRAILER.length).trimEnd(),
+        hadTrailer: true,
+    };
+}
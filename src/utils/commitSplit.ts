@@ -0,0 +1,201 @@
+import { parseDiffIntoFiles } from './diff.assemble';
+
+/**
+ * Smallest piece of a staged diff that can be committed on its own
+ *
+ * A unit is either a whole file or, for plain modifications with several
+ * hunks, a single hunk of that file.
+ */
+export interface ChangeUnit {
+    /** Stable identifier shown to the model: "3" for a whole file, "3.2" for a hunk */
+    id: string;
+    filePath: string;
+    /** Position of the file in the original diff, used to rebuild patches in order */
+    fileIndex: number;
+    /** File header (`diff --git`, `index`, `---`, `+++` and similar lines) */
+    header: string;
+    /** Hunk text, or every hunk / binary payload when the unit is a whole file */
+    body: string;
+    additions: number;
+    deletions: number;
+}
+
+/**
+ * Proposed commit made of change units
+ */
+export interface CommitSplitGroup {
+    message: string;
+    units: ChangeUnit[];
+}
+
+/**
+ * Commit split as returned by the model, before validation
+ */
+export interface CommitSplitPlan {
+    commits: Array<{ message: string; units: string[] }>;
+}
+
+/**
+ * Validated commit split
+ */
+export interface ResolvedCommitSplit {
+    groups: CommitSplitGroup[];
+    /** Units the model did not assign to any commit; they stay staged */
+    unassigned: ChangeUnit[];
+}
+
+const HUNK_START = /^@@ /m;
+const WHOLE_FILE_MARKERS =
+    /^(new file mode|deleted file mode|old mode|new mode|rename from|copy from|similarity index|Binary files|GIT binary patch)/m;
+
+function countChanges(text: string): { additions: number; deletions: number } {
+    let additions = 0;
+    let deletions = 0;
+    for (const line of text.split('\n')) {
+        if (line.startsWith('+') && !line.startsWith('+++')) {
+            additions++;
+        } else if (line.startsWith('-') && !line.startsWith('---')) {
+            deletions++;
+        }
+    }
+    return { additions, deletions };
+}
+
+function ensureTrailingNewline(text: string): string {
+    return text.endsWith('\n') ? text : `${text}\n`;
+}
+
+/**
+ * Split a staged diff into independently committable units
+ *
+ * New, deleted, renamed, binary and mode-changed files are kept whole;
+ * plain modifications are split into one unit per hunk.
+ *
+ * @param patch - Output of `git diff --cached --binary`
+ * @returns The change units in diff order
+ */
+export function splitDiffIntoChangeUnits(patch: string): ChangeUnit[] {
+    return parseDiffIntoFiles(patch).flatMap((file, fileIndex) => {
+        const content = ensureTrailingNewline(file.content);
+        const hunkStart = content.search(HUNK_START);
+        const header = hunkStart === -1 ? content : content.slice(0, hunkStart);
+        const rest = hunkStart === -1 ? '' : content.slice(hunkStart);
+        const hunks = rest ? rest.split(/^(?=@@ )/m) : [];
+        const id = String(fileIndex + 1);
+
+        if (hunks.length < 2 || WHOLE_FILE_MARKERS.test(content)) {
+            return [
+                {
+                    id,
+                    filePath: file.filePath,
+                    fileIndex,
+                    header,
+                    body: rest,
+                    additions: file.additions,
+                    deletions: file.deletions,
+                },
+            ];
+        }
+
+        return hunks.map((hunk, hunkIndex) => ({
+            id: `${id}.${hunkIndex + 1}`,
+            filePath: file.filePath,
+            fileIndex,
+            header,
+            body: hunk,
+            ...countChanges(hunk),
+        }));
+    });
+}
+
+/**
+ * Rebuild a patch that contains only the given units
+ *
+ * Units of the same file share one file header, and hunks keep their
+ * original order so `git apply` can locate them.
+ *
+ * @param units - Units to include, in any order
+ * @returns A patch suitable for `git apply --cached`
+ */
+export function buildPatchForUnits(units: ChangeUnit[]): string {
+    const byFile = new Map<number, ChangeUnit[]>();
+    for (const unit of units) {
+        byFile.set(unit.fileIndex, [...(byFile.get(unit.fileIndex) ?? []), unit]);
+    }
+
+    return [...byFile.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, fileUnits]) => {
+            const ordered = [...fileUnits].sort(
+                (a, b) => Number(a.id.split('.')[1] ?? 0) - Number(b.id.split('.')[1] ?? 0),
+            );
+            return ordered[0].header + ordered.map((unit) => unit.body).join('');
+        })
+        .join('');
+}
+
+/**
+ * Describe change units for the commit split prompt
+ *
+ * @param units - Units to describe
+ * @param maxLinesPerUnit - Diff lines shown per unit; 0 lists only file names and counts
+ * @returns One block per unit, headed by its id
+ */
+export function formatChangeUnitsForPrompt(units: ChangeUnit[], maxLinesPerUnit: number): string {
+    return units
+        .map((unit) => {
+            const heading = `[${unit.id}] ${unit.filePath} (+${unit.additions}/-${unit.deletions})`;
+            if (maxLinesPerUnit <= 0) {
+                return heading;
+            }
+            if (/^(GIT binary patch|Binary files)/m.test(unit.header + unit.body)) {
+                return `${heading}\n(binary file)`;
+            }
+            const lines = (unit.body || unit.header).trimEnd().split('\n');
+            const shown = lines.slice(0, maxLinesPerUnit);
+            if (lines.length > shown.length) {
+                shown.push(`... (${lines.length - shown.length} more lines)`);
+            }
+            return `${heading}\n${shown.join('\n')}`;
+        })
+        .join('\n\n');
+}
+
+/**
+ * Validate a model-proposed split against the available units
+ *
+ * Unknown ids are ignored, a unit claimed by several commits stays in the
+ * first one, and commits left without units or without a message are dropped.
+ *
+ * @param plan - The structured response from the model
+ * @param units - All units of the staged diff
+ * @returns The usable groups and the units no group claimed
+ */
+export function resolveCommitSplitPlan(
+    plan: CommitSplitPlan,
+    units: ChangeUnit[],
+): ResolvedCommitSplit {
+    const byId = new Map(units.map((unit) => [unit.id, unit]));
+    const assigned = new Set<string>();
+    const groups: CommitSplitGroup[] = [];
+
+    for (const commit of plan.commits ?? []) {
+        const message = commit.message?.trim();
+        if (!message) {
+            continue;
+        }
+        const groupUnits = (commit.units ?? []).flatMap((id) => {
+            const unit = byId.get(String(id).trim());
+            if (!unit || assigned.has(unit.id)) {
+                return [];
+            }
+            assigned.add(unit.id);
+            return [unit];
+        });
+        if (groupUnits.length > 0) {
+            groups.push({ message, units: groupUnits });
+        }
+    }
+
+    return { groups, unassigned: units.filter((unit) => !assigned.has(unit.id)) };
+}
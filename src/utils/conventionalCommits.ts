@@ -5,6 +5,9 @@
  * making them easy to unit test in isolation.
  */
 
+import { splitCommitMessage } from './commitMessage';
+import type { RangeCommit } from './rebaseTodo';
+
 /**
  * Generic directories that should be filtered out when determining scope
  * These are common directory names that don't provide meaningful scope information
@@ -151,3 +154,60 @@ Where:
 - <prefix> is one of the prefixes listed above
 - <subject> is a brief description of the change`;
 }
+
+/**
+ * A commit message read as a Conventional Commit
+ */
+export interface ConventionalCommit {
+    hash: string;
+    /** Lower-cased type such as `feat`, or undefined for a free-form subject */
+    type?: string;
+    scope?: string;
+    /** Subject without the type, scope and pull request reference */
+    subject: string;
+    /** `!` after the type or a `BREAKING CHANGE:` footer */
+    breaking: boolean;
+    /** Pull requests the message references as `(#12)` */
+    pullRequests: number[];
+}
+
+// An emoji or gitmoji code may precede the type when `otakCommitter.useEmoji` is on
+const HEADER_PATTERN = /^(?:(?::\w+:|[^\w\s(]+)\s*)?([a-z]+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/i;
+const PULL_REQUEST_SUFFIX = /\s*\(#(\d+)\)\s*$/;
+
+/**
+ * Parse a commit message as a Conventional Commit
+ *
+ * Messages that do not follow the format are kept with their whole subject
+ * and no type.
+ *
+ * @param commit - The commit to parse
+ * @returns Type, scope, subject, breaking flag and referenced pull requests
+ */
+export function parseConventionalCommit(commit: RangeCommit): ConventionalCommit {
+    const { subject, body } = splitCommitMessage(commit.message);
+    const pullRequests: number[] = [];
+    let text = subject;
+    for (
+        let match = PULL_REQUEST_SUFFIX.exec(text);
+        match;
+        match = PULL_REQUEST_SUFFIX.exec(text)
+    ) {
+        pullRequests.unshift(Number(match[1]));
+        text = text.slice(0, match.index);
+    }
+
+    const breakingFooter = /^BREAKING[ -]CHANGE:/m.test(body);
+    const header = HEADER_PATTERN.exec(text);
+    if (!header) {
+        return { hash: commit.hash, subject: text, breaking: breakingFooter, pullRequests };
+    }
+    return {
+        hash: commit.hash,
+        type: header[1].toLowerCase(),
+        scope: header[2]?.trim() || undefined,
+        subject: header[4].trim(),
+        breaking: !!header[3] || breakingFooter,
+        pullRequests,
+    };
+}
@@ -1,8 +1,57 @@
-import { FilePriority, classifyFilePriority } from '../constants/diffClassification';
-import { AssembledDiffResult, ParsedFileDiff } from './diff.types';
+import {
+    FileClassificationRule,
+    FilePriority,
+    classifyFilePriority,
+    isLockFile,
+} from '../constants/diffClassification';
+import { AssembledDiffResult, FileTreatmentReport, ParsedFileDiff } from './diff.types';
+import { condenseFileDiff } from './diff.hunks';
 import { estimateTokenCount } from './diff.truncate';
+import { countRedactionPlaceholders } from './secretRedaction';
+
+/** Most file diffs whose token counts are kept between parses */
+const MAX_CACHED_FILES = 1000;
+
+/** Most characters of file diffs kept as cache keys */
+const MAX_CACHED_CHARS = 8 * 1024 * 1024;
+
+/** Token counts by file diff content, oldest first */
+const fileTokenCounts = new Map<string, number>();
+let cachedChars = 0;
+
+/**
+ * Count the tokens of a file diff, reusing the count of an identical diff
+ *
+ * The same staged changes are parsed again for every generation, split plan
+ * and retry, so each file is only tokenized once.
+ */
+function countFileTokens(content: string): number {
+    const cached = fileTokenCounts.get(content);
+    if (cached !== undefined) {
+        return cached;
+    }
+    const count = estimateTokenCount(content);
+    if (content.length <= MAX_CACHED_CHARS) {
+        for (const key of fileTokenCounts.keys()) {
+            if (
+                fileTokenCounts.size < MAX_CACHED_FILES &&
+                cachedChars + content.length <= MAX_CACHED_CHARS
+            ) {
+                break;
+            }
+            fileTokenCounts.delete(key);
+            cachedChars -= key.length;
+        }
+        fileTokenCounts.set(content, count);
+        cachedChars += content.length;
+    }
+    return count;
+}
 
-export function parseDiffIntoFiles(rawDiff: string): ParsedFileDiff[] {
+export function parseDiffIntoFiles(
+    rawDiff: string,
+    rules: readonly FileClassificationRule[] = [],
+): ParsedFileDiff[] {
     if (!rawDiff || rawDiff.trim() === '') {
         return [];
     }
@@ -39,8 +88,8 @@ export function parseDiffIntoFiles(rawDiff: string): ParsedFileDiff[] {
             content,
             additions,
             deletions,
-            tokenCount: estimateTokenCount(content),
-            priority: classifyFilePriority(pos.filePath),
+            tokenCount: countFileTokens(content),
+            priority: classifyFilePriority(pos.filePath, rules),
         };
     });
 }
@@ -57,7 +106,9 @@ export function buildChangeSummaryHeader(files: ParsedFileDiff[]): string {
     for (const file of files) {
         const priorityLabel =
             file.priority === FilePriority.EXCLUDE
-                ? ' [LOCK]'
+                ? isLockFile(file.filePath)
+                    ? ' [LOCK]'
+                    : ' [excluded]'
                 : file.priority === FilePriority.LOW
                   ? ' [generated]'
                   : '';
@@ -76,31 +127,96 @@ export function assemblePrioritizedDiff(
     const summaryTokens = estimateTokenCount(summaryHeader);
     let remainingBudget = tokenBudget - summaryTokens;
 
+    // Smaller files first so that each large file gets an equal share of what they leave
     const sortedFiles = [...files]
         .filter((f) => f.priority !== FilePriority.EXCLUDE)
-        .sort((a, b) => b.priority - a.priority);
+        .sort((a, b) => b.priority - a.priority || a.tokenCount - b.tokenCount);
 
-    const includedDiffs: string[] = [];
+    const includedDiffs = new Map<ParsedFileDiff, string>();
+    const sentTokens = new Map<ParsedFileDiff, number>();
     const overflowFiles: ParsedFileDiff[] = [];
     let includedCount = 0;
+    let condensedCount = 0;
+
+    const filesLeft = new Map<FilePriority, number>();
+    for (const file of sortedFiles) {
+        filesLeft.set(file.priority, (filesLeft.get(file.priority) ?? 0) + 1);
+    }
 
     for (const file of sortedFiles) {
-        if (file.tokenCount <= remainingBudget) {
-            includedDiffs.push(file.content);
+        const share = Math.floor(remainingBudget / filesLeft.get(file.priority)!);
+        filesLeft.set(file.priority, filesLeft.get(file.priority)! - 1);
+        if (file.tokenCount <= share) {
+            includedDiffs.set(file, file.content);
+            sentTokens.set(file, file.tokenCount);
             remainingBudget -= file.tokenCount;
             includedCount++;
+            continue;
+        }
+        const condensed = condenseFileDiff(file, share);
+        if (condensed) {
+            includedDiffs.set(file, condensed.content);
+            sentTokens.set(file, condensed.tokenCount);
+            remainingBudget -= condensed.tokenCount;
+            overflowFiles.push(condensed.elided);
+            condensedCount++;
         } else {
             overflowFiles.push(file);
         }
     }
 
     const excludedCount = files.filter((f) => f.priority === FilePriority.EXCLUDE).length;
-    const summaryOnlyCount = overflowFiles.length + excludedCount;
+    const summaryOnlyCount = overflowFiles.length - condensedCount + excludedCount;
 
     return {
-        content: summaryHeader + includedDiffs.join(''),
+        content:
+            summaryHeader +
+            [...files]
+                .sort((a, b) => b.priority - a.priority)
+                .filter((f) => includedDiffs.has(f))
+                .map((f) => includedDiffs.get(f))
+                .join(''),
         includedCount,
+        condensedCount,
         summaryOnlyCount,
         overflowFiles,
+        treatments: files.map((file): FileTreatmentReport => {
+            const included = includedDiffs.get(file);
+            return {
+                filePath: file.filePath,
+                priority: file.priority,
+                treatment:
+                    file.priority === FilePriority.EXCLUDE
+                        ? 'excluded'
+                        : included === undefined
+                          ? 'summaryOnly'
+                          : included === file.content
+                            ? 'full'
+                            : 'condensed',
+                additions: file.additions,
+                deletions: file.deletions,
+                tokenCount: file.tokenCount,
+                sentTokens: sentTokens.get(file) ?? 0,
+                redactedSecrets: countRedactionPlaceholders(file.content),
+            };
+        }),
     };
 }
+
+/**
+ * Remove files from a raw diff
+ *
+ * @param rawDiff - The diff to filter
+ * @param filePaths - Paths of the files to leave out
+ * @returns The diff of the remaining files, or the diff itself if it could not be split into files
+ */
+export function removeFilesFromDiff(rawDiff: string, filePaths: ReadonlySet<string>): string {
+    const files = parseDiffIntoFiles(rawDiff);
+    if (files.length === 0 || filePaths.size === 0) {
+        return rawDiff;
+    }
+    return files
+        .filter((file) => !filePaths.has(file.filePath))
+        .map((file) => file.content)
+        .join('');
+}
@@ -0,0 +1,193 @@
+import {
+    FileClassificationRule,
+    FilePriority,
+    classifyFilePriority,
+} from '../constants/diffClassification';
+import type { GitHubDiffFile } from '../types/interfaces/GitHub';
+
+/** Keys of the `diffClassification` object in `.otakcommitter.json`, in increasing precedence */
+const CONFIG_PRIORITIES: ReadonlyArray<[string, FilePriority]> = [
+    ['low', FilePriority.LOW],
+    ['exclude', FilePriority.EXCLUDE],
+    ['high', FilePriority.HIGH],
+];
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.+^${}()|\\]/g, '\\$&');
+}
+
+/**
+ * Convert a gitignore-style glob into a regular expression over repository paths
+ *
+ * A pattern without a slash matches the file name at any depth; one with a
+ * leading or inner slash is relative to the repository root. `*` and `?`
+ * stay within one path segment, `**` crosses segments, and a trailing slash
+ * matches everything below a directory.
+ *
+ * @param glob - The pattern, e.g. `*.pb.go` or `/gen/**`
+ * @returns A regular expression tested against paths with forward slashes
+ */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = glob.trim();
+    const anchored = pattern.replace(/\/$/, '').includes('/');
+    pattern = pattern.replace(/^\//, '');
+    if (pattern.endsWith('/')) {
+        pattern += '**';
+    }
+
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+            if (atSegmentStart && pattern[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = pattern.indexOf(']', i + 2);
+            if (end === -1) {
+                source += '\\[';
+                continue;
+            }
+            const members = pattern
+                .slice(i + 1, end)
+                .replace(/^!/, '^')
+                .replace(/\\/g, '\\\\');
+            source += `[${members}]`;
+            i = end;
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`);
+}
+
+function getAttributePriority(attribute: string): FilePriority | undefined {
+    const [name, value] = attribute.split('=', 2);
+    if (attribute === '-diff' || attribute === 'binary') {
+        return FilePriority.EXCLUDE;
+    }
+    if (name === 'linguist-generated' || name === 'linguist-vendored') {
+        return value === 'false' ? FilePriority.HIGH : FilePriority.LOW;
+    }
+    if (attribute === '-linguist-generated' || attribute === '-linguist-vendored') {
+        return FilePriority.HIGH;
+    }
+    return undefined;
+}
+
+/**
+ * Read classification rules from a `.gitattributes` file
+ *
+ * `-diff` and `binary` exclude a file's content, like git itself does;
+ * `linguist-generated` and `linguist-vendored` make it low priority, and
+ * unsetting them makes it high priority.
+ *
+ * @param text - Content of the file
+ * @param fileName - Name used in the rules' `source`
+ * @returns Rules in file order
+ */
+export function parseGitAttributes(
+    text: string,
+    fileName = '.gitattributes',
+): FileClassificationRule[] {
+    const rules: FileClassificationRule[] = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+        const [pattern, ...attributes] = line.trim().split(/\s+/);
+        if (!pattern || pattern.startsWith('#') || pattern.startsWith('[attr]')) {
+            return;
+        }
+        let priority: FilePriority | undefined;
+        for (const attribute of attributes) {
+            priority = getAttributePriority(attribute) ?? priority;
+        }
+        if (priority !== undefined) {
+            rules.push({
+                pattern: globToRegExp(pattern),
+                priority,
+                source: `${fileName}:${index + 1}`,
+            });
+        }
+    });
+    return rules;
+}
+
+/**
+ * Read classification rules from the `diffClassification` key of `.otakcommitter.json`
+ *
+ * The value has optional `exclude`, `low` and `high` arrays of globs.
+ * Rules are returned with `low` first and `high` last, so a `high` glob can
+ * make an exception to a broader `exclude` or `low` one.
+ *
+ * @param value - The value of the key
+ * @param fileName - Name used in the rules' `source` and warnings
+ * @returns The rules, and a warning for each value that was ignored
+ */
+export function parseClassificationConfig(
+    value: unknown,
+    fileName = '.otakcommitter.json',
+): { rules: FileClassificationRule[]; warnings: string[] } {
+    const rules: FileClassificationRule[] = [];
+    const warnings: string[] = [];
+    if (value === undefined) {
+        return { rules, warnings };
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        warnings.push(`"diffClassification" in ${fileName} must be an object`);
+        return { rules, warnings };
+    }
+
+    const config = value as Record<string, unknown>;
+    for (const [key, priority] of CONFIG_PRIORITIES) {
+        const globs = config[key];
+        if (globs === undefined) {
+            continue;
+        }
+        if (!Array.isArray(globs)) {
+            warnings.push(`"diffClassification.${key}" in ${fileName} must be an array of globs`);
+            continue;
+        }
+        for (const glob of globs) {
+            if (typeof glob !== 'string' || !glob.trim()) {
+                warnings.push(`Ignoring ${JSON.stringify(glob)} in "diffClassification.${key}"`);
+                continue;
+            }
+            rules.push({
+                pattern: globToRegExp(glob),
+                priority,
+                source: `${fileName}:diffClassification.${key}`,
+            });
+        }
+    }
+    return { rules, warnings };
+}
+
+/**
+ * Apply file classification to the files of a pull request diff
+ *
+ * Excluded files keep their line counts but lose their patch, and
+ * high-priority files are moved ahead of low-priority ones.
+ *
+ * @param files - Files of the diff in their original order
+ * @param rules - Rules defined by the repository
+ * @returns The classified files
+ */
+export function classifyPullRequestFiles(
+    files: GitHubDiffFile[],
+    rules: readonly FileClassificationRule[] = [],
+): GitHubDiffFile[] {
+    return files
+        .map((file) => ({ file, priority: classifyFilePriority(file.filename, rules) }))
+        .sort((a, b) => b.priority - a.priority)
+        .map(({ file, priority }) =>
+            priority === FilePriority.EXCLUDE ? { ...file, patch: '', summaryOnly: true } : file,
+        );
+}
@@ -0,0 +1,232 @@
+import { isConfigFile, isTestFile } from '../constants/diffClassification';
+import { estimateTokenCount } from './diff.truncate';
+import { CondensedFileDiff, DiffHunk, DiffLineLocation, ParsedFileDiff } from './diff.types';
+
+const HUNK_HEADER_PATTERN = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+/** Declarations in common languages; changing one changes an interface */
+const SIGNATURE_PATTERN =
+    /^[+-]\s*(?:(?:export|default|public|private|protected|internal|static|async|abstract|override|pub(?:\([^)]*\))?)\s+)*(?:function\b|class\b|interface\b|type\s+\w+|enum\b|def\b|fn\b|func\b|struct\b|trait\b|impl\b|namespace\b|(?:const|let|var)\s+\w+\s*=\s*(?:async\s*)?(?:\(|function\b)|(?!(?:if|for|while|switch|catch|return|else)\b)\w+\s*\([^)]*\)\s*(?::\s*[^{]+)?\{\s*$)/;
+
+/** Lines that add to or remove from a module's public surface */
+const EXPORT_PATTERN =
+    /^[+-]\s*(?:export\b|module\.exports\b|exports\.\w+|pub\b|public\b|__all__\b)/;
+
+const IMPORT_PATTERN =
+    /^[+-]\s*(?:import\b|from\s+\S+\s+import\b|.*\brequire\(|use\s+\w|#include\b)/;
+
+/** Most elided sections named in the note of a condensed file */
+const MAX_NOTED_SECTIONS = 5;
+
+/** Longest section name quoted in the note of a condensed file */
+const MAX_SECTION_LENGTH = 60;
+
+/**
+ * Estimate how much a hunk tells about a change
+ *
+ * Changed declarations weigh most, then changes to exported symbols,
+ * configuration and imports; plain body edits come next and test hunks last.
+ *
+ * @param lines - The hunk's lines, starting with its `@@` header
+ * @param filePath - Path of the file the hunk belongs to
+ * @returns A score above 0; higher is more valuable
+ */
+export function scoreHunk(lines: string[], filePath: string): number {
+    let signatures = 0;
+    let exports = 0;
+    let imports = 0;
+    for (const line of lines) {
+        if (!/^[+-]/.test(line) || line.startsWith('+++') || line.startsWith('---')) {
+            continue;
+        }
+        if (SIGNATURE_PATTERN.test(line)) {
+            signatures++;
+        }
+        if (EXPORT_PATTERN.test(line)) {
+            exports++;
+        }
+        if (IMPORT_PATTERN.test(line)) {
+            imports++;
+        }
+    }
+
+    let score = 1 + Math.min(signatures, 5) * 4 + Math.min(exports, 5) * 3 + Math.min(imports, 5);
+    if (isConfigFile(filePath)) {
+        score += 3;
+    }
+    return isTestFile(filePath) ? score / 2 : score;
+}
+
+/**
+ * Split a file diff into its header and hunks
+ *
+ * @param file - A file parsed by `parseDiffIntoFiles`
+ * @returns The lines before the first hunk and the scored hunks
+ */
+export function splitFileIntoHunks(file: ParsedFileDiff): { header: string; hunks: DiffHunk[] } {
+    const starts: number[] = [];
+    const hunkStartRegex = /^@@ /gm;
+    let match: RegExpExecArray | null;
+    while ((match = hunkStartRegex.exec(file.content)) !== null) {
+        starts.push(match.index);
+    }
+    if (starts.length === 0) {
+        return { header: file.content, hunks: [] };
+    }
+
+    const hunks = starts.map((start, i) => {
+        const content = file.content.substring(start, starts[i + 1] ?? file.content.length);
+        const lines = content.split('\n');
+        const [, startLine = '0', lineCount = '1'] = HUNK_HEADER_PATTERN.exec(lines[0]) ?? [];
+        return {
+            header: lines[0],
+            content,
+            startLine: Number(startLine),
+            lineCount: Number(lineCount),
+            additions: lines.filter((line) => line.startsWith('+')).length,
+            deletions: lines.filter((line) => line.startsWith('-')).length,
+            tokenCount: estimateTokenCount(content),
+            score: scoreHunk(lines, file.filePath),
+        };
+    });
+    return { header: file.content.substring(0, starts[0]), hunks };
+}
+
+/**
+ * Map each line of a diff to its file and its line in the new version of the file
+ *
+ * Removed lines get the line they were removed before. Lines of text that
+ * is not a diff keep their own line numbers.
+ *
+ * @param diff - A unified diff, or any other text
+ * @returns One location per line of the text
+ */
+export function mapDiffLines(diff: string): DiffLineLocation[] {
+    let filePath: string | undefined;
+    let nextLine: number | undefined;
+    return diff.split('\n').map((text, index): DiffLineLocation => {
+        const fileHeader = /^diff --git a\/.+? b\/(.+)$/.exec(text);
+        if (fileHeader) {
+            filePath = fileHeader[1];
+            nextLine = undefined;
+            return { filePath };
+        }
+        const hunkHeader = HUNK_HEADER_PATTERN.exec(text);
+        if (hunkHeader && filePath !== undefined) {
+            nextLine = Number(hunkHeader[1]);
+            return { filePath };
+        }
+        if (filePath === undefined) {
+            return { line: index + 1 };
+        }
+        if (nextLine === undefined) {
+            const newPath = /^\+\+\+ b\/(.+)$/.exec(text);
+            filePath = newPath ? newPath[1] : filePath;
+            return { filePath };
+        }
+        if (text.startsWith('-')) {
+            return { filePath, line: nextLine };
+        }
+        return { filePath, line: text.startsWith('\\') ? nextLine - 1 : nextLine++ };
+    });
+}
+
+function describeHunk(hunk: DiffHunk): string {
+    const section = HUNK_HEADER_PATTERN.exec(hunk.header)?.[3]?.trim();
+    if (section) {
+        return section.length > MAX_SECTION_LENGTH
+            ? `${section.slice(0, MAX_SECTION_LENGTH - 3)}...`
+            : section;
+    }
+    const end = hunk.startLine + Math.max(hunk.lineCount, 1) - 1;
+    return `lines ${hunk.startLine}-${end}`;
+}
+
+function formatElisionNote(elided: DiffHunk[], total: number): string {
+    const additions = elided.reduce((sum, hunk) => sum + hunk.additions, 0);
+    const deletions = elided.reduce((sum, hunk) => sum + hunk.deletions, 0);
+    const sections = [...new Set(elided.map(describeHunk))];
+    const listed = sections.slice(0, MAX_NOTED_SECTIONS).join('; ');
+    const more =
+        sections.length > MAX_NOTED_SECTIONS
+            ? `; ${sections.length - MAX_NOTED_SECTIONS} more`
+            : '';
+    return `... ${elided.length} of ${total} hunks omitted (+${additions}/-${deletions}): ${listed}${more}\n`;
+}
+
+function joinHunks(hunks: DiffHunk[]): string {
+    return hunks
+        .map((hunk) => (hunk.content.endsWith('\n') ? hunk.content : `${hunk.content}\n`))
+        .join('');
+}
+
+/**
+ * Fit a file diff into a token budget by keeping its highest-value hunks
+ *
+ * Hunks are picked by score, cheaper ones first on ties, and kept in their
+ * original order. A note after them names the sections of the elided hunks.
+ *
+ * @param file - A file parsed by `parseDiffIntoFiles`
+ * @param tokenBudget - Tokens the condensed diff may use
+ * @returns The condensed diff, or undefined if no hunk fits or the file has only one
+ */
+export function condenseFileDiff(
+    file: ParsedFileDiff,
+    tokenBudget: number,
+): CondensedFileDiff | undefined {
+    const { header, hunks } = splitFileIntoHunks(file);
+    if (hunks.length < 2) {
+        return undefined;
+    }
+
+    const ranked = hunks
+        .map((hunk, index) => ({ hunk, index }))
+        .sort(
+            (a, b) =>
+                b.hunk.score - a.hunk.score ||
+                a.hunk.tokenCount - b.hunk.tokenCount ||
+                a.index - b.index,
+        );
+    const kept = new Set<number>();
+    let remaining = tokenBudget - estimateTokenCount(header);
+    for (const { hunk, index } of ranked) {
+        if (hunk.tokenCount <= remaining) {
+            kept.add(index);
+            remaining -= hunk.tokenCount;
+        }
+    }
+
+    // The note takes tokens too; give up the least valuable hunks until it fits
+    const keptByValue = ranked.filter(({ index }) => kept.has(index));
+    while (keptByValue.length > 0) {
+        const elided = hunks.filter((_, index) => !kept.has(index));
+        if (elided.length === 0) {
+            // Hunk counts can add up below the whole file's; condensing must still drop one
+            kept.delete(keptByValue.pop()!.index);
+            continue;
+        }
+        const content =
+            header +
+            joinHunks(hunks.filter((_, index) => kept.has(index))) +
+            formatElisionNote(elided, hunks.length);
+        const tokenCount = estimateTokenCount(content);
+        if (tokenCount <= tokenBudget) {
+            const elidedContent = header + joinHunks(elided);
+            return {
+                content,
+                tokenCount,
+                keptHunks: kept.size,
+                elidedHunks: elided.length,
+                elided: {
+                    ...file,
+                    content: elidedContent,
+                    additions: elided.reduce((sum, hunk) => sum + hunk.additions, 0),
+                    deletions: elided.reduce((sum, hunk) => sum + hunk.deletions, 0),
+                    tokenCount: estimateTokenCount(elidedContent),
+                },
+            };
+        }
+        kept.delete(keptByValue.pop()!.index);
+    }
+    return undefined;
+}
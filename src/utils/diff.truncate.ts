@@ -1,25 +1,24 @@
-import { MAX_INPUT_TOKENS, CHARS_PER_TOKEN as TOKEN_RATIO } from '../constants/tokenLimits';
+import { MAX_INPUT_TOKENS } from '../constants/tokenLimits';
 import { TruncationResult } from './diff.types';
+import { countTokens, isWithinTokenLimit, truncateToTokenLimit } from './tokenizer';
 
 const TRUNCATE_THRESHOLD_TOKENS = MAX_INPUT_TOKENS;
-const CHARS_PER_TOKEN = TOKEN_RATIO;
 const LINE_BOUNDARY_SEARCH_RANGE = 200;
 
 export function estimateTokenCount(text: string): number {
-    return Math.ceil(text.length / CHARS_PER_TOKEN);
+    return countTokens(text);
 }
 
 export function truncateDiff(diff: string): TruncationResult {
-    const originalTokens = estimateTokenCount(diff);
-
-    if (originalTokens <= TRUNCATE_THRESHOLD_TOKENS) {
+    if (isWithinTokenLimit(diff, TRUNCATE_THRESHOLD_TOKENS)) {
         return {
             content: diff,
             isTruncated: false,
         };
     }
 
-    const targetLength = TRUNCATE_THRESHOLD_TOKENS * CHARS_PER_TOKEN;
+    const originalTokens = estimateTokenCount(diff);
+    const targetLength = truncateToTokenLimit(diff, TRUNCATE_THRESHOLD_TOKENS).length;
     let cutPoint = targetLength;
 
     const fileHeaderPattern = /\ndiff --git /g;
@@ -35,12 +34,13 @@ export function truncateDiff(diff: string): TruncationResult {
     }
 
     if (lastMatch && lastMatch.index > targetLength * 0.5) {
-        cutPoint = lastMatch.index;
-    }
-
-    const nextNewline = diff.indexOf('\n', cutPoint);
-    if (nextNewline !== -1 && nextNewline < cutPoint + LINE_BOUNDARY_SEARCH_RANGE) {
-        cutPoint = nextNewline + 1;
+        cutPoint = lastMatch.index + 1;
+    } else {
+        // Cut back to a line boundary so the result stays within the budget
+        const previousNewline = diff.lastIndexOf('\n', cutPoint - 1);
+        if (previousNewline !== -1 && previousNewline >= cutPoint - LINE_BOUNDARY_SEARCH_RANGE) {
+            cutPoint = previousNewline + 1;
+        }
     }
 
     const truncatedContent = diff.substring(0, cutPoint);
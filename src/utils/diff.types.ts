@@ -43,10 +43,68 @@ export interface ParsedFileDiff {
     priority: FilePriority;
 }
 
+export interface DiffHunk {
+    /** The `@@ -a,b +c,d @@` line, including the enclosing section git reports after it */
+    header: string;
+    content: string;
+    /** First line of the hunk in the new file */
+    startLine: number;
+    lineCount: number;
+    additions: number;
+    deletions: number;
+    tokenCount: number;
+    /** Estimated value for a commit message; higher hunks are kept first */
+    score: number;
+}
+
+export interface DiffLineLocation {
+    /** File the line belongs to; missing before the first file header */
+    filePath?: string;
+    /** Line in the new version of the file; missing for file and hunk headers */
+    line?: number;
+}
+
+export interface CondensedFileDiff {
+    /** File header, the kept hunks and a note on the elided ones */
+    content: string;
+    tokenCount: number;
+    keptHunks: number;
+    elidedHunks: number;
+    /** The file header with only the elided hunks, for summarization */
+    elided: ParsedFileDiff;
+}
+
+/**
+ * How a file of the diff reaches the model
+ *
+ * `summaryOnly` files are only named in the change summary; Tier 3 turns
+ * them into `mapReduced` ones when it summarizes them.
+ */
+export type FileTreatment = 'full' | 'condensed' | 'summaryOnly' | 'mapReduced' | 'excluded';
+
+export interface FileTreatmentReport {
+    filePath: string;
+    priority: FilePriority;
+    treatment: FileTreatment;
+    additions: number;
+    deletions: number;
+    /** Tokens of the file's diff */
+    tokenCount: number;
+    /** Tokens of the file's diff in the content sent, 0 when it is only summarized */
+    sentTokens: number;
+    /** Potential secrets replaced by placeholders in the file's diff */
+    redactedSecrets: number;
+}
+
 export interface AssembledDiffResult {
     content: string;
     includedCount: number;
+    /** Files included with only their highest-value hunks */
+    condensedCount: number;
     summaryOnlyCount: number;
+    /** Files and elided parts of files left out of the content */
     overflowFiles: ParsedFileDiff[];
+    /** Treatment of each file, in diff order */
+    treatments: FileTreatmentReport[];
 }
 import { FilePriority } from '../constants/diffClassification';
@@ -9,13 +9,20 @@ import {
     assemblePrioritizedDiff,
     buildChangeSummaryHeader,
     parseDiffIntoFiles,
+    removeFilesFromDiff,
 } from './diff.assemble';
+import { condenseFileDiff, mapDiffLines, scoreHunk, splitFileIntoHunks } from './diff.hunks';
 import { estimateTokenCount, truncateDiff } from './diff.truncate';
 import {
     AssembledDiffResult,
+    CondensedFileDiff,
+    DiffHunk,
+    DiffLineLocation,
     DiffMetadata,
     DiffResult,
     FileCategories,
+    FileTreatment,
+    FileTreatmentReport,
     ParsedFileDiff,
     StatusFile,
     TruncationResult,
@@ -29,6 +36,11 @@ export type {
     TruncationResult,
     ParsedFileDiff,
     AssembledDiffResult,
+    DiffHunk,
+    DiffLineLocation,
+    CondensedFileDiff,
+    FileTreatment,
+    FileTreatmentReport,
 };
 
 export {
@@ -41,6 +53,11 @@ export {
     parseDiffIntoFiles,
     buildChangeSummaryHeader,
     assemblePrioritizedDiff,
+    removeFilesFromDiff,
+    splitFileIntoHunks,
+    scoreHunk,
+    condenseFileDiff,
+    mapDiffLines,
     FilePriority,
 };
 
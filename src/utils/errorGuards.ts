@@ -28,6 +28,23 @@ export function isUserAbortError(error: unknown): boolean {
     );
 }
 
+/**
+ * Check whether an error returned by an LLM provider means the credentials were rejected.
+ */
+export function isAuthenticationError(error: unknown): boolean {
+    if (typeof error === 'object' && error !== null && 'status' in error && error.status === 401) {
+        return true;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const lower = errorMessage.toLowerCase();
+    return (
+        lower.includes('unauthorized') ||
+        lower.includes('authentication') ||
+        lower.includes('api key')
+    );
+}
+
 /**
  * Check if an error is an API key error.
  */
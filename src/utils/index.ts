@@ -1,17 +1,50 @@
-import * as vscode from 'vscode';
+import type * as vscode from 'vscode';
 import { ServiceConfig } from '../types';
 import { ReasoningEffort } from '../types/enums/ReasoningEffort';
+import { LLMProviderId } from '../types/enums/LLMProvider';
+
+/**
+ * Read `otakCommitter.reasoningEffort`
+ *
+ * Ollama and OpenAI-compatible servers only get a value the user set
+ * themselves, not the setting's default.
+ */
+function getReasoningEffortSetting(
+    config: vscode.WorkspaceConfiguration,
+    provider: LLMProviderId,
+): ReasoningEffort | undefined {
+    if (provider === LLMProviderId.Ollama || provider === LLMProviderId.OpenAICompatible) {
+        const inspected = config.inspect<ReasoningEffort>('reasoningEffort');
+        return (
+            inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue
+        );
+    }
+    return config.get<ReasoningEffort>('reasoningEffort') || 'low';
+}
 
 // Configuration Management
 export function getServiceConfig(): ServiceConfig {
-    const config = vscode.workspace.getConfiguration('otakCommitter');
+    // Loaded lazily so the CLI can import these helpers outside VS Code
+    const vscodeApi: typeof vscode = require('vscode');
+    const config = vscodeApi.workspace.getConfiguration('otakCommitter');
+    const provider = config.get<LLMProviderId>('provider') || 'openai';
     return {
         openaiApiKey: config.get<string>('openaiApiKey'),
         githubToken: config.get<string>('github.token'),
         language: config.get<string>('language') || 'english',
         messageStyle: config.get<string>('messageStyle') || 'normal',
         useEmoji: config.get<boolean>('useEmoji') || false,
-        reasoningEffort: config.get<ReasoningEffort>('reasoningEffort') || 'low',
+        reasoningEffort: getReasoningEffortSetting(config, provider),
+        provider,
+        model: config.get<string>('model') || undefined,
+        baseUrl: config.get<string>('baseUrl') || undefined,
+        azureApiVersion: config.get<string>('azureApiVersion') || undefined,
+        models: {
+            commit: config.get<string>('models.commit') || undefined,
+            pr: config.get<string>('models.pr') || undefined,
+            issue: config.get<string>('models.issue') || undefined,
+            summarize: config.get<string>('models.summarize') || undefined,
+        },
     };
 }
 
@@ -44,5 +77,7 @@ export { sanitizeCommitMessage } from './sanitization';
 // Robustness utilities
 export * from './diffUtils';
 export * from './sanitization';
+export * from './secretAllowlist';
 export * from './secretDetection';
+export * from './secretRedaction';
 export * from './errorHandling';
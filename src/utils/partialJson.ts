@@ -0,0 +1,114 @@
+const ESCAPES: Record<string, string> = {
+    '"': '"',
+    '\\': '\\',
+    '/': '/',
+    b: '\b',
+    f: '\f',
+    n: '\n',
+    r: '\r',
+    t: '\t',
+};
+
+/**
+ * Read a JSON string starting at its opening quote
+ *
+ * @returns The decoded text, the index after the closing quote (or the end of
+ *          the input when the string is cut off) and whether it was closed
+ */
+function readString(json: string, start: number): { value: string; end: number; closed: boolean } {
+    let value = '';
+    let index = start + 1;
+    while (index < json.length) {
+        const char = json[index];
+        if (char === '"') {
+            return { value, end: index + 1, closed: true };
+        }
+        if (char !== '\\') {
+            value += char;
+            index++;
+            continue;
+        }
+
+        const escape = json[index + 1];
+        if (escape === undefined) {
+            break;
+        }
+        if (escape === 'u') {
+            const hex = json.slice(index + 2, index + 6);
+            if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+                break;
+            }
+            value += String.fromCharCode(parseInt(hex, 16));
+            index += 6;
+            continue;
+        }
+        value += ESCAPES[escape] ?? escape;
+        index += 2;
+    }
+    return { value, end: json.length, closed: false };
+}
+
+function skipWhitespace(json: string, index: number): number {
+    while (index < json.length && /\s/.test(json[index])) {
+        index++;
+    }
+    return index;
+}
+
+/**
+ * Read the string fields of a flat JSON object that may still be streaming in
+ *
+ * Fields whose value is not a string are skipped; a string cut off mid-way is
+ * returned with the text received so far.
+ *
+ * @param json - Start of a JSON object, possibly incomplete
+ * @returns The string fields found so far
+ *
+ * @example
+ * ```typescript
+ * parsePartialJsonStrings('{"title": "feat: add", "body": "Adds re');
+ * // { title: 'feat: add', body: 'Adds re' }
+ * ```
+ */
+export function parsePartialJsonStrings(json: string): Record<string, string> {
+    const fields: Record<string, string> = {};
+    let index = skipWhitespace(json, 0);
+    if (json[index] !== '{') {
+        return fields;
+    }
+    index++;
+
+    while (index < json.length) {
+        index = skipWhitespace(json, index);
+        if (json[index] !== '"') {
+            break;
+        }
+        const key = readString(json, index);
+        if (!key.closed) {
+            break;
+        }
+
+        index = skipWhitespace(json, key.end);
+        if (json[index] !== ':') {
+            break;
+        }
+        index = skipWhitespace(json, index + 1);
+
+        if (json[index] === '"') {
+            const value = readString(json, index);
+            fields[key.value] = value.value;
+            index = value.end;
+        } else {
+            while (index < json.length && json[index] !== ',' && json[index] !== '}') {
+                index++;
+            }
+        }
+
+        index = skipWhitespace(json, index);
+        if (json[index] !== ',') {
+            break;
+        }
+        index++;
+    }
+    return fields;
+}
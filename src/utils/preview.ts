@@ -4,6 +4,22 @@ import * as path from 'path';
 import * as crypto from 'crypto';
 
 const PREVIEW_DIR_NAME = 'preview';
+/** Minimum delay between rewrites of a streaming preview file */
+const STREAM_WRITE_INTERVAL_MS = 250;
+
+type PreviewFile = { uri: vscode.Uri; document: vscode.TextDocument };
+
+/**
+ * A Markdown preview that is rewritten while its content streams in
+ */
+export interface MarkdownPreviewStream {
+    /** Show the content received so far; writes are throttled */
+    update(content: string): void;
+    /** Write the final content, opening the preview if no update did */
+    finish(content: string): Promise<PreviewFile | undefined>;
+    /** Stop pending writes and close the preview after a failed generation */
+    cancel(): Promise<void>;
+}
 const FALLBACK_PREVIEW_DIR = path.join(os.tmpdir(), 'otak-committer');
 
 function getPreviewDirectoryUri(storageUri?: vscode.Uri): vscode.Uri {
@@ -43,7 +59,7 @@ export async function showMarkdownPreview(
     content: string,
     prefix: string = 'temp',
     storageUri?: vscode.Uri,
-): Promise<{ uri: vscode.Uri; document: vscode.TextDocument } | undefined> {
+): Promise<PreviewFile | undefined> {
     try {
         const previewDir = getPreviewDirectoryUri(storageUri);
         await cleanupPreviewFiles(storageUri);
@@ -63,3 +79,63 @@ export async function showMarkdownPreview(
         return undefined;
     }
 }
+
+/**
+ * Create a Markdown preview that follows content as it streams in
+ *
+ * The first update opens the preview through `showMarkdownPreview`; later
+ * updates rewrite the same file, which the preview picks up on its own.
+ *
+ * @param prefix - Prefix of the preview file name
+ * @param storageUri - Optional storage location for the preview file
+ * @returns The preview stream
+ */
+export function createMarkdownPreviewStream(
+    prefix: string,
+    storageUri?: vscode.Uri,
+): MarkdownPreviewStream {
+    let preview: Promise<PreviewFile | undefined> | undefined;
+    let latest = '';
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let writes: Promise<void> = Promise.resolve();
+
+    const flush = () => {
+        timer = undefined;
+        const content = latest;
+        writes = writes.then(async () => {
+            if (!preview) {
+                preview = showMarkdownPreview(content, prefix, storageUri);
+                await preview;
+                return;
+            }
+            const file = await preview;
+            if (file) {
+                await vscode.workspace.fs
+                    .writeFile(file.uri, new TextEncoder().encode(content))
+                    .then(undefined, () => undefined);
+            }
+        });
+    };
+
+    return {
+        update(content: string): void {
+            latest = content;
+            timer ??= setTimeout(flush, STREAM_WRITE_INTERVAL_MS);
+        },
+        async finish(content: string): Promise<PreviewFile | undefined> {
+            clearTimeout(timer);
+            latest = content;
+            flush();
+            await writes;
+            return preview;
+        },
+        async cancel(): Promise<void> {
+            clearTimeout(timer);
+            timer = undefined;
+            await writes;
+            if (preview) {
+                await closePreviewTabs();
+            }
+        },
+    };
+}
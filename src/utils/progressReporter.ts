@@ -0,0 +1,32 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+const activeReporter = new AsyncLocalStorage<(message: string) => void>();
+
+/**
+ * Run a task whose progress notification can be updated from anywhere it calls
+ *
+ * Services deep below a command, such as the model request retry policy,
+ * call {@link reportProgress} without the notification being threaded
+ * through every function in between.
+ *
+ * @param report - Shows a message in the running task's progress notification
+ * @param task - The task
+ * @returns The task's result
+ */
+export function runWithProgressReporter<T>(
+    report: (message: string) => void,
+    task: () => Promise<T>,
+): Promise<T> {
+    return activeReporter.run(report, task);
+}
+
+/**
+ * Show a message in the progress notification of the task currently running
+ *
+ * Does nothing outside {@link runWithProgressReporter}, for example in the CLI.
+ *
+ * @param message - The message to show below the notification title
+ */
+export function reportProgress(message: string): void {
+    activeReporter.getStore()?.(message);
+}
@@ -0,0 +1,151 @@
+import { splitCommitMessage } from './commitMessage';
+
+/**
+ * A commit in the range being rewritten
+ */
+export interface RangeCommit {
+    hash: string;
+    message: string;
+}
+
+/**
+ * One `pick` in the rewritten history and the commits folded into it
+ */
+export interface RebaseTodoGroup {
+    commit: RangeCommit;
+    /** `fixup!`/`squash!`/`amend!` commits folded into this one, in order */
+    fixups: RangeCommit[];
+    /** Whether the commit gets a newly generated message */
+    reword: boolean;
+}
+
+const AUTOSQUASH_PATTERN = /^(fixup|squash|amend)! (.+)$/;
+
+/**
+ * Todo command per autosquash prefix, as `git rebase --autosquash` writes them
+ *
+ * `squash` keeps the folded commit's message next to its target's, and
+ * `fixup -C` replaces the target's message with the `amend!` commit's.
+ */
+const AUTOSQUASH_COMMANDS: Record<string, string> = {
+    fixup: 'fixup',
+    squash: 'squash',
+    amend: 'fixup -C',
+};
+
+const WIP_PATTERN =
+    /^\s*(?:wip|tmp|temp)\b|^\s*(?:\.+|-+|fix|fixup|update|updates|changes|misc|stuff|test)\s*$/i;
+
+/**
+ * Whether a commit message is a placeholder such as `WIP` or `.`
+ *
+ * @param message - Full commit message
+ * @returns true when the subject says nothing about the change
+ */
+export function isWipMessage(message: string): boolean {
+    return WIP_PATTERN.test(splitCommitMessage(message).subject);
+}
+
+/**
+ * Subject of the commit an autosquash commit (`fixup! <subject>`) targets
+ *
+ * @param message - Full commit message
+ * @returns The target subject, or undefined for a regular commit
+ */
+export function getAutosquashTarget(message: string): string | undefined {
+    let subject = splitCommitMessage(message).subject;
+    let target: string | undefined;
+    // `fixup! fixup! x` targets `x` just like git's autosquash
+    for (;;) {
+        const match = AUTOSQUASH_PATTERN.exec(subject);
+        if (!match) {
+            return target;
+        }
+        target = subject = match[2];
+    }
+}
+
+function getAutosquashCommand(message: string): string {
+    const match = AUTOSQUASH_PATTERN.exec(splitCommitMessage(message).subject);
+    // The outermost prefix decides, so `fixup! squash! x` is a fixup
+    return match ? AUTOSQUASH_COMMANDS[match[1]] : 'fixup';
+}
+
+/**
+ * Plan the rewrite of a commit range
+ *
+ * Autosquash commits are folded into the earlier commit whose subject they
+ * name, as `git rebase --autosquash` would. Placeholder commits, and
+ * autosquash commits whose target is outside the range, are kept but marked
+ * for a new message.
+ *
+ * @param commits - Commits of the range, oldest first
+ * @returns The groups in their new order
+ */
+export function planRebaseTodo(commits: RangeCommit[]): RebaseTodoGroup[] {
+    const groups: RebaseTodoGroup[] = [];
+    for (const commit of commits) {
+        const target = getAutosquashTarget(commit.message);
+        const group =
+            target === undefined
+                ? undefined
+                : groups.find(
+                      (candidate) =>
+                          splitCommitMessage(candidate.commit.message).subject.startsWith(target) ||
+                          candidate.commit.hash.startsWith(target),
+                  );
+        if (group) {
+            group.fixups.push(commit);
+            continue;
+        }
+        groups.push({
+            commit,
+            fixups: [],
+            reword: target !== undefined || isWipMessage(commit.message),
+        });
+    }
+    return groups;
+}
+
+/**
+ * Whether a plan changes anything compared to the range as committed
+ *
+ * @param groups - Result of {@link planRebaseTodo}
+ */
+export function rebasePlanHasChanges(groups: RebaseTodoGroup[]): boolean {
+    return groups.some((group) => group.reword || group.fixups.length > 0);
+}
+
+/**
+ * Write the plan as a `git rebase -i` todo list
+ *
+ * Folded commits get the command their prefix asks for. Reworded commits
+ * are amended by an `exec` line right after their group, so their message
+ * is the generated one whatever the folded commits said.
+ *
+ * @param groups - Result of {@link planRebaseTodo}
+ * @param messageFiles - File holding the new message, by commit hash
+ * @returns The todo list text
+ */
+export function formatRebaseTodo(
+    groups: RebaseTodoGroup[],
+    messageFiles: Map<string, string>,
+): string {
+    const line = (action: string, commit: RangeCommit) =>
+        `${action} ${commit.hash} ${splitCommitMessage(commit.message).subject}`;
+
+    const lines: string[] = [];
+    for (const group of groups) {
+        lines.push(line('pick', group.commit));
+        lines.push(
+            ...group.fixups.map((fixup) => line(getAutosquashCommand(fixup.message), fixup)),
+        );
+
+        const messageFile = messageFiles.get(group.commit.hash);
+        if (group.reword && messageFile) {
+            const quoted = messageFile.replace(/\\/g, '/').replace(/'/g, `'\\''`);
+            lines.push(`exec git commit --amend --no-verify --allow-empty -F '${quoted}'`);
+        }
+    }
+    return `${lines.join('\n')}\n`;
+}
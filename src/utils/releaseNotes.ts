@@ -0,0 +1,218 @@
+import { COMMIT_PREFIXES } from '../constants/commitGuide';
+import { splitCommitMessage } from './commitMessage';
+import type { ConventionalCommit } from './conventionalCommits';
+import type { RangeCommit } from './rebaseTodo';
+
+/**
+ * Keep a Changelog section, in the order the sections appear in a release
+ */
+export type ChangelogSection =
+    | 'Added'
+    | 'Changed'
+    | 'Deprecated'
+    | 'Removed'
+    | 'Fixed'
+    | 'Security';
+
+const SECTION_ORDER: ChangelogSection[] = [
+    'Added',
+    'Changed',
+    'Deprecated',
+    'Removed',
+    'Fixed',
+    'Security',
+];
+
+const SECTION_BY_TYPE: Record<string, ChangelogSection> = {
+    feat: 'Added',
+    fix: 'Fixed',
+    revert: 'Removed',
+    deprecate: 'Deprecated',
+    security: 'Security',
+};
+
+/**
+ * Commits of one type and scope
+ */
+export interface ReleaseNoteGroup {
+    section: ChangelogSection;
+    type?: string;
+    scope?: string;
+    commits: ConventionalCommit[];
+}
+
+const MERGE_PULL_REQUEST = /^Merge pull request #(\d+)\b/;
+
+/**
+ * Read pull request titles from GitHub's `Merge pull request #12 from ...` commits
+ *
+ * @param merges - Merge commits of the range
+ * @returns Title by pull request number, for merges whose body holds one
+ */
+export function readMergedPullRequestTitles(merges: RangeCommit[]): Map<number, string> {
+    const titles = new Map<number, string>();
+    for (const merge of merges) {
+        const { subject, body } = splitCommitMessage(merge.message);
+        const match = MERGE_PULL_REQUEST.exec(subject);
+        const title = body.split('\n')[0].trim();
+        if (match && title) {
+            titles.set(Number(match[1]), title);
+        }
+    }
+    return titles;
+}
+
+function typeOrder(type: string | undefined): number {
+    const index = COMMIT_PREFIXES.findIndex((prefix) => prefix.prefix === type);
+    if (index !== -1) {
+        return index;
+    }
+    return type === undefined ? COMMIT_PREFIXES.length + 1 : COMMIT_PREFIXES.length;
+}
+
+/**
+ * Group commits by Keep a Changelog section, then by type and scope
+ *
+ * Sections follow Keep a Changelog's order; within a section types follow
+ * `COMMIT_PREFIXES`, unknown types and free-form subjects last, and scopes
+ * are sorted with unscoped commits first.
+ *
+ * @param commits - Parsed commits, in any order
+ * @returns The groups, each keeping its commits' original order
+ */
+export function groupReleaseCommits(commits: ConventionalCommit[]): ReleaseNoteGroup[] {
+    const groups = new Map<string, ReleaseNoteGroup>();
+    for (const commit of commits) {
+        const key = `${commit.type ?? ''}\n${commit.scope ?? ''}`;
+        let group = groups.get(key);
+        if (!group) {
+            group = {
+                section: SECTION_BY_TYPE[commit.type ?? ''] ?? 'Changed',
+                type: commit.type,
+                scope: commit.scope,
+                commits: [],
+            };
+            groups.set(key, group);
+        }
+        group.commits.push(commit);
+    }
+
+    return [...groups.values()].sort(
+        (a, b) =>
+            SECTION_ORDER.indexOf(a.section) - SECTION_ORDER.indexOf(b.section) ||
+            typeOrder(a.type) - typeOrder(b.type) ||
+            (a.type ?? '').localeCompare(b.type ?? '') ||
+            (a.scope ?? '').localeCompare(b.scope ?? ''),
+    );
+}
+
+/**
+ * List grouped commits for the release notes prompt
+ *
+ * @param groups - Result of {@link groupReleaseCommits}
+ * @param pullRequestTitles - Title by pull request number, where known
+ * @returns One `### Section` block per section with a line per commit, then
+ *          the pull requests no commit refers to
+ */
+export function formatReleaseNoteGroups(
+    groups: ReleaseNoteGroup[],
+    pullRequestTitles: Map<number, string>,
+): string {
+    const blocks: string[] = [];
+    let section: ChangelogSection | undefined;
+    for (const group of groups) {
+        if (group.section !== section) {
+            section = group.section;
+            blocks.push(`### ${section}`);
+        }
+        const label = group.type
+            ? `${group.type}${group.scope ? `(${group.scope})` : ''}`
+            : 'other';
+        const lines = group.commits.map((commit) => {
+            const references = commit.pullRequests.map((number) => {
+                const title = pullRequestTitles.get(number);
+                return title ? `#${number} "${title}"` : `#${number}`;
+            });
+            const suffix = references.length > 0 ? ` (${references.join(', ')})` : '';
+            const breaking = commit.breaking ? ' [BREAKING]' : '';
+            return `- ${commit.subject}${suffix}${breaking}`;
+        });
+        blocks.push(`${label}:\n${lines.join('\n')}`);
+    }
+
+    // Merge-commit workflows leave the pull request out of the commit subjects
+    const referenced = new Set(
+        groups.flatMap((group) => group.commits.flatMap((c) => c.pullRequests)),
+    );
+    const unreferenced = [...pullRequestTitles].filter(([number]) => !referenced.has(number));
+    if (unreferenced.length > 0) {
+        const lines = unreferenced.map(([number, title]) => `- #${number} "${title}"`);
+        blocks.push(`Pull requests merged in this release:\n${lines.join('\n')}`);
+    }
+    return blocks.join('\n\n');
+}
+
+/**
+ * Heading of a release section, `## [1.2.0] - 2026-01-31` or `## [Unreleased]`
+ *
+ * @param tag - Tag the release ends at; undefined for unreleased changes
+ * @param date - Date of the release as `YYYY-MM-DD`
+ * @returns The Markdown heading
+ */
+export function formatReleaseHeading(tag: string | undefined, date: string): string {
+    if (!tag) {
+        return '## [Unreleased]';
+    }
+    return `## [${tag.replace(/^v(?=\d)/, '')}] - ${date}`;
+}
+
+/**
+ * Clean up the section body the model wrote
+ *
+ * @param text - Model output
+ * @returns The body without a surrounding code fence or a release heading
+ */
+export function normalizeReleaseNotesBody(text: string): string {
+    return text
+        .trim()
+        .replace(/^```(?:markdown|md)?\n([\s\S]*?)\n```$/, '$1')
+        .replace(/^##\s[^\n]*\n+/, '')
+        .trim();
+}
+
+/**
+ * Put a release section into a Keep a Changelog file
+ *
+ * A section with the same heading is replaced; otherwise the new section goes
+ * before the first release section, below the title and introduction.
+ *
+ * @param changelog - Current file content, empty when there is no file yet
+ * @param section - The release section, starting with its `## ` heading
+ * @returns The updated file content
+ */
+export function insertReleaseSection(changelog: string, section: string): string {
+    const block = `${section.trim()}\n`;
+    if (!changelog.trim()) {
+        return `# Changelog\n\n${block}`;
+    }
+
+    const lines = changelog.split('\n');
+    const heading = section.trim().split('\n')[0];
+    const headingName = heading.replace(/\s+-\s+.*$/, '');
+    const isRelease = (line: string) => line.startsWith('## ');
+    const existing = lines.findIndex(
+        (line) => isRelease(line) && line.replace(/\s+-\s+.*$/, '') === headingName,
+    );
+    if (existing !== -1) {
+        const next = lines.findIndex((line, index) => index > existing && isRelease(line));
+        const end = next === -1 ? lines.length : next;
+        const tail = lines.slice(end).join('\n');
+        return [...lines.slice(0, existing), block + (tail ? `\n${tail}` : '')].join('\n');
+    }
+
+    const first = lines.findIndex(isRelease);
+    if (first === -1) {
+        return `${changelog.trimEnd()}\n\n${block}`;
+    }
+    return [...lines.slice(0, first), block, ...lines.slice(first)].join('\n');
+}
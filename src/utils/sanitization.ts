@@ -5,6 +5,8 @@
  * **Validates: Requirements 3.1, 3.2, 3.3, 3.4, 3.5**
  */
 
+import { removeRedactionPlaceholders } from './secretRedaction';
+
 /**
  * Options for sanitization behavior
  */
@@ -139,7 +141,9 @@ function removeMarkdownCodeBlocks(text: string): string {
  */
 export function sanitizeCommitMessage(message: string, options?: SanitizationOptions): string {
     const opts = { ...DEFAULT_OPTIONS, ...options };
-    let result = message;
+
+    // Step 0: Remove placeholders of redacted secrets the model may have copied
+    let result = removeRedactionPlaceholders(message);
 
     // Step 1: Remove markdown code blocks
     result = removeMarkdownCodeBlocks(result);
@@ -0,0 +1,54 @@
+/**
+ * Allowlist of known false positives for secret detection.
+ *
+ * The allowlist stores SHA-256 fingerprints instead of the values, so it can
+ * be committed without repeating what it allows.
+ */
+
+import * as crypto from 'crypto';
+
+/** Prefix of fingerprints as they are shown and written */
+const FINGERPRINT_PREFIX = 'sha256:';
+
+const FINGERPRINT = /^(?:sha256:)?([0-9a-f]{64})$/i;
+
+/**
+ * Fingerprint a detected value for the allowlist
+ *
+ * @param value - The matched text
+ * @returns `sha256:` followed by the hex digest of the value
+ */
+export function fingerprintSecret(value: string): string {
+    return FINGERPRINT_PREFIX + crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Read fingerprints from a `.otakcommitter-secrets-allow` file
+ *
+ * Each line holds one fingerprint, with or without the `sha256:` prefix.
+ * Everything after a `#` is a comment.
+ *
+ * @param text - Content of the file
+ * @param fileName - Name used in warnings
+ * @returns The fingerprints, and a warning for each line that was ignored
+ */
+export function parseSecretAllowlist(
+    text: string,
+    fileName = '.otakcommitter-secrets-allow',
+): { fingerprints: Set<string>; warnings: string[] } {
+    const fingerprints = new Set<string>();
+    const warnings: string[] = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+        const entry = line.replace(/#.*$/, '').trim();
+        if (!entry) {
+            return;
+        }
+        const fingerprint = FINGERPRINT.exec(entry);
+        if (fingerprint) {
+            fingerprints.add(FINGERPRINT_PREFIX + fingerprint[1].toLowerCase());
+        } else {
+            warnings.push(`Ignoring ${fileName}:${index + 1}: not a SHA-256 fingerprint`);
+        }
+    });
+    return { fingerprints, warnings };
+}
@@ -5,9 +5,38 @@
  * to an external model.
  */
 
+import { mapDiffLines } from './diff.hunks';
+import { fingerprintSecret } from './secretAllowlist';
+import { findContextualSecretMatches } from './secretHeuristics';
+
+/**
+ * Where a potential secret was found
+ */
+export interface SecretLocation {
+    patternId: string;
+    /** What to add to `.otakcommitter-secrets-allow` if this is not a secret */
+    fingerprint: string;
+    /** File of the diff the secret was found in */
+    filePath?: string;
+    /** Line in the new version of the file, or in the text when it is not a diff */
+    line?: number;
+}
+
 export interface SecretDetectionResult {
     hasPotentialSecrets: boolean;
     matchedPatternIds: string[];
+    /** Every match that is not allowlisted, in text order */
+    locations: SecretLocation[];
+}
+
+/**
+ * One potential secret found in a text
+ */
+export interface SecretMatch {
+    patternId: string;
+    /** Offset of the match in the text */
+    index: number;
+    value: string;
 }
 
 interface SecretPatternDefinition {
@@ -184,28 +213,66 @@ const DEFAULT_MAX_MATCHES = 5;
 /** Matches 8+ consecutive identical characters (e.g. "xxxxxxxx", "00000000"). */
 const PLACEHOLDER_REPETITION = /(.)\1{7,}/;
 
+/**
+ * Options shared by the secret detection functions
+ */
+export interface SecretDetectionOptions {
+    /** Fingerprints of values known not to be secrets, from `.otakcommitter-secrets-allow` */
+    allowlist?: ReadonlySet<string>;
+}
+
+function* matchPattern(pattern: SecretPattern, text: string): Generator<SecretMatch> {
+    pattern.regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.regex.exec(text)) !== null) {
+        if (PLACEHOLDER_REPETITION.test(match[0])) {
+            continue;
+        }
+        let value = match[0];
+        if (value.startsWith('-----BEGIN')) {
+            const end = /-----END [A-Z ]*PRIVATE KEY(?: BLOCK)?-----/.exec(
+                text.slice(match.index + value.length),
+            );
+            if (end) {
+                value = text.slice(
+                    match.index,
+                    match.index + value.length + end.index + end[0].length,
+                );
+            }
+        }
+        yield { patternId: pattern.id, index: match.index, value };
+    }
+}
+
+function isAllowed(value: string, options: SecretDetectionOptions): boolean {
+    return !!options.allowlist?.has(fingerprintSecret(value));
+}
+
 /**
  * Detect potential secrets in a text blob.
  *
+ * Known key formats are checked first, then the context-aware heuristics of
+ * `findContextualSecretMatches`.
+ *
  * @param text - Input text to inspect
  * @param maxMatches - Maximum number of matched pattern IDs to return
- * @returns Detection result with matched pattern IDs
+ * @param options - Allowlist of values to ignore
+ * @returns Detection result with matched pattern IDs and where each match is
  */
 export function detectPotentialSecrets(
     text: string,
     maxMatches = DEFAULT_MAX_MATCHES,
+    options: SecretDetectionOptions = {},
 ): SecretDetectionResult {
     if (!text || maxMatches <= 0) {
-        return { hasPotentialSecrets: false, matchedPatternIds: [] };
+        return { hasPotentialSecrets: false, matchedPatternIds: [], locations: [] };
     }
 
     const matchedPatternIds: string[] = [];
 
     for (const pattern of SECRET_PATTERNS) {
-        pattern.regex.lastIndex = 0;
-        let match: RegExpExecArray | null;
-        while ((match = pattern.regex.exec(text)) !== null) {
-            if (!PLACEHOLDER_REPETITION.test(match[0])) {
+        for (const match of matchPattern(pattern, text)) {
+            if (!isAllowed(match.value, options)) {
                 matchedPatternIds.push(pattern.id);
                 break;
             }
@@ -216,8 +283,110 @@ export function detectPotentialSecrets(
         }
     }
 
+    for (const match of findContextualSecretMatches(text)) {
+        if (matchedPatternIds.length >= maxMatches) {
+            break;
+        }
+        if (!matchedPatternIds.includes(match.patternId) && !isAllowed(match.value, options)) {
+            matchedPatternIds.push(match.patternId);
+        }
+    }
+
     return {
         hasPotentialSecrets: matchedPatternIds.length > 0,
         matchedPatternIds,
+        locations:
+            matchedPatternIds.length > 0
+                ? locateSecretMatches(text, findSecretMatches(text, options))
+                : [],
     };
 }
+
+/**
+ * Find every potential secret in a text blob
+ *
+ * Overlapping matches are reported once, by the pattern that starts first.
+ * A private key block extends to its END line, so the key itself is covered.
+ *
+ * @param text - Input text to inspect
+ * @param options - Allowlist of values to ignore
+ * @returns The matches in text order
+ */
+export function findSecretMatches(
+    text: string,
+    options: SecretDetectionOptions = {},
+): SecretMatch[] {
+    if (!text) {
+        return [];
+    }
+
+    const matches = [
+        ...SECRET_PATTERNS.flatMap((pattern) => [...matchPattern(pattern, text)]),
+        ...findContextualSecretMatches(text),
+    ].filter((match) => !isAllowed(match.value, options));
+
+    matches.sort((a, b) => a.index - b.index || b.value.length - a.value.length);
+    let coveredUntil = 0;
+    return matches.filter((match) => {
+        if (match.index < coveredUntil) {
+            return false;
+        }
+        coveredUntil = match.index + match.value.length;
+        return true;
+    });
+}
+
+function findLineIndex(lineStarts: number[], offset: number): number {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (lineStarts[mid] <= offset) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return low;
+}
+
+/**
+ * Map matches back to where they are
+ *
+ * In a diff, the hunk headers give the file and its new-file line numbers;
+ * in other text the line is counted from the start.
+ *
+ * @param text - The text the matches were found in
+ * @param matches - Matches from `findSecretMatches`
+ * @returns One location per match, in the same order
+ */
+export function locateSecretMatches(text: string, matches: SecretMatch[]): SecretLocation[] {
+    if (matches.length === 0) {
+        return [];
+    }
+
+    const lines = mapDiffLines(text);
+    const lineStarts = [0];
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+        lineStarts.push(i + 1);
+    }
+    return matches.map((match) => ({
+        patternId: match.patternId,
+        fingerprint: fingerprintSecret(match.value),
+        ...lines[findLineIndex(lineStarts, match.index)],
+    }));
+}
+
+/**
+ * Describe where a secret was found, e.g. `src/config.ts:12 (aws_access_key_id)`
+ *
+ * @param location - The location to describe
+ * @returns The location and pattern
+ */
+export function formatSecretLocation(location: SecretLocation): string {
+    const line = location.line !== undefined ? `:${location.line}` : '';
+    const place = location.filePath
+        ? `${location.filePath}${line}`
+        : `line ${location.line ?? '?'}`;
+    return `${place} (${location.patternId})`;
+}
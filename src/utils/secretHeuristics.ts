@@ -0,0 +1,224 @@
+/**
+ * Context-aware secret heuristics for AI-bound diffs.
+ *
+ * Vendor key formats are matched by `secretDetection`; this module looks at
+ * what surrounds a value instead: the file it is in, the name it is assigned
+ * to, and how random it looks. In a diff only added lines are scanned, since
+ * removed lines are already in the history and context lines are unchanged.
+ */
+
+import { mapDiffLines } from './diff.hunks';
+import type { SecretMatch } from './secretDetection';
+
+/**
+ * How a file's name makes its content sensitive
+ *
+ * - `env`: dotenv files, whose assignments are checked without a keyword
+ * - `key`: key material, whose added content is a secret as a whole
+ */
+export type SensitiveFileKind = 'env' | 'key';
+
+/** Names that make an assigned value a secret on their own */
+const PASSWORD_KEYWORD = /(?:password|passwd|passphrase|pwd|secret)["'`]?$/i;
+
+/** Words that make a random-looking value on the same line suspicious */
+const SECRET_CONTEXT_KEYWORD = /key|token|secret|passw(?:or)?d|pwd|credential|auth/i;
+
+/** `name = "value"`, `name: 'value'`, `name := value` and the like */
+const ASSIGNMENT =
+    /([A-Za-z0-9_.-]+["'`]?)\s*(?:=>|:=|[:=])\s*(?:(["'`])([^"'`\s]*)\2|([^\s"'`,;)]+))/g;
+
+/** Quoted strings without spaces */
+const QUOTED_VALUE = /(["'`])([^"'`\s]+)\1/g;
+
+const AUTHORIZATION_HEADER =
+    /\bAuthorization["'`]?\]?\s*[:=]\s*["'`]?(?:Bearer|Basic|Token)\s+([A-Za-z0-9._~+/=-]{16,})/gi;
+
+const ENCODED_VALUE = /^[A-Za-z0-9+/=_-]{20,}$/;
+const HEX_VALUE = /^[0-9a-f]{32,}$/i;
+
+/** Lowest Shannon entropy, in bits per character, of a random-looking value */
+const MIN_ENCODED_ENTROPY = 3.5;
+const MIN_HEX_ENTROPY = 3;
+
+const MIN_PASSWORD_LENGTH = 6;
+
+const PLACEHOLDER_VALUE =
+    /^(?:x+|\*+|\.+|-+)$|changeme|change_me|placeholder|example|your|dummy|sample|redacted|todo|xxx|\*\*\*|<|>|\$\{|\{\{|%\(|process\.env|os\.environ|(.)\1{7,}/i;
+
+const ENV_FILE = /(?:^|\/)(?:\.env(?:\.[^/]+)?|[^/]+\.env)$/;
+const ENV_TEMPLATE_FILE = /\.(?:example|sample|template|dist|defaults)$/;
+const KEY_FILE =
+    /(?:^|\/)(?:id_(?:rsa|dsa|ecdsa|ed25519)|[^/]+\.(?:pem|key|p12|pfx|jks|keystore))$/;
+
+/**
+ * Shannon entropy of a string in bits per character
+ *
+ * @param value - The string to measure
+ * @returns 0 for an empty or single-character string, up to log2 of its length
+ */
+export function shannonEntropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) {
+        counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const probability = count / value.length;
+        entropy -= probability * Math.log2(probability);
+    }
+    return entropy;
+}
+
+/**
+ * Tell whether a value looks like a generated key rather than a word or name
+ *
+ * Encoded values need upper case, lower case and digits; hex values need
+ * 32 digits. Both need a high entropy, which rules out most identifiers.
+ *
+ * @param value - The candidate value
+ * @returns true for values that look random
+ */
+export function looksRandom(value: string): boolean {
+    if (PLACEHOLDER_VALUE.test(value)) {
+        return false;
+    }
+    if (HEX_VALUE.test(value)) {
+        return shannonEntropy(value) >= MIN_HEX_ENTROPY;
+    }
+    return (
+        ENCODED_VALUE.test(value) &&
+        /[a-z]/.test(value) &&
+        /[A-Z]/.test(value) &&
+        /\d/.test(value) &&
+        shannonEntropy(value) >= MIN_ENCODED_ENTROPY
+    );
+}
+
+/**
+ * Tell whether a file's name makes its content sensitive
+ *
+ * Templates such as `.env.example` are not sensitive, and neither are public
+ * keys such as `id_rsa.pub`.
+ *
+ * @param filePath - Path of the file in the repository
+ * @returns The kind of sensitive file, or undefined for other files
+ */
+export function getSensitiveFileKind(filePath: string): SensitiveFileKind | undefined {
+    if (KEY_FILE.test(filePath)) {
+        return 'key';
+    }
+    if (ENV_FILE.test(filePath) && !ENV_TEMPLATE_FILE.test(filePath)) {
+        return 'env';
+    }
+    return undefined;
+}
+
+function isPassword(value: string): boolean {
+    return (
+        value.length >= MIN_PASSWORD_LENGTH &&
+        /[^A-Za-z]/.test(value) &&
+        !PLACEHOLDER_VALUE.test(value)
+    );
+}
+
+function findLineSecrets(content: string, kind: SensitiveFileKind | undefined): SecretMatch[] {
+    const found: SecretMatch[] = [];
+    const add = (patternId: string, index: number, value: string) => {
+        if (!found.some((match) => match.index === index)) {
+            found.push({ patternId, index, value });
+        }
+    };
+
+    for (const match of content.matchAll(AUTHORIZATION_HEADER)) {
+        const credential = match[1];
+        if (!PLACEHOLDER_VALUE.test(credential)) {
+            add(
+                'authorization_header',
+                match.index + match[0].length - credential.length,
+                credential,
+            );
+        }
+    }
+
+    for (const match of content.matchAll(ASSIGNMENT)) {
+        const [assignment, name, quote, quoted, bare] = match;
+        const value = quoted ?? bare;
+        if (!value) {
+            continue;
+        }
+        const index = match.index + assignment.length - value.length - (quote ? 1 : 0);
+        if (PASSWORD_KEYWORD.test(name) && (quote || kind === 'env') && isPassword(value)) {
+            add('password_assignment', index, value);
+        } else if (looksRandom(value) && (kind === 'env' || SECRET_CONTEXT_KEYWORD.test(content))) {
+            add('high_entropy_string', index, value);
+        }
+    }
+
+    if (SECRET_CONTEXT_KEYWORD.test(content)) {
+        for (const match of content.matchAll(QUOTED_VALUE)) {
+            if (looksRandom(match[2])) {
+                add('high_entropy_string', match.index + 1, match[2]);
+            }
+        }
+    }
+    return found;
+}
+
+/**
+ * Find potential secrets by their context
+ *
+ * In a diff, only added lines are scanned and each file's name decides how:
+ * all added content of key files is one secret per run of lines, dotenv
+ * files have their values checked without a keyword, and other files need a
+ * keyword on the line. Text that is not a diff is scanned as a whole.
+ *
+ * @param text - Input text to inspect, usually a diff
+ * @returns The matches in text order; they may overlap format-based matches
+ */
+export function findContextualSecretMatches(text: string): SecretMatch[] {
+    if (!text) {
+        return [];
+    }
+
+    const isDiff = /^@@ /m.test(text);
+    const locations = isDiff ? mapDiffLines(text) : [];
+    const matches: SecretMatch[] = [];
+    let keyRun: SecretMatch | undefined;
+    let offset = 0;
+
+    text.split('\n').forEach((line, index) => {
+        const lineOffset = offset;
+        offset += line.length + 1;
+
+        const location = locations[index];
+        const added = !isDiff || (line.startsWith('+') && location?.line !== undefined);
+        const kind = location?.filePath ? getSensitiveFileKind(location.filePath) : undefined;
+        if (!added) {
+            keyRun = undefined;
+            return;
+        }
+
+        const contentOffset = isDiff ? lineOffset + 1 : lineOffset;
+        const content = isDiff ? line.slice(1) : line;
+        if (kind === 'key') {
+            if (!content.trim()) {
+                return;
+            }
+            if (keyRun) {
+                keyRun.value = text.slice(keyRun.index, contentOffset + content.length);
+            } else {
+                keyRun = { patternId: 'sensitive_file', index: contentOffset, value: content };
+                matches.push(keyRun);
+            }
+            return;
+        }
+
+        keyRun = undefined;
+        for (const match of findLineSecrets(content, kind)) {
+            matches.push({ ...match, index: contentOffset + match.index });
+        }
+    });
+
+    return matches.sort((a, b) => a.index - b.index);
+}
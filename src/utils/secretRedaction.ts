@@ -0,0 +1,135 @@
+/**
+ * Secret redaction for AI-bound diffs.
+ *
+ * Replaces potential secrets with placeholders such as
+ * `<REDACTED:aws_access_key_id#1>` so the rest of the diff can still be sent,
+ * and keeps those placeholders out of generated messages.
+ */
+
+import {
+    findSecretMatches,
+    locateSecretMatches,
+    type SecretDetectionOptions,
+    type SecretLocation,
+} from './secretDetection';
+
+/** Placeholders put in place of secrets, with optional quotes and one space around them */
+const PLACEHOLDER_PATTERN = /( ?)(["'`]?)<REDACTED:[a-z0-9_]+#\d+>\2( ?)/g;
+
+const PLACEHOLDER = /<REDACTED:[a-z0-9_]+#\d+>/g;
+
+/**
+ * A potential secret replaced by a placeholder
+ */
+export interface SecretRedaction extends SecretLocation {
+    placeholder: string;
+}
+
+/**
+ * Text with its potential secrets replaced
+ */
+export interface SecretRedactionResult {
+    content: string;
+    /** One entry per replaced occurrence, in text order */
+    redactions: SecretRedaction[];
+}
+
+/**
+ * Replaces potential secrets with stable placeholders
+ *
+ * The same secret gets the same placeholder every time it occurs, also
+ * across several texts redacted by one instance, and each pattern numbers
+ * its secrets from 1.
+ */
+export class SecretRedactor {
+    private readonly placeholders = new Map<string, string>();
+    private readonly counts = new Map<string, number>();
+
+    /**
+     * @param options - Allowlist of values to leave in place
+     */
+    constructor(private readonly options: SecretDetectionOptions = {}) {}
+
+    /**
+     * Redact one text, usually a diff
+     *
+     * @param text - The text to redact
+     * @returns The redacted text and where each secret was
+     */
+    redact(text: string): SecretRedactionResult {
+        const matches = findSecretMatches(text, this.options);
+        if (matches.length === 0) {
+            return { content: text, redactions: [] };
+        }
+
+        const locations = locateSecretMatches(text, matches);
+        const redactions: SecretRedaction[] = [];
+        let content = '';
+        let copiedUntil = 0;
+        matches.forEach((match, index) => {
+            const placeholder = this.getPlaceholder(match.patternId, match.value);
+            redactions.push({ ...locations[index], placeholder });
+            content += text.slice(copiedUntil, match.index) + placeholder;
+            copiedUntil = match.index + match.value.length;
+        });
+        return { content: content + text.slice(copiedUntil), redactions };
+    }
+
+    private getPlaceholder(patternId: string, value: string): string {
+        const existing = this.placeholders.get(value);
+        if (existing) {
+            return existing;
+        }
+        const count = (this.counts.get(patternId) ?? 0) + 1;
+        this.counts.set(patternId, count);
+        const placeholder = `<REDACTED:${patternId}#${count}>`;
+        this.placeholders.set(value, placeholder);
+        return placeholder;
+    }
+}
+
+/**
+ * Replace the potential secrets of a text with placeholders
+ *
+ * @param text - The text to redact, usually a diff
+ * @param options - Allowlist of values to leave in place
+ * @returns The redacted text and where each secret was
+ */
+export function redactSecrets(
+    text: string,
+    options: SecretDetectionOptions = {},
+): SecretRedactionResult {
+    return new SecretRedactor(options).redact(text);
+}
+
+/**
+ * Count the redaction placeholders in a text
+ *
+ * @param text - A redacted text, or part of one
+ * @returns Number of placeholders
+ */
+export function countRedactionPlaceholders(text: string): number {
+    return text.match(PLACEHOLDER)?.length ?? 0;
+}
+
+/**
+ * Remove redaction placeholders the model copied into its output
+ *
+ * Quotes around a placeholder go with it, and so does one of the spaces
+ * that surrounded it. Removal repeats until no placeholder is left.
+ *
+ * @param text - Generated text
+ * @returns The text without placeholders
+ */
+export function removeRedactionPlaceholders(text: string): string {
+    let result = text;
+    let previous: string;
+    do {
+        previous = result;
+        result = result.replace(
+            PLACEHOLDER_PATTERN,
+            (_match, before: string, _quote, after: string) => (before && after ? ' ' : ''),
+        );
+    } while (result !== previous);
+    return result;
+}
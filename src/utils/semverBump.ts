@@ -0,0 +1,138 @@
+import type { ConventionalCommit } from './conventionalCommits';
+
+/**
+ * A `MAJOR.MINOR.PATCH` version read from a tag
+ */
+export interface TagVersion {
+    /** Text before the version, usually `v` or empty */
+    prefix: string;
+    major: number;
+    minor: number;
+    patch: number;
+    /** Pre-release identifiers after `-`, such as `rc.1` */
+    prerelease?: string;
+}
+
+/**
+ * Which part of the version a set of commits calls for
+ */
+export type VersionBump = 'major' | 'minor' | 'patch' | 'none';
+
+/**
+ * Suggested next version and the commits that led to it
+ */
+export interface VersionBumpSuggestion {
+    bump: VersionBump;
+    /** The next version tag, keeping the prefix of the current one; undefined for `none` */
+    next?: string;
+    breaking: ConventionalCommit[];
+    features: ConventionalCommit[];
+    fixes: ConventionalCommit[];
+    /** Breaking changes only bump the minor version before 1.0.0 */
+    preMajor: boolean;
+}
+
+const TAG_VERSION_PATTERN = /^(.*?)(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Read a semantic version from a tag such as `v1.2.3` or `release-1.2.3-rc.1`
+ *
+ * @param tag - Tag name
+ * @returns The version, or undefined when the tag holds none
+ */
+export function parseTagVersion(tag: string): TagVersion | undefined {
+    const match = TAG_VERSION_PATTERN.exec(tag.trim());
+    if (!match) {
+        return undefined;
+    }
+    return {
+        prefix: match[1],
+        major: Number(match[2]),
+        minor: Number(match[3]),
+        patch: Number(match[4]),
+        prerelease: match[5],
+    };
+}
+
+/**
+ * The most recent release tag among tags sorted newest version first
+ *
+ * Pre-release tags are skipped, so `v2.0.0-rc.1` does not hide `v1.4.0`.
+ *
+ * @param tags - Tag names, highest version first
+ * @returns The tag and its version, or undefined when no tag holds a release version
+ */
+export function findLatestReleaseTag(
+    tags: string[],
+): { tag: string; version: TagVersion } | undefined {
+    for (const tag of tags) {
+        const version = parseTagVersion(tag);
+        if (version && !version.prerelease) {
+            return { tag, version };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Format a version as a tag, keeping the given prefix
+ *
+ * @param version - The version
+ * @returns The tag name, such as `v1.3.0`
+ */
+export function formatTagVersion(version: TagVersion): string {
+    const core = `${version.prefix}${version.major}.${version.minor}.${version.patch}`;
+    return version.prerelease ? `${core}-${version.prerelease}` : core;
+}
+
+/**
+ * Suggest the next version from the Conventional Commits since the last release
+ *
+ * Breaking changes bump the major version, features the minor and fixes the
+ * patch version. Before 1.0.0 a breaking change bumps the minor version, as
+ * the public API is not considered stable yet. Other commit types call for
+ * no release.
+ *
+ * @param commits - Commits since the last release
+ * @param current - Version of the last release; `0.0.0` without `v` when there is none
+ * @returns The bump, the next version and the commits behind it
+ */
+export function suggestVersionBump(
+    commits: ConventionalCommit[],
+    current: TagVersion = { prefix: '', major: 0, minor: 0, patch: 0 },
+): VersionBumpSuggestion {
+    const breaking = commits.filter((commit) => commit.breaking);
+    const features = commits.filter((commit) => !commit.breaking && commit.type === 'feat');
+    const fixes = commits.filter((commit) => !commit.breaking && commit.type === 'fix');
+    const preMajor = current.major === 0;
+
+    let bump: VersionBump = 'none';
+    if (breaking.length > 0) {
+        bump = preMajor ? 'minor' : 'major';
+    } else if (features.length > 0) {
+        bump = 'minor';
+    } else if (fixes.length > 0) {
+        bump = 'patch';
+    }
+
+    return {
+        bump,
+        next: bump === 'none' ? undefined : formatTagVersion(incrementVersion(current, bump)),
+        breaking,
+        features,
+        fixes,
+        preMajor,
+    };
+}
+
+function incrementVersion(version: TagVersion, bump: Exclude<VersionBump, 'none'>): TagVersion {
+    const { prefix, major, minor, patch } = version;
+    switch (bump) {
+        case 'major':
+            return { prefix, major: major + 1, minor: 0, patch: 0 };
+        case 'minor':
+            return { prefix, major, minor: minor + 1, patch: 0 };
+        case 'patch':
+            return { prefix, major, minor, patch: patch + 1 };
+    }
+}
@@ -0,0 +1,180 @@
+/**
+ * Offline token counting with the o200k_base encoding
+ *
+ * o200k_base is the byte-pair encoding of GPT-4o and later OpenAI models. It
+ * ships with the extension, so counting never needs the network. The encoder
+ * is loaded on first use because building its merge table takes a moment.
+ *
+ * Counts are exact for ordinary text. Very large texts and very long runs
+ * without whitespace, such as base64 blobs, are estimated from a sample so
+ * that a single huge file cannot stall diff preparation.
+ */
+
+type O200kEncoding = typeof import('gpt-tokenizer/cjs/encoding/o200k_base');
+
+/**
+ * Longest piece of text encoded in one call
+ *
+ * Byte-pair merging slows down sharply on long runs without whitespace, such
+ * as minified code or base64 blobs, so text is encoded in line-aligned pieces.
+ */
+const MAX_PIECE_CHARS = 4096;
+
+/**
+ * Longest run without whitespace that is encoded in full
+ *
+ * Longer runs are counted from their first characters and scaled by length;
+ * such runs are rarely sent to the model as they are.
+ */
+const MAX_RUN_CHARS = 256;
+
+/** Runs without whitespace longer than {@link MAX_RUN_CHARS}, kept by `split` */
+const LONG_RUN = new RegExp(`(\\S{${MAX_RUN_CHARS + 1},})`);
+
+/** Longest text counted in full; longer texts are estimated from evenly spaced pieces */
+const MAX_EXACT_CHARS = 256 * 1024;
+
+/** Characters encoded when estimating a text longer than {@link MAX_EXACT_CHARS} */
+const SAMPLE_CHARS = 64 * 1024;
+
+/** Special tokens like `<|endoftext|>` are counted as the plain text they are in a diff */
+const ENCODE_OPTIONS = { disallowedSpecial: new Set<string>() };
+
+/** Largest number of UTF-8 bytes a single UTF-16 code unit can take */
+const MAX_BYTES_PER_CHAR = 3;
+
+let encoding: O200kEncoding | undefined;
+
+function getEncoding(): O200kEncoding {
+    if (!encoding) {
+        encoding = require('gpt-tokenizer/cjs/encoding/o200k_base') as O200kEncoding;
+    }
+    return encoding;
+}
+
+function* splitIntoPieces(text: string): Generator<string> {
+    let start = 0;
+    while (start < text.length) {
+        let end = Math.min(start + MAX_PIECE_CHARS, text.length);
+        if (end < text.length) {
+            // Searching the whole text backwards would make splitting quadratic
+            const newline = text.slice(start, end).lastIndexOf('\n');
+            if (newline >= 0) {
+                end = start + newline + 1;
+            } else if (/[\uD800-\uDBFF]/.test(text[end - 1])) {
+                end--;
+            }
+        }
+        yield text.slice(start, end);
+        start = end;
+    }
+}
+
+function countPieceTokens(piece: string): number {
+    let count = 0;
+    piece.split(LONG_RUN).forEach((part, index) => {
+        if (index % 2 === 0) {
+            count += part ? getEncoding().countTokens(part, ENCODE_OPTIONS) : 0;
+        } else {
+            const sample = part.slice(0, MAX_RUN_CHARS);
+            const tokens = getEncoding().countTokens(sample, ENCODE_OPTIONS);
+            count += Math.ceil((tokens * part.length) / sample.length);
+        }
+    });
+    return count;
+}
+
+function estimateTokens(text: string): number {
+    const pieces = [...splitIntoPieces(text)];
+    const step = Math.max(1, Math.floor(text.length / SAMPLE_CHARS));
+    let sampledChars = 0;
+    let sampledTokens = 0;
+    for (let index = 0; index < pieces.length; index += step) {
+        sampledChars += pieces[index].length;
+        sampledTokens += countPieceTokens(pieces[index]);
+    }
+    return Math.ceil((sampledTokens * text.length) / sampledChars);
+}
+
+/**
+ * Count the tokens of a text
+ *
+ * Texts longer than 256 KiB are estimated from a 64 KiB sample, and runs
+ * without whitespace longer than 256 characters from their start.
+ *
+ * @param text - The text to count
+ * @returns Number of o200k_base tokens
+ *
+ * @example
+ * ```typescript
+ * countTokens('Hello, world!'); // 4
+ * ```
+ */
+export function countTokens(text: string): number {
+    if (text.length > MAX_EXACT_CHARS) {
+        return estimateTokens(text);
+    }
+    let count = 0;
+    for (const piece of splitIntoPieces(text)) {
+        count += countPieceTokens(piece);
+    }
+    return count;
+}
+
+/**
+ * Check whether a text fits in a token budget
+ *
+ * Every token covers at least one UTF-8 byte, so texts with no more bytes than
+ * the budget are accepted without loading the encoder. Texts that are too
+ * large to count in full are compared by their estimate; the others are
+ * counted piece by piece until the budget is exceeded.
+ *
+ * @param text - The text to check
+ * @param limit - Maximum number of tokens
+ * @returns True if the text has at most `limit` tokens
+ */
+export function isWithinTokenLimit(text: string, limit: number): boolean {
+    if (text.length * MAX_BYTES_PER_CHAR <= limit || Buffer.byteLength(text, 'utf8') <= limit) {
+        return true;
+    }
+    if (text.length > MAX_EXACT_CHARS) {
+        return estimateTokens(text) <= limit;
+    }
+    let count = 0;
+    for (const piece of splitIntoPieces(text)) {
+        count += countPieceTokens(piece);
+        if (count > limit) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Cut a text down to its longest prefix that fits in a token budget
+ *
+ * @param text - The text to truncate
+ * @param maxTokens - Maximum number of tokens to keep
+ * @returns The text itself when it fits, otherwise a prefix of it
+ */
+export function truncateToTokenLimit(text: string, maxTokens: number): string {
+    if (isWithinTokenLimit(text, maxTokens)) {
+        return text;
+    }
+    let kept = 0;
+    let remaining = maxTokens;
+    for (const piece of splitIntoPieces(text)) {
+        const tokens = getEncoding().encode(piece, ENCODE_OPTIONS);
+        if (tokens.length > remaining) {
+            // Decoding a partial token sequence can end inside a character
+            let partial = getEncoding().decode(tokens.slice(0, Math.max(0, remaining)));
+            while (partial && !piece.startsWith(partial)) {
+                partial = partial.slice(0, -1);
+            }
+            return text.slice(0, kept) + partial;
+        }
+        kept += piece.length;
+        remaining -= tokens.length;
+    }
+    return text;
+}
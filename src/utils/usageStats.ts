@@ -0,0 +1,192 @@
+import type { UsageOperation } from '../types';
+
+/**
+ * Tokens consumed by one or more model requests
+ */
+export interface UsageTotals {
+    requests: number;
+    inputTokens: number;
+    /** Generated tokens, reasoning included */
+    outputTokens: number;
+    /** Part of `outputTokens` spent on reasoning */
+    reasoningTokens: number;
+}
+
+/**
+ * Recorded usage, keyed by local day (`YYYY-MM-DD`), operation and model
+ */
+export type UsageLog = Record<string, Partial<Record<UsageOperation, Record<string, UsageTotals>>>>;
+
+/**
+ * Usage of one operation with one model on one day
+ */
+export interface UsageEntry {
+    day: string;
+    operation: UsageOperation;
+    model: string;
+    totals: UsageTotals;
+}
+
+/**
+ * Price of a model in US dollars per million tokens
+ */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+/**
+ * Prices keyed by model name prefix, such as `gpt-5-mini` or `claude-sonnet-4`
+ */
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+/**
+ * Estimated cost of some usage
+ */
+export interface UsageCost {
+    /** Cost in US dollars of the priced models */
+    cost: number;
+    /** Models without a price, left out of the cost */
+    unpricedModels: string[];
+}
+
+const EMPTY_TOTALS: UsageTotals = {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+};
+
+/**
+ * Format a date as the local day used as a {@link UsageLog} key
+ *
+ * @param date - The date
+ * @returns The day as `YYYY-MM-DD`
+ */
+export function formatUsageDay(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Format a cost in US dollars, with more digits for amounts below a cent
+ *
+ * @param cost - Cost in US dollars
+ * @returns The cost, such as `$1.25` or `$0.0042`
+ */
+export function formatUsageCost(cost: number): string {
+    return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+}
+
+function addTotals(a: UsageTotals, b: UsageTotals): UsageTotals {
+    return {
+        requests: a.requests + b.requests,
+        inputTokens: a.inputTokens + b.inputTokens,
+        outputTokens: a.outputTokens + b.outputTokens,
+        reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+    };
+}
+
+/**
+ * Add one request's tokens to the log
+ *
+ * @param log - The log; left unchanged
+ * @param entry - Day, operation and model of the request
+ * @param usage - Tokens the request consumed
+ * @returns A new log including the request
+ */
+export function addUsage(
+    log: UsageLog,
+    entry: Omit<UsageEntry, 'totals'>,
+    usage: Omit<UsageTotals, 'requests'>,
+): UsageLog {
+    const day = log[entry.day] ?? {};
+    const operation = day[entry.operation] ?? {};
+    const totals = addTotals(operation[entry.model] ?? EMPTY_TOTALS, { ...usage, requests: 1 });
+    return {
+        ...log,
+        [entry.day]: { ...day, [entry.operation]: { ...operation, [entry.model]: totals } },
+    };
+}
+
+/**
+ * Drop the days before a given day
+ *
+ * @param log - The log; left unchanged
+ * @param firstDay - Oldest day to keep, as `YYYY-MM-DD`
+ * @returns A new log without the older days
+ */
+export function pruneUsageLog(log: UsageLog, firstDay: string): UsageLog {
+    return Object.fromEntries(Object.entries(log).filter(([day]) => day >= firstDay));
+}
+
+/**
+ * List the usage of every day, operation and model, oldest day first
+ *
+ * @param log - The log
+ * @param dayPrefix - Only days starting with this, such as `2026-10` for a month
+ * @returns The entries
+ */
+export function listUsage(log: UsageLog, dayPrefix = ''): UsageEntry[] {
+    const entries: UsageEntry[] = [];
+    for (const day of Object.keys(log).sort()) {
+        if (!day.startsWith(dayPrefix)) {
+            continue;
+        }
+        for (const [operation, models] of Object.entries(log[day])) {
+            for (const [model, totals] of Object.entries(models ?? {})) {
+                entries.push({ day, operation: operation as UsageOperation, model, totals });
+            }
+        }
+    }
+    return entries;
+}
+
+/**
+ * Add up the totals of some entries
+ *
+ * @param entries - The entries
+ * @returns Their combined totals
+ */
+export function sumUsage(entries: UsageEntry[]): UsageTotals {
+    return entries.reduce((sum, entry) => addTotals(sum, entry.totals), EMPTY_TOTALS);
+}
+
+/**
+ * Find the price of a model; the longest matching name prefix wins
+ *
+ * @param model - Model name, compared case-insensitively
+ * @param prices - The price table
+ * @returns The price, or undefined when no prefix matches
+ */
+export function findModelPrice(model: string, prices: ModelPriceTable): ModelPrice | undefined {
+    const name = model.toLowerCase();
+    const prefix = Object.keys(prices)
+        .filter((candidate) => name.startsWith(candidate.toLowerCase()))
+        .sort((a, b) => b.length - a.length)[0];
+    return prefix === undefined ? undefined : prices[prefix];
+}
+
+/**
+ * Estimate the cost of some entries
+ *
+ * Reasoning tokens are billed as output tokens, which already include them.
+ *
+ * @param entries - The entries
+ * @param prices - The price table
+ * @returns The cost of the priced models and the names of the others
+ */
+export function estimateUsageCost(entries: UsageEntry[], prices: ModelPriceTable): UsageCost {
+    let cost = 0;
+    const unpricedModels = new Set<string>();
+    for (const { model, totals } of entries) {
+        const price = findModelPrice(model, prices);
+        if (!price) {
+            unpricedModels.add(model);
+            continue;
+        }
+        cost += (totals.inputTokens * price.input + totals.outputTokens * price.output) / 1e6;
+    }
+    return { cost, unpricedModels: [...unpricedModels].sort() };
+}